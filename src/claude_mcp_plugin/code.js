@@ -26,7 +26,7 @@ function safePaint(color) {
 
 // Plugin state
 const state = {
-  serverPort: 3055, // Default port
+  relayUrl: "ws://localhost:3055", // Default relay address
 };
 
 // Helper function for progress updates
@@ -61,7 +61,7 @@ function sendProgressUpdate(commandId, commandType, status, progress, totalItems
 }
 
 // Show UI
-figma.showUI(__html__, { width: 300, height: 220 });
+figma.showUI(__html__, { width: 300, height: 268 });
 
 // Plugin commands from UI
 figma.ui.onmessage = async (msg) => {
@@ -79,6 +79,9 @@ figma.ui.onmessage = async (msg) => {
       // Execute commands received from UI (which gets them from WebSocket)
       try {
         const result = await handleCommand(msg.command, msg.params);
+        if (VARIABLE_COMMANDS.indexOf(msg.command) !== -1) {
+          queueDocumentEvent({ variables: true });
+        }
         // Send result back to UI
         figma.ui.postMessage({
           type: "command-result",
@@ -98,17 +101,18 @@ figma.ui.onmessage = async (msg) => {
 
 // Listen for plugin commands from menu
 figma.on("run", ({ command }) => {
-  figma.ui.postMessage({ type: "auto-connect" });
+  // Wait for the saved relay address so the UI connects to it
+  settingsReady.then(() => figma.ui.postMessage({ type: "auto-connect" }));
 });
 
 // Update plugin settings
 function updateSettings(settings) {
-  if (settings.serverPort) {
-    state.serverPort = settings.serverPort;
+  if (settings.relayUrl) {
+    state.relayUrl = settings.relayUrl;
   }
 
   figma.clientStorage.setAsync("settings", {
-    serverPort: state.serverPort,
+    relayUrl: state.relayUrl,
   });
 }
 
@@ -125,7 +129,10 @@ async function getNodeByIdSafe(nodeId) {
 async function handleCommand(command, params) {
   switch (command) {
     case "ping":
-      return { status: "ok" };
+      // The file lets the server tell channels apart when it has joined several
+      return { status: "ok", fileKey: figma.fileKey || null, fileName: figma.root.name };
+    case "enable_document_events":
+      return await enableDocumentEvents();
     case "get_document_info":
       return await getDocumentInfo();
     case "get_selection":
@@ -134,7 +141,7 @@ async function handleCommand(command, params) {
       if (!params || !params.nodeId) {
         throw new Error("Missing nodeId parameter");
       }
-      return await getNodeInfo(params.nodeId);
+      return await getNodeInfo(params.nodeId, params);
     case "get_nodes_info":
       if (!params || !params.nodeIds || !Array.isArray(params.nodeIds)) {
         throw new Error("Missing or invalid nodeIds parameter");
@@ -159,9 +166,9 @@ async function handleCommand(command, params) {
     case "delete_node":
       return await deleteNode(params);
     case "get_styles":
-      return await getStyles();
+      return await getStyles(params);
     case "get_local_components":
-      return await getLocalComponents();
+      return await getLocalComponents(params);
     // case "get_team_components":
     //   return await getTeamComponents();
     case "create_component_instance":
@@ -300,9 +307,13 @@ async function handleCommand(command, params) {
       return await applyVariableToNode(params);
     case "switch_variable_mode":
       return await switchVariableMode(params);
+    case "import_variables":
+      return await importVariables(params);
+    case "bind_variables_by_value":
+      return await bindVariablesByValue(params);
     // ── FigJam commands ──────────────────────────────────────────────────
     case "get_figjam_elements":
-      return await getFigJamElements();
+      return await getFigJamElements(params);
     case "create_sticky":
       return await createSticky(params);
     case "set_sticky_text":
@@ -325,6 +336,22 @@ async function handleCommand(command, params) {
       return await createPaintStyle(params);
     case "create_effect_style":
       return await createEffectStyle(params);
+    case "set_fill_style_id":
+      return await setFillStyleId(params);
+    case "execute_batch":
+      return await executeBatch(params);
+    case "create_from_spec":
+      return await createFromSpec(params);
+    case "find_nodes":
+      return await findNodes(params);
+    case "resolve_node_paths":
+      return await resolveNodePaths(params);
+    case "get_outline":
+      return await getOutline(params);
+    case "get_node_snapshot":
+      return await getNodeSnapshot(params);
+    case "restore_node_snapshot":
+      return await restoreNodeSnapshot(params);
     default:
       throw new Error(`Unknown command: ${command}`);
   }
@@ -371,7 +398,7 @@ async function getSelection() {
   };
 }
 
-async function getNodeInfo(nodeId) {
+async function getNodeInfo(nodeId, options = {}) {
   const node = await getNodeByIdSafe(nodeId);
 
   if (!node) {
@@ -390,9 +417,36 @@ async function getNodeInfo(nodeId) {
     };
   }
 
+  response.document.path = getNodePath(node);
+
+  // The REST export does not say which frames were detached from a component; add it on request
+  if (options.includeDetachedInfo) {
+    annotateDetachedInfo(node, response.document);
+  }
+
   return response.document;
 }
 
+// Copy detachedInfo from plugin nodes onto the matching nodes of a REST export
+function annotateDetachedInfo(node, document) {
+  const detached = [node].concat("findAll" in node ? node.findAll(n => !!n.detachedInfo) : [])
+    .filter(n => !!n.detachedInfo);
+  if (detached.length === 0) return;
+
+  const byId = {};
+  const index = (exported) => {
+    byId[exported.id] = exported;
+    (exported.children || []).forEach(index);
+  };
+  index(document);
+
+  for (const detachedNode of detached) {
+    if (byId[detachedNode.id]) {
+      byId[detachedNode.id].detachedInfo = detachedNode.detachedInfo;
+    }
+  }
+}
+
 async function getNodesInfo(nodeIds) {
   try {
     // Load all nodes in parallel
@@ -417,6 +471,7 @@ async function getNodesInfo(nodeIds) {
             y: node.y
           };
         }
+        doc.path = getNodePath(node);
         return {
           nodeId: node.id,
           document: doc,
@@ -952,55 +1007,96 @@ async function deleteNode(params) {
   return nodeInfo;
 }
 
-async function getStyles() {
-  const styles = {
-    colors: await figma.getLocalPaintStylesAsync(),
-    texts: await figma.getLocalTextStylesAsync(),
-    effects: await figma.getLocalEffectStylesAsync(),
-    grids: await figma.getLocalGridStylesAsync(),
+// Page size of listing commands when no limit is given
+const DEFAULT_PAGE_SIZE = 100;
+
+// One page of a filtered listing. The cursor is the offset of the page's first item.
+function paginate(items, params) {
+  const { limit = DEFAULT_PAGE_SIZE, cursor } = params || {};
+  const offset = cursor ? parseInt(cursor, 10) : 0;
+  if (!(offset >= 0)) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+  if (!(limit >= 1)) {
+    throw new Error(`Invalid limit: ${limit}`);
+  }
+
+  return {
+    items: items.slice(offset, offset + limit),
+    total: items.length,
+    nextCursor: offset + limit < items.length ? String(offset + limit) : null,
+  };
+}
+
+function matchesNamePrefix(name, namePrefix) {
+  return !namePrefix || String(name).toLowerCase().indexOf(namePrefix.toLowerCase()) === 0;
+}
+
+async function getStyles(params) {
+  const { type, namePrefix } = params || {};
+
+  // Styles are paged in one list, colors first, then regrouped by kind
+  const styles = [];
+  const addStyles = async (styleType, loadStyles) => {
+    if (type && type !== styleType) return;
+    for (const style of await loadStyles()) {
+      if (matchesNamePrefix(style.name, namePrefix)) styles.push({ styleType: styleType, style: style });
+    }
   };
+  await addStyles("PAINT", () => figma.getLocalPaintStylesAsync());
+  await addStyles("TEXT", () => figma.getLocalTextStylesAsync());
+  await addStyles("EFFECT", () => figma.getLocalEffectStylesAsync());
+  await addStyles("GRID", () => figma.getLocalGridStylesAsync());
+
+  const page = paginate(styles, params);
+  const ofType = (styleType) => page.items.filter((item) => item.styleType === styleType).map((item) => item.style);
 
   return {
-    colors: styles.colors.map((style) => ({
+    colors: ofType("PAINT").map((style) => ({
       id: style.id,
       name: style.name,
       key: style.key,
       paint: style.paints[0],
     })),
-    texts: styles.texts.map((style) => ({
+    texts: ofType("TEXT").map((style) => ({
       id: style.id,
       name: style.name,
       key: style.key,
       fontSize: style.fontSize,
       fontName: style.fontName,
     })),
-    effects: styles.effects.map((style) => ({
+    effects: ofType("EFFECT").map((style) => ({
       id: style.id,
       name: style.name,
       key: style.key,
     })),
-    grids: styles.grids.map((style) => ({
+    grids: ofType("GRID").map((style) => ({
       id: style.id,
       name: style.name,
       key: style.key,
     })),
+    total: page.total,
+    nextCursor: page.nextCursor,
   };
 }
 
-async function getLocalComponents() {
+async function getLocalComponents(params) {
+  const { namePrefix } = params || {};
   await figma.loadAllPagesAsync();
 
   const components = figma.root.findAllWithCriteria({
     types: ["COMPONENT"],
-  });
+  }).filter((component) => matchesNamePrefix(component.name, namePrefix));
+  const page = paginate(components, params);
 
   return {
-    count: components.length,
-    components: components.map((component) => ({
+    count: page.total,
+    components: page.items.map((component) => ({
       id: component.id,
       name: component.name,
       key: "key" in component ? component.key : null,
     })),
+    nextCursor: page.nextCursor,
   };
 }
 
@@ -1380,12 +1476,12 @@ async function setTextContent(params) {
 }
 
 // Initialize settings on load
-(async function initializePlugin() {
+const settingsReady = (async function initializePlugin() {
   try {
     const savedSettings = await figma.clientStorage.getAsync("settings");
     if (savedSettings) {
-      if (savedSettings.serverPort) {
-        state.serverPort = savedSettings.serverPort;
+      if (savedSettings.relayUrl) {
+        state.relayUrl = savedSettings.relayUrl;
       }
     }
 
@@ -1393,7 +1489,7 @@ async function setTextContent(params) {
     figma.ui.postMessage({
       type: "init-settings",
       settings: {
-        serverPort: state.serverPort,
+        relayUrl: state.relayUrl,
       },
     });
   } catch (error) {
@@ -1670,7 +1766,7 @@ async function cloneNode(params) {
 
 async function scanTextNodes(params) {
   console.log(`Starting to scan text nodes from node ID: ${params.nodeId}`);
-  const { nodeId, useChunking = true, chunkSize = 10, commandId = generateCommandId() } = params || {};
+  const { nodeId, useChunking = true, chunkSize = 10, namePrefix, commandId = generateCommandId() } = params || {};
 
   const node = await getNodeByIdSafe(nodeId);
 
@@ -1707,6 +1803,7 @@ async function scanTextNodes(params) {
       );
 
       await findTextNodes(node, [], 0, textNodes);
+      const page = paginate(textNodes.filter((textNode) => matchesNamePrefix(textNode.name, namePrefix)), params);
 
       // Send completed progress update
       sendProgressUpdate(
@@ -1717,14 +1814,15 @@ async function scanTextNodes(params) {
         textNodes.length,
         textNodes.length,
         `Scan complete. Found ${textNodes.length} text nodes.`,
-        { textNodes }
+        { textNodes: page.items }
       );
 
       return {
         success: true,
         message: `Scanned ${textNodes.length} text nodes.`,
-        count: textNodes.length,
-        textNodes: textNodes,
+        count: page.total,
+        textNodes: page.items,
+        nextCursor: page.nextCursor,
         commandId
       };
     } catch (error) {
@@ -1750,7 +1848,7 @@ async function scanTextNodes(params) {
   console.log(`Using chunked scanning with chunk size: ${chunkSize}`);
 
   // First, collect all nodes to process (without processing them yet)
-  const nodesToProcess = [];
+  const collectedNodes = [];
 
   // Send started progress update
   sendProgressUpdate(
@@ -1764,7 +1862,13 @@ async function scanTextNodes(params) {
     { chunkSize }
   );
 
-  await collectNodesToProcess(node, [], 0, nodesToProcess);
+  await collectNodesToProcess(node, [], 0, collectedNodes);
+
+  // Only the requested page of matching text nodes is processed
+  const page = paginate(collectedNodes.filter((nodeInfo) =>
+    nodeInfo.node.type === "TEXT" && matchesNamePrefix(nodeInfo.node.name, namePrefix)
+  ), params);
+  const nodesToProcess = page.items;
 
   const totalNodes = nodesToProcess.length;
   console.log(`Found ${totalNodes} total nodes to process`);
@@ -1882,11 +1986,12 @@ async function scanTextNodes(params) {
 
   return {
     success: true,
-    message: `Chunked scan complete. Found ${allTextNodes.length} text nodes.`,
-    totalNodes: allTextNodes.length,
+    message: `Chunked scan complete. Found ${page.total} text nodes.`,
+    totalNodes: page.total,
     processedNodes: processedNodes,
     chunks: chunksProcessed,
     textNodes: allTextNodes,
+    nextCursor: page.nextCursor,
     commandId
   };
 }
@@ -2810,7 +2915,8 @@ async function loadFontAsyncWrapper(params) {
   }
 }
 
-async function getRemoteComponents() {
+async function getRemoteComponents(params) {
+  const { namePrefix, libraryName } = params || {};
   try {
     // Check if figma.teamLibrary is available
     if (!figma.teamLibrary) {
@@ -2845,15 +2951,20 @@ async function getRemoteComponents() {
 
     console.log(`Retrieved ${teamComponents.length} remote components`);
 
+    const page = paginate(teamComponents.filter(component =>
+      matchesNamePrefix(component.name, namePrefix) && (!libraryName || component.libraryName === libraryName)
+    ), params);
+
     return {
       success: true,
-      count: teamComponents.length,
-      components: teamComponents.map(component => ({
+      count: page.total,
+      components: page.items.map(component => ({
         key: component.key,
         name: component.name,
         description: component.description || "",
         libraryName: component.libraryName
-      }))
+      })),
+      nextCursor: page.nextCursor
     };
   } catch (error) {
     console.error(`Detailed error retrieving remote components: ${error.message || "Unknown error"}`);
@@ -5192,7 +5303,9 @@ async function getAnnotation(params) {
 }
 
 // Get all variable collections and their variables
-async function getVariables() {
+async function getVariables(params) {
+  const { namePrefix, resolvedType, collectionId } = params || {};
+
   // Check if Variables API is available
   if (!figma.variables) {
     throw new Error(
@@ -5201,33 +5314,45 @@ async function getVariables() {
     );
   }
 
-  const collections = await figma.variables.getLocalVariableCollectionsAsync();
-  const result = [];
+  const collections = (await figma.variables.getLocalVariableCollectionsAsync())
+    .filter((collection) => !collectionId || collection.id === collectionId);
 
+  // Variables are paged across collections; each page repeats the collections its variables belong to
+  const variables = [];
   for (const collection of collections) {
-    const variables = [];
     for (const variableId of collection.variableIds) {
       const variable = await figma.variables.getVariableByIdAsync(variableId);
-      if (variable) {
-        variables.push({
-          id: variable.id,
-          name: variable.name,
-          resolvedType: variable.resolvedType,
-          valuesByMode: variable.valuesByMode
-        });
+      if (variable && matchesNamePrefix(variable.name, namePrefix) &&
+          (!resolvedType || variable.resolvedType === resolvedType)) {
+        variables.push({ collection: collection, variable: variable });
       }
     }
+  }
+  const page = paginate(variables, params);
+
+  const result = [];
+  for (const collection of collections) {
+    const pageVariables = page.items.filter((item) => item.collection === collection).map((item) => item.variable);
+    // Empty collections are listed on the first page so they are not lost
+    if (pageVariables.length === 0 && (collection.variableIds.length > 0 || (params && params.cursor))) continue;
 
     result.push({
       id: collection.id,
       name: collection.name,
       modes: collection.modes,
       variableIds: collection.variableIds,
-      variables: variables
+      variables: pageVariables.map((variable) => ({
+        id: variable.id,
+        name: variable.name,
+        resolvedType: variable.resolvedType,
+        valuesByMode: variable.valuesByMode,
+        description: variable.description,
+        scopes: variable.scopes
+      }))
     });
   }
 
-  return { collections: result };
+  return { collections: result, total: page.total, nextCursor: page.nextCursor };
 }
 
 // Create or update a variable
@@ -5457,6 +5582,390 @@ async function switchVariableMode(params) {
   };
 }
 
+// Compare two variable values; colors are compared at 8-bit precision
+function variableValuesEqual(a, b) {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== "object" || typeof b !== "object") return false;
+  if (a.type === "VARIABLE_ALIAS" || b.type === "VARIABLE_ALIAS") {
+    return a.type === b.type && a.id === b.id;
+  }
+  const channel = (value) => Math.round((value === undefined ? 1 : value) * 255);
+  return channel(a.r) === channel(b.r) && channel(a.g) === channel(b.g) &&
+    channel(a.b) === channel(b.b) && channel(a.a) === channel(b.a);
+}
+
+// Create or update whole variable collections from parsed design tokens.
+// Values keyed by "" target the collection's default mode; aliases name their
+// target either as { collection, name } or as a token path.
+async function importVariables(params) {
+  const { collections: incoming, deleteMissing = false } = params || {};
+
+  if (!figma.variables) {
+    throw new Error(
+      "Variables API is not available. This feature requires Figma with Variables support."
+    );
+  }
+  if (!Array.isArray(incoming) || incoming.length === 0) {
+    throw new Error("Missing collections parameter");
+  }
+
+  const report = {
+    collections: [],
+    created: [],
+    updated: [],
+    unchanged: [],
+    deleted: [],
+    errors: []
+  };
+
+  // Index existing local variables so aliases can point outside the import
+  const localCollections = await figma.variables.getLocalVariableCollectionsAsync();
+  const localVariables = await figma.variables.getLocalVariablesAsync();
+  const collectionNames = {};
+  for (const collection of localCollections) {
+    collectionNames[collection.id] = collection.name;
+  }
+  const variablesByKey = {};
+  for (const variable of localVariables) {
+    variablesByKey[collectionNames[variable.variableCollectionId] + "\u0000" + variable.name] = variable;
+  }
+
+  // Pass 1: collections, modes and variables
+  const pending = [];
+  const imports = [];
+  for (const spec of incoming) {
+    let collection = localCollections.find(c => c.name === spec.name);
+    const collectionReport = { name: spec.name, created: !collection, modesAdded: [] };
+    if (!collection) {
+      collection = figma.variables.createVariableCollection(spec.name);
+      localCollections.push(collection);
+      collectionNames[collection.id] = collection.name;
+    }
+    collectionReport.id = collection.id;
+    report.collections.push(collectionReport);
+
+    // The first imported mode takes over the default mode of a new collection
+    const modeIds = { "": collection.modes[0].modeId };
+    (spec.modes || []).forEach((modeName, index) => {
+      const existing = collection.modes.find(m => m.name === modeName);
+      if (existing) {
+        modeIds[modeName] = existing.modeId;
+      } else if (index === 0 && collectionReport.created) {
+        collection.renameMode(collection.modes[0].modeId, modeName);
+        modeIds[modeName] = collection.modes[0].modeId;
+      } else {
+        try {
+          modeIds[modeName] = collection.addMode(modeName);
+          collectionReport.modesAdded.push(modeName);
+        } catch (error) {
+          report.errors.push({ token: spec.name, message: `Could not add mode "${modeName}": ${error.message || String(error)}` });
+        }
+      }
+    });
+
+    const imported = {};
+    for (const token of spec.variables || []) {
+      const label = spec.name + "/" + token.name;
+      const key = spec.name + "\u0000" + token.name;
+      imported[token.name] = true;
+
+      let variable = variablesByKey[key];
+      let created = false;
+      if (variable && token.resolvedType && variable.resolvedType !== token.resolvedType) {
+        report.errors.push({ token: label, message: `Existing variable is ${variable.resolvedType}, token is ${token.resolvedType}` });
+        continue;
+      }
+      if (!variable) {
+        if (!token.resolvedType) {
+          pending.push({ label, token, collection, modeIds, deferred: true });
+          continue;
+        }
+        try {
+          variable = figma.variables.createVariable(token.name, collection, token.resolvedType);
+        } catch (error) {
+          report.errors.push({ token: label, message: error.message || String(error) });
+          continue;
+        }
+        variablesByKey[key] = variable;
+        created = true;
+      }
+      pending.push({ label, token, variable, created, modeIds });
+    }
+    imports.push({ spec, collection, imported });
+  }
+
+  const findAliasTarget = (alias) => {
+    if (alias.collection !== undefined) {
+      return variablesByKey[alias.collection + "\u0000" + alias.name];
+    }
+    const path = alias.path || [];
+    return variablesByKey[path[0] + "\u0000" + path.slice(1).join("/")] ||
+      localVariables.find(v => v.name === path.join("/"));
+  };
+
+  // Pass 2: values, once every target of an alias exists
+  const aliasTargetIds = {};
+  for (const item of pending) {
+    const { label, token, modeIds } = item;
+    let variable = item.variable;
+    try {
+      if (item.deferred) {
+        // Untyped alias tokens take the type of the variable they point to
+        const firstAlias = Object.keys(token.values).map(mode => token.values[mode]).find(v => v && v.alias);
+        const target = firstAlias ? findAliasTarget(firstAlias.alias) : null;
+        if (!target) {
+          throw new Error("Cannot determine the variable type: alias target not found");
+        }
+        variable = figma.variables.createVariable(token.name, item.collection, target.resolvedType);
+        variablesByKey[item.collection.name + "\u0000" + token.name] = variable;
+        item.created = true;
+      }
+
+      let changed = false;
+      for (const modeName of Object.keys(token.values)) {
+        const modeId = modeIds[modeName];
+        if (!modeId) {
+          throw new Error(`Mode "${modeName}" does not exist in the collection`);
+        }
+        let value = token.values[modeName];
+        if (value && value.alias) {
+          const target = findAliasTarget(value.alias);
+          if (!target) {
+            throw new Error(`Alias target not found: ${value.alias.name || value.alias.path.join(".")}`);
+          }
+          aliasTargetIds[target.id] = true;
+          value = figma.variables.createVariableAlias(target);
+        }
+        if (!variableValuesEqual(variable.valuesByMode[modeId], value)) {
+          variable.setValueForMode(modeId, value);
+          changed = true;
+        }
+      }
+      if (token.description !== undefined && variable.description !== token.description) {
+        variable.description = token.description;
+        changed = true;
+      }
+
+      if (item.created) report.created.push(label);
+      else if (changed) report.updated.push(label);
+      else report.unchanged.push(label);
+    } catch (error) {
+      report.errors.push({ token: label, message: error.message || String(error) });
+    }
+  }
+
+  // Pass 3: only now that every alias is resolved, remove variables missing from the import,
+  // keeping any that an imported token still points to
+  if (deleteMissing) {
+    for (const { spec, collection, imported } of imports) {
+      for (const variableId of collection.variableIds) {
+        const variable = await figma.variables.getVariableByIdAsync(variableId);
+        if (!variable || imported[variable.name]) continue;
+        const label = spec.name + "/" + variable.name;
+        if (aliasTargetIds[variable.id]) {
+          report.errors.push({ token: label, message: "Not deleted: imported tokens alias this variable" });
+          continue;
+        }
+        report.deleted.push(label);
+        variable.remove();
+      }
+    }
+  }
+
+  return report;
+}
+
+// Node fields bound by bind_variables_by_value, grouped by the property option that enables them
+const BIND_FLOAT_FIELDS = {
+  cornerRadius: { fields: ["topLeftRadius", "topRightRadius", "bottomLeftRadius", "bottomRightRadius"], scope: "CORNER_RADIUS" },
+  spacing: { fields: ["itemSpacing", "counterAxisSpacing", "paddingLeft", "paddingRight", "paddingTop", "paddingBottom"], scope: "GAP" },
+  fontSize: { fields: ["fontSize"], scope: "FONT_SIZE" }
+};
+const BIND_PAINT_SCOPES = {
+  fills: ["ALL_FILLS", "FRAME_FILL", "SHAPE_FILL", "TEXT_FILL"],
+  strokes: ["STROKE_COLOR"]
+};
+
+// Whether a variable's scopes allow binding it to a field
+function variableAllowsScope(variable, scopes) {
+  return variable.scopes.indexOf("ALL_SCOPES") !== -1 ||
+    variable.scopes.some(scope => scopes.indexOf(scope) !== -1);
+}
+
+// Bind fills, strokes, corner radii, spacing and font sizes in a subtree to the
+// local variables whose value matches the raw value.
+async function bindVariablesByValue(params) {
+  const {
+    nodeId,
+    properties = ["fills", "strokes", "cornerRadius", "spacing", "fontSize"],
+    colorTolerance = 1,
+    collections,
+    commandId
+  } = params || {};
+
+  if (!figma.variables) {
+    throw new Error(
+      "Variables API is not available. This feature requires Figma with Variables support."
+    );
+  }
+  if (!nodeId) {
+    throw new Error("Missing nodeId parameter");
+  }
+
+  const root = await getNodeByIdSafe(nodeId);
+  if (!root) {
+    throw new Error(`Node not found with ID: ${nodeId}`);
+  }
+
+  // Candidate variables with their value in the collection's default mode, aliases followed
+  const localCollections = await figma.variables.getLocalVariableCollectionsAsync();
+  const allowedCollections = localCollections.filter(c =>
+    !Array.isArray(collections) || collections.length === 0 ||
+    collections.indexOf(c.name) !== -1 || collections.indexOf(c.id) !== -1
+  );
+  const defaultModes = {};
+  for (const collection of localCollections) {
+    defaultModes[collection.id] = collection.defaultModeId || collection.modes[0].modeId;
+  }
+
+  const resolveVariableValue = async (variable, depth) => {
+    const value = variable.valuesByMode[defaultModes[variable.variableCollectionId]];
+    if (value && value.type === "VARIABLE_ALIAS") {
+      if (depth > 10) return undefined;
+      const target = await figma.variables.getVariableByIdAsync(value.id);
+      return target ? resolveVariableValue(target, depth + 1) : undefined;
+    }
+    return value;
+  };
+
+  const colorVariables = [];
+  const floatVariables = [];
+  for (const collection of allowedCollections) {
+    for (const variableId of collection.variableIds) {
+      const variable = await figma.variables.getVariableByIdAsync(variableId);
+      if (!variable) continue;
+      const value = await resolveVariableValue(variable, 0);
+      if (value === undefined) continue;
+      if (variable.resolvedType === "COLOR") colorVariables.push({ variable, value });
+      if (variable.resolvedType === "FLOAT") floatVariables.push({ variable, value });
+    }
+  }
+
+  // Closest color variable within the tolerance (RGB distance in 0-255 units), alpha must match the paint opacity
+  const matchColor = (color, opacity, scopes) => {
+    let best = null;
+    let bestDistance = Infinity;
+    for (const candidate of colorVariables) {
+      if (!variableAllowsScope(candidate.variable, scopes)) continue;
+      const value = candidate.value;
+      const alpha = value.a === undefined ? 1 : value.a;
+      if (Math.abs(alpha - opacity) > 0.01) continue;
+      const distance = 255 * Math.sqrt(
+        Math.pow(value.r - color.r, 2) + Math.pow(value.g - color.g, 2) + Math.pow(value.b - color.b, 2)
+      );
+      if (distance <= colorTolerance && distance < bestDistance) {
+        best = candidate.variable;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  };
+
+  // Exact number match, preferring variables scoped to the field over ALL_SCOPES ones
+  const matchFloat = (value, scope) => {
+    let fallback = null;
+    for (const candidate of floatVariables) {
+      if (Math.abs(candidate.value - value) > 0.001) continue;
+      if (candidate.variable.scopes.indexOf(scope) !== -1) return candidate.variable;
+      if (!fallback && variableAllowsScope(candidate.variable, [scope])) fallback = candidate.variable;
+    }
+    return fallback;
+  };
+
+  const toHex = (color, opacity) => {
+    const channel = value => Math.round(value * 255).toString(16).padStart(2, "0");
+    return "#" + channel(color.r) + channel(color.g) + channel(color.b) + (opacity < 1 ? channel(opacity) : "");
+  };
+
+  const report = { bound: [], unmatched: [], alreadyBound: 0, nodesScanned: 0 };
+
+  const bindPaints = (node, property) => {
+    if (!(property in node) || !Array.isArray(node[property]) || node[property].length === 0) return;
+    let changed = false;
+    const paints = node[property].map((paint, index) => {
+      if (paint.type !== "SOLID") return paint;
+      if (paint.boundVariables && paint.boundVariables.color) {
+        report.alreadyBound++;
+        return paint;
+      }
+      const opacity = paint.opacity === undefined ? 1 : paint.opacity;
+      const field = property + "/" + index + "/color";
+      const variable = matchColor(paint.color, opacity, BIND_PAINT_SCOPES[property]);
+      if (!variable) {
+        report.unmatched.push({ nodeId: node.id, nodeName: node.name, field, value: toHex(paint.color, opacity) });
+        return paint;
+      }
+      changed = true;
+      report.bound.push({ nodeId: node.id, nodeName: node.name, field, variableId: variable.id, variableName: variable.name, value: toHex(paint.color, opacity) });
+      return figma.variables.setBoundVariableForPaint(paint, "color", variable);
+    });
+    if (changed) node[property] = paints;
+  };
+
+  const bindFloats = async (node, option) => {
+    const group = BIND_FLOAT_FIELDS[option];
+    if (option === "spacing" && (!("layoutMode" in node) || node.layoutMode === "NONE")) return;
+    for (const field of group.fields) {
+      if (!(field in node) || typeof node[field] !== "number" || node[field] === 0) continue;
+      if (node.boundVariables && node.boundVariables[field]) {
+        report.alreadyBound++;
+        continue;
+      }
+      const value = node[field];
+      const variable = matchFloat(value, group.scope);
+      if (!variable) {
+        report.unmatched.push({ nodeId: node.id, nodeName: node.name, field, value });
+        continue;
+      }
+      if (field === "fontSize") {
+        if (node.fontName === figma.mixed) continue;
+        await figma.loadFontAsync(node.fontName);
+      }
+      node.setBoundVariable(field, variable);
+      report.bound.push({ nodeId: node.id, nodeName: node.name, field, variableId: variable.id, variableName: variable.name, value });
+    }
+  };
+
+  const targets = "findAll" in root ? [root].concat(root.findAll(() => true)) : [root];
+  const totalNodes = targets.length;
+  const chunkSize = 200;
+
+  sendProgressUpdate(commandId, "bind_variables_by_value", "started", 0, totalNodes, 0, `Scanning ${totalNodes} nodes for bindable values...`);
+
+  for (let i = 0; i < totalNodes; i += chunkSize) {
+    for (const node of targets.slice(i, i + chunkSize)) {
+      report.nodesScanned++;
+      for (const property of properties) {
+        try {
+          if (property in BIND_PAINT_SCOPES) {
+            bindPaints(node, property);
+          } else if (property in BIND_FLOAT_FIELDS) {
+            await bindFloats(node, property);
+          }
+        } catch (error) {
+          report.unmatched.push({ nodeId: node.id, nodeName: node.name, field: property, error: error.message || String(error) });
+        }
+      }
+    }
+
+    const processedCount = Math.min(i + chunkSize, totalNodes);
+    sendProgressUpdate(commandId, "bind_variables_by_value", "in_progress", Math.round((processedCount / totalNodes) * 100), totalNodes, processedCount, `Scanned ${processedCount}/${totalNodes} nodes...`);
+    await new Promise(resolve => setTimeout(resolve, 1));
+  }
+
+  return Object.assign({ id: root.id, name: root.name }, report);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // FigJam-specific command implementations
 // ─────────────────────────────────────────────────────────────────────────────
@@ -5493,95 +6002,100 @@ function stickyColorToFill(color) {
  * Walks the full node tree and returns stickies, connectors,
  * shapes-with-text, sections and stamps.
  */
-async function getFigJamElements() {
+async function getFigJamElements(params) {
+  const { types, namePrefix } = params || {};
   await figma.currentPage.loadAsync();
 
-  const figjamTypes = new Set(["STICKY", "CONNECTOR", "SHAPE_WITH_TEXT", "SECTION", "STAMP"]);
+  const figjamTypes = new Set(types && types.length > 0 ? types : ["STICKY", "CONNECTOR", "SHAPE_WITH_TEXT", "SECTION", "STAMP"]);
   const results = { stickies: [], connectors: [], shapesWithText: [], sections: [], stamps: [] };
 
-  function walk(node) {
-    if (figjamTypes.has(node.type)) {
-      const base = { id: node.id, name: node.name, type: node.type, x: node.x, y: node.y };
-
-      switch (node.type) {
-        case "STICKY":
-          results.stickies.push(Object.assign({}, base, {
-            width: node.width,
-            height: node.height,
-            text: node.text ? node.text.characters : "",
-            fills: node.fills,
-            isWide: node.isWide,
-            authorName: node.authorName,
-          }));
-          break;
-
-        case "CONNECTOR":
-          results.connectors.push(Object.assign({}, base, {
-            connectorStart: node.connectorStart,
-            connectorEnd: node.connectorEnd,
-            connectorLineType: node.connectorLineType,
-            connectorStartStrokeCap: node.connectorStartStrokeCap,
-            connectorEndStrokeCap: node.connectorEndStrokeCap,
-            strokeWeight: node.strokeWeight,
-            strokes: node.strokes,
-          }));
-          break;
-
-        case "SHAPE_WITH_TEXT":
-          results.shapesWithText.push(Object.assign({}, base, {
-            width: node.width,
-            height: node.height,
-            shapeType: node.shapeType,
-            text: node.text ? node.text.characters : "",
-            fills: node.fills,
-          }));
-          break;
-
-        case "SECTION":
-          results.sections.push(Object.assign({}, base, {
-            width: node.width,
-            height: node.height,
-            fills: node.fills,
-            childCount: "children" in node ? node.children.length : 0,
-          }));
-          break;
-
-        case "STAMP":
-          results.stamps.push(Object.assign({}, base, {
-            width: node.width,
-            height: node.height,
-            authorName: node.authorName,
-          }));
-          break;
-      }
+  // Matching elements in document order; only the requested page is described
+  const elements = [];
+  function collect(node) {
+    if (figjamTypes.has(node.type) && matchesNamePrefix(node.name, namePrefix)) {
+      elements.push(node);
     }
 
     // Recurse into children (sections, frames, groups, etc.)
     if ("children" in node) {
       for (const child of node.children) {
-        walk(child);
+        collect(child);
       }
     }
   }
 
+  function describe(node) {
+    const base = { id: node.id, name: node.name, type: node.type, x: node.x, y: node.y };
+
+    switch (node.type) {
+      case "STICKY":
+        results.stickies.push(Object.assign({}, base, {
+          width: node.width,
+          height: node.height,
+          text: node.text ? node.text.characters : "",
+          fills: node.fills,
+          isWide: node.isWide,
+          authorName: node.authorName,
+        }));
+        break;
+
+      case "CONNECTOR":
+        results.connectors.push(Object.assign({}, base, {
+          connectorStart: node.connectorStart,
+          connectorEnd: node.connectorEnd,
+          connectorLineType: node.connectorLineType,
+          connectorStartStrokeCap: node.connectorStartStrokeCap,
+          connectorEndStrokeCap: node.connectorEndStrokeCap,
+          strokeWeight: node.strokeWeight,
+          strokes: node.strokes,
+        }));
+        break;
+
+      case "SHAPE_WITH_TEXT":
+        results.shapesWithText.push(Object.assign({}, base, {
+          width: node.width,
+          height: node.height,
+          shapeType: node.shapeType,
+          text: node.text ? node.text.characters : "",
+          fills: node.fills,
+        }));
+        break;
+
+      case "SECTION":
+        results.sections.push(Object.assign({}, base, {
+          width: node.width,
+          height: node.height,
+          fills: node.fills,
+          childCount: "children" in node ? node.children.length : 0,
+        }));
+        break;
+
+      case "STAMP":
+        results.stamps.push(Object.assign({}, base, {
+          width: node.width,
+          height: node.height,
+          authorName: node.authorName,
+        }));
+        break;
+    }
+  }
+
   for (const child of figma.currentPage.children) {
-    walk(child);
+    collect(child);
   }
+  const page = paginate(elements, params);
+  page.items.forEach(describe);
 
   return {
     pageId: figma.currentPage.id,
     pageName: figma.currentPage.name,
-    totalElements:
-      results.stickies.length +
-      results.connectors.length +
-      results.shapesWithText.length +
-      results.sections.length +
-      results.stamps.length,
+    totalElements: page.total,
     stickies: results.stickies,
     connectors: results.connectors,
     shapesWithText: results.shapesWithText,
     sections: results.sections,
     stamps: results.stamps,
+    nextCursor: page.nextCursor,
   };
 }
 
@@ -6234,3 +6748,1068 @@ async function createEffectStyle(params) {
   };
 }
 
+/**
+ * Apply a local paint style to a node's fills
+ */
+async function setFillStyleId(params) {
+  const { nodeId, fillStyleId } = params || {};
+
+  if (!nodeId) {
+    throw new Error("Missing nodeId parameter");
+  }
+  if (!fillStyleId) {
+    throw new Error("Missing fillStyleId parameter");
+  }
+
+  const node = await getNodeByIdSafe(nodeId);
+  if (!node) {
+    throw new Error(`Node not found with ID: ${nodeId}`);
+  }
+  if (!("fillStyleId" in node)) {
+    throw new Error(`Node with ID ${nodeId} does not support fill styles`);
+  }
+
+  // Accept the style key as well as the ID, like set_text_style_id
+  const paintStyles = await figma.getLocalPaintStylesAsync();
+  const style = paintStyles.find(s => s.id === fillStyleId || s.key === fillStyleId);
+  if (!style) {
+    throw new Error(`Paint style "${fillStyleId}" not found. Make sure the style exists in your local styles.`);
+  }
+
+  await node.setFillStyleIdAsync(style.id);
+
+  return { id: node.id, name: node.name, fillStyleId: style.id, styleName: style.name };
+}
+
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Batch execution
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Commands whose result.id is a brand-new node that can be removed on rollback.
+// create_component_from_node and group_nodes wrap existing nodes, so removing
+// their result would destroy content that existed before the batch started.
+const BATCH_ROLLBACK_COMMANDS = new Set([
+  "create_rectangle", "create_frame", "create_text", "create_ellipse",
+  "create_polygon", "create_star", "create_vector", "create_line",
+  "create_component_instance", "set_svg", "clone_node", "create_from_spec",
+  "create_sticky", "create_shape_with_text", "create_connector", "create_section",
+]);
+
+// Commands that cannot run inside a batch
+const BATCH_FORBIDDEN_COMMANDS = new Set(["execute_batch", "join", "set_current_page"]);
+
+/**
+ * Replace "$stepN.path" references with values from earlier step results.
+ * Steps are numbered from 1. Only whole-string values are treated as references.
+ */
+function resolveBatchReferences(value, stepResults) {
+  if (typeof value === "string") {
+    const match = value.match(/^\$step(\d+)((?:\.[A-Za-z0-9_]+)*)$/);
+    if (!match) return value;
+
+    const stepNumber = parseInt(match[1], 10);
+    const entry = stepResults[stepNumber - 1];
+    if (!entry || entry.status !== "success") {
+      throw new Error(`Reference ${value} points to step ${stepNumber}, which has not completed successfully`);
+    }
+
+    let resolved = entry.result;
+    const path = match[2] ? match[2].slice(1).split(".") : [];
+    for (const key of path) {
+      if (resolved === null || resolved === undefined || !(key in Object(resolved))) {
+        throw new Error(`Reference ${value} could not be resolved: step ${stepNumber} result has no "${key}"`);
+      }
+      resolved = resolved[key];
+    }
+    return resolved;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveBatchReferences(item, stepResults));
+  }
+
+  if (value && typeof value === "object") {
+    const resolvedObject = {};
+    for (const key of Object.keys(value)) {
+      resolvedObject[key] = resolveBatchReferences(value[key], stepResults);
+    }
+    return resolvedObject;
+  }
+
+  return value;
+}
+
+/**
+ * Run an ordered list of commands in a single plugin round trip.
+ * Stops at the first failing step; when rollbackOnError is true, every node
+ * created by earlier steps is removed again (newest first).
+ */
+async function executeBatch(params) {
+  const { steps, rollbackOnError = true, commandId = generateCommandId() } = params || {};
+
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new Error("Missing or empty steps parameter");
+  }
+
+  const stepResults = [];
+  const createdNodeIds = [];
+  let failedStep = null;
+
+  sendProgressUpdate(commandId, "execute_batch", "started", 0, steps.length, 0, `Starting batch of ${steps.length} steps...`);
+
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i] || {};
+    const stepNumber = i + 1;
+
+    if (failedStep !== null) {
+      stepResults.push({ step: stepNumber, command: step.command, status: "skipped" });
+      continue;
+    }
+
+    try {
+      if (!step.command) {
+        throw new Error("Missing command");
+      }
+      if (BATCH_FORBIDDEN_COMMANDS.has(step.command)) {
+        throw new Error(`"${step.command}" cannot be used inside a batch`);
+      }
+
+      const stepParams = resolveBatchReferences(step.params || {}, stepResults);
+      const result = await handleCommand(step.command, Object.assign({}, stepParams, { commandId: commandId }));
+
+      if (BATCH_ROLLBACK_COMMANDS.has(step.command) && result && result.id) {
+        createdNodeIds.push(result.id);
+      }
+      stepResults.push({ step: stepNumber, command: step.command, status: "success", result: result });
+    } catch (error) {
+      failedStep = stepNumber;
+      stepResults.push({
+        step: stepNumber,
+        command: step.command,
+        status: "error",
+        error: error && error.message ? error.message : String(error),
+      });
+    }
+
+    const progress = Math.round((stepNumber / steps.length) * 100);
+    sendProgressUpdate(commandId, "execute_batch", "in_progress", progress, steps.length, stepNumber, `Processed step ${stepNumber}/${steps.length}`);
+  }
+
+  const rolledBackNodeIds = [];
+  if (failedStep !== null && rollbackOnError) {
+    for (let i = createdNodeIds.length - 1; i >= 0; i--) {
+      const node = await getNodeByIdSafe(createdNodeIds[i]);
+      if (node && !node.removed) {
+        node.remove();
+        rolledBackNodeIds.push(createdNodeIds[i]);
+      }
+    }
+  }
+
+  sendProgressUpdate(
+    commandId,
+    "execute_batch",
+    failedStep === null ? "completed" : "error",
+    100,
+    steps.length,
+    steps.length,
+    failedStep === null ? "Batch completed" : `Batch failed at step ${failedStep}`
+  );
+
+  return {
+    success: failedStep === null,
+    totalSteps: steps.length,
+    failedStep: failedStep,
+    rolledBack: rolledBackNodeIds.length > 0,
+    rolledBackNodeIds: rolledBackNodeIds,
+    createdNodeIds: failedStep !== null && rollbackOnError ? [] : createdNodeIds,
+    steps: stepResults,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Declarative layout specs
+// ─────────────────────────────────────────────────────────────────────────────
+
+const SPEC_AUTO_LAYOUT_FIELDS = [
+  "paddingTop", "paddingRight", "paddingBottom", "paddingLeft", "itemSpacing",
+  "primaryAxisAlignItems", "counterAxisAlignItems", "layoutWrap",
+];
+
+function countSpecNodes(spec) {
+  let count = 1;
+  const children = spec.children || [];
+  for (let i = 0; i < children.length; i++) {
+    count += countSpecNodes(children[i] || {});
+  }
+  return count;
+}
+
+// Create a single spec node (without its children) under parentId and return the node
+async function createSpecNode(spec, parentId) {
+  const type = spec.type || "frame";
+  const base = {
+    x: spec.x,
+    y: spec.y,
+    width: spec.width,
+    height: spec.height,
+    name: spec.name,
+    parentId: parentId,
+    fillColor: spec.fillColor,
+    strokeColor: spec.strokeColor,
+    strokeWeight: spec.strokeWeight,
+  };
+
+  let result;
+  switch (type) {
+    case "frame":
+      result = await createFrame(base);
+      break;
+    case "rectangle":
+      result = await createRectangle(base);
+      break;
+    case "ellipse":
+      result = await createEllipse(base);
+      break;
+    case "text":
+      result = await createText({
+        x: spec.x,
+        y: spec.y,
+        width: spec.width,
+        name: spec.name || (spec.text ? spec.text.slice(0, 40) : undefined),
+        parentId: parentId,
+        text: spec.text,
+        fontSize: spec.fontSize,
+        fontWeight: spec.fontWeight,
+        fontColor: spec.fontColor,
+        textAlignHorizontal: spec.textAlignHorizontal,
+        textAutoResize: spec.textAutoResize,
+      });
+      break;
+    case "instance":
+      result = await createComponentInstance({ componentKey: spec.componentKey, x: spec.x, y: spec.y, parentId: parentId });
+      break;
+    case "image":
+      result = await createRectangle(Object.assign({}, base, { name: spec.name || "Image" }));
+      await setImage({ nodeId: result.id, imageData: spec.imageData, scaleMode: spec.scaleMode });
+      break;
+    case "svg":
+      result = await setSvg({ svgString: spec.svg, x: spec.x, y: spec.y, name: spec.name, parentId: parentId });
+      break;
+    default:
+      throw new Error(`Unsupported node type: ${type}`);
+  }
+
+  const node = await getNodeByIdSafe(result.id);
+  if (!node) {
+    throw new Error(`Created node not found: ${result.id}`);
+  }
+
+  if (type === "instance") {
+    if (spec.name) node.name = spec.name;
+    if (spec.componentProperties && Object.keys(spec.componentProperties).length > 0) {
+      node.setProperties(spec.componentProperties);
+    }
+    if (spec.width !== undefined || spec.height !== undefined) {
+      node.resize(spec.width !== undefined ? spec.width : node.width, spec.height !== undefined ? spec.height : node.height);
+    }
+  }
+  // Imported SVGs keep their aspect ratio, scaled to the requested width (or height)
+  if (type === "svg") {
+    if (spec.width !== undefined) {
+      node.rescale(spec.width / node.width);
+    } else if (spec.height !== undefined) {
+      node.rescale(spec.height / node.height);
+    }
+  }
+  return node;
+}
+
+async function buildSpecNode(spec, parentId, path, context) {
+  const node = await createSpecNode(spec, parentId);
+  context.created++;
+  if (context.created === 1) context.rootId = node.id;
+  if (spec.key) context.nodeIds[spec.key] = node.id;
+
+  if (spec.cornerRadius !== undefined && "cornerRadius" in node) {
+    node.cornerRadius = spec.cornerRadius;
+  }
+  if (spec.opacity !== undefined) {
+    node.opacity = spec.opacity;
+  }
+  if (spec.clipsContent !== undefined && "clipsContent" in node) {
+    node.clipsContent = spec.clipsContent;
+  }
+
+  if (spec.layoutMode) {
+    const layout = { nodeId: node.id, layoutMode: spec.layoutMode };
+    for (let i = 0; i < SPEC_AUTO_LAYOUT_FIELDS.length; i++) {
+      const field = SPEC_AUTO_LAYOUT_FIELDS[i];
+      if (spec[field] !== undefined) layout[field] = spec[field];
+    }
+    await setAutoLayout(layout);
+  }
+
+  // FILL needs the parent's auto layout and HUG needs the node's own, both set by now
+  if (spec.layoutSizingHorizontal) {
+    node.layoutSizingHorizontal = spec.layoutSizingHorizontal;
+  }
+  if (spec.layoutSizingVertical) {
+    node.layoutSizingVertical = spec.layoutSizingVertical;
+  }
+
+  const bindings = spec.variables || {};
+  const fields = Object.keys(bindings);
+  for (let i = 0; i < fields.length; i++) {
+    await applyVariableToNode({ nodeId: node.id, variableId: bindings[fields[i]], field: fields[i] });
+  }
+
+  const progress = Math.round((context.created / context.total) * 100);
+  sendProgressUpdate(context.commandId, "create_from_spec", "in_progress", progress, context.total, context.created, `Created ${path}`);
+
+  const children = spec.children || [];
+  if (children.length > 0 && (spec.type || "frame") !== "frame") {
+    throw new Error("Only frame nodes can have children");
+  }
+  for (let i = 0; i < children.length; i++) {
+    const childPath = `${path}.children[${i}]`;
+    try {
+      await buildSpecNode(children[i] || {}, node.id, childPath, context);
+    } catch (error) {
+      if (!context.failedPath) context.failedPath = childPath;
+      throw error;
+    }
+  }
+  return node;
+}
+
+async function createFromSpec(params) {
+  const { parentId, spec, commandId = generateCommandId() } = params || {};
+
+  if (!parentId) {
+    throw new Error("Missing parentId parameter");
+  }
+  if (!spec || typeof spec !== "object") {
+    throw new Error("Missing or invalid spec parameter");
+  }
+
+  const context = {
+    commandId: commandId,
+    total: countSpecNodes(spec),
+    created: 0,
+    rootId: null,
+    failedPath: null,
+    nodeIds: {},
+  };
+
+  sendProgressUpdate(commandId, "create_from_spec", "started", 0, context.total, 0, `Creating ${context.total} nodes from spec...`);
+
+  let root;
+  try {
+    root = await buildSpecNode(spec, parentId, "spec", context);
+  } catch (error) {
+    // Removing the root also removes every descendant created so far
+    if (context.rootId) {
+      const createdRoot = await getNodeByIdSafe(context.rootId);
+      if (createdRoot && !createdRoot.removed) createdRoot.remove();
+    }
+    const message = error && error.message ? error.message : String(error);
+    sendProgressUpdate(commandId, "create_from_spec", "error", 100, context.total, context.created, `Failed at ${context.failedPath || "spec"}`);
+    throw new Error(`Failed at ${context.failedPath || "spec"}: ${message}`);
+  }
+
+  sendProgressUpdate(commandId, "create_from_spec", "completed", 100, context.total, context.created, `Created ${context.created} nodes`);
+
+  return {
+    id: root.id,
+    name: root.name,
+    created: context.created,
+    nodeIds: context.nodeIds,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Node queries (compiled by the MCP server from find_nodes selectors)
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Canonical "Page/Frame/Child" path of a node; slashes inside names are escaped as "\/"
+function getNodePath(node) {
+  const names = [];
+  let current = node;
+  while (current && current.type !== "DOCUMENT") {
+    // ">" is escaped too: an unescaped one switches parseNodePath to ">" separators
+    names.unshift(String(current.name).replace(/\\/g, "\\\\").replace(/\//g, "\\/").replace(/>/g, "\\>"));
+    current = current.parent;
+  }
+  return names.join("/");
+}
+
+function getNodeAncestors(node) {
+  const ancestors = [];
+  let current = node.parent;
+  while (current && current.type !== "DOCUMENT") {
+    ancestors.unshift(current);
+    current = current.parent;
+  }
+  return ancestors;
+}
+
+// Compile regexes once and load the style and variable names the query refers to
+async function createQueryContext(query) {
+  const context = { styleNames: {}, variableNames: {} };
+  let usesStyle = false;
+  let usesVariable = false;
+
+  for (const steps of query.selectors) {
+    for (const step of steps) {
+      for (const filter of step.filters) {
+        if (filter.pattern) filter.regex = new RegExp(filter.pattern.source, filter.pattern.flags);
+        if (filter.attribute === "style") usesStyle = true;
+        if (filter.attribute === "variable") usesVariable = true;
+      }
+    }
+  }
+
+  if (usesStyle) {
+    const styles = [].concat(
+      await figma.getLocalPaintStylesAsync(),
+      await figma.getLocalTextStylesAsync(),
+      await figma.getLocalEffectStylesAsync(),
+      await figma.getLocalGridStylesAsync()
+    );
+    for (const style of styles) context.styleNames[style.id] = style.name;
+  }
+  if (usesVariable && figma.variables) {
+    const variables = await figma.variables.getLocalVariablesAsync();
+    for (const variable of variables) context.variableNames[variable.id] = variable.name;
+  }
+  return context;
+}
+
+function collectBoundVariableIds(node) {
+  const ids = [];
+  const addAlias = alias => {
+    if (Array.isArray(alias)) alias.forEach(addAlias);
+    else if (alias && alias.id) ids.push(alias.id);
+  };
+  if (node.boundVariables) {
+    Object.keys(node.boundVariables).forEach(field => addAlias(node.boundVariables[field]));
+  }
+  ["fills", "strokes"].forEach(property => {
+    if (property in node && Array.isArray(node[property])) {
+      node[property].forEach(paint => {
+        if (paint.boundVariables) addAlias(paint.boundVariables.color);
+      });
+    }
+  });
+  return ids;
+}
+
+// Values a text attribute filter is compared against; a node matches if any of them does
+async function getQueryTextValues(node, attribute, context) {
+  switch (attribute) {
+    case "id":
+      return [node.id];
+    case "name":
+      return [node.name];
+    case "component":
+    case "componentKey": {
+      let component = null;
+      if (node.type === "INSTANCE") component = await node.getMainComponentAsync();
+      else if (node.type === "COMPONENT" || node.type === "COMPONENT_SET") component = node;
+      if (!component) return [];
+      const field = attribute === "component" ? "name" : "key";
+      const values = [component[field]];
+      if (component.parent && component.parent.type === "COMPONENT_SET") values.push(component.parent[field]);
+      return values;
+    }
+    case "text":
+      if (node.type === "TEXT") return [node.characters];
+      if ("findAllWithCriteria" in node) {
+        return node.findAllWithCriteria({ types: ["TEXT"] }).map(text => text.characters);
+      }
+      return [];
+    case "style": {
+      const values = [];
+      ["fillStyleId", "strokeStyleId", "textStyleId", "effectStyleId", "gridStyleId"].forEach(field => {
+        const id = node[field];
+        if (typeof id === "string" && id) {
+          values.push(id);
+          if (context.styleNames[id]) values.push(context.styleNames[id]);
+        }
+      });
+      return values;
+    }
+    case "variable": {
+      const values = [];
+      collectBoundVariableIds(node).forEach(id => {
+        values.push(id);
+        if (context.variableNames[id]) values.push(context.variableNames[id]);
+      });
+      return values;
+    }
+    default:
+      return [];
+  }
+}
+
+function solidFillHexes(node) {
+  if (!("fills" in node) || !Array.isArray(node.fills)) return [];
+  const channel = value => Math.round(value * 255).toString(16).padStart(2, "0");
+  return node.fills
+    .filter(paint => paint.type === "SOLID" && paint.visible !== false)
+    .map(paint => "#" + channel(paint.color.r) + channel(paint.color.g) + channel(paint.color.b));
+}
+
+async function matchesQueryFilter(node, filter, context) {
+  if (filter.regex) {
+    const values = await getQueryTextValues(node, filter.attribute, context);
+    const matched = values.some(value => filter.regex.test(String(value)));
+    return filter.negate ? !matched : matched;
+  }
+  if (filter.attribute === "fill") {
+    const matched = solidFillHexes(node).indexOf(filter.color) !== -1;
+    return filter.negate ? !matched : matched;
+  }
+  if (filter.attribute === "visible" || filter.attribute === "locked") {
+    return !!node[filter.attribute] === filter.value;
+  }
+
+  const actual = node[filter.attribute];
+  if (typeof actual !== "number") return false;
+  switch (filter.op) {
+    case "=": return Math.abs(actual - filter.value) < 0.01;
+    case "!=": return Math.abs(actual - filter.value) >= 0.01;
+    case "<": return actual < filter.value;
+    case "<=": return actual <= filter.value;
+    case ">": return actual > filter.value;
+    case ">=": return actual >= filter.value;
+    default: return false;
+  }
+}
+
+async function matchesQueryStep(node, step, context) {
+  if (step.type && node.type !== step.type) return false;
+  for (const filter of step.filters) {
+    if (!(await matchesQueryFilter(node, filter, context))) return false;
+  }
+  return true;
+}
+
+// Match steps right to left: the node against the last step, then its ancestors against the rest
+async function matchesQuerySteps(node, ancestors, steps, index, context) {
+  if (!(await matchesQueryStep(node, steps[index], context))) return false;
+  if (index === 0) return true;
+  for (let i = ancestors.length - 1; i >= 0; i--) {
+    if (await matchesQuerySteps(ancestors[i], ancestors.slice(0, i), steps, index - 1, context)) return true;
+    if (steps[index].combinator === "child") return false;
+  }
+  return false;
+}
+
+async function findNodes(params) {
+  const { query, scope = "page", limit = 50, cursor, commandId = generateCommandId() } = params || {};
+
+  if (!query || !Array.isArray(query.selectors) || query.selectors.length === 0) {
+    throw new Error("Missing or invalid query parameter");
+  }
+  const offset = cursor ? parseInt(cursor, 10) : 0;
+  if (!(offset >= 0)) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+
+  let roots;
+  if (scope === "page") {
+    roots = [figma.currentPage];
+  } else if (scope === "document") {
+    await figma.loadAllPagesAsync();
+    roots = figma.root.children;
+  } else {
+    const scopeNode = await getNodeByIdSafe(scope);
+    if (!scopeNode) {
+      throw new Error(`Scope node not found with ID: ${scope}`);
+    }
+    roots = [scopeNode];
+  }
+
+  const context = await createQueryContext(query);
+  const matches = [];
+  let matchedCount = 0;
+  let scanned = 0;
+  let hasMore = false;
+
+  const visit = async (node, ancestors) => {
+    scanned++;
+    if (scanned % 1000 === 0) {
+      sendProgressUpdate(commandId, "find_nodes", "in_progress", 0, 0, scanned, `Scanned ${scanned} nodes, ${matchedCount} matches`);
+    }
+
+    for (const steps of query.selectors) {
+      if (await matchesQuerySteps(node, ancestors, steps, steps.length - 1, context)) {
+        if (matchedCount >= offset) {
+          if (matches.length === limit) {
+            hasMore = true;
+            return;
+          }
+          matches.push({ id: node.id, name: node.name, type: node.type, path: getNodePath(node) });
+        }
+        matchedCount++;
+        break;
+      }
+    }
+
+    if ("children" in node) {
+      const childAncestors = ancestors.concat([node]);
+      for (const child of node.children) {
+        await visit(child, childAncestors);
+        if (hasMore) return;
+      }
+    }
+  };
+
+  for (const root of roots) {
+    await visit(root, getNodeAncestors(root));
+    if (hasMore) break;
+  }
+
+  return {
+    matches: matches,
+    nextCursor: hasMore ? String(offset + limit) : null,
+    scannedNodes: scanned,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Node paths (parsed by the MCP server from "Page/Frame/Layer" style node references)
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Maximum number of matches reported for an ambiguous path
+const NODE_PATH_MATCH_LIMIT = 10;
+
+function matchesPathSegment(node, segment) {
+  return node.name === segment.name && (!segment.type || node.type === segment.type);
+}
+
+// Follow one path segment by segment. A first segment without a type names a page
+// when one matches, otherwise a top-level layer of the current page.
+async function resolveNodePath(segments) {
+  const [first] = segments;
+  let candidates = [];
+  if (!first.type || first.type === "PAGE") {
+    candidates = figma.root.children.filter((page) => matchesPathSegment(page, first));
+  }
+  if (candidates.length === 0 && first.type !== "PAGE") {
+    await figma.currentPage.loadAsync();
+    candidates = figma.currentPage.children.filter((node) => matchesPathSegment(node, first));
+  }
+  if (candidates.length === 0) {
+    return { matches: [], total: 0, missingAt: 0 };
+  }
+
+  for (let index = 1; index < segments.length; index++) {
+    const next = [];
+    for (const candidate of candidates) {
+      if (candidate.type === "PAGE") {
+        await candidate.loadAsync();
+      }
+      if (!("children" in candidate)) continue;
+      for (const child of candidate.children) {
+        if (matchesPathSegment(child, segments[index])) next.push(child);
+      }
+    }
+
+    if (next.length === 0) {
+      // With a single parent, list what is there so the caller can correct the path
+      const parent = candidates.length === 1 ? candidates[0] : null;
+      return {
+        matches: [],
+        total: 0,
+        missingAt: index,
+        parentPath: parent ? getNodePath(parent) : null,
+        siblingNames: parent && "children" in parent ? parent.children.slice(0, 20).map((child) => child.name) : [],
+      };
+    }
+    candidates = next;
+  }
+
+  return {
+    matches: candidates.slice(0, NODE_PATH_MATCH_LIMIT).map((node) => ({ id: node.id, type: node.type, path: getNodePath(node) })),
+    total: candidates.length,
+  };
+}
+
+async function resolveNodePaths(params) {
+  const { paths } = params || {};
+  if (!Array.isArray(paths)) {
+    throw new Error("Missing paths parameter");
+  }
+
+  const results = [];
+  for (const segments of paths) {
+    if (!Array.isArray(segments) || segments.length === 0) {
+      throw new Error("Each path must have at least one segment");
+    }
+    results.push(await resolveNodePath(segments));
+  }
+  return { results: results };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Outlines (compact trees the MCP server renders into budgeted get_outline text)
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Subtrees made only of these are summarized as "N vector layers"
+const OUTLINE_SHAPE_TYPES = ["VECTOR", "BOOLEAN_OPERATION", "LINE", "STAR", "POLYGON", "ELLIPSE", "RECTANGLE", "GROUP"];
+const OUTLINE_TEXT_LENGTH = 80;
+
+async function createOutlineEntry(node) {
+  const entry = {
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    childCount: "children" in node ? node.children.length : 0,
+  };
+  if ("width" in node && "height" in node) {
+    entry.width = Math.round(node.width);
+    entry.height = Math.round(node.height);
+  }
+  if (node.type === "TEXT") {
+    entry.text = node.characters.slice(0, OUTLINE_TEXT_LENGTH);
+  }
+  if (node.type === "INSTANCE") {
+    const mainComponent = await node.getMainComponentAsync();
+    if (mainComponent) {
+      entry.component = mainComponent.parent && mainComponent.parent.type === "COMPONENT_SET"
+        ? mainComponent.parent.name
+        : mainComponent.name;
+    }
+  }
+  if (entry.childCount > 0 && node.type !== "PAGE" &&
+      !node.findOne((descendant) => OUTLINE_SHAPE_TYPES.indexOf(descendant.type) === -1)) {
+    entry.vectorCount = node.findAll(() => true).length;
+  }
+  return entry;
+}
+
+async function getOutline(params) {
+  const { nodeId, childStart, childEnd, maxNodes = 2000 } = params || {};
+
+  let root = figma.currentPage;
+  if (nodeId) {
+    root = await getNodeByIdSafe(nodeId);
+    if (!root) {
+      throw new Error(`Node not found with ID: ${nodeId}`);
+    }
+  }
+  if (root.type === "PAGE") {
+    await root.loadAsync();
+  }
+
+  // Breadth-first, so the node limit cuts off the deepest levels first
+  const tree = await createOutlineEntry(root);
+  const queue = [{ node: root, entry: tree, start: childStart || 0, end: childEnd }];
+  let collected = 1;
+
+  while (queue.length > 0 && collected < maxNodes) {
+    const { node, entry, start, end } = queue.shift();
+    if (entry.vectorCount !== undefined || !("children" in node) || node.children.length === 0) continue;
+
+    const children = node.children.slice(start, end === undefined ? undefined : end + 1);
+    if (collected + children.length > maxNodes) continue;
+    entry.children = [];
+    if (node === root && childStart !== undefined) {
+      entry.childOffset = start;
+    }
+    for (const child of children) {
+      const childEntry = await createOutlineEntry(child);
+      entry.children.push(childEntry);
+      queue.push({ node: child, entry: childEntry, start: 0, end: undefined });
+    }
+    collected += children.length;
+  }
+
+  return tree;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Document, selection and page events (relayed to the MCP server, which buffers them
+// and notifies resource subscribers)
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Changes are batched for this long so a burst of edits becomes one event
+const DOCUMENT_EVENT_DELAY = 300;
+// Node IDs reported per event; larger bursts only report their pages
+const DOCUMENT_EVENT_NODE_LIMIT = 200;
+// The Figma API has no variable change event, so these commands report their own changes
+const VARIABLE_COMMANDS = ["set_variable", "import_variables", "switch_variable_mode"];
+// Selected nodes described per selection event; the total is always reported
+const SELECTION_EVENT_NODE_LIMIT = 100;
+
+let pendingDocumentEvent = null;
+let selectionEventTimer = null;
+
+// Hand an event to the UI, which forwards it to the channel
+function postFigmaEvent(eventType, event) {
+  figma.ui.postMessage({ type: "figma_event", eventType: eventType, event: event });
+}
+
+function getPageOf(node) {
+  let current = node;
+  while (current && current.type !== "PAGE") {
+    current = current.parent;
+  }
+  return current;
+}
+
+// The layer directly on the page that contains a node (the node itself when it is one)
+function getTopLevelOf(node) {
+  let current = node;
+  while (current && current.parent && current.parent.type !== "PAGE") {
+    current = current.parent;
+  }
+  return current && current.parent ? current : null;
+}
+
+// Merge changes into the pending event and schedule it to be sent
+function queueDocumentEvent(changes) {
+  if (!pendingDocumentEvent) {
+    pendingDocumentEvent = { nodeIds: [], topLevelIds: [], pageIds: [], pages: false, components: false, styles: false, variables: false };
+    setTimeout(flushDocumentEvent, DOCUMENT_EVENT_DELAY);
+  }
+  const event = pendingDocumentEvent;
+  for (const id of changes.nodeIds || []) {
+    if (event.nodeIds.indexOf(id) === -1 && event.nodeIds.length < DOCUMENT_EVENT_NODE_LIMIT) event.nodeIds.push(id);
+  }
+  for (const id of changes.topLevelIds || []) {
+    if (event.topLevelIds.indexOf(id) === -1 && event.topLevelIds.length < DOCUMENT_EVENT_NODE_LIMIT) event.topLevelIds.push(id);
+  }
+  for (const id of changes.pageIds || []) {
+    if (event.pageIds.indexOf(id) === -1) event.pageIds.push(id);
+  }
+  event.pages = event.pages || !!changes.pages;
+  event.components = event.components || !!changes.components;
+  event.styles = event.styles || !!changes.styles;
+  event.variables = event.variables || !!changes.variables;
+}
+
+function flushDocumentEvent() {
+  const event = pendingDocumentEvent;
+  pendingDocumentEvent = null;
+  if (event) {
+    postFigmaEvent("documentchange", Object.assign(event, { timestamp: Date.now() }));
+  }
+}
+
+function handleDocumentChange(event) {
+  const changes = { nodeIds: [], topLevelIds: [], pageIds: [] };
+  for (const change of event.documentChanges) {
+    if (change.type.indexOf("STYLE_") === 0) {
+      changes.styles = true;
+      continue;
+    }
+    const node = change.node;
+    if (!node) continue;
+
+    changes.nodeIds.push(node.id);
+    if (node.type === "PAGE") changes.pages = true;
+    if (node.type === "COMPONENT" || node.type === "COMPONENT_SET") changes.components = true;
+    if (node.removed) {
+      // Removed nodes no longer know their page; edits through this plugin happen on the current page
+      changes.pageIds.push(figma.currentPage.id);
+      continue;
+    }
+    // A node's parent lists it among its children, so it changes too
+    if (node.parent && node.parent.type !== "DOCUMENT") changes.nodeIds.push(node.parent.id);
+    const topLevel = getTopLevelOf(node);
+    if (topLevel) changes.topLevelIds.push(topLevel.id);
+    const page = getPageOf(node);
+    if (page) changes.pageIds.push(page.id);
+  }
+  queueDocumentEvent(changes);
+}
+
+function flushSelectionEvent() {
+  selectionEventTimer = null;
+  const selection = figma.currentPage.selection;
+  postFigmaEvent("selectionchange", {
+    pageId: figma.currentPage.id,
+    nodes: selection.slice(0, SELECTION_EVENT_NODE_LIMIT).map((node) => ({ id: node.id, name: node.name, type: node.type })),
+    total: selection.length,
+    timestamp: Date.now(),
+  });
+}
+
+// Dragging a selection rectangle fires many events; only the settled selection is sent
+function handleSelectionChange() {
+  if (selectionEventTimer) clearTimeout(selectionEventTimer);
+  selectionEventTimer = setTimeout(flushSelectionEvent, DOCUMENT_EVENT_DELAY);
+}
+
+function handleCurrentPageChange() {
+  postFigmaEvent("currentpagechange", {
+    pageId: figma.currentPage.id,
+    pageName: figma.currentPage.name,
+    timestamp: Date.now(),
+  });
+}
+
+figma.on("selectionchange", handleSelectionChange);
+figma.on("currentpagechange", handleCurrentPageChange);
+
+// documentchange needs every page loaded under dynamic-page access, which is slow in
+// large files, so it is only registered once the server asks for document events
+let documentEventsReady = null;
+
+function enableDocumentEvents() {
+  if (!documentEventsReady) {
+    documentEventsReady = figma.loadAllPagesAsync().then(() => {
+      figma.on("documentchange", handleDocumentChange);
+    });
+    documentEventsReady.catch(() => {
+      documentEventsReady = null;
+    });
+  }
+  return documentEventsReady.then(() => ({ enabled: true }));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Node snapshots (used by the MCP server's change journal for undo)
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Text properties that require the node's fonts to be loaded before writing
+const SNAPSHOT_TEXT_PROPERTIES = new Set([
+  "characters", "fontName", "fontSize", "letterSpacing", "lineHeight",
+  "paragraphSpacing", "textCase", "textDecoration", "textAlignHorizontal", "textAlignVertical",
+]);
+
+// Style IDs must be written through their async setters under dynamic-page access
+const SNAPSHOT_STYLE_SETTERS = {
+  fillStyleId: "setFillStyleIdAsync",
+  strokeStyleId: "setStrokeStyleIdAsync",
+  effectStyleId: "setEffectStyleIdAsync",
+  textStyleId: "setTextStyleIdAsync",
+};
+
+/**
+ * Read a list of plugin-API properties from a node as plain JSON.
+ * Properties the node doesn't have, or whose value is figma.mixed, are reported
+ * in `unsupported` instead of being snapshotted.
+ */
+async function getNodeSnapshot(params) {
+  const { nodeId, properties } = params || {};
+
+  if (!nodeId) {
+    throw new Error("Missing nodeId parameter");
+  }
+  if (!Array.isArray(properties) || properties.length === 0) {
+    throw new Error("Missing properties parameter");
+  }
+
+  const node = await getNodeByIdSafe(nodeId);
+  if (!node) {
+    throw new Error(`Node not found with ID: ${nodeId}`);
+  }
+
+  const snapshot = {};
+  const unsupported = [];
+  for (const property of properties) {
+    if (!(property in node) || node[property] === figma.mixed) {
+      unsupported.push(property);
+      continue;
+    }
+    snapshot[property] = JSON.parse(JSON.stringify(node[property]));
+  }
+
+  return {
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    parentId: node.parent ? node.parent.id : null,
+    properties: snapshot,
+    unsupported: unsupported,
+  };
+}
+
+/**
+ * Rebind a node's variables to a snapshot of node.boundVariables. Only single-value
+ * fields are handled here; paint bindings (fills/strokes) travel with the paints.
+ */
+async function restoreBoundVariables(node, bound) {
+  const current = node.boundVariables || {};
+  const fields = Object.keys(current).concat(Object.keys(bound || {}));
+  for (const field of fields) {
+    const previous = bound ? bound[field] : undefined;
+    if (Array.isArray(current[field]) || Array.isArray(previous)) continue;
+    if (previous && current[field] && previous.id === current[field].id) continue;
+    const variable = previous ? await figma.variables.getVariableByIdAsync(previous.id) : null;
+    node.setBoundVariable(field, variable);
+  }
+}
+
+/**
+ * Write back properties captured by getNodeSnapshot.
+ */
+async function restoreNodeSnapshot(params) {
+  const { nodeId, properties } = params || {};
+
+  if (!nodeId) {
+    throw new Error("Missing nodeId parameter");
+  }
+  if (!properties || typeof properties !== "object") {
+    throw new Error("Missing properties parameter");
+  }
+
+  const node = await getNodeByIdSafe(nodeId);
+  if (!node) {
+    throw new Error(`Node not found with ID: ${nodeId}`);
+  }
+
+  const keys = Object.keys(properties);
+
+  if (node.type === "TEXT" && keys.some((key) => SNAPSHOT_TEXT_PROPERTIES.has(key))) {
+    const fonts = node.characters.length > 0 ? node.getRangeAllFontNames(0, node.characters.length) : [node.fontName];
+    if (properties.fontName) fonts.push(properties.fontName);
+    for (const font of fonts) {
+      if (font && font !== figma.mixed) await figma.loadFontAsync(font);
+    }
+  }
+
+  // layoutMode must be set before padding/spacing; rotation moves x/y, so it goes
+  // before the position; style IDs go after the raw paints/effects, which would
+  // otherwise detach them, and so do variable bindings; width/height are applied
+  // together through resize().
+  const ordered = keys.slice().sort((a, b) => {
+    const rank = (key) => (key === "layoutMode" ? 0 : key === "rotation" ? 1 : SNAPSHOT_STYLE_SETTERS[key] || key === "boundVariables" ? 3 : key === "x" || key === "y" ? 4 : 2);
+    return rank(a) - rank(b);
+  });
+
+  const restored = [];
+  let resized = false;
+  for (const key of ordered) {
+    const value = properties[key];
+    if (key === "width" || key === "height") {
+      if (resized) continue;
+      const width = properties.width !== undefined ? properties.width : node.width;
+      const height = properties.height !== undefined ? properties.height : node.height;
+      node.resize(width, height);
+      resized = true;
+      restored.push("width", "height");
+      continue;
+    }
+    if (key === "boundVariables") {
+      await restoreBoundVariables(node, value);
+    } else if (SNAPSHOT_STYLE_SETTERS[key] && typeof node[SNAPSHOT_STYLE_SETTERS[key]] === "function") {
+      await node[SNAPSHOT_STYLE_SETTERS[key]](value);
+    } else {
+      node[key] = value;
+    }
+    restored.push(key);
+  }
+
+  return {
+    id: node.id,
+    name: node.name,
+    restored: restored.filter((key) => key in properties),
+  };
+}
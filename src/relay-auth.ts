@@ -0,0 +1,90 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// ─── Relay Authentication ──────────────────────────────────────────────────
+//
+// Authentication is off unless the relay is started with a secret:
+//
+//   RELAY_SECRET=...   every channel gets a pairing code derived from the secret; the
+//                      client that opens a channel (the plugin) is told the code, and
+//                      everyone joining after it must present it
+
+export interface RelayAuthConfig {
+  secret?: string;
+}
+
+export type JoinDecision =
+  | { allowed: true; pairingCode?: string }
+  | { allowed: false; reason: string };
+
+// Pairing codes are read aloud and typed, so ambiguous characters (0/O, 1/I/L) are left out
+const PAIRING_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+const PAIRING_CODE_LENGTH = 8;
+
+export function loadRelayAuthConfig(env: Record<string, string | undefined> = process.env): RelayAuthConfig {
+  return {
+    secret: env.RELAY_SECRET || undefined,
+  };
+}
+
+export function isAuthEnabled(config: RelayAuthConfig): boolean {
+  return !!config.secret;
+}
+
+/**
+ * Pairing code of a channel, formatted as two groups of four ("ABCD-EFGH").
+ */
+export function derivePairingCode(secret: string, channel: string): string {
+  const digest = createHmac("sha256", secret).update(channel).digest();
+  let code = "";
+  for (let i = 0; i < PAIRING_CODE_LENGTH; i++) {
+    code += PAIRING_ALPHABET[digest[i] % PAIRING_ALPHABET.length];
+  }
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+// Pairing codes are compared without case or separators
+function normalizePairingCode(code: string): string {
+  return code.toUpperCase().replace(/[^0-9A-Z]/g, "");
+}
+
+/**
+ * Compare secrets in constant time.
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Decide whether a join may proceed.
+ * @param config - Relay authentication settings
+ * @param channel - Channel being joined
+ * @param token - Pairing code sent with the join, if any
+ * @param channelIsNew - Whether nobody is in the channel yet
+ */
+export function authorizeJoin(
+  config: RelayAuthConfig,
+  channel: string,
+  token: string | undefined,
+  channelIsNew: boolean
+): JoinDecision {
+  if (!config.secret) {
+    return { allowed: true };
+  }
+
+  const pairingCode = derivePairingCode(config.secret, channel);
+  if (token && safeEqual(normalizePairingCode(token), normalizePairingCode(pairingCode))) {
+    return { allowed: true };
+  }
+  if (channelIsNew) {
+    // Whoever opens the channel learns its code and shares it with the clients it trusts
+    return { allowed: true, pairingCode };
+  }
+  return {
+    allowed: false,
+    reason: token
+      ? `Wrong pairing code for channel "${channel}"`
+      : `Channel "${channel}" requires a pairing code. It is shown in the Figma plugin next to the channel ID.`,
+  };
+}
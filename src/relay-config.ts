@@ -0,0 +1,88 @@
+// ─── Relay Configuration ───────────────────────────────────────────────────
+//
+// Every setting can be given as a CLI flag or an environment variable; flags win.
+//
+//   --hostname=0.0.0.0          RELAY_HOSTNAME               interface to listen on (default: Bun's)
+//   --port=3055                 RELAY_PORT                   port to listen on
+//   --tls-cert=cert.pem         RELAY_TLS_CERT               serve wss:// and https:// with this
+//   --tls-key=key.pem           RELAY_TLS_KEY                certificate and private key
+//   --allowed-origins=a,b       RELAY_ALLOWED_ORIGINS        browser Origins allowed to connect
+//   --max-message-size=bytes    RELAY_MAX_MESSAGE_SIZE       largest WebSocket message accepted
+//   --max-concurrent-reads=4    RELAY_MAX_CONCURRENT_READS   read-only commands run at once per channel
+//   --admin-token=...           RELAY_ADMIN_TOKEN            enables the /admin API for this bearer token
+
+export interface RelayConfig {
+  /** Undefined to keep Bun's default */
+  hostname?: string;
+  port: number;
+  tls?: { certPath: string; keyPath: string };
+  /** Empty when every Origin is allowed */
+  allowedOrigins: string[];
+  maxMessageSize: number;
+  /** 1 runs every command on its own, as before reads could overlap */
+  maxConcurrentReads: number;
+  /** The /admin endpoints are disabled without one */
+  adminToken?: string;
+}
+
+const DEFAULT_PORT = 3055;
+// Bun's own default, made explicit so it shows in the startup log
+const DEFAULT_MAX_MESSAGE_SIZE = 16 * 1024 * 1024;
+const DEFAULT_MAX_CONCURRENT_READS = 4;
+
+// Read "--name=value" from the arguments, falling back to the environment variable
+function readSetting(args: string[], env: Record<string, string | undefined>, flag: string, variable: string): string | undefined {
+  const prefix = `--${flag}=`;
+  const arg = args.find((candidate) => candidate.startsWith(prefix));
+  const value = arg !== undefined ? arg.slice(prefix.length) : env[variable];
+  return value === undefined || value.trim() === "" ? undefined : value.trim();
+}
+
+function parsePositiveInteger(value: string, name: string, max: number = Number.MAX_SAFE_INTEGER): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > max) {
+    throw new Error(`Invalid ${name}: "${value}" (expected a whole number from 1 to ${max})`);
+  }
+  return parsed;
+}
+
+/**
+ * Build the relay configuration from CLI arguments and environment variables.
+ * @throws Error naming the offending setting when a value is invalid
+ */
+export function loadRelayConfig(
+  args: string[] = process.argv.slice(2),
+  env: Record<string, string | undefined> = process.env
+): RelayConfig {
+  const port = readSetting(args, env, "port", "RELAY_PORT");
+  const certPath = readSetting(args, env, "tls-cert", "RELAY_TLS_CERT");
+  const keyPath = readSetting(args, env, "tls-key", "RELAY_TLS_KEY");
+  const origins = readSetting(args, env, "allowed-origins", "RELAY_ALLOWED_ORIGINS");
+  const maxMessageSize = readSetting(args, env, "max-message-size", "RELAY_MAX_MESSAGE_SIZE");
+  const maxConcurrentReads = readSetting(args, env, "max-concurrent-reads", "RELAY_MAX_CONCURRENT_READS");
+
+  if (!!certPath !== !!keyPath) {
+    throw new Error("TLS needs both a certificate and a key (--tls-cert and --tls-key)");
+  }
+
+  return {
+    hostname: readSetting(args, env, "hostname", "RELAY_HOSTNAME"),
+    port: port ? parsePositiveInteger(port, "port", 65535) : DEFAULT_PORT,
+    tls: certPath && keyPath ? { certPath, keyPath } : undefined,
+    allowedOrigins: origins ? origins.split(",").map((origin) => origin.trim()).filter(Boolean) : [],
+    maxMessageSize: maxMessageSize ? parsePositiveInteger(maxMessageSize, "max message size") : DEFAULT_MAX_MESSAGE_SIZE,
+    maxConcurrentReads: maxConcurrentReads
+      ? parsePositiveInteger(maxConcurrentReads, "max concurrent reads", 100)
+      : DEFAULT_MAX_CONCURRENT_READS,
+    adminToken: readSetting(args, env, "admin-token", "RELAY_ADMIN_TOKEN"),
+  };
+}
+
+/**
+ * Whether a request's Origin may connect. Requests without an Origin header come from
+ * non-browser clients (the MCP server, scripts) and are always allowed; the Figma
+ * plugin's sandboxed UI sends the Origin "null".
+ */
+export function isOriginAllowed(config: RelayConfig, origin: string | null): boolean {
+  return config.allowedOrigins.length === 0 || origin === null || config.allowedOrigins.includes(origin);
+}
@@ -0,0 +1,123 @@
+// ─── Relay Metrics ─────────────────────────────────────────────────────────
+//
+// Renders the relay's counters, per-channel gauges and per-command latency in
+// the Prometheus text exposition format, served at /metrics.
+
+export interface LatencyHistogram {
+  /** Upper bounds in seconds, ascending; +Inf is implied */
+  buckets: number[];
+  series: Map<string, { bucketCounts: number[]; sum: number; count: number }>;
+}
+
+export interface ChannelMetrics {
+  channel: string;
+  queueDepth: number;
+  plugins: number;
+  agents: number;
+}
+
+export interface MetricsSnapshot {
+  stats: Record<string, number>;
+  channels: ChannelMetrics[];
+  commandLatency: LatencyHistogram;
+  uptimeSeconds: number;
+}
+
+const PREFIX = "figma_relay_";
+
+// Commands time out after two minutes, so nothing is observed beyond the last bucket
+const DEFAULT_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+// Fields of the relay's stats object and how each one is exported
+const STAT_METRICS: { stat: string; name: string; type: "counter" | "gauge"; help: string }[] = [
+  { stat: "totalConnections", name: "connections_total", type: "counter", help: "WebSocket connections accepted" },
+  { stat: "activeConnections", name: "active_connections", type: "gauge", help: "Open WebSocket connections" },
+  { stat: "messagesReceived", name: "messages_received_total", type: "counter", help: "Messages received from clients" },
+  { stat: "messagesSent", name: "messages_sent_total", type: "counter", help: "Messages sent to clients" },
+  { stat: "errors", name: "errors_total", type: "counter", help: "Errors while handling messages" },
+  { stat: "queuedCommands", name: "queued_commands_total", type: "counter", help: "Commands added to a channel queue" },
+  { stat: "queueRejections", name: "queue_rejections_total", type: "counter", help: "Commands rejected because the channel queue was full" },
+  { stat: "queueDepthMax", name: "queue_depth_max", type: "gauge", help: "Deepest any channel queue has been" },
+  { stat: "blockedCommands", name: "blocked_commands_total", type: "counter", help: "Commands refused by validation and never sent to the plugin" },
+  { stat: "unicastResponses", name: "unicast_responses_total", type: "counter", help: "Plugin responses delivered to the requesting agent" },
+  { stat: "discardedResponses", name: "discarded_responses_total", type: "counter", help: "Plugin responses discarded because nobody was waiting for them" },
+  { stat: "cleanedStaleRequests", name: "cleaned_stale_requests_total", type: "counter", help: "Pending requests dropped as stale" },
+  { stat: "rejectedJoins", name: "rejected_joins_total", type: "counter", help: "Channel joins refused by authentication" },
+  { stat: "rejectedOrigins", name: "rejected_origins_total", type: "counter", help: "Connections refused because of their Origin" },
+  { stat: "cancelledCommands", name: "cancelled_commands_total", type: "counter", help: "Commands cancelled through the admin API" },
+  { stat: "adminDisconnects", name: "admin_disconnects_total", type: "counter", help: "Clients disconnected through the admin API" },
+];
+
+export function createLatencyHistogram(buckets: number[] = DEFAULT_LATENCY_BUCKETS): LatencyHistogram {
+  return { buckets: [...buckets].sort((a, b) => a - b), series: new Map() };
+}
+
+/**
+ * Record how long a command took.
+ * @param histogram - Histogram to update
+ * @param command - Command name, used as the label
+ * @param seconds - Time from enqueue to the plugin's response
+ */
+export function observeLatency(histogram: LatencyHistogram, command: string, seconds: number): void {
+  let series = histogram.series.get(command);
+  if (!series) {
+    series = { bucketCounts: histogram.buckets.map(() => 0), sum: 0, count: 0 };
+    histogram.series.set(command, series);
+  }
+  histogram.buckets.forEach((bound, index) => {
+    if (seconds <= bound) series!.bucketCounts[index]++;
+  });
+  series.sum += seconds;
+  series.count++;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function header(lines: string[], name: string, type: string, help: string): void {
+  lines.push(`# HELP ${PREFIX}${name} ${help}`, `# TYPE ${PREFIX}${name} ${type}`);
+}
+
+/**
+ * Render a snapshot in the Prometheus text exposition format.
+ */
+export function formatMetrics(snapshot: MetricsSnapshot): string {
+  const lines: string[] = [];
+
+  header(lines, "uptime_seconds", "gauge", "Seconds since the relay started");
+  lines.push(`${PREFIX}uptime_seconds ${snapshot.uptimeSeconds}`);
+
+  for (const metric of STAT_METRICS) {
+    const value = snapshot.stats[metric.stat];
+    if (value === undefined) continue;
+    header(lines, metric.name, metric.type, metric.help);
+    lines.push(`${PREFIX}${metric.name} ${value}`);
+  }
+
+  const channelGauges: { name: string; help: string; value: (channel: ChannelMetrics) => number }[] = [
+    { name: "channel_queue_depth", help: "Commands waiting in the channel queue", value: (channel) => channel.queueDepth },
+    { name: "channel_plugins", help: "Figma plugins connected to the channel", value: (channel) => channel.plugins },
+    { name: "channel_agents", help: "Agents connected to the channel", value: (channel) => channel.agents },
+  ];
+  for (const gauge of channelGauges) {
+    header(lines, gauge.name, "gauge", gauge.help);
+    for (const channel of snapshot.channels) {
+      lines.push(`${PREFIX}${gauge.name}{channel="${escapeLabel(channel.channel)}"} ${gauge.value(channel)}`);
+    }
+  }
+
+  const histogram = snapshot.commandLatency;
+  header(lines, "command_duration_seconds", "histogram", "Time from enqueueing a command to the plugin's response");
+  for (const [command, series] of histogram.series) {
+    const label = `command="${escapeLabel(command)}"`;
+    histogram.buckets.forEach((bound, index) => {
+      lines.push(`${PREFIX}command_duration_seconds_bucket{${label},le="${bound}"} ${series.bucketCounts[index]}`);
+    });
+    lines.push(`${PREFIX}command_duration_seconds_bucket{${label},le="+Inf"} ${series.count}`);
+    lines.push(`${PREFIX}command_duration_seconds_sum{${label}} ${series.sum}`);
+    lines.push(`${PREFIX}command_duration_seconds_count{${label}} ${series.count}`);
+  }
+
+  return lines.join("\n") + "\n";
+}
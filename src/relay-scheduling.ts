@@ -0,0 +1,43 @@
+// ─── Relay Scheduling ──────────────────────────────────────────────────────
+//
+// Decides when a queued command may be sent to the plugin. Read-only commands
+// share the plugin with other reads up to a limit; a mutation waits until
+// nothing else is in flight, and holds back everything queued behind it, so
+// mutations stay serialized and in order.
+
+// Commands that only read the document. Everything else (including commands
+// missing here) is treated as a mutation and runs alone
+export const READ_ONLY_COMMANDS = new Set([
+  "ping", "enable_document_events", "get_document_info", "get_selection", "get_node_info", "get_nodes_info",
+  "get_styles", "get_local_components", "get_team_components", "get_remote_components",
+  "export_node_as_image", "scan_text_nodes", "get_styled_text_segments", "get_pages",
+  "get_image_from_node", "get_svg", "get_grid", "get_guide", "get_annotation",
+  "get_variables", "get_figjam_elements", "get_reactions", "find_nodes",
+  "resolve_node_paths", "get_outline", "get_node_snapshot",
+]);
+
+/**
+ * Whether a command message only reads the document. A batch counts as a read
+ * when every one of its steps does.
+ * @param message - The command message ({ command, params })
+ */
+export function isReadOnlyCommand(message: any): boolean {
+  if (message?.command === "execute_batch") {
+    const steps = Array.isArray(message.params?.steps) ? message.params.steps : [];
+    return steps.length > 0 && steps.every((step: any) => READ_ONLY_COMMANDS.has(step?.command));
+  }
+  return READ_ONLY_COMMANDS.has(message?.command);
+}
+
+/**
+ * Whether the command at the head of a channel's queue may be sent now.
+ * @param running - The channel's in-flight commands
+ * @param message - The command message at the head of the queue
+ * @param maxConcurrentReads - How many reads may be in flight at once
+ */
+export function canDispatch(running: { readOnly: boolean }[], message: any, maxConcurrentReads: number): boolean {
+  if (!isReadOnlyCommand(message)) {
+    return running.length === 0;
+  }
+  return running.every((command) => command.readOnly) && running.length < maxConcurrentReads;
+}
@@ -1,4 +1,8 @@
 import { Server, ServerWebSocket } from "bun";
+import { loadRelayAuthConfig, isAuthEnabled, authorizeJoin, safeEqual } from "./relay-auth";
+import { loadRelayConfig, isOriginAllowed, RelayConfig } from "./relay-config";
+import { createLatencyHistogram, observeLatency, formatMetrics } from "./relay-metrics";
+import { isReadOnlyCommand, canDispatch } from "./relay-scheduling";
 
 // Enhanced logging system
 const logger = {
@@ -19,6 +23,9 @@ const logger = {
 // Store clients by channel
 const channels = new Map<string, Set<ServerWebSocket<any>>>();
 
+// Every open connection by client ID (used by the admin API)
+const clientsById = new Map<string, ServerWebSocket<any>>();
+
 // Keep track of channel statistics
 const stats = {
   totalConnections: 0,
@@ -34,8 +41,29 @@ const stats = {
   unicastResponses: 0,
   discardedResponses: 0,
   cleanedStaleRequests: 0,
+  // Authentication stats
+  rejectedJoins: 0,
+  rejectedOrigins: 0,
+  // Admin API stats
+  cancelledCommands: 0,
+  adminDisconnects: 0,
 };
 
+// Per-command time from enqueue to plugin response, served at /metrics
+const commandLatency = createLatencyHistogram();
+
+// Optional join authentication (see relay-auth.ts)
+const authConfig = loadRelayAuthConfig();
+
+// Listening address, TLS and limits (see relay-config.ts)
+let relayConfig: RelayConfig;
+try {
+  relayConfig = loadRelayConfig();
+} catch (error) {
+  logger.error(`Invalid relay configuration: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
 // ─── Command Queue & Response Routing Infrastructure ────────────────────────
 
 // Track which client sent each request (for unicast response routing)
@@ -55,7 +83,7 @@ const CREATION_COMMANDS = new Set([
   "create_rectangle", "create_frame", "create_text", "create_ellipse",
   "create_polygon", "create_star", "create_vector", "create_line",
   "create_component_instance", "create_component_set", "set_svg",
-  "clone_node", "create_component_from_node",
+  "clone_node", "create_component_from_node", "create_from_spec",
   // FigJam creation commands
   "create_section", "create_sticky", "create_shape_with_text", "create_connector",
 ]);
@@ -71,11 +99,17 @@ interface QueuedCommand {
   enqueuedAt: number;
 }
 
+interface InFlightCommand {
+  item: QueuedCommand;
+  readOnly: boolean;
+  startedAt: number;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
 interface ChannelQueueState {
   queue: QueuedCommand[];
-  isProcessing: boolean;
-  currentCommandTimeout?: ReturnType<typeof setTimeout>;
-  currentRequestId?: string;
+  // Commands sent to the plugin and not answered yet, by request ID
+  inFlight: Map<string, InFlightCommand>;
 }
 
 // Per-command timeout: safety net if plugin hangs or disconnects
@@ -114,6 +148,17 @@ function validateCommand(data: any, channelName: string): string | null {
       `Call get_pages to discover available page IDs.`;
   }
 
+  // Batches run their steps inside the plugin, so apply the same rules to every step
+  if (command === "execute_batch") {
+    const steps = Array.isArray(params?.steps) ? params.steps : [];
+    for (let i = 0; i < steps.length; i++) {
+      const stepError = validateCommand({ message: { command: steps[i]?.command, params: steps[i]?.params } }, channelName);
+      if (stepError) {
+        return `Batch step ${i + 1}: ${stepError}`;
+      }
+    }
+  }
+
   return null; // Valid
 }
 
@@ -121,8 +166,8 @@ function classifyClient(ws: ServerWebSocket<any>, data: any): void {
   // Already classified
   if (pluginClients.has(ws) || agentClients.has(ws)) return;
 
-  // Plugin sends responses (result/error fields) — it never sends commands
-  if (data.message?.result !== undefined || data.message?.error !== undefined) {
+  // Plugin sends responses (result/error fields) and events — it never sends commands
+  if (data.message?.result !== undefined || data.message?.error !== undefined || data.message?.type === "figma_event") {
     pluginClients.add(ws);
     logger.info(`Client ${ws.data?.clientId} classified as Figma plugin`);
     return;
@@ -140,7 +185,7 @@ function classifyClient(ws: ServerWebSocket<any>, data: any): void {
 
 function ensureQueueState(channelName: string): ChannelQueueState {
   if (!channelQueues.has(channelName)) {
-    channelQueues.set(channelName, { queue: [], isProcessing: false });
+    channelQueues.set(channelName, { queue: [], inFlight: new Map() });
   }
   return channelQueues.get(channelName)!;
 }
@@ -196,11 +241,45 @@ function enqueueCommand(data: any, ws: ServerWebSocket<any>, channelName: string
 
 function processQueue(channelName: string): void {
   const queueState = channelQueues.get(channelName);
-  if (!queueState || queueState.isProcessing || queueState.queue.length === 0) return;
+  if (!queueState) return;
+
+  let dispatched = false;
+  // Reads overlap up to --max-concurrent-reads; mutations run alone and in order (see relay-scheduling.ts)
+  while (
+    queueState.queue.length > 0 &&
+    canDispatch(Array.from(queueState.inFlight.values()), queueState.queue[0].data.message, relayConfig.maxConcurrentReads)
+  ) {
+    dispatchCommand(channelName, queueState, queueState.queue.shift()!);
+    dispatched = true;
+  }
+  if (!dispatched) return;
 
-  queueState.isProcessing = true;
-  const item = queueState.queue.shift()!;
+  // Send queue position updates to all waiting agents
+  queueState.queue.forEach((waiting, index) => {
+    if (waiting.senderWs.readyState === WebSocket.OPEN) {
+      try {
+        waiting.senderWs.send(JSON.stringify({
+          type: "queue_position",
+          id: waiting.requestId,
+          position: index + 1,
+          queueSize: queueState.queue.length,
+          message: {
+            data: {
+              status: "queued",
+              progress: 0,
+              message: `Queued at position ${index + 1} of ${queueState.queue.length}`,
+            },
+          },
+        }));
+        stats.messagesSent++;
+      } catch (error) {
+        logger.error(`Failed to send queue position update:`, error);
+      }
+    }
+  });
+}
 
+function dispatchCommand(channelName: string, queueState: ChannelQueueState, item: QueuedCommand): void {
   // Forward command to the Figma plugin.
   // If a classified plugin exists, send directly to it. Otherwise, forward to all
   // non-agent clients (bootstrap case: plugin hasn't been classified yet because
@@ -256,45 +335,43 @@ function processQueue(channelName: string): void {
       stats.messagesSent++;
     }
     requestToClient.delete(item.requestId);
-    queueState.isProcessing = false;
-    // Use setTimeout to avoid stack overflow when draining large queues without a plugin
-    setTimeout(() => processQueue(channelName), 0);
+    // processQueue moves on to the next command, which fails the same way
     return;
   }
 
-  // Track current command for timeout/disconnect handling
-  queueState.currentRequestId = item.requestId;
-
-  // Start per-command timeout (safety net if plugin hangs)
-  queueState.currentCommandTimeout = setTimeout(() => {
-    // Guard: verify this timeout is still for the current in-flight command.
-    // If handleResponseFromPlugin already processed this request, currentRequestId
-    // will have been cleared — skip to avoid double-dequeue.
-    if (queueState.currentRequestId !== item.requestId) return;
-
-    logger.warn(`Command ${item.requestId} timed out after ${COMMAND_TIMEOUT_MS}ms in channel ${channelName}`);
-    // Send timeout error to the requesting agent
-    const entry = requestToClient.get(item.requestId);
-    if (entry && entry.ws.readyState === WebSocket.OPEN) {
-      try {
-        entry.ws.send(JSON.stringify({
-          type: "broadcast",
-          message: { id: item.requestId, error: "Command timed out waiting for Figma plugin response" },
-          sender: "User",
-          channel: channelName,
-        }));
-        stats.messagesSent++;
-      } catch (e) {
-        logger.error(`Failed to send timeout error:`, e);
+  // Track the command for timeout/disconnect handling
+  queueState.inFlight.set(item.requestId, {
+    item,
+    readOnly: isReadOnlyCommand(item.data.message),
+    startedAt: Date.now(),
+    // Per-command timeout (safety net if plugin hangs)
+    timeout: setTimeout(() => {
+      // Guard: if handleResponseFromPlugin already processed this request, it is
+      // no longer in flight — skip to avoid double-dequeue.
+      if (!queueState.inFlight.has(item.requestId)) return;
+
+      logger.warn(`Command ${item.requestId} timed out after ${COMMAND_TIMEOUT_MS}ms in channel ${channelName}`);
+      // Send timeout error to the requesting agent
+      const entry = requestToClient.get(item.requestId);
+      if (entry && entry.ws.readyState === WebSocket.OPEN) {
+        try {
+          entry.ws.send(JSON.stringify({
+            type: "broadcast",
+            message: { id: item.requestId, error: "Command timed out waiting for Figma plugin response" },
+            sender: "User",
+            channel: channelName,
+          }));
+          stats.messagesSent++;
+        } catch (e) {
+          logger.error(`Failed to send timeout error:`, e);
+        }
       }
-    }
-    requestToClient.delete(item.requestId);
-    // Unblock queue
-    queueState.isProcessing = false;
-    queueState.currentCommandTimeout = undefined;
-    queueState.currentRequestId = undefined;
-    processQueue(channelName);
-  }, COMMAND_TIMEOUT_MS);
+      requestToClient.delete(item.requestId);
+      // Unblock queue
+      queueState.inFlight.delete(item.requestId);
+      processQueue(channelName);
+    }, COMMAND_TIMEOUT_MS),
+  });
 
   // Echo back to sender (for command echo filtering in websocket.ts)
   if (item.senderWs.readyState === WebSocket.OPEN) {
@@ -310,30 +387,6 @@ function processQueue(channelName: string): void {
       logger.error(`Failed to send command echo to sender:`, error);
     }
   }
-
-  // Send queue position updates to all waiting agents
-  queueState.queue.forEach((waiting, index) => {
-    if (waiting.senderWs.readyState === WebSocket.OPEN) {
-      try {
-        waiting.senderWs.send(JSON.stringify({
-          type: "queue_position",
-          id: waiting.requestId,
-          position: index + 1,
-          queueSize: queueState.queue.length,
-          message: {
-            data: {
-              status: "queued",
-              progress: 0,
-              message: `Queued at position ${index + 1} of ${queueState.queue.length}`,
-            },
-          },
-        }));
-        stats.messagesSent++;
-      } catch (error) {
-        logger.error(`Failed to send queue position update:`, error);
-      }
-    }
-  });
 }
 
 function handleResponseFromPlugin(data: any, channelName: string): void {
@@ -367,17 +420,18 @@ function handleResponseFromPlugin(data: any, channelName: string): void {
     stats.discardedResponses++;
   }
 
-  // Only unblock queue if this response matches the in-flight command.
+  // Only unblock queue if this response matches an in-flight command.
   // Guards against stale responses (e.g., timeout already fired and dequeued next)
   // which would otherwise double-dequeue and break FIFO invariant.
   const queueState = channelQueues.get(channelName);
-  if (queueState && responseId && responseId === queueState.currentRequestId) {
-    if (queueState.currentCommandTimeout) {
-      clearTimeout(queueState.currentCommandTimeout);
-      queueState.currentCommandTimeout = undefined;
+  const inFlight = responseId ? queueState?.inFlight.get(responseId) : undefined;
+  if (queueState && inFlight) {
+    const command = inFlight.item.data.message?.command;
+    if (command) {
+      observeLatency(commandLatency, command, (Date.now() - inFlight.item.enqueuedAt) / 1000);
     }
-    queueState.currentRequestId = undefined;
-    queueState.isProcessing = false;
+    clearTimeout(inFlight.timeout);
+    queueState.inFlight.delete(responseId);
     processQueue(channelName);
   }
 }
@@ -387,7 +441,7 @@ function handleResponseFromPlugin(data: any, channelName: string): void {
 function cleanupClient(ws: ServerWebSocket<any>, clientChannels: string[] = []): void {
   const isPlugin = pluginClients.has(ws);
 
-  // If the disconnecting client is the plugin, flush the in-flight command
+  // If the disconnecting client is the plugin, flush the in-flight commands
   // Scoped to channels this plugin was actually in (prevents aborting other channels)
   if (isPlugin) {
     const channelsToCheck = clientChannels.length > 0
@@ -396,17 +450,13 @@ function cleanupClient(ws: ServerWebSocket<any>, clientChannels: string[] = []):
 
     for (const channelName of channelsToCheck) {
       const queueState = channelQueues.get(channelName);
-      if (!queueState) continue;
+      if (!queueState || queueState.inFlight.size === 0) continue;
 
-      if (queueState.isProcessing && queueState.currentRequestId) {
-        const requestId = queueState.currentRequestId;
+      for (const [requestId, inFlight] of queueState.inFlight.entries()) {
         logger.warn(`Plugin disconnected while command ${requestId} was in-flight on channel ${channelName}`);
 
         // Clear the command timeout
-        if (queueState.currentCommandTimeout) {
-          clearTimeout(queueState.currentCommandTimeout);
-          queueState.currentCommandTimeout = undefined;
-        }
+        clearTimeout(inFlight.timeout);
 
         // Send error to the requesting agent
         const entry = requestToClient.get(requestId);
@@ -424,13 +474,11 @@ function cleanupClient(ws: ServerWebSocket<any>, clientChannels: string[] = []):
           }
         }
         requestToClient.delete(requestId);
-
-        // Unblock queue and drain remaining items (they'll fail with "No plugin connected")
-        // Use setTimeout to avoid stack overflow when draining large queues
-        queueState.isProcessing = false;
-        queueState.currentRequestId = undefined;
-        setTimeout(() => processQueue(channelName), 0);
       }
+
+      // Unblock queue and drain remaining items (they'll fail with "No plugin connected")
+      queueState.inFlight.clear();
+      setTimeout(() => processQueue(channelName), 0);
     }
   }
 
@@ -489,7 +537,8 @@ function handleConnection(ws: ServerWebSocket<any>) {
   stats.activeConnections++;
 
   const clientId = `client_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-  ws.data = { clientId };
+  ws.data = { clientId, connectedAt: Date.now() };
+  clientsById.set(clientId, ws);
 
   logger.info(`New client connected: ${clientId}`);
 
@@ -504,12 +553,194 @@ function handleConnection(ws: ServerWebSocket<any>) {
   }
 }
 
+// ─── Admin API ─────────────────────────────────────────────────────────────
+//
+// Enabled with --admin-token / RELAY_ADMIN_TOKEN; every request needs
+// "Authorization: Bearer <token>".
+//
+//   GET  /admin/channels                       channels with their clients and queue depth
+//   GET  /admin/queues                         queued and in-flight commands of every channel
+//   GET  /admin/channels/:channel/queue        the same for one channel
+//   POST /admin/commands/:requestId/cancel     cancel a queued or in-flight command
+//   POST /admin/channels/:channel/drain        cancel every queued command (?inFlight=true: running ones too)
+//   POST /admin/clients/:clientId/disconnect   close a client's connection
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function describeClient(ws: ServerWebSocket<any>) {
+  return {
+    clientId: ws.data?.clientId,
+    sessionId: ws.data?.sessionId ?? null,
+    role: pluginClients.has(ws) ? "plugin" : agentClients.has(ws) ? "agent" : "unknown",
+    connectedAt: new Date(ws.data?.connectedAt ?? 0).toISOString(),
+  };
+}
+
+function describeQueue(channelName: string) {
+  const queueState = channelQueues.get(channelName);
+  const now = Date.now();
+  return {
+    channel: channelName,
+    inFlight: Array.from(queueState?.inFlight.values() ?? []).map(({ item, readOnly, startedAt }) => ({
+      requestId: item.requestId,
+      command: item.data.message?.command,
+      readOnly,
+      ageMs: now - startedAt,
+      clientId: item.senderWs.data?.clientId,
+    })),
+    queued: (queueState?.queue ?? []).map((item, index) => ({
+      position: index + 1,
+      requestId: item.requestId,
+      command: item.data.message?.command,
+      ageMs: now - item.enqueuedAt,
+      clientId: item.senderWs.data?.clientId,
+    })),
+  };
+}
+
+// Tell the agent waiting on a command that it will not get a result
+function sendCommandError(ws: ServerWebSocket<any> | undefined, channelName: string, requestId: string, error: string): void {
+  if (!ws || ws.readyState !== WebSocket.OPEN) return;
+  try {
+    ws.send(JSON.stringify({
+      type: "broadcast",
+      message: { id: requestId, error },
+      sender: "User",
+      channel: channelName,
+    }));
+    stats.messagesSent++;
+  } catch (e) {
+    logger.error(`Failed to send cancellation error:`, e);
+  }
+}
+
+/**
+ * Cancel a queued or in-flight command. An in-flight command may still finish in
+ * the plugin; its response is discarded and the queue moves on immediately.
+ * @returns Where the command was found, or null if it is unknown
+ */
+function cancelCommand(requestId: string, reason: string): { channel: string; state: "queued" | "in-flight" } | null {
+  for (const [channelName, queueState] of channelQueues.entries()) {
+    const index = queueState.queue.findIndex((item) => item.requestId === requestId);
+    if (index !== -1) {
+      const [item] = queueState.queue.splice(index, 1);
+      sendCommandError(item.senderWs, channelName, requestId, reason);
+      requestToClient.delete(requestId);
+      stats.cancelledCommands++;
+      return { channel: channelName, state: "queued" };
+    }
+
+    const inFlight = queueState.inFlight.get(requestId);
+    if (inFlight) {
+      clearTimeout(inFlight.timeout);
+      sendCommandError(requestToClient.get(requestId)?.ws, channelName, requestId, reason);
+      requestToClient.delete(requestId);
+      queueState.inFlight.delete(requestId);
+      stats.cancelledCommands++;
+      setTimeout(() => processQueue(channelName), 0);
+      return { channel: channelName, state: "in-flight" };
+    }
+  }
+  return null;
+}
+
+function handleAdminRequest(req: Request, url: URL): Response {
+  if (!relayConfig.adminToken) {
+    return jsonResponse({ error: "Admin API is disabled. Start the relay with --admin-token to enable it." }, 404);
+  }
+  const authorization = req.headers.get("authorization") ?? "";
+  const token = authorization.startsWith("Bearer ") ? authorization.slice("Bearer ".length) : "";
+  if (!safeEqual(token, relayConfig.adminToken)) {
+    logger.warn(`Rejected admin request to ${url.pathname}: missing or wrong token`);
+    return jsonResponse({ error: "Missing or wrong admin token" }, 401);
+  }
+
+  let segments: string[];
+  try {
+    segments = url.pathname.split("/").filter(Boolean).slice(1).map(decodeURIComponent);
+  } catch {
+    return jsonResponse({ error: "Malformed percent-encoding in path" }, 400);
+  }
+  const route = `${req.method} ${segments.map((segment, index) => (index % 2 === 1 ? ":" : segment)).join("/")}`;
+
+  switch (route) {
+    case "GET channels":
+      return jsonResponse({
+        channels: Array.from(channels.entries()).map(([channelName, clients]) => ({
+          channel: channelName,
+          clients: Array.from(clients).map(describeClient),
+          queueDepth: channelQueues.get(channelName)?.queue.length ?? 0,
+          inFlight: Array.from(channelQueues.get(channelName)?.inFlight.keys() ?? []),
+        })),
+      });
+
+    case "GET queues":
+      return jsonResponse({ queues: Array.from(channelQueues.keys()).map(describeQueue) });
+
+    case "GET channels/:/queue": {
+      const channelName = segments[1];
+      if (!channels.has(channelName) && !channelQueues.has(channelName)) {
+        return jsonResponse({ error: `Unknown channel: ${channelName}` }, 404);
+      }
+      return jsonResponse(describeQueue(channelName));
+    }
+
+    case "POST commands/:/cancel": {
+      const cancelled = cancelCommand(segments[1], "Command cancelled by the relay administrator");
+      if (!cancelled) {
+        return jsonResponse({ error: `No queued or in-flight command with ID ${segments[1]}` }, 404);
+      }
+      logger.info(`Admin cancelled ${cancelled.state} command ${segments[1]} in channel ${cancelled.channel}`);
+      return jsonResponse({ requestId: segments[1], ...cancelled });
+    }
+
+    case "POST channels/:/drain": {
+      const channelName = segments[1];
+      const queueState = channelQueues.get(channelName);
+      if (!queueState) {
+        return jsonResponse({ error: `Channel ${channelName} has no command queue` }, 404);
+      }
+      const reason = "Command cancelled: the relay administrator drained the channel's queue";
+      const requestIds = queueState.queue.map((item) => item.requestId);
+      if (url.searchParams.get("inFlight") === "true") {
+        requestIds.unshift(...queueState.inFlight.keys());
+      }
+      const cancelled = requestIds.filter((requestId) => cancelCommand(requestId, reason) !== null);
+      logger.info(`Admin drained ${cancelled.length} command(s) from channel ${channelName}`);
+      return jsonResponse({ channel: channelName, cancelled });
+    }
+
+    case "POST clients/:/disconnect": {
+      const ws = clientsById.get(segments[1]);
+      if (!ws) {
+        return jsonResponse({ error: `No connected client with ID ${segments[1]}` }, 404);
+      }
+      logger.info(`Admin disconnected client ${segments[1]}`);
+      stats.adminDisconnects++;
+      // The close handler cleans up channels, queues and routing as for any disconnect
+      ws.close(4000, "Disconnected by the relay administrator");
+      return jsonResponse({ clientId: segments[1], disconnected: true });
+    }
+
+    default:
+      return jsonResponse({ error: `Unknown admin endpoint: ${req.method} ${url.pathname}` }, 404);
+  }
+}
+
 // ─── Server ────────────────────────────────────────────────────────────────
 
 const server = Bun.serve({
-  port: 3055,
-  // uncomment this to allow connections in windows wsl
-  // hostname: "0.0.0.0",
+  port: relayConfig.port,
+  // Use --hostname=0.0.0.0 to accept connections from WSL, containers or other machines
+  ...(relayConfig.hostname ? { hostname: relayConfig.hostname } : {}),
+  ...(relayConfig.tls
+    ? { tls: { cert: Bun.file(relayConfig.tls.certPath), key: Bun.file(relayConfig.tls.keyPath) } }
+    : {}),
   fetch(req: Request, server: Server) {
     const url = new URL(req.url);
 
@@ -526,17 +757,24 @@ const server = Bun.serve({
       });
     }
 
+    // Handle admin API
+    if (url.pathname.startsWith("/admin/")) {
+      return handleAdminRequest(req, url);
+    }
+
     // Handle status endpoint
     if (url.pathname === "/status") {
       return new Response(JSON.stringify({
         status: "running",
         uptime: process.uptime(),
+        authEnabled: isAuthEnabled(authConfig),
         stats,
         queue: {
           channels: Array.from(channelQueues.entries()).map(([name, state]) => ({
             channel: name,
             queueDepth: state.queue.length,
-            isProcessing: state.isProcessing,
+            isProcessing: state.inFlight.size > 0,
+            inFlight: state.inFlight.size,
           })),
           pendingRequests: requestToClient.size,
           agentCount: agentClients.size,
@@ -550,7 +788,30 @@ const server = Bun.serve({
       });
     }
 
+    // Handle Prometheus metrics endpoint
+    if (url.pathname === "/metrics") {
+      return new Response(formatMetrics({
+        stats,
+        channels: Array.from(channels.entries()).map(([name, clients]) => ({
+          channel: name,
+          queueDepth: channelQueues.get(name)?.queue.length ?? 0,
+          plugins: Array.from(clients).filter((client) => pluginClients.has(client)).length,
+          agents: Array.from(clients).filter((client) => agentClients.has(client)).length,
+        })),
+        commandLatency,
+        uptimeSeconds: process.uptime(),
+      }), {
+        headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+      });
+    }
+
     // Handle WebSocket upgrade
+    const origin = req.headers.get("origin");
+    if (!isOriginAllowed(relayConfig, origin)) {
+      logger.warn(`Refused WebSocket connection from origin ${origin}`);
+      stats.rejectedOrigins++;
+      return new Response("Origin not allowed", { status: 403 });
+    }
     try {
       const success = server.upgrade(req, {
         headers: {
@@ -575,6 +836,7 @@ const server = Bun.serve({
     });
   },
   websocket: {
+    maxPayloadLength: relayConfig.maxMessageSize,
     open: handleConnection,
     message(ws: ServerWebSocket<any>, message: string | Buffer) {
       try {
@@ -597,6 +859,23 @@ const server = Bun.serve({
             return;
           }
 
+          // Authenticate before touching any session or channel state, so a rejected
+          // join cannot displace an existing connection
+          const channelIsNew = !channels.has(channelName) || channels.get(channelName)!.size === 0;
+          const decision = authorizeJoin(authConfig, channelName, typeof data.token === "string" ? data.token : undefined, channelIsNew);
+          if (!decision.allowed) {
+            logger.warn(`Client ${clientId} was refused entry to channel ${channelName}: ${decision.reason}`);
+            ws.send(JSON.stringify({
+              type: "error",
+              id: data.id,
+              message: decision.reason,
+              channel: channelName
+            }));
+            stats.rejectedJoins++;
+            stats.messagesSent++;
+            return;
+          }
+
           // Session deduplication: if this client sends a sessionId (MCP agents do),
           // close the previous connection with the same sessionId to prevent stale
           // connections from polluting routing when an agent reconnects (e.g., after compaction).
@@ -644,6 +923,8 @@ const server = Bun.serve({
               message: {
                 id: data.id,
                 result: "Connected to channel: " + channelName,
+                // Only the client that opened an authenticated channel is told its code
+                ...(decision.pairingCode ? { pairingCode: decision.pairingCode } : {}),
               },
               channel: channelName
             }));
@@ -865,6 +1146,8 @@ const server = Bun.serve({
       // Clean up queue & routing state for this client
       cleanupClient(ws, clientChannels);
 
+      clientsById.delete(clientId);
+
       // Clean up session deduplication entry (only if this ws is the current holder)
       if (ws.data?.sessionId) {
         const currentHolder = sessionToClient.get(ws.data.sessionId);
@@ -882,8 +1165,21 @@ const server = Bun.serve({
   }
 });
 
-logger.info(`Claude to Figma WebSocket server running on port ${server.port}`);
-logger.info(`Status endpoint available at http://localhost:${server.port}/status`);
+const scheme = relayConfig.tls ? "https" : "http";
+const displayHost = relayConfig.hostname ?? "localhost";
+logger.info(`Claude to Figma WebSocket server running on ${relayConfig.tls ? "wss" : "ws"}://${displayHost}:${server.port}`);
+logger.info(`Status endpoint available at ${scheme}://${displayHost}:${server.port}/status`);
+logger.info(`Prometheus metrics available at ${scheme}://${displayHost}:${server.port}/metrics`);
+logger.info(`Up to ${relayConfig.maxConcurrentReads} read-only command(s) run at once per channel; mutations run alone`);
+if (relayConfig.allowedOrigins.length > 0) {
+  logger.info(`Allowed origins: ${relayConfig.allowedOrigins.join(", ")}`);
+}
+if (relayConfig.adminToken) {
+  logger.info(`Admin API available at ${scheme}://${displayHost}:${server.port}/admin`);
+}
+if (isAuthEnabled(authConfig)) {
+  logger.info("Join authentication enabled: joining an open channel needs its pairing code");
+}
 
 // Print server stats every 5 minutes
 setInterval(() => {
@@ -893,7 +1189,7 @@ setInterval(() => {
     queueState: Array.from(channelQueues.entries()).map(([name, state]) => ({
       channel: name,
       depth: state.queue.length,
-      processing: state.isProcessing,
+      processing: state.inFlight.size,
     })),
   });
 }, 5 * 60 * 1000);
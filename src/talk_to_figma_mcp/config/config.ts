@@ -5,14 +5,31 @@ const args = process.argv.slice(2);
 const serverArg = args.find(arg => arg.startsWith('--server='));
 const portArg = args.find(arg => arg.startsWith('--port='));
 const reconnectArg = args.find(arg => arg.startsWith('--reconnect-interval='));
+const secureArg = args.find(arg => arg === '--secure' || arg.startsWith('--secure='));
+const dryRunArg = args.includes('--dry-run');
 
 // Configuración de conexión extraída de argumentos CLI
 export const serverUrl = serverArg ? serverArg.split('=')[1] : 'localhost';
 export const defaultPort = portArg ? parseInt(portArg.split('=')[1], 10) : 3055;
 export const reconnectInterval = reconnectArg ? parseInt(reconnectArg.split('=')[1], 10) : 2000;
 
-// URL de WebSocket basada en el servidor (WS para localhost, WSS para remoto)
-export const WS_URL = serverUrl === 'localhost' ? `ws://${serverUrl}` : `wss://${serverUrl}`;
+// Servidores locales: localhost, 127.0.0.1 o [::1]
+const isLocalServer = ['localhost', '127.0.0.1', '[::1]'].includes(serverUrl);
+
+// TLS: --secure o --secure=true fuerza wss://, --secure=false fuerza ws://;
+// sin la opción, wss:// solo para servidores remotos
+export const secure = secureArg
+  ? secureArg === '--secure' || secureArg.split('=')[1] !== 'false'
+  : !isLocalServer;
+
+// Los servidores remotos sin --port suelen estar detrás de un proxy en el puerto por defecto (443)
+export const includePort = isLocalServer || !!portArg;
+
+// Modo de simulación: las herramientas que modifican el documento solo devuelven una vista previa
+export const dryRunDefault = dryRunArg;
+
+// URL de WebSocket basada en el servidor (WS o WSS según --secure)
+export const WS_URL = `${secure ? 'wss' : 'ws'}://${serverUrl}`;
 
 // Configuración del servidor MCP
 export const SERVER_CONFIG = {
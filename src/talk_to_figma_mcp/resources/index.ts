@@ -0,0 +1,150 @@
+/**
+ * This module exposes the open Figma document as MCP resources.
+ * Resources are read through the same plugin commands as the read tools, from the file
+ * on the default channel, and subscribers are notified when the plugin reports that the
+ * underlying data changed.
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { sendCommandToFigma, onDocumentEvent, getCurrentChannel, requestDocumentEvents } from "../utils/websocket";
+import { filterFigmaNode } from "../utils/figma-helpers";
+import { fetchAllPages } from "../utils/pagination";
+import { logger } from "../utils/logger";
+import { DocumentEvent } from "../types";
+
+// Resources backed by a whole-document listing, and the event flag that invalidates each
+const LISTING_RESOURCES: Record<string, keyof Pick<DocumentEvent, "pages" | "components" | "styles" | "variables">> = {
+  "figma://pages": "pages",
+  "figma://components": "components",
+  "figma://styles": "styles",
+  "figma://variables": "variables",
+};
+
+// figma://page/{id} and figma://node/{id}, with the ID possibly percent-encoded
+const NODE_RESOURCE_PATTERN = /^figma:\/\/(page|node)\/(.+)$/;
+
+function jsonContents(uri: string, value: unknown) {
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(value),
+      },
+    ],
+  };
+}
+
+/**
+ * Work out which subscribed resources a document event invalidates.
+ * @param event - Change batch reported by the plugin
+ * @param subscribed - URIs the client subscribed to
+ * @returns The subscribed URIs whose contents may have changed
+ */
+export function affectedResourceUris(event: DocumentEvent, subscribed: Iterable<string>): string[] {
+  const affected: string[] = [];
+  for (const uri of subscribed) {
+    const flag = LISTING_RESOURCES[uri];
+    if (flag) {
+      if (event[flag]) affected.push(uri);
+      continue;
+    }
+
+    const match = NODE_RESOURCE_PATTERN.exec(uri);
+    if (!match) continue;
+    const id = decodeURIComponent(match[2]);
+    if (event.nodeIds.includes(id) || (match[1] === "page" && event.pageIds.includes(id))) {
+      affected.push(uri);
+    }
+  }
+  return affected;
+}
+
+/**
+ * Register all resources, and resource subscriptions, with the MCP server
+ * @param server - The MCP server instance
+ */
+export function registerResources(server: McpServer): void {
+  const readNode = async (uri: URL, id: string) => {
+    const result = await sendCommandToFigma("get_node_info", { nodeId: decodeURIComponent(id) });
+    return jsonContents(uri.href, filterFigmaNode(result, 1));
+  };
+
+  server.resource(
+    "pages",
+    "figma://pages",
+    { description: "Pages of the open Figma document, with the current page marked", mimeType: "application/json" },
+    async (uri) => jsonContents(uri.href, await sendCommandToFigma("get_pages"))
+  );
+
+  server.resource(
+    "page",
+    new ResourceTemplate("figma://page/{id}", {
+      list: async () => {
+        const { pages } = await sendCommandToFigma("get_pages") as { pages: Array<{ id: string; name: string }> };
+        return {
+          resources: pages.map((page) => ({ uri: `figma://page/${page.id}`, name: page.name, mimeType: "application/json" })),
+        };
+      },
+    }),
+    { description: "A page and its top-level layers", mimeType: "application/json" },
+    async (uri, { id }) => readNode(uri, String(id))
+  );
+
+  server.resource(
+    "node",
+    new ResourceTemplate("figma://node/{id}", { list: undefined }),
+    { description: "A node with its direct children, as returned by get_node_info", mimeType: "application/json" },
+    async (uri, { id }) => readNode(uri, String(id))
+  );
+
+  server.resource(
+    "components",
+    "figma://components",
+    { description: "Local components of the document", mimeType: "application/json" },
+    async (uri) => jsonContents(uri.href, await fetchAllPages("get_local_components"))
+  );
+
+  server.resource(
+    "styles",
+    "figma://styles",
+    { description: "Local paint, text, effect and grid styles", mimeType: "application/json" },
+    async (uri) => jsonContents(uri.href, await fetchAllPages("get_styles"))
+  );
+
+  server.resource(
+    "variables",
+    "figma://variables",
+    { description: "Variable collections with their modes and variables", mimeType: "application/json" },
+    async (uri) => jsonContents(uri.href, await fetchAllPages("get_variables"))
+  );
+
+  // Subscriptions: the client names the URIs it watches, and plugin change events are
+  // turned into resources/updated notifications for them
+  const subscriptions = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    requestDocumentEvents();
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Resources read the default channel's file, so only its changes matter
+  onDocumentEvent((event, channel) => {
+    if (!server.isConnected() || channel !== getCurrentChannel()) return;
+    for (const uri of affectedResourceUris(event, subscriptions)) {
+      server.server.sendResourceUpdated({ uri }).catch((error) => {
+        logger.error(`Failed to notify resource update for ${uri}: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+    // Added, removed or renamed pages change the figma://page/{id} listing
+    if (event.pages) {
+      server.sendResourceListChanged();
+    }
+  });
+}
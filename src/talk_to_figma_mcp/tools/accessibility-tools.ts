@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { sendCommandToFigma } from "../utils/websocket";
+import { auditAccessibility } from "../utils/accessibility";
+import { PaintStyleInfo } from "../utils/design-autofix";
+import { coerceBoolean } from "../utils/schema-helpers";
+import { fetchAllPages } from "../utils/pagination";
+
+/**
+ * Register accessibility tools to the MCP server
+ * This module contains tools for auditing designs against WCAG guidelines
+ * @param server - The MCP server instance
+ */
+export function registerAccessibilityTools(server: McpServer): void {
+  // Audit Accessibility Tool
+  server.tool(
+    "audit_accessibility",
+    "Audit a frame for accessibility: compute the contrast ratio of every text node against the fills composited underneath it and flag WCAG AA/AAA failures for its font size and weight, tap targets below the minimum size and text below a minimum font size. Optionally suggests the nearest passing color from the file's paint styles.",
+    {
+      nodeId: z.string().describe("The ID of the frame to audit"),
+      level: z.enum(["AA", "AAA"]).optional().describe("WCAG contrast level to enforce (default: AA)"),
+      minTapTarget: z.coerce.number().positive().optional()
+        .describe("Minimum tap target size in pixels: 44 for Apple guidelines, 48 for Material (default: 44)"),
+      minFontSize: z.coerce.number().positive().optional().describe("Minimum font size in pixels (default: 12)"),
+      suggestColors: coerceBoolean.optional()
+        .describe("Suggest the nearest passing color from the file's paint styles for each contrast failure (default: false)"),
+    },
+    async ({ nodeId, level, minTapTarget, minFontSize, suggestColors }) => {
+      try {
+        const node = await sendCommandToFigma("get_node_info", { nodeId }) as Record<string, any>;
+
+        let paletteColors;
+        if (suggestColors) {
+          const styles = await fetchAllPages<{ colors: PaintStyleInfo[] }>("get_styles", { type: "PAINT" });
+          paletteColors = styles.colors
+            .filter((style) => style.paint?.type === "SOLID" && style.paint.color && (style.paint.opacity ?? 1) >= 0.999)
+            .map((style) => ({ name: style.name, color: style.paint!.color! }));
+        }
+
+        const report = auditAccessibility(node, { level, minTapTarget, minFontSize, paletteColors });
+        const failures = report.findings.filter((finding) => finding.severity === "error").length;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Checked ${report.textNodesChecked} text node(s) and ${report.tapTargetsChecked} tap target(s) against WCAG ${level ?? "AA"}: ` +
+                `${failures} failure(s), ${report.findings.length - failures} warning(s)`,
+            },
+            {
+              type: "text",
+              text: JSON.stringify(report, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error auditing accessibility: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,102 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { sendCommandToFigma } from "../utils/websocket";
+import { coerceJson, coerceBoolean } from "../utils/schema-helpers";
+
+// Matches "$step3" or "$step3.id" style references to earlier step results
+const STEP_REFERENCE = /^\$step(\d+)((?:\.[A-Za-z0-9_]+)*)$/;
+
+/**
+ * Collect every "$stepN" reference used in a step's params.
+ * @param value - Params value to inspect (recursively)
+ * @returns The referenced step numbers
+ */
+function collectStepReferences(value: unknown, found: number[] = []): number[] {
+  if (typeof value === "string") {
+    const match = value.match(STEP_REFERENCE);
+    if (match) found.push(parseInt(match[1], 10));
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectStepReferences(item, found));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach((item) => collectStepReferences(item, found));
+  }
+  return found;
+}
+
+/**
+ * Register batch execution tools to the MCP server
+ * This module contains tools for running several Figma commands in one round trip
+ * @param server - The MCP server instance
+ */
+export function registerBatchTools(server: McpServer): void {
+  // Execute Batch Tool
+  server.tool(
+    "execute_batch",
+    "Run an ordered list of Figma commands as one unit in a single plugin round trip. Later steps can reference results of earlier ones with \"$stepN.<field>\" (steps are numbered from 1), e.g. \"$step1.id\" as a parentId. Stops at the first failing step and, unless rollbackOnError is false, removes every node the batch created.",
+    {
+      steps: coerceJson(
+        z.array(
+          z.object({
+            command: z.string().describe("Command name, e.g. 'create_frame' or 'set_auto_layout'"),
+            params: z.record(z.any()).optional().describe("Command parameters. Creation commands still require parentId."),
+          })
+        ).min(1)
+      ).describe("Ordered list of commands to execute"),
+      rollbackOnError: coerceBoolean.optional().describe("Remove nodes created by earlier steps if a step fails (default: true)"),
+    },
+    async ({ steps, rollbackOnError }) => {
+      try {
+        // Reject forward references before anything touches the canvas
+        steps.forEach((step, index) => {
+          for (const referenced of collectStepReferences(step.params ?? {})) {
+            if (referenced < 1 || referenced > index) {
+              throw new Error(`Step ${index + 1} references $step${referenced}, but only earlier steps (1-${index}) can be referenced`);
+            }
+          }
+        });
+
+        const result = await sendCommandToFigma("execute_batch", {
+          steps: steps.map((step) => ({ command: step.command, params: step.params ?? {} })),
+          rollbackOnError: rollbackOnError ?? true,
+        });
+        const typedResult = result as {
+          success: boolean;
+          totalSteps: number;
+          failedStep: number | null;
+          rolledBack: boolean;
+          rolledBackNodeIds: string[];
+          createdNodeIds: string[];
+          steps: Array<{ step: number; command: string; status: string; result?: unknown; error?: string }>;
+        };
+
+        const summary = typedResult.success
+          ? `Batch completed: ${typedResult.totalSteps} steps succeeded, ${typedResult.createdNodeIds.length} nodes created`
+          : `Batch failed at step ${typedResult.failedStep} of ${typedResult.totalSteps}` +
+            (typedResult.rolledBack ? `; rolled back ${typedResult.rolledBackNodeIds.length} created nodes` : "");
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: summary,
+            },
+            {
+              type: "text",
+              text: JSON.stringify(typedResult, null, 2),
+            },
+          ],
+          isError: !typedResult.success,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error executing batch: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,106 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { sendCommandToFigma } from "../utils/websocket";
+import { generateReactCode } from "../utils/react-codegen";
+import { generateNativeCode } from "../utils/native-codegen";
+import { CodegenResult, GeneratedFile } from "../utils/codegen-helpers";
+import { FigmaVariableCollection } from "../utils/design-tokens";
+import { coerceBoolean } from "../utils/schema-helpers";
+import { fetchAllPages } from "../utils/pagination";
+
+// One content block per generated file, headed by its path
+function fileContent(file: GeneratedFile) {
+  const header = file.path.endsWith(".css") ? `/* ${file.path} */` : `// ${file.path}`;
+  return { type: "text" as const, text: `${header}\n${file.content}` };
+}
+
+function summarize(result: CodegenResult): string {
+  const lines = [`Generated ${result.files.map((file) => file.path).join(", ")}`];
+  if (result.components.length > 0) {
+    lines.push(`Uses components: ${result.components.join(", ")}`);
+  }
+  if (result.warnings.length > 0) {
+    lines.push("Warnings:", ...result.warnings.map((warning) => `- ${warning}`));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Register code generation tools to the MCP server
+ * This module contains tools for turning Figma frames into source code
+ * @param server - The MCP server instance
+ */
+export function registerCodegenTools(server: McpServer): void {
+  // Generate Code Tool
+  server.tool(
+    "generate_code",
+    "Generate a React component from a node subtree. Auto layout maps to flexbox, and fills, strokes, corner radii, effects and text styles map to Tailwind classes or a CSS module. Component instances become usages of the component with props from their variant, boolean and text properties. Vectors are left as placeholders to fill with get_svg.",
+    {
+      nodeId: z.string().describe("The ID of the frame or component to convert"),
+      styling: z.enum(["tailwind", "css-modules"]).optional().describe("How to style the markup (default: tailwind)"),
+      componentName: z.string().optional().describe("Name of the generated component (default: the layer name in PascalCase)"),
+    },
+    async ({ nodeId, styling, componentName }) => {
+      try {
+        const node = await sendCommandToFigma("get_node_info", { nodeId }) as Record<string, any>;
+        const result = generateReactCode(node, { styling, componentName });
+
+        return {
+          content: [
+            { type: "text", text: summarize(result) },
+            ...result.files.map(fileContent),
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error generating code: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // Generate Native Code Tool
+  server.tool(
+    "generate_native_code",
+    "Generate a SwiftUI view or a Jetpack Compose composable from a node subtree. Auto layout becomes HStack/VStack or Row/Column with spacing and padding, and fills, corner radii, shadows and text styles become modifiers. Colors and dimensions bound to variables reference a generated Theme object instead of literals. Component instances become calls to the component with arguments from their properties.",
+    {
+      nodeId: z.string().describe("The ID of the frame or component to convert"),
+      platform: z.enum(["swiftui", "compose"]).describe("Target UI framework"),
+      componentName: z.string().optional().describe("Name of the generated view or composable (default: the layer name in PascalCase)"),
+      themeName: z.string().optional().describe("Name of the generated object holding the theme tokens (default: Theme)"),
+      useVariables: coerceBoolean.optional().describe("Resolve values bound to variables to theme tokens (default: true)"),
+    },
+    async ({ nodeId, platform, componentName, themeName, useVariables }) => {
+      try {
+        const node = await sendCommandToFigma("get_node_info", { nodeId }) as Record<string, any>;
+        let variables: FigmaVariableCollection[] | undefined;
+        if (useVariables !== false) {
+          const response = await fetchAllPages<{ collections: FigmaVariableCollection[] }>("get_variables");
+          variables = response.collections;
+        }
+        const result = generateNativeCode(node, { platform, componentName, themeName, variables });
+
+        return {
+          content: [
+            { type: "text", text: summarize(result) },
+            ...result.files.map(fileContent),
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error generating native code: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
@@ -2,6 +2,8 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { sendCommandToFigma } from "../utils/websocket";
 import { coerceJson } from "../utils/schema-helpers";
+import { layoutSpecNodeSchema, validateLayoutSpec } from "../utils/layout-spec";
+import { htmlToLayoutSpec } from "../utils/html-import";
 
 /**
  * Register creation tools to the MCP server
@@ -669,4 +671,100 @@ export function registerCreationTools(server: McpServer): void {
       }
     }
   );
+
+  // Create From Spec Tool
+  server.tool(
+    "create_from_spec",
+    "Build a whole node tree from a declarative JSON spec in one call. Each node is a frame (default), text, rectangle, ellipse, component instance, image (base64 data) or SVG, with optional auto layout (set_auto_layout fields), sizing (FIXED/HUG/FILL), fills, strokes, corner radius, text style, instance properties and variable bindings, plus nested children. Nodes are created in a single plugin-side pass; if any node fails, everything created so far is removed. Returns a map from each node's key to its new node ID.",
+    {
+      parentId: z.string().describe("Parent node ID for the root of the spec. Use a page ID for top-level frames."),
+      spec: coerceJson(layoutSpecNodeSchema).describe("Root node of the tree, with nested children"),
+    },
+    async ({ parentId, spec }) => {
+      try {
+        const problems = validateLayoutSpec(spec);
+        if (problems.length > 0) {
+          throw new Error(`Invalid spec:\n${problems.join("\n")}`);
+        }
+
+        const result = await sendCommandToFigma("create_from_spec", { parentId, spec }) as {
+          id: string;
+          name: string;
+          created: number;
+          nodeIds: Record<string, string>;
+        };
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Created ${result.created} nodes under "${result.name}" (root ID: ${result.id})\n${JSON.stringify(result.nodeIds, null, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error creating from spec: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // Import HTML Tool
+  server.tool(
+    "import_html",
+    "Import an HTML prototype onto the canvas. Takes HTML with <style> blocks and/or style attributes and lays it out with flexbox mapped to auto layout: flex direction, gap, padding, alignment, wrapping and flex-grow become auto layout settings, and block flow becomes vertical stacks. Produces frames, text nodes, images from data URIs and SVGs under parentId in one pass. Styles the mapping cannot represent (margins, grid, shadows, web fonts, etc.) are listed as warnings. Elements with an id attribute are returned in an id → node ID map.",
+    {
+      html: z.string().describe("HTML document or fragment, with CSS in <style> blocks or style attributes"),
+      parentId: z.string().describe("Parent node ID for the imported root frame. Use a page ID for a top-level frame."),
+      width: z.coerce.number().positive().optional().describe("Width of the root frame when the HTML does not set one (default: 1280)"),
+      name: z.string().optional().describe("Name of the root frame (default: the document title)"),
+      x: z.coerce.number().optional().describe("X position of the root frame"),
+      y: z.coerce.number().optional().describe("Y position of the root frame"),
+    },
+    async ({ html, parentId, width, name, x, y }) => {
+      try {
+        const { spec, warnings } = htmlToLayoutSpec(html, { width, name, x, y });
+        const problems = validateLayoutSpec(spec);
+        if (problems.length > 0) {
+          throw new Error(`Could not map the HTML:\n${problems.join("\n")}`);
+        }
+
+        const result = await sendCommandToFigma("create_from_spec", { parentId, spec }) as {
+          id: string;
+          name: string;
+          created: number;
+          nodeIds: Record<string, string>;
+        };
+        const lines = [`Imported ${result.created} nodes as "${result.name}" (root ID: ${result.id})`];
+        if (Object.keys(result.nodeIds).length > 0) {
+          lines.push(`Elements by id: ${JSON.stringify(result.nodeIds, null, 2)}`);
+        }
+        if (warnings.length > 0) {
+          lines.push("Warnings:", ...warnings.map((warning) => `- ${warning}`));
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: lines.join("\n"),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error importing HTML: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
 }
\ No newline at end of file
@@ -1,8 +1,12 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { sendCommandToFigma, joinChannel } from "../utils/websocket.js";
+import { sendCommandToFigma, joinChannel, listConnections, getCurrentChannel } from "../utils/websocket.js";
 import { filterFigmaNode } from "../utils/figma-helpers.js";
 import { coerceJson } from "../utils/schema-helpers";
+import { parseNodeQuery, queryStartsAtPage } from "../utils/node-query";
+import { resolveNodePaths } from "../utils/node-path";
+import { buildOutline, parseOutlineCursor, OutlineNode } from "../utils/outline";
+import { namePrefixParam, paginationParams } from "../utils/pagination";
 
 /**
  * Register document-related tools to the MCP server
@@ -138,14 +142,114 @@ export function registerDocumentTools(server: McpServer): void {
     }
   );
 
+  // Find Nodes Tool
+  server.tool(
+    "find_nodes",
+    `Find nodes with a CSS-like selector, evaluated inside the plugin. Returns matches with their ID, type and path, one page at a time.
+Steps: a node type (FRAME, TEXT, INSTANCE, PAGE, ...) or *, followed by [attribute op value] filters. Steps separated by a space match any descendant, by ">" a direct child; commas separate alternatives.
+Text attributes: name, text (own characters, or any descendant text), component (main component or component set name), componentKey, style (style ID or name), variable (bound variable ID or name), id. Operators: = (exact, * and ? wildcards), != , *= (contains), ^= (starts with), $= (ends with); text comparisons ignore case, or use a /regex/flags value.
+Other attributes: width, height, x, y with = != < <= > >=; fill="#RRGGBB"; visible and locked with true/false.
+Example: PAGE[name="Checkout"] INSTANCE[component="Button"][text="Cancel"]`,
+    {
+      selector: z.string().describe("Selector, e.g. FRAME[name=\"Card*\"] > TEXT[text*=\"price\"]"),
+      scope: z.string().optional().describe("Where to search: \"page\" (current page), \"document\" (all pages), or a node ID or path. Default: the whole document when every selector starts with PAGE, otherwise the current page"),
+      limit: z.coerce.number().int().min(1).max(500).optional().describe("Maximum number of matches to return (default: 50)"),
+      cursor: z.string().optional().describe("nextCursor from a previous call, to fetch the next page of matches"),
+    },
+    async ({ selector, scope, limit, cursor }) => {
+      try {
+        const query = parseNodeQuery(selector);
+        let scopeId = scope ?? (queryStartsAtPage(query) ? "document" : "page");
+        if (scopeId !== "page" && scopeId !== "document") {
+          scopeId = (await resolveNodePaths([scopeId])).get(scopeId)!;
+        }
+        const result = await sendCommandToFigma("find_nodes", {
+          query,
+          scope: scopeId,
+          limit: limit ?? 50,
+          cursor,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error finding nodes: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  // Outline Tool
+  server.tool(
+    "get_outline",
+    `Get a compact, indented outline of a node tree that fits a size budget. Prefer this over get_document_info or a deep get_node_info for large pages.
+Each line shows type, name, size, node ID, text excerpts and instance component names. Runs of identical siblings collapse into one "12× INSTANCE ..." line, and subtrees made only of vector layers are summarized. Branches that do not fit the budget end with a cursor; pass it back as cursor to expand that branch.`,
+    {
+      nodeId: z.string().optional().describe("Root of the outline (default: the current page)"),
+      maxTokens: z.coerce.number().int().min(100).max(50000).optional().describe("Approximate token budget for the outline (default: 2000)"),
+      maxChars: z.coerce.number().int().min(400).max(200000).optional().describe("Character budget; overrides maxTokens"),
+      cursor: z.string().optional().describe("Cursor from a previous outline, to expand an elided branch or a collapsed run"),
+    },
+    async ({ nodeId, maxTokens, maxChars, cursor }) => {
+      try {
+        // Roughly four characters per token
+        const budget = maxChars ?? (maxTokens ?? 2000) * 4;
+        const expand = cursor ? parseOutlineCursor(cursor) : undefined;
+        const tree = await sendCommandToFigma("get_outline", {
+          nodeId: expand ? expand.nodeId : nodeId,
+          childStart: expand?.range?.start,
+          childEnd: expand?.range?.end,
+          maxNodes: Math.min(5000, Math.max(200, Math.ceil(budget / 10))),
+        }) as OutlineNode;
+
+        const outline = buildOutline(tree, { maxChars: budget });
+        const footer = outline.cursors.length > 0
+          ? `\n\n${outline.shownNodes} nodes shown; ${outline.cursors.length} branches elided. Call get_outline with one of the cursors above to expand it.`
+          : "";
+        return {
+          content: [
+            {
+              type: "text",
+              text: outline.text + footer
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error getting outline: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
   // Get Styles Tool
   server.tool(
     "get_styles",
-    "Get all styles from the current Figma document",
-    {},
-    async () => {
+    "Get local styles from the current Figma document, grouped into colors, texts, effects and grids. Results are paginated: pass nextCursor back as cursor for the next page.",
+    {
+      type: z.enum(["PAINT", "TEXT", "EFFECT", "GRID"]).optional().describe("Only return styles of this kind"),
+      namePrefix: namePrefixParam,
+      ...paginationParams,
+    },
+    async ({ type, namePrefix, limit, cursor }) => {
       try {
-        const result = await sendCommandToFigma("get_styles");
+        const result = await sendCommandToFigma("get_styles", { type, namePrefix, limit, cursor });
         return {
           content: [
             {
@@ -170,11 +274,14 @@ export function registerDocumentTools(server: McpServer): void {
   // Get Local Components Tool
   server.tool(
     "get_local_components",
-    "Get all local components from the Figma document",
-    {},
-    async () => {
+    "Get local components from the Figma document. Results are paginated: pass nextCursor back as cursor for the next page.",
+    {
+      namePrefix: namePrefixParam,
+      ...paginationParams,
+    },
+    async ({ namePrefix, limit, cursor }) => {
       try {
-        const result = await sendCommandToFigma("get_local_components");
+        const result = await sendCommandToFigma("get_local_components", { namePrefix, limit, cursor });
         return {
           content: [
             {
@@ -199,11 +306,15 @@ export function registerDocumentTools(server: McpServer): void {
   // Get Remote Components Tool
   server.tool(
     "get_remote_components",
-    "Get available components from team libraries in Figma",
-    {},
-    async () => {
+    "Get available components from team libraries in Figma. Results are paginated: pass nextCursor back as cursor for the next page.",
+    {
+      namePrefix: namePrefixParam,
+      libraryName: z.string().optional().describe("Only return components from the library with this exact name"),
+      ...paginationParams,
+    },
+    async ({ namePrefix, libraryName, limit, cursor }) => {
       try {
-        const result = await sendCommandToFigma("get_remote_components");
+        const result = await sendCommandToFigma("get_remote_components", { namePrefix, libraryName, limit, cursor });
         return {
           content: [
             {
@@ -228,11 +339,13 @@ export function registerDocumentTools(server: McpServer): void {
   // Text Node Scanning Tool
   server.tool(
     "scan_text_nodes",
-    "Scan all text nodes in the selected Figma node",
+    "Scan the text nodes in the selected Figma node. Results are paginated: pass nextCursor back as cursor for the next page.",
     {
       nodeId: z.string().describe("ID of the node to scan"),
+      namePrefix: namePrefixParam,
+      ...paginationParams,
     },
-    async ({ nodeId }) => {
+    async ({ nodeId, namePrefix, limit, cursor }) => {
       try {
         // Initial response to indicate we're starting the process
         const initialStatus = {
@@ -244,7 +357,10 @@ export function registerDocumentTools(server: McpServer): void {
         const result = await sendCommandToFigma("scan_text_nodes", {
           nodeId,
           useChunking: true,  // Enable chunking on the plugin side
-          chunkSize: 10       // Process 10 nodes at a time
+          chunkSize: 10,      // Process 10 nodes at a time
+          namePrefix,
+          limit,
+          cursor,
         });
 
         // If the result indicates chunking was used, format the response accordingly
@@ -254,14 +370,15 @@ export function registerDocumentTools(server: McpServer): void {
             totalNodes: number,
             processedNodes: number,
             chunks: number,
-            textNodes: Array<any>
+            textNodes: Array<any>,
+            nextCursor: string | null
           };
 
           const summaryText = `
           Scan completed:
           - Found ${typedResult.totalNodes} text nodes
-          - Processed in ${typedResult.chunks} chunks
-          `;
+          - Returned ${typedResult.textNodes.length}, processed in ${typedResult.chunks} chunks
+          ` + (typedResult.nextCursor ? `- More results: call again with cursor "${typedResult.nextCursor}"\n` : "");
 
           return {
             content: [
@@ -304,11 +421,12 @@ export function registerDocumentTools(server: McpServer): void {
   // Join Channel Tool
   server.tool(
     "join_channel",
-    "Join a specific channel to communicate with Figma",
+    "Join a specific channel to communicate with Figma. Channels joined earlier stay joined, so one session can work on several files; the newly joined channel becomes the default for tools called without a channel or fileKey.",
     {
       channel: z.string().describe("The name of the channel to join"),
+      pairingCode: z.string().optional().describe("Pairing code shown in the Figma plugin next to the channel ID. Only needed when the relay requires authentication."),
     },
-    async ({ channel }) => {
+    async ({ channel, pairingCode }) => {
       try {
         if (!channel) {
           // If no channel provided, ask the user for input
@@ -327,13 +445,13 @@ export function registerDocumentTools(server: McpServer): void {
         }
 
         // Use joinChannel instead of sendCommandToFigma to ensure currentChannel is updated
-        await joinChannel(channel);
+        const connection = await joinChannel(channel, pairingCode);
 
         return {
           content: [
             {
               type: "text",
-              text: `Successfully joined channel: ${channel}`,
+              text: `Successfully joined channel: ${channel}${connection.fileName ? ` (file: ${connection.fileName})` : ""}`,
             },
           ],
         };
@@ -350,6 +468,54 @@ export function registerDocumentTools(server: McpServer): void {
     }
   );
 
+  // List Connections Tool
+  server.tool(
+    "list_connections",
+    "List the channels this session has joined and the Figma file open on each. Pass a channel or fileKey to any tool to work on that file; tools called without one use the default channel (the one joined last).",
+    {},
+    async () => {
+      try {
+        const defaultChannel = getCurrentChannel();
+        const connections = await Promise.all(listConnections().map(async (connection) => {
+          // Ping each channel so closed plugins show up, and renamed files show their current name
+          let status = "connected";
+          let fileName = connection.fileName;
+          try {
+            const pong = await sendCommandToFigma("ping", {}, 5000, { channel: connection.channel }) as { fileName?: string };
+            fileName = pong?.fileName ?? fileName;
+          } catch {
+            status = "unreachable";
+          }
+          return {
+            channel: connection.channel,
+            fileKey: connection.fileKey,
+            fileName,
+            status,
+            isDefault: connection.channel === defaultChannel,
+            joinedAt: new Date(connection.joinedAt).toISOString(),
+          };
+        }));
+        return {
+          content: [
+            {
+              type: "text",
+              text: connections.length > 0 ? JSON.stringify(connections, null, 2) : "No channels joined yet. Use join_channel first.",
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error listing connections: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
   // Export Node as Image Tool
   server.tool(
     "export_node_as_image",
@@ -0,0 +1,44 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { isDryRun, setDryRun } from "../utils/dry-run";
+import { coerceBoolean } from "../utils/schema-helpers";
+
+/**
+ * Register dry-run tools to the MCP server
+ * This module contains tools for previewing changes instead of applying them
+ * @param server - The MCP server instance
+ */
+export function registerDryRunTools(server: McpServer): void {
+  // Set Dry Run Tool
+  server.tool(
+    "set_dry_run",
+    "Turn dry-run mode on or off. While it is on, creation and modification tools validate their parameters and resolve target nodes, then return a preview of what they would change without touching the document. Can also be enabled at startup with --dry-run.",
+    {
+      enabled: coerceBoolean.describe("Whether mutating tools should only preview their changes"),
+    },
+    async ({ enabled }) => {
+      try {
+        const wasEnabled = isDryRun();
+        setDryRun(enabled);
+        return {
+          content: [
+            {
+              type: "text",
+              text: enabled === wasEnabled
+                ? `Dry-run mode is already ${enabled ? "on" : "off"}`
+                : `Dry-run mode turned ${enabled ? "on: mutating tools will only preview their changes" : "off: mutating tools will change the document"}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error setting dry-run mode: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { startEventLog, getRecentEvents, getLastSeq, waitForEvent, RecordedEvent } from "../utils/event-log";
+import { coerceBoolean, coerceJson } from "../utils/schema-helpers";
+import { getRequestedChannel, requestDocumentEvents } from "../utils/websocket";
+
+// Plain JSON form of a recorded event for tool output
+function describeEvent(recorded: RecordedEvent) {
+  const { timestamp, ...details } = recorded.event;
+  return { seq: recorded.seq, type: recorded.type, channel: recorded.channel, time: new Date(timestamp).toISOString(), ...details };
+}
+
+/**
+ * Register live event tools to the MCP server
+ * This module contains tools for following what the designer does in Figma
+ * while the agent works: document edits, selection changes and page switches
+ * @param server - The MCP server instance
+ */
+export function registerEventTools(server: McpServer): void {
+  // Events are buffered from the moment the server starts, not from the first tool call
+  startEventLog();
+
+  // Get Recent Changes Tool
+  server.tool(
+    "get_recent_changes",
+    "Get the document edits, selection changes and page switches the plugins reported recently, oldest first, from every joined file unless a channel or fileKey is given. Pass the returned lastSeq as `since` on the next call to only see what happened after it. Document changes list the changed nodes, their parents, the top-level layers containing them and their pages; they are batched over a fraction of a second. Document changes are recorded from the first call of this tool on, since watching them makes the plugin load every page.",
+    {
+      since: z.coerce.number().int().min(0).optional().describe("Only return events after this sequence number (lastSeq of a previous call)"),
+      types: coerceJson(z.array(z.enum(["documentchange", "selectionchange", "currentpagechange"]))).optional().describe("Only return events of these types (default: all)"),
+      nodeIds: coerceJson(z.array(z.string())).optional().describe("Only return events touching these nodes: edits to them, their direct children or anything inside these top-level layers, and selections including them"),
+      limit: z.coerce.number().int().min(1).max(500).optional().describe("Maximum number of events to return; the newest are kept (default: 50)"),
+    },
+    async ({ since, types, nodeIds, limit }) => {
+      try {
+        requestDocumentEvents();
+        const { events, lastSeq } = getRecentEvents({ since, types, nodeIds, limit, channel: getRequestedChannel() });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ events: events.map(describeEvent), lastSeq }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error getting recent changes: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // Wait For Selection Tool
+  server.tool(
+    "wait_for_selection",
+    "Wait until the designer selects something in Figma and return the new selection. Useful to let the designer point at the nodes to work on. Returns as soon as the selection changes in any joined file (or only the given channel or fileKey), or reports a timeout.",
+    {
+      timeoutSeconds: z.coerce.number().min(1).max(300).optional().describe("How long to wait (default: 60)"),
+      since: z.coerce.number().int().min(0).optional().describe("Also accept a selection change recorded after this sequence number (lastSeq from get_recent_changes), so changes made between calls are not missed. By default only changes after this call count."),
+      allowEmpty: coerceBoolean.optional().describe("Also return when the selection is cleared (default: false)"),
+    },
+    async ({ timeoutSeconds, since, allowEmpty }) => {
+      try {
+        const timeout = timeoutSeconds ?? 60;
+        const recorded = await waitForEvent(
+          { since: since ?? getLastSeq(), types: ["selectionchange"], channel: getRequestedChannel() },
+          timeout * 1000,
+          (candidate) => allowEmpty === true || (candidate.type === "selectionchange" && candidate.event.total > 0)
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: recorded ? JSON.stringify(describeEvent(recorded), null, 2) : `No selection change within ${timeout} seconds`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error waiting for selection: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
@@ -1,6 +1,8 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { sendCommandToFigma } from "../utils/websocket";
+import { coerceJson } from "../utils/schema-helpers";
+import { namePrefixParam, paginationParams } from "../utils/pagination";
 
 /**
  * Register FigJam-specific tools to the MCP server.
@@ -20,16 +22,20 @@ export function registerFigJamTools(server: McpServer): void {
   // ─── Read tools ────────────────────────────────────────────────────────────
 
   /**
-   * Get all FigJam-specific elements on the current page.
+   * Get the FigJam-specific elements on the current page, one page of results at a time.
    * Returns stickies, connectors, shapes-with-text, sections and stamps.
    */
   server.tool(
     "get_figjam_elements",
-    "Get all FigJam-specific elements (stickies, connectors, shapes with text, sections, stamps) on the current page. Use this to read the contents of a FigJam board.",
-    {},
-    async () => {
+    "Get FigJam-specific elements (stickies, connectors, shapes with text, sections, stamps) on the current page. Use this to read the contents of a FigJam board. Results are paginated: pass nextCursor back as cursor for the next page.",
+    {
+      types: coerceJson(z.array(z.enum(["STICKY", "CONNECTOR", "SHAPE_WITH_TEXT", "SECTION", "STAMP"]))).optional().describe("Only return elements of these types (default: all)"),
+      namePrefix: namePrefixParam,
+      ...paginationParams,
+    },
+    async ({ types, namePrefix, limit, cursor }) => {
       try {
-        const result = await sendCommandToFigma("get_figjam_elements", {});
+        const result = await sendCommandToFigma("get_figjam_elements", { types, namePrefix, limit, cursor });
         return {
           content: [
             {
@@ -9,23 +9,45 @@ import { registerSvgTools } from "./svg-tools";
 import { registerVariableTools } from "./variable-tools";
 import { registerFigJamTools } from "./figjam-tools";
 import { registerStyleTools } from "./style-tools";
+import { registerBatchTools } from "./batch-tools";
+import { registerJournalTools } from "./journal-tools";
+import { registerDryRunTools } from "./dry-run-tools";
+import { registerLintTools } from "./lint-tools";
+import { registerAccessibilityTools } from "./accessibility-tools";
+import { registerCodegenTools } from "./codegen-tools";
+import { registerEventTools } from "./event-tools";
+import { withDryRun } from "../utils/dry-run";
+import { withNodePaths } from "../utils/node-path";
+import { withChannels } from "../utils/channels";
 
 /**
  * Register all Figma tools to the MCP server
  * @param server - The MCP server instance
  */
 export function registerTools(server: McpServer): void {
+  // Mutating tools registered through this wrapper are previewed while dry-run mode is on.
+  // The channel is selected first, then node paths are resolved in that file, so previews
+  // name the nodes the paths point to.
+  const guardedServer = withDryRun(withNodePaths(withChannels(server)));
+
   // Register all tool categories
-  registerDocumentTools(server);
-  registerCreationTools(server);
-  registerModificationTools(server);
-  registerTextTools(server);
-  registerComponentTools(server);
-  registerImageTools(server);
-  registerSvgTools(server);
-  registerVariableTools(server);
-  registerFigJamTools(server);
-  registerStyleTools(server);
+  registerDocumentTools(guardedServer);
+  registerCreationTools(guardedServer);
+  registerModificationTools(guardedServer);
+  registerTextTools(guardedServer);
+  registerComponentTools(guardedServer);
+  registerImageTools(guardedServer);
+  registerSvgTools(guardedServer);
+  registerVariableTools(guardedServer);
+  registerFigJamTools(guardedServer);
+  registerStyleTools(guardedServer);
+  registerBatchTools(guardedServer);
+  registerJournalTools(guardedServer);
+  registerDryRunTools(guardedServer);
+  registerLintTools(guardedServer);
+  registerAccessibilityTools(guardedServer);
+  registerCodegenTools(guardedServer);
+  registerEventTools(guardedServer);
 }
 
 // Export all tool registration functions for individual usage if needed
@@ -40,4 +62,11 @@ export {
   registerVariableTools,
   registerFigJamTools,
   registerStyleTools,
+  registerBatchTools,
+  registerJournalTools,
+  registerDryRunTools,
+  registerLintTools,
+  registerAccessibilityTools,
+  registerCodegenTools,
+  registerEventTools,
 };
\ No newline at end of file
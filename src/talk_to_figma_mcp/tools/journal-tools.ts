@@ -0,0 +1,144 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { sendCommandToFigma } from "../utils/websocket";
+import { listChanges, undoChanges, CommandSender, UndoReport } from "../utils/journal";
+import { coerceBoolean } from "../utils/schema-helpers";
+import { FigmaCommand } from "../types";
+
+// Inverse operations must not be journaled themselves, or undo would undo the undo
+const sendWithoutJournal: CommandSender = (command: FigmaCommand, params?: unknown, timeoutMs?: number, channel?: string) =>
+  sendCommandToFigma(command, params, timeoutMs, { skipJournal: true, channel });
+
+/**
+ * Format undo reports as a short human-readable summary.
+ * @param reports - Reports returned by undoChanges
+ */
+function summarizeUndo(reports: UndoReport[]): string {
+  const undone = reports.filter((report) => report.status === "undone").length;
+  const skipped = reports.filter((report) => report.status === "skipped").length;
+  const failed = reports.find((report) => report.status === "failed");
+
+  let summary = `Undid ${undone} change(s)`;
+  if (skipped > 0) summary += `, skipped ${skipped} that cannot be undone`;
+  if (failed) summary += `. Stopped at change #${failed.id} (${failed.command}): ${failed.message}`;
+  return summary;
+}
+
+/**
+ * Register change journal tools to the MCP server
+ * This module contains tools for inspecting and undoing changes made during this session
+ * @param server - The MCP server instance
+ */
+export function registerJournalTools(server: McpServer): void {
+  // List Changes Tool
+  server.tool(
+    "list_changes",
+    "List the changes made to Figma in this session, newest first. Each entry shows the command, its target node, the prior state captured before the change, and whether it can be undone.",
+    {
+      limit: z.coerce.number().int().positive().optional().describe("Maximum number of changes to return (default: 50)"),
+      includeUndone: coerceBoolean.optional().describe("Include changes that were already undone (default: false)"),
+    },
+    async ({ limit, includeUndone }) => {
+      try {
+        const changes = listChanges(limit ?? 50, includeUndone ?? false).map((entry) => ({
+          id: entry.id,
+          command: entry.command,
+          nodeId: entry.nodeId,
+          nodeName: entry.nodeName,
+          timestamp: new Date(entry.timestamp).toISOString(),
+          params: entry.params,
+          before: entry.before,
+          reversible: entry.reversible,
+          undone: entry.undone,
+          note: entry.note,
+          channel: entry.channel,
+        }));
+        return {
+          content: [
+            {
+              type: "text",
+              text: changes.length > 0 ? JSON.stringify(changes, null, 2) : "No changes recorded in this session",
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error listing changes: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // Undo Last Changes Tool
+  server.tool(
+    "undo_last_changes",
+    "Undo the most recent changes made in this session by replaying their inverse operations, newest first. Changes that cannot be undone (such as deletions) are reported as skipped and do not count toward count. Stops at the first change that fails to revert.",
+    {
+      count: z.coerce.number().int().positive().optional().describe("Number of changes to undo (default: 1)"),
+    },
+    async ({ count }) => {
+      try {
+        const reports = await undoChanges(count ?? 1, sendWithoutJournal);
+        return {
+          content: [
+            {
+              type: "text",
+              text: reports.length > 0 ? summarizeUndo(reports) : "No changes to undo",
+            },
+            {
+              type: "text",
+              text: JSON.stringify(reports, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error undoing changes: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // Revert Session Tool
+  server.tool(
+    "revert_session",
+    "Undo every change made to Figma in this session, newest first. Changes that cannot be undone, such as deletions, are reported as skipped.",
+    {},
+    async () => {
+      try {
+        const reports = await undoChanges(Infinity, sendWithoutJournal);
+        return {
+          content: [
+            {
+              type: "text",
+              text: reports.length > 0 ? summarizeUndo(reports) : "No changes to revert",
+            },
+            {
+              type: "text",
+              text: JSON.stringify(reports, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error reverting session: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,170 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { sendCommandToFigma } from "../utils/websocket";
+import { lintDesign, LINT_RULES } from "../utils/design-lint";
+import { planFixes, collectColorVariables, AUTOFIX_RULES, PaintStyleInfo, TextStyleInfo, FixAction } from "../utils/design-autofix";
+import { FigmaVariableCollection } from "../utils/design-tokens";
+import { isDryRun } from "../utils/dry-run";
+import { coerceBoolean, coerceJson } from "../utils/schema-helpers";
+import { fetchAllPages } from "../utils/pagination";
+
+const ruleSchema = z.enum(LINT_RULES);
+
+/**
+ * Register design lint tools to the MCP server
+ * This module contains tools for checking designs against design-system rules and fixing the findings
+ * @param server - The MCP server instance
+ */
+export function registerLintTools(server: McpServer): void {
+  // Lint Design Tool
+  server.tool(
+    "lint_design",
+    `Check a node and its descendants against design-system rules and return structured findings with node IDs and severities. Rules: ${LINT_RULES.join(", ")}.`,
+    {
+      nodeId: z.string().describe("The ID of the root node to lint"),
+      rules: coerceJson(z.array(ruleSchema).min(1)).optional().describe("Rules to run (default: all)"),
+      gridSize: z.coerce.number().positive().optional().describe("Spacing grid in pixels for off-grid-spacing (default: 4)"),
+      severities: coerceJson(z.record(ruleSchema, z.enum(["error", "warning", "info", "off"]))).optional()
+        .describe("Severity override per rule, e.g. {\"hidden-layer\": \"off\", \"hardcoded-fill\": \"error\"}"),
+      includeInstanceChildren: coerceBoolean.optional().describe("Also lint layers inside component instances (default: false)"),
+      maxFindings: z.coerce.number().int().positive().optional().describe("Maximum number of findings to return (default: 200)"),
+    },
+    async ({ nodeId, rules, gridSize, severities, includeInstanceChildren, maxFindings }) => {
+      try {
+        const node = await sendCommandToFigma("get_node_info", { nodeId, includeDetachedInfo: true });
+        const report = lintDesign(node as Record<string, any>, {
+          rules,
+          gridSize,
+          severities,
+          includeInstanceChildren,
+        });
+
+        const limit = maxFindings ?? 200;
+        const findings = report.findings.slice(0, limit);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Linted ${report.nodesScanned} nodes: ${report.counts.error} error(s), ${report.counts.warning} warning(s), ${report.counts.info} info` +
+                (report.findings.length > limit ? `. Showing the first ${limit} of ${report.findings.length} findings` : ""),
+            },
+            {
+              type: "text",
+              text: JSON.stringify({ ...report, findings, truncated: report.findings.length > limit }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error linting design: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // Autofix Design Tool
+  // Previews on its own (dryRun or server-wide dry-run mode), so it is not wrapped by the dry-run guard
+  server.tool(
+    "autofix_design",
+    `Lint a node subtree and apply the safe fixes in bulk: snap fills to the nearest color variable or paint style, apply the closest text style of the same font family, round auto-layout spacing to the grid and delete empty text and frames that are not auto-layout spacers and draw nothing. Fixable rules: ${AUTOFIX_RULES.join(", ")}. Run with dryRun: true first to review the per-node before/after values. Applied fixes are recorded in the change journal.`,
+    {
+      nodeId: z.string().describe("The ID of the root node to fix"),
+      rules: coerceJson(z.array(z.enum(AUTOFIX_RULES)).min(1)).optional().describe("Rules to fix (default: all fixable rules)"),
+      gridSize: z.coerce.number().positive().optional().describe("Spacing grid in pixels (default: 4)"),
+      maxColorDistance: z.coerce.number().min(0).optional().describe("Maximum RGB distance, in 0-255 units, for snapping a fill (default: 8)"),
+      maxFontSizeDelta: z.coerce.number().min(0).optional().describe("Maximum font size difference in pixels for applying a text style (default: 2)"),
+      dryRun: coerceBoolean.optional().describe("Only report the planned fixes without applying them (default: false)"),
+    },
+    async ({ nodeId, rules, gridSize, maxColorDistance, maxFontSizeDelta, dryRun }) => {
+      try {
+        const selectedRules = rules ?? [...AUTOFIX_RULES];
+        const node = await sendCommandToFigma("get_node_info", { nodeId }) as Record<string, any>;
+        const report = lintDesign(node, { rules: selectedRules, gridSize });
+
+        let paintStyles: PaintStyleInfo[] = [];
+        let textStyles: TextStyleInfo[] = [];
+        if (selectedRules.includes("hardcoded-fill") || selectedRules.includes("unstyled-text")) {
+          const styles = await fetchAllPages<{ colors: PaintStyleInfo[]; texts: TextStyleInfo[] }>("get_styles");
+          paintStyles = styles.colors;
+          textStyles = styles.texts;
+        }
+        let colorVariables: ReturnType<typeof collectColorVariables> = [];
+        if (selectedRules.includes("hardcoded-fill")) {
+          const variables = await fetchAllPages<{ collections: FigmaVariableCollection[] }>("get_variables", { resolvedType: "COLOR" });
+          colorVariables = collectColorVariables(variables.collections);
+        }
+
+        const plan = planFixes(node, report.findings, { paintStyles, textStyles, colorVariables }, {
+          gridSize,
+          maxColorDistance,
+          maxFontSizeDelta,
+        });
+        const describe = (action: FixAction) => ({
+          rule: action.rule,
+          nodeId: action.nodeId,
+          nodeName: action.nodeName,
+          property: action.property,
+          before: action.before,
+          after: action.after,
+        });
+
+        if (dryRun || isDryRun()) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `[DRY RUN] Would apply ${plan.actions.length} fix(es) to ${report.findings.length} finding(s); ${plan.skipped.length} cannot be fixed automatically`,
+              },
+              {
+                type: "text",
+                text: JSON.stringify({ fixes: plan.actions.map(describe), skipped: plan.skipped }, null, 2),
+              },
+            ],
+          };
+        }
+
+        // Apply one at a time through the regular commands so every fix is journaled and can be undone
+        const applied = [];
+        const failed = [];
+        for (const action of plan.actions) {
+          try {
+            await sendCommandToFigma(action.command, action.params);
+            applied.push(describe(action));
+          } catch (error) {
+            failed.push({ ...describe(action), error: error instanceof Error ? error.message : String(error) });
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Applied ${applied.length} fix(es)` +
+                (failed.length > 0 ? `, ${failed.length} failed` : "") +
+                `; ${plan.skipped.length} finding(s) cannot be fixed automatically`,
+            },
+            {
+              type: "text",
+              text: JSON.stringify({ applied, failed, skipped: plan.skipped }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error fixing design: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
@@ -178,4 +178,40 @@ export function registerStyleTools(server: McpServer): void {
       }
     }
   );
+  server.tool(
+    "set_fill_style_id",
+    "Apply a local paint style to a node's fills. Accepts the style ID or key returned by get_styles.",
+    {
+      nodeId: z.string().describe("The ID of the node to modify"),
+      fillStyleId: z.string().describe("The ID or key of the paint style to apply"),
+    },
+    async ({ nodeId, fillStyleId }) => {
+      try {
+        const result = await sendCommandToFigma("set_fill_style_id", {
+          nodeId,
+          fillStyleId,
+        });
+
+        const typedResult = result as { name: string; fillStyleId: string; styleName: string };
+        return {
+          content: [
+            {
+              type: "text",
+              text: `✅ Applied paint style "${typedResult.styleName}" to node "${typedResult.name}"`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `❌ Error setting fill style: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
 }
@@ -1,6 +1,9 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { sendCommandToFigma } from "../utils/websocket";
+import { exportDesignTokens, parseDesignTokens, FigmaVariableCollection } from "../utils/design-tokens";
+import { coerceBoolean, coerceJson } from "../utils/schema-helpers";
+import { fetchAllPages, namePrefixParam, paginationParams } from "../utils/pagination";
 
 /**
  * Register variable tools to the MCP server
@@ -11,11 +14,16 @@ export function registerVariableTools(server: McpServer): void {
   // Get Variables Tool
   server.tool(
     "get_variables",
-    "List all variable collections and their variables in the current Figma file. Returns collections with their modes and variables.",
-    {},
-    async () => {
+    "List the variable collections and their variables in the current Figma file. Returns collections with their modes and variables. Variables are paginated across collections: pass nextCursor back as cursor for the next page.",
+    {
+      namePrefix: namePrefixParam,
+      resolvedType: z.enum(["COLOR", "FLOAT", "STRING", "BOOLEAN"]).optional().describe("Only return variables of this type"),
+      collectionId: z.string().optional().describe("Only return variables from this collection"),
+      ...paginationParams,
+    },
+    async ({ namePrefix, resolvedType, collectionId, limit, cursor }) => {
       try {
-        const result = await sendCommandToFigma("get_variables", {});
+        const result = await sendCommandToFigma("get_variables", { namePrefix, resolvedType, collectionId, limit, cursor });
         const typedResult = result as { collections: any[] };
         return {
           content: [
@@ -157,4 +165,170 @@ export function registerVariableTools(server: McpServer): void {
       }
     }
   );
+
+  // Export Design Tokens Tool
+  server.tool(
+    "export_design_tokens",
+    "Export the file's variable collections as design tokens: W3C DTCG JSON, CSS custom properties (one block per mode), SCSS maps or a Tailwind theme config. Colors are converted to hex and aliases between variables are kept as references or resolved to their final values.",
+    {
+      format: z.enum(["dtcg", "css", "scss", "tailwind"]).describe("Output format"),
+      collections: coerceJson(z.array(z.string())).optional().describe("Names or IDs of the collections to export (default: all). Aliases into collections left out are replaced by their values"),
+      resolveAliases: coerceBoolean.optional().describe("Replace aliases with their resolved values instead of references (default: false). SCSS and Tailwind always use resolved values."),
+    },
+    async ({ format, collections, resolveAliases }) => {
+      try {
+        const typedResult = await fetchAllPages<{ collections: FigmaVariableCollection[] }>("get_variables");
+        const exported = exportDesignTokens(typedResult.collections, format, { collections, resolveAliases });
+
+        const content = [
+          {
+            type: "text" as const,
+            text: exported.output,
+          },
+        ];
+        if (exported.warnings.length > 0) {
+          content.push({
+            type: "text" as const,
+            text: `Warnings:\n${exported.warnings.map((warning) => `- ${warning}`).join("\n")}`,
+          });
+        }
+        return { content };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error exporting design tokens: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // Import Design Tokens Tool
+  server.tool(
+    "import_design_tokens",
+    "Create or update variable collections, modes and aliases from a W3C DTCG or Style Dictionary token document. Top-level groups become collections and modes are read from $extensions[\"com.figma\"].modes, matching the output of export_design_tokens. Returns a diff of created, updated and unchanged tokens.",
+    {
+      tokens: coerceJson(z.record(z.any())).describe("The DTCG or Style Dictionary JSON document"),
+      collectionName: z.string().optional().describe("Import every token into this collection instead of one collection per top-level group"),
+      modeName: z.string().optional().describe("Mode that plain $value/value entries are written to (default: the collection's default mode). Created if missing."),
+      deleteMissing: coerceBoolean.optional().describe("Delete variables in the imported collections that are not in the document, except ones imported tokens alias (default: false)"),
+    },
+    async ({ tokens, collectionName, modeName, deleteMissing }) => {
+      try {
+        const parsed = parseDesignTokens(tokens, { collectionName, modeName });
+        if (parsed.collections.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No importable tokens found in the document${parsed.warnings.length > 0 ? `:\n${parsed.warnings.map((warning) => `- ${warning}`).join("\n")}` : ""}`,
+              },
+            ],
+          };
+        }
+
+        const result = await sendCommandToFigma("import_variables", {
+          collections: parsed.collections,
+          deleteMissing: deleteMissing ?? false,
+        });
+        const typedResult = result as {
+          created: string[];
+          updated: string[];
+          unchanged: string[];
+          deleted: string[];
+          errors: Array<{ token: string; message: string }>;
+        };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Imported design tokens: ${typedResult.created.length} created, ${typedResult.updated.length} updated, ` +
+                `${typedResult.unchanged.length} unchanged, ${typedResult.deleted.length} deleted, ` +
+                `${typedResult.errors.length + parsed.warnings.length} skipped`,
+            },
+            {
+              type: "text",
+              text: JSON.stringify({ ...typedResult, warnings: parsed.warnings }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error importing design tokens: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // Bind Variables By Value Tool
+  server.tool(
+    "bind_variables_by_value",
+    "Walk a node and all its descendants and bind every fill, stroke, corner radius, auto-layout spacing and font size whose raw value matches an existing local variable. Colors match within a tolerance; numbers must match exactly. Variable scopes are respected. Returns what was bound and which values had no matching token.",
+    {
+      nodeId: z.string().describe("The ID of the root node of the subtree to tokenize"),
+      properties: coerceJson(z.array(z.enum(["fills", "strokes", "cornerRadius", "spacing", "fontSize"])).min(1)).optional()
+        .describe("Which properties to bind (default: all)"),
+      colorTolerance: z.coerce.number().min(0).max(441).optional()
+        .describe("Maximum RGB distance, in 0-255 units, between a color and a variable (default: 1)"),
+      collections: coerceJson(z.array(z.string())).optional().describe("Names or IDs of the collections to take variables from (default: all local collections)"),
+    },
+    async ({ nodeId, properties, colorTolerance, collections }) => {
+      try {
+        const result = await sendCommandToFigma("bind_variables_by_value", {
+          nodeId,
+          properties,
+          colorTolerance,
+          collections,
+        });
+        const typedResult = result as {
+          name: string;
+          nodesScanned: number;
+          alreadyBound: number;
+          bound: Array<{ field: string; variableName: string }>;
+          unmatched: Array<{ field: string; value?: string | number; error?: string }>;
+        };
+
+        // Group unmatched fields by value so the missing tokens are easy to spot
+        const missing: Record<string, number> = {};
+        for (const entry of typedResult.unmatched) {
+          if (entry.value === undefined) continue;
+          const key = `${entry.field.replace(/\/\d+\//, "/")}: ${entry.value}`;
+          missing[key] = (missing[key] ?? 0) + 1;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Bound ${typedResult.bound.length} field(s) to variables in "${typedResult.name}" ` +
+                `(${typedResult.nodesScanned} nodes scanned, ${typedResult.alreadyBound} already bound, ` +
+                `${typedResult.unmatched.length} without a matching variable)`,
+            },
+            {
+              type: "text",
+              text: JSON.stringify({ ...typedResult, unmatchedValues: missing }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error binding variables by value: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+  );
 }
@@ -38,6 +38,49 @@ export interface ProgressMessage {
   [key: string]: any; // Allow any other properties
 }
 
+// A channel joined by this server, and the file the plugin on it has open
+export interface ChannelConnection {
+  channel: string;
+  /** Null when the plugin cannot read the file key */
+  fileKey: string | null;
+  fileName: string | null;
+  joinedAt: number;
+}
+
+// Document change reported by the plugin, batched over a short window
+export interface DocumentEvent {
+  /** Changed nodes and their parents; capped, so large bursts may only list pages */
+  nodeIds: string[];
+  /** Layers directly on a page that contain a changed node, e.g. the frame being edited */
+  topLevelIds: string[];
+  pageIds: string[];
+  pages: boolean;
+  components: boolean;
+  styles: boolean;
+  variables: boolean;
+  timestamp: number;
+}
+
+export interface SelectionEvent {
+  pageId: string;
+  /** Selected nodes, capped by the plugin; total is the full selection size */
+  nodes: Array<{ id: string; name: string; type: string }>;
+  total: number;
+  timestamp: number;
+}
+
+export interface CurrentPageEvent {
+  pageId: string;
+  pageName: string;
+  timestamp: number;
+}
+
+// Events pushed by the plugin, named after the Figma plugin API events they come from
+export type FigmaEvent =
+  | { type: "documentchange"; event: DocumentEvent }
+  | { type: "selectionchange"; event: SelectionEvent }
+  | { type: "currentpagechange"; event: CurrentPageEvent };
+
 // Define possible command types for Figma
 export type FigmaCommand =
   | "get_document_info"
@@ -63,6 +106,7 @@ export type FigmaCommand =
   | "export_node_as_image"
   | "join"
   | "ping"
+  | "enable_document_events"
   | "set_corner_radius"
   | "clone_node"
   | "set_text_content"
@@ -77,6 +121,7 @@ export type FigmaCommand =
   | "set_paragraph_spacing"
   | "set_text_case"
   | "set_text_decoration"
+  | "set_text_align"
   | "get_styled_text_segments"
   | "load_font_async"
   | "get_remote_components"
@@ -123,9 +168,24 @@ export type FigmaCommand =
   | "set_variable"
   | "apply_variable_to_node"
   | "switch_variable_mode"
+  | "import_variables"
+  | "bind_variables_by_value"
+  | "set_fill_style_id"
   | "get_figjam_elements"
   | "create_sticky"
   | "set_sticky_text"
+  | "set_reactions"
+  | "detach_instance"
+  | "create_text_style"
+  | "create_paint_style"
+  | "create_effect_style"
   | "create_shape_with_text"
   | "create_connector"
-  | "create_section";
+  | "create_section"
+  | "execute_batch"
+  | "create_from_spec"
+  | "find_nodes"
+  | "resolve_node_paths"
+  | "get_outline"
+  | "get_node_snapshot"
+  | "restore_node_snapshot";
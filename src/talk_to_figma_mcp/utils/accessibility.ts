@@ -0,0 +1,297 @@
+import { rgbaToHex } from "./figma-helpers";
+
+export type WcagLevel = "AA" | "AAA";
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface AccessibilityOptions {
+  /** Contrast level to enforce (default: AA) */
+  level?: WcagLevel;
+  /** Minimum tap target edge in pixels, 44 (Apple) or 48 (Material) (default: 44) */
+  minTapTarget?: number;
+  /** Minimum font size in pixels (default: 12) */
+  minFontSize?: number;
+  /** Solid colors to suggest as passing replacements for failing text */
+  paletteColors?: Array<{ name: string; color: Rgb }>;
+}
+
+export interface AccessibilityFinding {
+  rule: "contrast" | "contrast-unknown" | "tap-target" | "text-size";
+  severity: "error" | "warning";
+  nodeId: string;
+  nodeName: string;
+  message: string;
+  ratio?: number;
+  required?: number;
+  foreground?: string;
+  background?: string;
+  suggestion?: { name: string; color: string; ratio: number };
+}
+
+export interface AccessibilityReport {
+  textNodesChecked: number;
+  tapTargetsChecked: number;
+  findings: AccessibilityFinding[];
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A layer painted below the text, from the bottom up
+interface BackdropLayer {
+  color?: Rgb;
+  opacity: number;
+  opaqueUnknown?: boolean;
+}
+
+type A11yNode = Record<string, any>;
+
+// Layer names that usually mark something the user taps
+const INTERACTIVE_NAME = /\b(button|btn|link|tab|checkbox|radio|switch|toggle|input|chip|icon[-_ ]?button|menu[-_ ]?item)\b/i;
+
+// WCAG large text: 18pt (24px), or 14pt (18.66px) bold
+const LARGE_TEXT_PX = 24;
+const LARGE_BOLD_TEXT_PX = 18.66;
+
+const REQUIRED_RATIOS: Record<WcagLevel, { normal: number; large: number }> = {
+  AA: { normal: 4.5, large: 3 },
+  AAA: { normal: 7, large: 4.5 },
+};
+
+/**
+ * WCAG relative luminance of an sRGB color with channels between 0 and 1.
+ */
+export function relativeLuminance(color: Rgb): number {
+  const channel = (value: number) => (value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4);
+  return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b);
+}
+
+/**
+ * WCAG contrast ratio between two opaque colors, from 1 to 21.
+ */
+export function contrastRatio(a: Rgb, b: Rgb): number {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+/**
+ * Composite a color with the given opacity over an opaque backdrop.
+ */
+export function compositeOver(color: Rgb, opacity: number, backdrop: Rgb): Rgb {
+  return {
+    r: color.r * opacity + backdrop.r * (1 - opacity),
+    g: color.g * opacity + backdrop.g * (1 - opacity),
+    b: color.b * opacity + backdrop.b * (1 - opacity),
+  };
+}
+
+/**
+ * Whether a font size and weight count as large text under WCAG.
+ */
+export function isLargeText(fontSize: number, fontWeight: number = 400): boolean {
+  return fontSize >= LARGE_TEXT_PX || (fontSize >= LARGE_BOLD_TEXT_PX && fontWeight >= 700);
+}
+
+/**
+ * Pick the palette color closest to the current foreground that reaches the required ratio.
+ */
+export function nearestPassingColor(
+  foreground: Rgb,
+  background: Rgb,
+  required: number,
+  palette: Array<{ name: string; color: Rgb }>
+): { name: string; color: string; ratio: number } | undefined {
+  let best: { name: string; color: Rgb; ratio: number; distance: number } | undefined;
+  for (const entry of palette) {
+    const ratio = contrastRatio(entry.color, background);
+    if (ratio < required) continue;
+    const distance = (entry.color.r - foreground.r) ** 2 + (entry.color.g - foreground.g) ** 2 + (entry.color.b - foreground.b) ** 2;
+    if (!best || distance < best.distance) best = { ...entry, ratio, distance };
+  }
+  return best && { name: best.name, color: toHex(best.color), ratio: round(best.ratio) };
+}
+
+function toHex(color: Rgb): string {
+  return rgbaToHex({ ...color, a: 1 });
+}
+
+function round(ratio: number): number {
+  return Math.round(ratio * 100) / 100;
+}
+
+function contains(outer: Box | undefined, inner: Box | undefined): boolean {
+  return !!outer && !!inner &&
+    outer.x <= inner.x + 0.5 && outer.y <= inner.y + 0.5 &&
+    outer.x + outer.width >= inner.x + inner.width - 0.5 &&
+    outer.y + outer.height >= inner.y + inner.height - 0.5;
+}
+
+/**
+ * Layers a node contributes to the backdrop of a box it fully covers.
+ */
+function paintLayers(node: A11yNode, box: Box, inheritedOpacity: number): BackdropLayer[] {
+  if (node.visible === false || !contains(node.absoluteBoundingBox, box)) return [];
+  const opacity = inheritedOpacity * (node.opacity ?? 1);
+  return (node.fills ?? [])
+    .filter((paint: any) => paint.visible !== false)
+    .map((paint: any): BackdropLayer => paint.type === "SOLID"
+      ? { color: paint.color, opacity: opacity * (paint.opacity ?? 1) * (paint.color.a ?? 1) }
+      : { opacity, opaqueUnknown: true });
+}
+
+/**
+ * Every layer painted below a node, bottom first: each ancestor's own fills, then the
+ * subtrees of the siblings that come before the path to the node.
+ */
+function collectBackdrop(path: A11yNode[], box: Box): BackdropLayer[] {
+  const layers: BackdropLayer[] = [];
+  let opacity = 1;
+
+  const addSubtree = (node: A11yNode, inheritedOpacity: number) => {
+    if (node.visible === false) return;
+    layers.push(...paintLayers(node, box, inheritedOpacity));
+    const childOpacity = inheritedOpacity * (node.opacity ?? 1);
+    (node.children ?? []).forEach((child: A11yNode) => addSubtree(child, childOpacity));
+  };
+
+  for (let depth = 0; depth < path.length - 1; depth++) {
+    const ancestor = path[depth];
+    layers.push(...paintLayers(ancestor, box, opacity));
+    opacity *= ancestor.opacity ?? 1;
+    const next = path[depth + 1];
+    for (const sibling of ancestor.children ?? []) {
+      if (sibling === next) break;
+      addSubtree(sibling, opacity);
+    }
+  }
+  return layers;
+}
+
+/**
+ * Flatten backdrop layers over a white canvas.
+ * Returns undefined when an image or gradient covers the box, since its color under the text is unknown.
+ */
+function flattenBackdrop(layers: BackdropLayer[]): Rgb | undefined {
+  let backdrop: Rgb = { r: 1, g: 1, b: 1 };
+  let unknown = false;
+  for (const layer of layers) {
+    if (layer.opaqueUnknown) {
+      unknown = true;
+      continue;
+    }
+    // A solid layer painted on top of an image hides it only when fully opaque
+    if (layer.opacity >= 0.999) unknown = false;
+    backdrop = compositeOver(layer.color!, layer.opacity, backdrop);
+  }
+  return unknown ? undefined : backdrop;
+}
+
+function isInteractive(node: A11yNode): boolean {
+  return (Array.isArray(node.interactions) && node.interactions.length > 0) ||
+    (["INSTANCE", "COMPONENT", "FRAME"].includes(node.type) && INTERACTIVE_NAME.test(node.name ?? ""));
+}
+
+/**
+ * Audit a node tree as returned by get_node_info (REST JSON) for text contrast,
+ * text size and tap target size.
+ * @param root - Root of the subtree to audit
+ * @param options - WCAG level, thresholds and an optional palette for suggestions
+ */
+export function auditAccessibility(root: A11yNode, options: AccessibilityOptions = {}): AccessibilityReport {
+  const level = options.level ?? "AA";
+  const minTapTarget = options.minTapTarget ?? 44;
+  const minFontSize = options.minFontSize ?? 12;
+  const findings: AccessibilityFinding[] = [];
+  let textNodesChecked = 0;
+  let tapTargetsChecked = 0;
+
+  const checkText = (node: A11yNode, path: A11yNode[], opacity: number) => {
+    textNodesChecked++;
+    const fontSize: number | undefined = node.style?.fontSize;
+    const fontWeight: number = node.style?.fontWeight ?? 400;
+
+    if (fontSize !== undefined && fontSize < minFontSize) {
+      findings.push({
+        rule: "text-size",
+        severity: "warning",
+        nodeId: node.id,
+        nodeName: node.name,
+        message: `Font size ${fontSize}px is below the ${minFontSize}px minimum`,
+      });
+    }
+
+    const paint = (node.fills ?? []).find((fill: any) => fill.visible !== false);
+    const box: Box | undefined = node.absoluteBoundingBox;
+    if (!paint || paint.type !== "SOLID" || !box) return;
+
+    const background = flattenBackdrop(collectBackdrop(path, box));
+    if (!background) {
+      findings.push({
+        rule: "contrast-unknown",
+        severity: "warning",
+        nodeId: node.id,
+        nodeName: node.name,
+        message: "Text sits on an image or gradient; check its contrast manually",
+      });
+      return;
+    }
+
+    const foreground = compositeOver(paint.color, opacity * (paint.opacity ?? 1) * (paint.color.a ?? 1), background);
+    const ratio = contrastRatio(foreground, background);
+    const large = fontSize !== undefined && isLargeText(fontSize, fontWeight);
+    const required = REQUIRED_RATIOS[level][large ? "large" : "normal"];
+    if (ratio >= required) return;
+
+    findings.push({
+      rule: "contrast",
+      severity: "error",
+      nodeId: node.id,
+      nodeName: node.name,
+      message: `Contrast ${round(ratio)}:1 is below the WCAG ${level} minimum of ${required}:1 for ${large ? "large" : "normal"} text`,
+      ratio: round(ratio),
+      required,
+      foreground: toHex(foreground),
+      background: toHex(background),
+      suggestion: options.paletteColors
+        ? nearestPassingColor(foreground, background, required, options.paletteColors)
+        : undefined,
+    });
+  };
+
+  const visit = (node: A11yNode, path: A11yNode[], opacity: number) => {
+    if (node.visible === false) return;
+    const nodeOpacity = opacity * (node.opacity ?? 1);
+    const nodePath = [...path, node];
+
+    if (node.type === "TEXT") {
+      checkText(node, nodePath, nodeOpacity);
+    }
+
+    if (isInteractive(node) && node.absoluteBoundingBox) {
+      tapTargetsChecked++;
+      const { width, height } = node.absoluteBoundingBox;
+      if (width < minTapTarget || height < minTapTarget) {
+        findings.push({
+          rule: "tap-target",
+          severity: "error",
+          nodeId: node.id,
+          nodeName: node.name,
+          message: `Tap target is ${Math.round(width)}×${Math.round(height)}px, below the ${minTapTarget}×${minTapTarget}px minimum`,
+        });
+      }
+    }
+
+    (node.children ?? []).forEach((child: A11yNode) => visit(child, nodePath, nodeOpacity));
+  };
+
+  visit(root, [], 1);
+  return { textNodesChecked, tapTargetsChecked, findings };
+}
@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { resolveChannel, runInChannel } from "./websocket";
+
+/** Parameters added to every tool so one session can work on several open files */
+export const channelParams = {
+  channel: z.string().optional().describe("Channel of the Figma file to use when several are joined (default: the channel joined last). See list_connections"),
+  fileKey: z.string().optional().describe("Key of the Figma file to use, as an alternative to channel"),
+};
+
+// Tools that work across every joined channel, or manage the channels themselves
+const CHANNEL_INDEPENDENT_TOOLS = new Set([
+  "list_connections",
+  "set_dry_run",
+  "list_changes",
+  "undo_last_changes",
+  "revert_session",
+]);
+
+/**
+ * Wrap an MCP server so every tool registered through it takes an optional
+ * channel or fileKey. The tool handler then runs with all of its commands sent
+ * to that file; without either, commands go to the channel joined last.
+ * @param server - The MCP server instance
+ * @returns A server whose tool() installs the channel selection
+ */
+export function withChannels(server: McpServer): McpServer {
+  const registerTool = server.tool.bind(server) as (...args: any[]) => unknown;
+
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      if (property !== "tool") {
+        return Reflect.get(target, property, receiver);
+      }
+      return (...args: any[]) => {
+        const [name] = args;
+        const handler = args[args.length - 1];
+        const shape = args[args.length - 2];
+        // join_channel already takes a channel of its own
+        if (
+          CHANNEL_INDEPENDENT_TOOLS.has(name) || typeof handler !== "function" || !shape || typeof shape !== "object" ||
+          "channel" in shape || "fileKey" in shape
+        ) {
+          return registerTool(...args);
+        }
+
+        args[args.length - 2] = { ...shape, ...channelParams };
+        args[args.length - 1] = async (toolArgs: Record<string, any>, extra: unknown) => {
+          const { channel, fileKey, ...rest } = toolArgs;
+          if (!channel && !fileKey) {
+            return handler(rest, extra);
+          }
+
+          let selected: string;
+          try {
+            selected = resolveChannel({ channel, fileKey });
+          } catch (error) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `Error selecting channel: ${error instanceof Error ? error.message : String(error)}`,
+                },
+              ],
+            };
+          }
+          return runInChannel(selected, () => handler(rest, extra));
+        };
+        return registerTool(...args);
+      };
+    },
+  });
+}
@@ -0,0 +1,145 @@
+import { rgbaToHex } from "./figma-helpers";
+
+export type CodegenNode = Record<string, any>;
+
+export type AxisSizing = "FIXED" | "HUG" | "FILL";
+
+export interface GeneratedFile {
+  path: string;
+  content: string;
+}
+
+export interface CodegenResult {
+  files: GeneratedFile[];
+  /** Components used through instances, which the generated code imports */
+  components: string[];
+  warnings: string[];
+}
+
+export interface ComponentProp {
+  name: string;
+  type: "VARIANT" | "BOOLEAN" | "TEXT";
+  value: string | boolean;
+}
+
+// Node types drawn as vector paths, which have no structural equivalent in code
+export const VECTOR_TYPES = new Set(["VECTOR", "BOOLEAN_OPERATION", "STAR", "LINE", "REGULAR_POLYGON", "POLYGON"]);
+
+export function isAutoLayout(node: CodegenNode | undefined): boolean {
+  return !!node && (node.layoutMode === "HORIZONTAL" || node.layoutMode === "VERTICAL");
+}
+
+/**
+ * Whether a node is laid out by its parent's auto layout rather than positioned absolutely.
+ */
+export function isInFlow(node: CodegenNode, parent: CodegenNode | undefined): boolean {
+  return isAutoLayout(parent) && node.layoutPositioning !== "ABSOLUTE";
+}
+
+export function visibleChildren(node: CodegenNode): CodegenNode[] {
+  return (node.children ?? []).filter((child: CodegenNode) => child.visible !== false);
+}
+
+/**
+ * How a node is sized along one axis: fixed, hugging its content or filling its parent.
+ * Uses layoutSizingHorizontal/Vertical when the export has them and falls back to the
+ * older layoutGrow, layoutAlign and axis sizing mode fields.
+ */
+export function axisSizing(node: CodegenNode, parent: CodegenNode | undefined, axis: "horizontal" | "vertical"): AxisSizing {
+  const inFlow = isInFlow(node, parent);
+  const explicit: AxisSizing | undefined = axis === "horizontal" ? node.layoutSizingHorizontal : node.layoutSizingVertical;
+  if (explicit) return explicit === "FILL" && !inFlow ? "FIXED" : explicit;
+
+  if (inFlow) {
+    const primary = (parent!.layoutMode === "HORIZONTAL") === (axis === "horizontal");
+    if (primary ? node.layoutGrow === 1 : node.layoutAlign === "STRETCH") return "FILL";
+  }
+  if (isAutoLayout(node)) {
+    const primary = (node.layoutMode === "HORIZONTAL") === (axis === "horizontal");
+    const mode = primary ? node.primaryAxisSizingMode : node.counterAxisSizingMode;
+    if (mode !== "FIXED") return "HUG";
+  }
+  if (node.type === "TEXT") {
+    const resize = node.style?.textAutoResize;
+    if (resize === "WIDTH_AND_HEIGHT" || (resize === "HEIGHT" && axis === "vertical")) return "HUG";
+  }
+  return "FIXED";
+}
+
+export function visiblePaints(paints: any[] | undefined): any[] {
+  return (paints ?? []).filter((paint) => paint.visible !== false);
+}
+
+/**
+ * Hex color of a solid paint, folding the paint opacity into the alpha channel.
+ */
+export function paintHex(paint: any): string {
+  return rgbaToHex({ ...paint.color, a: (paint.color.a ?? 1) * (paint.opacity ?? 1) });
+}
+
+/**
+ * Corner radii as [topLeft, topRight, bottomRight, bottomLeft], or undefined when square.
+ */
+export function cornerRadii(node: CodegenNode): [number, number, number, number] | undefined {
+  const radii: number[] | undefined = node.rectangleCornerRadii ??
+    (node.cornerRadius ? [node.cornerRadius, node.cornerRadius, node.cornerRadius, node.cornerRadius] : undefined);
+  return radii && radii.some((radius) => radius > 0) ? radii as [number, number, number, number] : undefined;
+}
+
+export function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function words(name: string): string[] {
+  return name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Turn a layer or component name into a PascalCase identifier.
+ */
+export function toPascalCase(name: string, fallback = "Component"): string {
+  const identifier = words(name).map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join("");
+  if (!identifier) return fallback;
+  return /^[0-9]/.test(identifier) ? `${fallback}${identifier}` : identifier;
+}
+
+/**
+ * Turn a layer or property name into a camelCase identifier.
+ */
+export function toCamelCase(name: string, fallback = "node"): string {
+  const pascal = toPascalCase(name, "");
+  if (!pascal) return fallback;
+  const identifier = pascal.charAt(0).toLowerCase() + pascal.slice(1);
+  return /^[0-9]/.test(identifier) ? `${fallback}${pascal}` : identifier;
+}
+
+/**
+ * Props for a component instance, derived from its variant, boolean and text properties.
+ * Property names drop the "#id" suffix Figma adds; "true"/"false" variants become booleans.
+ */
+export function componentProps(node: CodegenNode): ComponentProp[] {
+  const props: ComponentProp[] = [];
+  for (const [key, property] of Object.entries<any>(node.componentProperties ?? {})) {
+    const name = toCamelCase(key.split("#")[0], "prop");
+    if (property.type === "BOOLEAN") {
+      props.push({ name, type: "BOOLEAN", value: !!property.value });
+    } else if (property.type === "VARIANT" && /^(true|false)$/i.test(String(property.value))) {
+      props.push({ name, type: "BOOLEAN", value: String(property.value).toLowerCase() === "true" });
+    } else if (property.type === "VARIANT" || property.type === "TEXT") {
+      props.push({ name, type: property.type, value: String(property.value) });
+    }
+  }
+  return props;
+}
+
+/**
+ * Hand out unique identifiers, suffixing repeated names with a counter.
+ */
+export function createNameRegistry(): (name: string) => string {
+  const used = new Map<string, number>();
+  return (name: string) => {
+    const count = used.get(name) ?? 0;
+    used.set(name, count + 1);
+    return count === 0 ? name : `${name}${count + 1}`;
+  };
+}
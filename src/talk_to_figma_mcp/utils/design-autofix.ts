@@ -0,0 +1,307 @@
+import { rgbaToHex } from "./figma-helpers";
+import { LintFinding } from "./design-lint";
+import { FigmaVariableCollection, isVariableColor, resolveDefaultValues } from "./design-tokens";
+import { FigmaCommand } from "../types";
+
+export const AUTOFIX_RULES = ["hardcoded-fill", "unstyled-text", "off-grid-spacing", "empty-layer"] as const;
+
+export type AutofixRule = typeof AUTOFIX_RULES[number];
+
+interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export interface PaintStyleInfo {
+  id: string;
+  name: string;
+  paint?: { type: string; color?: { r: number; g: number; b: number }; opacity?: number };
+}
+
+export interface TextStyleInfo {
+  id: string;
+  name: string;
+  fontSize: number;
+  fontName: { family: string; style: string };
+}
+
+export interface ColorVariableInfo {
+  id: string;
+  name: string;
+  color: Rgba;
+}
+
+export interface AutofixSources {
+  paintStyles: PaintStyleInfo[];
+  textStyles: TextStyleInfo[];
+  colorVariables: ColorVariableInfo[];
+}
+
+export interface AutofixOptions {
+  /** Spacing grid in pixels (default: 4) */
+  gridSize?: number;
+  /** Maximum RGB distance, in 0-255 units, for snapping a color (default: 8) */
+  maxColorDistance?: number;
+  /** Maximum font size difference, in pixels, for applying a text style (default: 2) */
+  maxFontSizeDelta?: number;
+}
+
+export interface FixAction {
+  rule: AutofixRule;
+  nodeId: string;
+  nodeName: string;
+  property: string;
+  before: unknown;
+  after: unknown;
+  command: FigmaCommand;
+  params: Record<string, unknown>;
+}
+
+export interface SkippedFix {
+  rule: string;
+  nodeId: string;
+  nodeName: string;
+  property?: string;
+  reason: string;
+}
+
+export interface FixPlan {
+  actions: FixAction[];
+  skipped: SkippedFix[];
+}
+
+// Auto-layout fields that set_auto_layout can change
+const AUTO_LAYOUT_FIELDS = new Set(["itemSpacing", "paddingLeft", "paddingRight", "paddingTop", "paddingBottom"]);
+
+type FixNode = Record<string, any>;
+
+function colorDistance(a: { r: number; g: number; b: number }, b: { r: number; g: number; b: number }): number {
+  return 255 * Math.sqrt((a.r - b.r) ** 2 + (a.g - b.g) ** 2 + (a.b - b.b) ** 2);
+}
+
+function describeFont(family: string, style: string | undefined, size: number): string {
+  return `${family}${style ? ` ${style}` : ""} ${size}px`;
+}
+
+/**
+ * Why an empty layer must stay, or undefined when deleting it changes nothing on the canvas.
+ * Layers that take up room in an auto-layout parent may be spacers, and an empty frame
+ * still draws its effects and keeps the size of its own auto layout.
+ */
+function emptyLayerKeepReason(node: FixNode, parent: FixNode | undefined): string | undefined {
+  if (parent?.layoutMode && parent.layoutMode !== "NONE" && node.layoutPositioning !== "ABSOLUTE") {
+    return "Layer takes up space in an auto-layout parent and may be a spacer";
+  }
+  if (node.type === "TEXT") return undefined;
+  if ((node.effects ?? []).some((effect: { visible?: boolean }) => effect.visible !== false)) {
+    return "Layer has visible effects";
+  }
+  if (node.layoutMode && node.layoutMode !== "NONE") {
+    return "Auto-layout frame keeps its padding and size even when empty";
+  }
+  return undefined;
+}
+
+/**
+ * Collect COLOR variables with their value in the collection's default mode,
+ * following aliases between local variables.
+ * @param collections - Collections as returned by the get_variables command
+ */
+export function collectColorVariables(collections: FigmaVariableCollection[]): ColorVariableInfo[] {
+  const colors: ColorVariableInfo[] = [];
+  for (const { variable, value } of resolveDefaultValues(collections).values()) {
+    if (variable.resolvedType !== "COLOR" || !isVariableColor(value)) continue;
+    colors.push({ id: variable.id, name: variable.name, color: { r: value.r, g: value.g, b: value.b, a: value.a ?? 1 } });
+  }
+  return colors;
+}
+
+/**
+ * Turn lint findings into commands that fix them.
+ * Only safe fixes are planned: colors are snapped to a variable or paint style within
+ * maxColorDistance, text gets a style of the same family within maxFontSizeDelta, spacing is
+ * rounded to the grid and empty layers that nothing depends on (see emptyLayerKeepReason) are
+ * removed. Everything else is skipped with a reason.
+ * @param root - The linted node tree, as returned by get_node_info
+ * @param findings - Findings from lintDesign over the same tree
+ * @param sources - Local styles and variables to snap to
+ * @param options - Thresholds
+ */
+export function planFixes(root: FixNode, findings: LintFinding[], sources: AutofixSources, options: AutofixOptions = {}): FixPlan {
+  const gridSize = options.gridSize ?? 4;
+  const maxColorDistance = options.maxColorDistance ?? 8;
+  const maxFontSizeDelta = options.maxFontSizeDelta ?? 2;
+
+  const nodes = new Map<string, FixNode>();
+  const parents = new Map<string, FixNode>();
+  const index = (node: FixNode) => {
+    nodes.set(node.id, node);
+    for (const child of node.children ?? []) {
+      parents.set(child.id, node);
+      index(child);
+    }
+  };
+  index(root);
+
+  const actions: FixAction[] = [];
+  const skipped: SkippedFix[] = [];
+  const spacingActions = new Map<string, FixAction>();
+
+  for (const finding of findings) {
+    const node = nodes.get(finding.nodeId);
+    const skip = (reason: string) =>
+      skipped.push({ rule: finding.rule, nodeId: finding.nodeId, nodeName: finding.nodeName, property: finding.property, reason });
+    if (!node) {
+      skip("Node is not part of the linted tree");
+      continue;
+    }
+
+    switch (finding.rule) {
+      case "hardcoded-fill": {
+        const fillIndex = Number(finding.property?.split("/")[1] ?? 0);
+        const paint = node.fills?.[fillIndex];
+        if (!paint?.color) {
+          skip(`Fill ${fillIndex} is missing or has no solid color`);
+          break;
+        }
+        const opacity = paint.opacity ?? 1;
+        const before = rgbaToHex({ ...paint.color, a: opacity });
+
+        let best: { distance: number; variable?: ColorVariableInfo; style?: PaintStyleInfo } | undefined;
+        for (const variable of sources.colorVariables) {
+          if (Math.abs(variable.color.a - opacity) > 0.01) continue;
+          const distance = colorDistance(variable.color, paint.color);
+          if (!best || distance < best.distance) best = { distance, variable };
+        }
+        for (const style of sources.paintStyles) {
+          if (style.paint?.type !== "SOLID" || !style.paint.color || Math.abs((style.paint.opacity ?? 1) - opacity) > 0.01) continue;
+          const distance = colorDistance(style.paint.color, paint.color);
+          // On a tie the variable wins: it can be bound per fill, a style replaces every fill
+          if (!best || distance < best.distance) best = { distance, style };
+        }
+
+        if (!best || best.distance > maxColorDistance) {
+          skip(`No variable or paint style within ${maxColorDistance} of ${before}`);
+        } else if (best.variable) {
+          actions.push({
+            rule: "hardcoded-fill",
+            nodeId: node.id,
+            nodeName: node.name,
+            property: `fills/${fillIndex}`,
+            before,
+            after: `${best.variable.name} (${rgbaToHex(best.variable.color)})`,
+            command: "apply_variable_to_node",
+            params: { nodeId: node.id, variableId: best.variable.id, field: `fills/${fillIndex}/color` },
+          });
+        } else if (best.style && node.fills.length > 1) {
+          skip(`Closest match is paint style "${best.style.name}", which would replace all ${node.fills.length} fills`);
+        } else if (best.style) {
+          actions.push({
+            rule: "hardcoded-fill",
+            nodeId: node.id,
+            nodeName: node.name,
+            property: "fills",
+            before,
+            after: `${best.style.name} (${rgbaToHex({ ...best.style.paint!.color!, a: best.style.paint!.opacity ?? 1 })})`,
+            command: "set_fill_style_id",
+            params: { nodeId: node.id, fillStyleId: best.style.id },
+          });
+        }
+        break;
+      }
+
+      case "unstyled-text": {
+        const family: string | undefined = node.style?.fontFamily;
+        const size: number | undefined = node.style?.fontSize;
+        if (!family || !size) {
+          skip("Text has mixed fonts");
+          break;
+        }
+
+        const candidates = sources.textStyles
+          .filter((style) => style.fontName.family.toLowerCase() === family.toLowerCase())
+          .map((style) => ({
+            style,
+            score: Math.abs(style.fontSize - size) * 10 + (style.fontName.style === node.style.fontStyle ? 0 : 5),
+          }))
+          .filter(({ style }) => Math.abs(style.fontSize - size) <= maxFontSizeDelta)
+          .sort((a, b) => a.score - b.score);
+
+        if (candidates.length === 0) {
+          skip(`No ${family} text style within ${maxFontSizeDelta}px of ${size}px`);
+          break;
+        }
+        const { style } = candidates[0];
+        actions.push({
+          rule: "unstyled-text",
+          nodeId: node.id,
+          nodeName: node.name,
+          property: "textStyleId",
+          before: describeFont(family, node.style.fontStyle, size),
+          after: `${style.name} (${describeFont(style.fontName.family, style.fontName.style, style.fontSize)})`,
+          command: "set_text_style_id",
+          params: { nodeId: node.id, textStyleId: style.id },
+        });
+        break;
+      }
+
+      case "off-grid-spacing": {
+        const field = finding.property ?? "";
+        if (!AUTO_LAYOUT_FIELDS.has(field)) {
+          skip(`${field} cannot be changed by set_auto_layout`);
+          break;
+        }
+        const value = node[field] as number;
+        const rounded = Math.round(value / gridSize) * gridSize;
+
+        // One set_auto_layout call per node carries every rounded field
+        let action = spacingActions.get(node.id);
+        if (!action) {
+          action = {
+            rule: "off-grid-spacing",
+            nodeId: node.id,
+            nodeName: node.name,
+            property: "",
+            before: {},
+            after: {},
+            command: "set_auto_layout",
+            params: { nodeId: node.id, layoutMode: node.layoutMode },
+          };
+          spacingActions.set(node.id, action);
+          actions.push(action);
+        }
+        action.property = action.property ? `${action.property}, ${field}` : field;
+        (action.before as Record<string, number>)[field] = value;
+        (action.after as Record<string, number>)[field] = rounded;
+        action.params[field] = rounded;
+        break;
+      }
+
+      case "empty-layer": {
+        const keepReason = emptyLayerKeepReason(node, parents.get(node.id));
+        if (keepReason) {
+          skip(keepReason);
+          break;
+        }
+        actions.push({
+          rule: "empty-layer",
+          nodeId: node.id,
+          nodeName: node.name,
+          property: "node",
+          before: `${node.type} "${node.name}"`,
+          after: "(deleted)",
+          command: "delete_node",
+          params: { nodeId: node.id },
+        });
+        break;
+      }
+
+      default:
+        skip("No automatic fix for this rule");
+    }
+  }
+
+  return { actions, skipped };
+}
@@ -0,0 +1,147 @@
+import { rgbaToHex } from "./figma-helpers";
+
+export const LINT_RULES = [
+  "hardcoded-fill", "unstyled-text", "off-grid-spacing", "detached-instance", "hidden-layer", "empty-layer",
+] as const;
+
+export type LintRuleId = typeof LINT_RULES[number];
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export interface LintFinding {
+  rule: LintRuleId;
+  severity: LintSeverity;
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  message: string;
+  property?: string;
+  value?: string | number;
+}
+
+export interface LintOptions {
+  /** Rules to run (default: all) */
+  rules?: LintRuleId[];
+  /** Spacing grid in pixels for off-grid-spacing (default: 4) */
+  gridSize?: number;
+  /** Severity overrides per rule; "off" disables the rule */
+  severities?: Partial<Record<LintRuleId, LintSeverity | "off">>;
+  /** Also lint the layers inside component instances (default: false) */
+  includeInstanceChildren?: boolean;
+}
+
+export interface LintReport {
+  nodesScanned: number;
+  findings: LintFinding[];
+  counts: Record<LintSeverity, number>;
+}
+
+const DEFAULT_SEVERITIES: Record<LintRuleId, LintSeverity> = {
+  "hardcoded-fill": "warning",
+  "unstyled-text": "warning",
+  "off-grid-spacing": "warning",
+  "detached-instance": "error",
+  "hidden-layer": "info",
+  "empty-layer": "info",
+};
+
+// Auto-layout fields checked against the spacing grid
+const SPACING_FIELDS = ["itemSpacing", "counterAxisSpacing", "paddingLeft", "paddingRight", "paddingTop", "paddingBottom"];
+
+// Container types that are pointless without children
+const CONTAINER_TYPES = new Set(["FRAME", "GROUP", "SECTION"]);
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+type LintNode = Record<string, any>;
+
+/**
+ * Whether a paint on a node is bound to a variable, either on the paint
+ * itself or through the node's boundVariables list.
+ */
+function isPaintBound(node: LintNode, property: "fills" | "strokes", index: number): boolean {
+  const paint = node[property]?.[index];
+  return !!paint?.boundVariables?.color || !!node.boundVariables?.[property]?.[index];
+}
+
+function hasVisiblePaint(node: LintNode): boolean {
+  return [...(node.fills ?? []), ...(node.strokes ?? [])].some((paint: any) => paint.visible !== false);
+}
+
+/**
+ * Run design-system lint rules over a node tree as returned by get_node_info (REST JSON).
+ * Hidden layers are reported once and not descended into.
+ * @param root - Root of the subtree to lint
+ * @param options - Rules, grid size and severities
+ * @returns Findings ordered by severity, plus counts
+ */
+export function lintDesign(root: LintNode, options: LintOptions = {}): LintReport {
+  const gridSize = options.gridSize ?? 4;
+  const enabled = new Set<LintRuleId>(options.rules ?? LINT_RULES);
+  const findings: LintFinding[] = [];
+  let nodesScanned = 0;
+
+  const report = (rule: LintRuleId, node: LintNode, message: string, property?: string, value?: string | number) => {
+    const severity = options.severities?.[rule] ?? DEFAULT_SEVERITIES[rule];
+    if (!enabled.has(rule) || severity === "off") return;
+    findings.push({ rule, severity, nodeId: node.id, nodeName: node.name, nodeType: node.type, message, property, value });
+  };
+
+  const visit = (node: LintNode) => {
+    nodesScanned++;
+
+    if (node.visible === false) {
+      report("hidden-layer", node, "Layer is hidden; remove it if it is no longer needed");
+      return;
+    }
+
+    if (node.detachedInfo) {
+      report("detached-instance", node, "Frame was detached from a component; replace it with an instance", "detachedInfo",
+        node.detachedInfo.componentKey ?? node.detachedInfo.componentId);
+    }
+
+    (node.fills ?? []).forEach((paint: any, index: number) => {
+      if (paint.type !== "SOLID" || paint.visible === false) return;
+      if (node.styles?.fill || node.styles?.fills || isPaintBound(node, "fills", index)) return;
+      const hex = rgbaToHex({ ...paint.color, a: paint.opacity ?? paint.color.a ?? 1 });
+      report("hardcoded-fill", node, `Fill ${hex} is not bound to a variable or paint style`, `fills/${index}`, hex);
+    });
+
+    if (node.type === "TEXT") {
+      if (!node.styles?.text) {
+        const size = node.style?.fontSize;
+        report("unstyled-text", node, `Text has no text style${size ? ` (${node.style.fontFamily} ${size}px)` : ""}`, "textStyleId");
+      }
+      if (!node.characters?.trim()) {
+        report("empty-layer", node, "Text layer has no content");
+      }
+    }
+
+    if (node.layoutMode && node.layoutMode !== "NONE") {
+      for (const field of SPACING_FIELDS) {
+        const value = node[field];
+        if (typeof value !== "number" || node.boundVariables?.[field]) continue;
+        if (Math.abs(value / gridSize - Math.round(value / gridSize)) > 1e-6) {
+          report("off-grid-spacing", node, `${field} ${value}px is off the ${gridSize}px grid`, field, value);
+        }
+      }
+    }
+
+    const children: LintNode[] = node.children ?? [];
+    if (CONTAINER_TYPES.has(node.type) && children.length === 0 && !hasVisiblePaint(node)) {
+      const label = node.type.charAt(0) + node.type.slice(1).toLowerCase();
+      report("empty-layer", node, `${label} has no children and no visible fill or stroke`);
+    }
+
+    if (node.type === "INSTANCE" && !options.includeInstanceChildren) return;
+    children.forEach(visit);
+  };
+
+  visit(root);
+
+  findings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+  const counts: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+  findings.forEach((finding) => counts[finding.severity]++);
+
+  return { nodesScanned, findings, counts };
+}
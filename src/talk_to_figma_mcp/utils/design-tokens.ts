@@ -0,0 +1,722 @@
+import { hexToRgba, rgbaToHex } from "./figma-helpers";
+
+export type TokenFormat = "dtcg" | "css" | "scss" | "tailwind";
+
+export interface VariableAlias {
+  type: "VARIABLE_ALIAS";
+  id: string;
+}
+
+export interface VariableColor {
+  r: number;
+  g: number;
+  b: number;
+  a?: number;
+}
+
+// Value of a variable in one mode, as returned by get_variables
+export type VariableValue = VariableColor | VariableAlias | number | string | boolean;
+
+export interface FigmaVariable {
+  id: string;
+  name: string;
+  resolvedType: "COLOR" | "FLOAT" | "STRING" | "BOOLEAN";
+  valuesByMode: Record<string, VariableValue>;
+  description?: string;
+  scopes?: string[];
+}
+
+export interface FigmaVariableCollection {
+  id: string;
+  name: string;
+  modes: Array<{ modeId: string; name: string }>;
+  variables: FigmaVariable[];
+}
+
+export interface TokenExportOptions {
+  /** Names or IDs of the collections to export (default: all). Aliases into other collections are replaced by their values. */
+  collections?: string[];
+  /** Replace aliases with their resolved values instead of emitting references */
+  resolveAliases?: boolean;
+}
+
+export interface TokenExportResult {
+  output: string;
+  tokenCount: number;
+  warnings: string[];
+}
+
+// Plain value of a token in one mode, or a reference to another token
+type TokenValue =
+  | { kind: "value"; value: string | number | boolean }
+  | { kind: "alias"; variable: FigmaVariable; collection: FigmaVariableCollection };
+
+// FLOAT scopes that describe pixel dimensions rather than unitless numbers
+const DIMENSION_SCOPES = new Set([
+  "CORNER_RADIUS", "WIDTH_HEIGHT", "GAP", "STROKE_FLOAT", "EFFECT_FLOAT",
+  "FONT_SIZE", "LINE_HEIGHT", "LETTER_SPACING", "PARAGRAPH_SPACING", "PARAGRAPH_INDENT",
+]);
+
+// Tailwind theme keys, chosen from the FLOAT variable's scopes. Unscoped (ALL_SCOPES) numbers go to spacing
+const TAILWIND_SCOPE_KEYS: Record<string, string> = {
+  CORNER_RADIUS: "borderRadius",
+  GAP: "spacing",
+  WIDTH_HEIGHT: "spacing",
+  FONT_SIZE: "fontSize",
+  LINE_HEIGHT: "lineHeight",
+  LETTER_SPACING: "letterSpacing",
+  STROKE_FLOAT: "borderWidth",
+  OPACITY: "opacity",
+};
+
+// Leading name segments that only repeat the Tailwind theme key
+const TAILWIND_REDUNDANT_PREFIX = /^(colou?rs?|spacing|radius|radii|border-?radius|font-?sizes?)$/i;
+
+/**
+ * Turn a string into a lowercase, dash-separated identifier.
+ */
+function slugify(value: string): string {
+  return value
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase();
+}
+
+/**
+ * Split a variable name into token path segments ("color/primary/500" → ["color", "primary", "500"]).
+ */
+function tokenPath(variable: FigmaVariable): string[] {
+  return variable.name.split("/").map((segment) => segment.trim()).filter(Boolean);
+}
+
+function isAlias(value: unknown): value is VariableAlias {
+  return typeof value === "object" && value !== null && (value as VariableAlias).type === "VARIABLE_ALIAS";
+}
+
+export function isVariableColor(value: VariableValue | undefined): value is VariableColor {
+  return typeof value === "object" && !isAlias(value) && typeof value.r === "number";
+}
+
+/**
+ * Index every variable by ID with its value in its collection's default mode, following
+ * aliases between the given variables. Values behind a missing or cyclic alias are undefined.
+ * @param collections - Collections as returned by the get_variables command
+ */
+export function resolveDefaultValues(
+  collections: FigmaVariableCollection[]
+): Map<string, { variable: FigmaVariable; value: Exclude<VariableValue, VariableAlias> | undefined }> {
+  const byId = new Map<string, { variable: FigmaVariable; modeId: string }>();
+  for (const collection of collections) {
+    for (const variable of collection.variables) {
+      byId.set(variable.id, { variable, modeId: collection.modes[0]?.modeId });
+    }
+  }
+
+  const resolve = (id: string, depth: number): Exclude<VariableValue, VariableAlias> | undefined => {
+    const entry = byId.get(id);
+    if (!entry || depth > 10) return undefined;
+    const value = entry.variable.valuesByMode[entry.modeId];
+    return isAlias(value) ? resolve(value.id, depth + 1) : value;
+  };
+
+  const resolved = new Map<string, { variable: FigmaVariable; value: Exclude<VariableValue, VariableAlias> | undefined }>();
+  for (const [id, { variable }] of byId) {
+    resolved.set(id, { variable, value: resolve(id, 0) });
+  }
+  return resolved;
+}
+
+// Figma gives new number variables ALL_SCOPES, and most of them are sizes, so they count as dimensions too
+function isDimension(variable: FigmaVariable): boolean {
+  if (variable.resolvedType !== "FLOAT" || !variable.scopes?.length) return false;
+  return variable.scopes.includes("ALL_SCOPES") || variable.scopes.every((scope) => DIMENSION_SCOPES.has(scope));
+}
+
+// Collections to export, plus every known variable indexed by id so aliases can be followed across collections
+interface TokenGraph {
+  collections: FigmaVariableCollection[];
+  variables: Map<string, { variable: FigmaVariable; collection: FigmaVariableCollection }>;
+  /** CSS custom property name of every known variable */
+  cssNames: Map<string, string>;
+  warnings: string[];
+}
+
+/**
+ * Name every variable's CSS custom property after its path. Paths used in more than one
+ * collection ("color/primary" in Brand and Theme) get the collection name as a prefix,
+ * so neither declaration silently overrides the other in :root.
+ */
+function buildCssNames(variables: TokenGraph["variables"]): Map<string, string> {
+  const baseName = (variable: FigmaVariable) => tokenPath(variable).map(slugify).join("-");
+  const collectionsByName = new Map<string, Set<string>>();
+  for (const { variable, collection } of variables.values()) {
+    const name = baseName(variable);
+    collectionsByName.set(name, (collectionsByName.get(name) ?? new Set()).add(collection.id));
+  }
+
+  const names = new Map<string, string>();
+  for (const { variable, collection } of variables.values()) {
+    const name = baseName(variable);
+    names.set(variable.id, collectionsByName.get(name)!.size > 1 ? `--${slugify(collection.name)}-${name}` : `--${name}`);
+  }
+  return names;
+}
+
+function buildTokenGraph(collections: FigmaVariableCollection[], selected?: string[]): TokenGraph {
+  const variables: TokenGraph["variables"] = new Map();
+  for (const collection of collections) {
+    for (const variable of collection.variables) {
+      variables.set(variable.id, { variable, collection });
+    }
+  }
+  const exported = selected?.length
+    ? collections.filter((collection) => selected.includes(collection.name) || selected.includes(collection.id))
+    : collections;
+  return { collections: exported, variables, cssNames: buildCssNames(variables), warnings: [] };
+}
+
+/**
+ * Pick the mode of the target collection that corresponds to a mode of the source collection:
+ * the same mode in the same collection, else a mode with the same name, else the default mode.
+ */
+function targetMode(source: FigmaVariableCollection, modeId: string, target: FigmaVariableCollection): string {
+  if (source.id === target.id) return modeId;
+  const modeName = source.modes.find((mode) => mode.modeId === modeId)?.name;
+  return (target.modes.find((mode) => mode.name === modeName) ?? target.modes[0]).modeId;
+}
+
+function literalValue(variable: FigmaVariable, raw: unknown): TokenValue | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (variable.resolvedType === "COLOR") {
+    const color = raw as { r: number; g: number; b: number; a?: number };
+    return { kind: "value", value: rgbaToHex({ ...color, a: color.a ?? 1 }) };
+  }
+  return { kind: "value", value: raw as string | number | boolean };
+}
+
+/**
+ * Read a variable's value in one mode, keeping aliases as references.
+ */
+function readValue(graph: TokenGraph, variable: FigmaVariable, modeId: string): TokenValue | undefined {
+  const raw = variable.valuesByMode[modeId];
+  if (isAlias(raw)) {
+    const target = graph.variables.get(raw.id);
+    if (!target) {
+      graph.warnings.push(`"${variable.name}" aliases variable ${raw.id}, which is not a local variable (library variables cannot be resolved); it was skipped`);
+      return undefined;
+    }
+    return { kind: "alias", ...target };
+  }
+  return literalValue(variable, raw);
+}
+
+/**
+ * Read a variable's value in one mode, following aliases to the final value.
+ */
+function resolveValue(
+  graph: TokenGraph,
+  variable: FigmaVariable,
+  collection: FigmaVariableCollection,
+  modeId: string,
+  seen: Set<string> = new Set()
+): TokenValue | undefined {
+  if (seen.has(variable.id)) {
+    graph.warnings.push(`"${variable.name}" is part of an alias cycle; it was skipped`);
+    return undefined;
+  }
+  seen.add(variable.id);
+
+  const value = readValue(graph, variable, modeId);
+  if (value?.kind !== "alias") return value;
+  return resolveValue(graph, value.variable, value.collection, targetMode(collection, modeId, value.collection), seen);
+}
+
+/**
+ * Read a value for output, either keeping or resolving aliases. Aliases into a collection
+ * that is not exported are always resolved, since their reference would point at nothing.
+ */
+function tokenValue(
+  graph: TokenGraph,
+  variable: FigmaVariable,
+  collection: FigmaVariableCollection,
+  modeId: string,
+  options: TokenExportOptions
+): TokenValue | undefined {
+  if (options.resolveAliases) return resolveValue(graph, variable, collection, modeId);
+  const value = readValue(graph, variable, modeId);
+  if (value?.kind === "alias" && !graph.collections.includes(value.collection)) {
+    return resolveValue(graph, variable, collection, modeId);
+  }
+  return value;
+}
+
+/**
+ * Format a literal value for CSS and SCSS.
+ */
+function cssLiteral(variable: FigmaVariable, value: string | number | boolean): string {
+  if (variable.resolvedType === "STRING") return JSON.stringify(value);
+  if (isDimension(variable)) return `${value}px`;
+  return String(value);
+}
+
+function cssName(graph: TokenGraph, variable: FigmaVariable): string {
+  return graph.cssNames.get(variable.id) ?? `--${tokenPath(variable).map(slugify).join("-")}`;
+}
+
+/**
+ * W3C Design Tokens (DTCG) document: one top-level group per collection.
+ * $value holds the default mode; other modes are listed under $extensions["com.figma"].modes.
+ */
+function toDtcg(graph: TokenGraph, options: TokenExportOptions): string {
+  const document: Record<string, any> = {};
+
+  const dtcgValue = (variable: FigmaVariable, collection: FigmaVariableCollection, modeId: string) => {
+    const value = tokenValue(graph, variable, collection, modeId, options);
+    if (!value) return undefined;
+    if (value.kind === "alias") {
+      return `{${[value.collection.name, ...tokenPath(value.variable)].join(".")}}`;
+    }
+    return isDimension(variable) ? `${value.value}px` : value.value;
+  };
+
+  for (const collection of graph.collections) {
+    const group: Record<string, any> = (document[collection.name] ??= {});
+    const [defaultMode, ...otherModes] = collection.modes;
+
+    for (const variable of collection.variables) {
+      const $value = dtcgValue(variable, collection, defaultMode.modeId);
+      if ($value === undefined) continue;
+
+      const token: Record<string, unknown> = {
+        $type: variable.resolvedType === "COLOR" ? "color"
+          : isDimension(variable) ? "dimension"
+          : variable.resolvedType === "FLOAT" ? "number"
+          : variable.resolvedType.toLowerCase(),
+        $value,
+      };
+      if (variable.description) token.$description = variable.description;
+      if (otherModes.length > 0) {
+        const modes: Record<string, unknown> = {};
+        for (const mode of collection.modes) {
+          modes[mode.name] = dtcgValue(variable, collection, mode.modeId);
+        }
+        token.$extensions = { "com.figma": { modes } };
+      }
+
+      const path = tokenPath(variable);
+      let parent = group;
+      for (const segment of path.slice(0, -1)) {
+        parent = parent[segment] ??= {};
+      }
+      parent[path[path.length - 1]] = token;
+    }
+  }
+
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * CSS custom properties: the default mode of each collection goes in :root,
+ * every other mode in a [data-<collection>="<mode>"] block.
+ */
+function toCss(graph: TokenGraph, options: TokenExportOptions): string {
+  const blocks: string[] = [];
+
+  for (const collection of graph.collections) {
+    collection.modes.forEach((mode, index) => {
+      const selector = index === 0 ? ":root" : `[data-${slugify(collection.name)}="${slugify(mode.name)}"]`;
+      const lines: string[] = [];
+
+      for (const variable of collection.variables) {
+        const value = tokenValue(graph, variable, collection, mode.modeId, options);
+        if (!value) continue;
+        const css = value.kind === "alias" ? `var(${cssName(graph, value.variable)})` : cssLiteral(variable, value.value);
+        lines.push(`  ${cssName(graph, variable)}: ${css};`);
+      }
+
+      if (lines.length > 0) {
+        blocks.push(`/* ${collection.name} — ${mode.name} */\n${selector} {\n${lines.join("\n")}\n}`);
+      }
+    });
+  }
+
+  return blocks.join("\n\n") + "\n";
+}
+
+/**
+ * SCSS maps: one map per collection and mode, with aliases always resolved.
+ */
+function toScss(graph: TokenGraph): string {
+  const maps: string[] = [];
+
+  for (const collection of graph.collections) {
+    for (const mode of collection.modes) {
+      const entries: string[] = [];
+      for (const variable of collection.variables) {
+        const value = resolveValue(graph, variable, collection, mode.modeId);
+        if (value?.kind !== "value") continue;
+        entries.push(`  "${tokenPath(variable).map(slugify).join("-")}": ${cssLiteral(variable, value.value)},`);
+      }
+      if (entries.length > 0) {
+        maps.push(`$${slugify(collection.name)}-${slugify(mode.name)}: (\n${entries.join("\n")}\n);`);
+      }
+    }
+  }
+
+  return maps.join("\n\n") + "\n";
+}
+
+/**
+ * Tailwind theme config. Collections with a single mode get literal values;
+ * collections with several modes point at the CSS custom properties so the
+ * theme follows the active mode.
+ */
+function toTailwind(graph: TokenGraph): string {
+  const theme: Record<string, any> = {};
+  const unmapped: string[] = [];
+
+  for (const collection of graph.collections) {
+    const themed = collection.modes.length > 1;
+
+    for (const variable of collection.variables) {
+      const scopeKey = variable.scopes?.find((scope) => scope in TAILWIND_SCOPE_KEYS);
+      const key = variable.resolvedType === "COLOR" ? "colors"
+        : variable.resolvedType !== "FLOAT" ? undefined
+        : scopeKey ? TAILWIND_SCOPE_KEYS[scopeKey]
+        : variable.scopes?.includes("ALL_SCOPES") ? "spacing"
+        : undefined;
+      if (!key) {
+        unmapped.push(variable.name);
+        continue;
+      }
+
+      let value: string;
+      if (themed) {
+        value = `var(${cssName(graph, variable)})`;
+      } else {
+        const resolved = resolveValue(graph, variable, collection, collection.modes[0].modeId);
+        if (resolved?.kind !== "value") continue;
+        value = cssLiteral(variable, resolved.value);
+      }
+
+      let path = tokenPath(variable).map(slugify);
+      if (path.length > 1 && TAILWIND_REDUNDANT_PREFIX.test(path[0])) path = path.slice(1);
+
+      let parent: Record<string, any> = (theme[key] ??= {});
+      for (const segment of path.slice(0, -1)) {
+        if (typeof parent[segment] === "string") parent[segment] = { DEFAULT: parent[segment] };
+        parent = parent[segment] ??= {};
+      }
+      parent[path[path.length - 1]] = value;
+    }
+  }
+
+  if (unmapped.length > 0) {
+    graph.warnings.push(`${unmapped.length} variable(s) have no Tailwind theme key for their type or scopes and were skipped: ${unmapped.join(", ")}`);
+  }
+
+  return `/** @type {import('tailwindcss').Config} */\nmodule.exports = ${JSON.stringify({ theme: { extend: theme } }, null, 2)};\n`;
+}
+
+/**
+ * Convert Figma variable collections into design token source code.
+ * @param collections - Collections as returned by the get_variables command
+ * @param format - Output format
+ * @param options - Export options
+ * @returns The generated source, the number of exported variables and any alias warnings
+ */
+export function exportDesignTokens(
+  collections: FigmaVariableCollection[],
+  format: TokenFormat,
+  options: TokenExportOptions = {}
+): TokenExportResult {
+  const graph = buildTokenGraph(collections.filter((collection) => collection.modes.length > 0), options.collections);
+
+  let output: string;
+  switch (format) {
+    case "dtcg":
+      output = toDtcg(graph, options);
+      break;
+    case "css":
+      output = toCss(graph, options);
+      break;
+    case "scss":
+      output = toScss(graph);
+      break;
+    case "tailwind":
+      output = toTailwind(graph);
+      break;
+  }
+
+  return {
+    output,
+    tokenCount: graph.collections.reduce((count, collection) => count + collection.variables.length, 0),
+    warnings: [...new Set(graph.warnings)],
+  };
+}
+
+// Mode key for values that belong to the collection's default mode
+export const DEFAULT_MODE = "";
+
+export type ImportAlias =
+  | { collection: string; name: string }
+  | { path: string[] };
+
+export type ImportValue =
+  | string
+  | number
+  | boolean
+  | { r: number; g: number; b: number; a: number }
+  | { alias: ImportAlias };
+
+export interface ImportVariable {
+  name: string;
+  /** Omitted for aliases to variables outside the document; the plugin takes the target's type */
+  resolvedType?: FigmaVariable["resolvedType"];
+  description?: string;
+  /** Values by mode name; DEFAULT_MODE targets the collection's default mode */
+  values: Record<string, ImportValue>;
+}
+
+export interface ImportCollection {
+  name: string;
+  /** Mode names in document order; empty when every value targets the default mode */
+  modes: string[];
+  variables: ImportVariable[];
+}
+
+export interface TokenImportOptions {
+  /** Put every token in this collection instead of one collection per top-level group */
+  collectionName?: string;
+  /** Mode that plain $value / value entries are written to (default: the collection's default mode) */
+  modeName?: string;
+}
+
+export interface TokenImportResult {
+  collections: ImportCollection[];
+  warnings: string[];
+}
+
+// A token as found in the document, before its values are converted
+interface RawToken {
+  collection: string;
+  name: string;
+  path: string[];
+  type?: string;
+  description?: string;
+  values: Record<string, unknown>;
+  modes: string[];
+}
+
+// DTCG and Style Dictionary types, mapped to Figma variable types
+const TOKEN_TYPES: Record<string, FigmaVariable["resolvedType"]> = {
+  color: "COLOR",
+  dimension: "FLOAT",
+  number: "FLOAT",
+  fontWeight: "FLOAT",
+  duration: "FLOAT",
+  spacing: "FLOAT",
+  sizing: "FLOAT",
+  borderRadius: "FLOAT",
+  borderWidth: "FLOAT",
+  opacity: "FLOAT",
+  fontSize: "FLOAT",
+  fontSizes: "FLOAT",
+  lineHeight: "FLOAT",
+  lineHeights: "FLOAT",
+  letterSpacing: "FLOAT",
+  string: "STRING",
+  text: "STRING",
+  content: "STRING",
+  fontFamily: "STRING",
+  fontFamilies: "STRING",
+  boolean: "BOOLEAN",
+};
+
+// Root font size used to convert rem values to pixels
+const REM_IN_PX = 16;
+
+/**
+ * Parse a "{group.token}" reference into its path, dropping Style Dictionary's trailing ".value".
+ */
+function parseReference(value: unknown): string[] | null {
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(/^\{([^{}]+)\}$/);
+  if (!match) return null;
+  const path = match[1].split(".").map((segment) => segment.trim());
+  return path[path.length - 1] === "value" || path[path.length - 1] === "$value" ? path.slice(0, -1) : path;
+}
+
+/**
+ * Convert a color token value ("#hex", rgb()/rgba() or a DTCG color object) to Figma RGBA.
+ * Hex strings need their "#" so that "400" or "Face" are not read as colors.
+ */
+function parseColor(value: unknown): { r: number; g: number; b: number; a: number } | null {
+  if (typeof value === "string") {
+    if (value.trim().startsWith("#")) return hexToRgba(value);
+    const rgb = value.trim().match(/^rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:[,\s/]+([\d.]+%?))?\s*\)$/i);
+    if (rgb) {
+      const alpha = rgb[4] === undefined ? 1
+        : rgb[4].endsWith("%") ? parseFloat(rgb[4]) / 100
+        : parseFloat(rgb[4]);
+      return { r: Number(rgb[1]) / 255, g: Number(rgb[2]) / 255, b: Number(rgb[3]) / 255, a: alpha };
+    }
+    return null;
+  }
+  if (typeof value === "object" && value !== null) {
+    const color = value as { colorSpace?: string; components?: number[]; alpha?: number; hex?: string };
+    if ((color.colorSpace === undefined || color.colorSpace === "srgb") && Array.isArray(color.components) && color.components.length === 3) {
+      const [r, g, b] = color.components;
+      return { r, g, b, a: color.alpha ?? 1 };
+    }
+    if (typeof color.hex === "string") return hexToRgba(color.hex);
+  }
+  return null;
+}
+
+/**
+ * Convert a numeric token value ("16px", "1rem", "1.5", 400 or a DTCG { value, unit } object) to a number.
+ */
+function parseNumber(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "object" && value !== null && "value" in value && typeof value.value === "number") {
+    const amount = value.value;
+    const unit = "unit" in value ? value.unit : undefined;
+    return unit === "rem" ? amount * REM_IN_PX : unit === undefined || unit === "px" || unit === "ms" ? amount : null;
+  }
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(/^(-?[\d.]+)(px|rem|ms)?$/);
+  if (!match) return null;
+  return match[2] === "rem" ? parseFloat(match[1]) * REM_IN_PX : parseFloat(match[1]);
+}
+
+/**
+ * Guess the Figma type of an untyped token from its value.
+ */
+function inferType(value: unknown): FigmaVariable["resolvedType"] | undefined {
+  if (typeof value === "boolean") return "BOOLEAN";
+  if (parseNumber(value) !== null) return "FLOAT";
+  if (parseColor(value)) return "COLOR";
+  if (typeof value === "string") return "STRING";
+  return undefined;
+}
+
+/**
+ * Walk the document and collect every token with its collection, path and per-mode raw values.
+ */
+function collectTokens(document: Record<string, unknown>, options: TokenImportOptions): RawToken[] {
+  const tokens: RawToken[] = [];
+
+  const walk = (node: Record<string, any>, path: string[], inheritedType: string | undefined) => {
+    // Style Dictionary groups may be named "type", so only string values count as a type
+    const type = typeof node.$type === "string" ? node.$type
+      : typeof node.type === "string" ? node.type
+      : inheritedType;
+
+    if ("$value" in node || "value" in node) {
+      const collection = options.collectionName ?? (path.length > 1 ? path[0] : "Tokens");
+      const namePath = options.collectionName || path.length === 1 ? path : path.slice(1);
+      const modes = node.$extensions?.["com.figma"]?.modes as Record<string, unknown> | undefined;
+      const values: Record<string, unknown> = modes && typeof modes === "object"
+        ? { ...modes }
+        : { [options.modeName ?? DEFAULT_MODE]: "$value" in node ? node.$value : node.value };
+
+      tokens.push({
+        collection,
+        name: namePath.join("/"),
+        path,
+        type,
+        description: node.$description ?? node.description ?? node.comment,
+        values,
+        modes: Object.keys(values).filter((mode) => mode !== DEFAULT_MODE),
+      });
+      return;
+    }
+
+    for (const [key, child] of Object.entries(node)) {
+      if (key.startsWith("$") || typeof child !== "object" || child === null || Array.isArray(child)) continue;
+      walk(child, [...path, key], type);
+    }
+  };
+
+  walk(document as Record<string, any>, [], undefined);
+  return tokens;
+}
+
+/**
+ * Parse a DTCG or Style Dictionary document into Figma variable collections.
+ * Top-level groups become collections unless options.collectionName is set. Modes come from
+ * $extensions["com.figma"].modes (as written by exportDesignTokens) or from options.modeName.
+ * @param document - The token document
+ * @param options - Import options
+ * @returns Collections ready for the import_variables command, plus warnings for skipped tokens
+ */
+export function parseDesignTokens(document: Record<string, unknown>, options: TokenImportOptions = {}): TokenImportResult {
+  const tokens = collectTokens(document, options);
+  const warnings: string[] = [];
+  const byPath = new Map(tokens.map((token) => [token.path.join("."), token]));
+
+  // Follow references inside the document to find the type of alias-only tokens
+  const tokenType = (token: RawToken, seen: Set<RawToken> = new Set()): FigmaVariable["resolvedType"] | undefined => {
+    if (token.type) return TOKEN_TYPES[token.type];
+    if (seen.has(token)) return undefined;
+    seen.add(token);
+    for (const value of Object.values(token.values)) {
+      const reference = parseReference(value);
+      const target = reference ? byPath.get(reference.join(".")) : undefined;
+      if (target) return tokenType(target, seen);
+      if (!reference) return inferType(value);
+    }
+    return undefined;
+  };
+
+  const collections = new Map<string, ImportCollection>();
+
+  for (const token of tokens) {
+    const label = `${token.collection}/${token.name}`;
+    if (token.type && !(token.type in TOKEN_TYPES)) {
+      warnings.push(`${label}: "${token.type}" tokens have no Figma variable type; skipped`);
+      continue;
+    }
+
+    const resolvedType = tokenType(token);
+    const values: Record<string, ImportValue> = {};
+    let failed = false;
+
+    for (const [mode, raw] of Object.entries(token.values)) {
+      const reference = parseReference(raw);
+      if (reference) {
+        const target = byPath.get(reference.join("."));
+        values[mode] = { alias: target ? { collection: target.collection, name: target.name } : { path: reference } };
+        continue;
+      }
+
+      const value = resolvedType === "COLOR" ? parseColor(raw)
+        : resolvedType === "FLOAT" ? parseNumber(raw)
+        : resolvedType === "STRING" ? (typeof raw === "string" ? raw : null)
+        : resolvedType === "BOOLEAN" ? (typeof raw === "boolean" ? raw : null)
+        : null;
+      if (value === null) {
+        warnings.push(`${label}: value ${JSON.stringify(raw)}${mode ? ` (mode "${mode}")` : ""} is not a valid ${resolvedType ?? "token"} value; skipped`);
+        failed = true;
+        break;
+      }
+      values[mode] = value;
+    }
+    if (failed) continue;
+
+    let collection = collections.get(token.collection);
+    if (!collection) {
+      collection = { name: token.collection, modes: [], variables: [] };
+      collections.set(token.collection, collection);
+    }
+    for (const mode of token.modes) {
+      if (!collection.modes.includes(mode)) collection.modes.push(mode);
+    }
+    collection.variables.push({ name: token.name, resolvedType, description: token.description, values });
+  }
+
+  return { collections: [...collections.values()], warnings };
+}
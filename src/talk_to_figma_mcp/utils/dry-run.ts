@@ -0,0 +1,212 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { sendCommandToFigma } from "./websocket";
+import { filterFigmaNode, rgbaToHex } from "./figma-helpers";
+import { planUndo } from "./journal";
+import { dryRunDefault } from "../config/config";
+
+// Tools that change the document; in dry-run mode they are previewed instead of sent
+export const MUTATING_TOOLS = new Set([
+  // Creation
+  "create_rectangle", "create_frame", "create_text", "create_ellipse", "create_polygon", "create_star",
+  "group_nodes", "ungroup_nodes", "clone_node", "insert_child", "flatten_node", "boolean_operation",
+  "create_component_instance", "create_component_from_node", "create_component_set", "detach_instance",
+  "create_sticky", "create_shape_with_text", "create_connector", "create_section", "set_svg",
+  "create_page", "delete_page", "rename_page", "duplicate_page",
+  "create_text_style", "create_paint_style", "create_effect_style", "set_fill_style_id",
+  "execute_batch", "create_from_spec", "import_html",
+  // Modification
+  "set_fill_color", "set_stroke_color", "set_selection_colors", "move_node", "resize_node", "delete_node",
+  "set_corner_radius", "set_auto_layout", "set_effects", "set_effect_style_id", "rotate_node",
+  "set_node_properties", "reorder_node", "convert_to_frame", "set_gradient", "set_image", "set_grid",
+  "set_guide", "set_annotation", "rename_node", "set_instance_variant", "set_reactions", "set_sticky_text",
+  "set_image_fill", "replace_image_fill", "apply_image_transform", "set_image_filters",
+  "set_text_content", "set_multiple_text_contents", "set_font_name", "set_font_size", "set_font_weight",
+  "set_letter_spacing", "set_line_height", "set_paragraph_spacing", "set_text_case", "set_text_decoration",
+  "set_text_style_id", "set_text_align",
+  "set_variable", "apply_variable_to_node", "switch_variable_mode", "import_design_tokens", "bind_variables_by_value",
+  // History
+  "undo_last_changes", "revert_session",
+]);
+
+// Parameters that identify existing nodes rather than describe the change
+const TARGET_PARAMS = ["nodeId", "parentId", "childId", "pageId"];
+const TARGET_LIST_PARAMS = ["nodeIds", "componentIds"];
+
+export interface DryRunChange {
+  nodeId?: string;
+  property: string;
+  from?: unknown;
+  to: unknown;
+}
+
+export interface DryRunTarget {
+  param: string;
+  id: string;
+  name?: string;
+  type?: string;
+  error?: string;
+}
+
+let dryRunEnabled = dryRunDefault;
+
+/**
+ * Whether mutating tools are currently previewed instead of executed.
+ */
+export function isDryRun(): boolean {
+  return dryRunEnabled;
+}
+
+/**
+ * Turn server-wide dry-run mode on or off.
+ * @param enabled - New dry-run state
+ */
+export function setDryRun(enabled: boolean): void {
+  dryRunEnabled = enabled;
+}
+
+/**
+ * Describe what a tool call would change on its target node.
+ * @param tool - Tool name
+ * @param args - Validated tool arguments
+ * @param node - Target node as returned by filterFigmaNode, if it was resolved
+ * @returns One entry per property the call would change
+ */
+export function describeChanges(tool: string, args: Record<string, any>, node?: any): DryRunChange[] {
+  const nodeId = node?.id ?? args.nodeId;
+  const change = (property: string, from: unknown, to: unknown): DryRunChange => ({ nodeId, property, from, to });
+  const color = () => rgbaToHex({ r: args.r, g: args.g, b: args.b, a: args.a ?? 1 });
+
+  switch (tool) {
+    case "set_fill_color":
+      return [change("fills", node?.fills?.[0]?.color, color())];
+    case "set_stroke_color":
+      return [
+        change("strokes", node?.strokes?.[0]?.color, color()),
+        ...(args.strokeWeight !== undefined ? [change("strokeWeight", node?.strokeWeight, args.strokeWeight)] : []),
+      ];
+    case "set_selection_colors":
+      return [change("fills/strokes (node and descendants)", node?.fills?.[0]?.color, color())];
+    case "move_node":
+      return [change("x", node?.localPosition?.x, args.x), change("y", node?.localPosition?.y, args.y)];
+    case "resize_node":
+      return [
+        change("width", node?.absoluteBoundingBox?.width, args.width),
+        change("height", node?.absoluteBoundingBox?.height, args.height),
+      ];
+    case "rename_node":
+      return [change("name", node?.name, args.name)];
+    case "set_text_content":
+      return [change("characters", node?.characters, args.text)];
+    case "set_corner_radius":
+      return [change("cornerRadius", node?.cornerRadius, args.radius)];
+    case "set_font_size":
+      return [change("fontSize", node?.style?.fontSize, args.fontSize)];
+    case "set_font_name":
+      return [change("fontName", node?.style ? `${node.style.fontFamily} ${node.style.fontStyle}` : undefined, `${args.family} ${args.style ?? "Regular"}`)];
+    case "delete_node":
+      return [change("node", node ? `${node.type} "${node.name}"` : undefined, "(deleted)")];
+  }
+
+  // Generic fallback: every non-target argument, compared with a same-named node field when present
+  return Object.entries(args)
+    .filter(([key, value]) => value !== undefined && !TARGET_PARAMS.includes(key) && !TARGET_LIST_PARAMS.includes(key))
+    .map(([key, value]) => change(key, node && key in node ? node[key] : undefined, value));
+}
+
+/**
+ * Build the dry-run preview for a mutating tool call.
+ * Resolves every referenced node with get_node_info but sends no mutating command.
+ * @param tool - Tool name
+ * @param args - Validated tool arguments
+ * @returns An MCP tool result describing the would-be change
+ */
+export async function previewToolCall(tool: string, args: Record<string, any> = {}) {
+  const targets: DryRunTarget[] = [];
+  const targetIds: Array<{ param: string; id: string }> = [];
+
+  for (const param of TARGET_PARAMS) {
+    if (typeof args[param] === "string") targetIds.push({ param, id: args[param] });
+  }
+  for (const param of TARGET_LIST_PARAMS) {
+    if (Array.isArray(args[param])) args[param].forEach((id: string) => targetIds.push({ param, id }));
+  }
+
+  let primaryNode: any;
+  for (const { param, id } of targetIds) {
+    try {
+      const info = await sendCommandToFigma("get_node_info", { nodeId: id });
+      const node = filterFigmaNode(info, 0) ?? info;
+      targets.push({ param, id, name: node?.name, type: node?.type });
+      if (param === "nodeId" && !primaryNode) primaryNode = node;
+    } catch (error) {
+      targets.push({ param, id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  let summary: string;
+  let changes: DryRunChange[] = [];
+  if (tool === "undo_last_changes" || tool === "revert_session") {
+    // Same selection as the real undo, so skipped entries are listed but not counted
+    const pending = planUndo(tool === "revert_session" ? Infinity : (args.count ?? 1));
+    const skipped = pending.filter((entry) => !entry.reversible);
+    summary = `Would undo ${pending.length - skipped.length} change(s)`;
+    if (skipped.length > 0) summary += ` and skip ${skipped.length} that cannot be undone`;
+    changes = pending.map((entry) => ({
+      nodeId: entry.nodeId,
+      property: entry.command,
+      from: entry.params,
+      to: entry.reversible ? entry.before ?? "(inverse operation)" : `(skipped: ${entry.note ?? "No inverse operation recorded"})`,
+    }));
+  } else {
+    const parent = targets.find((target) => target.param === "parentId");
+    changes = describeChanges(tool, args, primaryNode);
+    summary = parent && !args.nodeId
+      ? `Would run ${tool} under ${parent.type ?? "node"} "${parent.name ?? parent.id}"`
+      : `Would run ${tool}` + (primaryNode ? ` on ${primaryNode.type} "${primaryNode.name}"` : "");
+  }
+
+  const unresolved = targets.filter((target) => target.error);
+  if (unresolved.length > 0) {
+    summary += `. ${unresolved.length} target node(s) could not be resolved, so the real call would fail`;
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `[DRY RUN] ${summary}. Nothing was sent to Figma.`,
+      },
+      {
+        type: "text" as const,
+        text: JSON.stringify({ dryRun: true, tool, targets, changes }, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Wrap an MCP server so mutating tools registered through it are previewed
+ * instead of executed while dry-run mode is on.
+ * @param server - The MCP server instance
+ * @returns A server whose tool() installs the dry-run guard
+ */
+export function withDryRun(server: McpServer): McpServer {
+  const registerTool = server.tool.bind(server) as (...args: any[]) => unknown;
+
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      if (property !== "tool") {
+        return Reflect.get(target, property, receiver);
+      }
+      return (...args: any[]) => {
+        const [name] = args;
+        const handler = args[args.length - 1];
+        if (MUTATING_TOOLS.has(name) && typeof handler === "function") {
+          args[args.length - 1] = (toolArgs: Record<string, any>, extra: unknown) =>
+            isDryRun() ? previewToolCall(name, toolArgs) : handler(toolArgs, extra);
+        }
+        return registerTool(...args);
+      };
+    },
+  });
+}
@@ -0,0 +1,127 @@
+import { onFigmaEvent } from "./websocket";
+import { FigmaEvent } from "../types";
+
+export type FigmaEventType = FigmaEvent["type"];
+
+/** An event as kept in the log; seq increases by one per event and works as a cursor */
+export type RecordedEvent = FigmaEvent & { seq: number; channel: string };
+
+export interface EventQuery {
+  /** Only events recorded after this sequence number */
+  since?: number;
+  /** Only events from the file on this channel */
+  channel?: string;
+  types?: FigmaEventType[];
+  /** Only document changes touching these nodes, or selections including them */
+  nodeIds?: string[];
+  limit?: number;
+}
+
+// Oldest events are dropped once the log grows past this size
+const MAX_RECORDED_EVENTS = 500;
+
+const events: RecordedEvent[] = [];
+const waiters = new Set<(event: RecordedEvent) => void>();
+let lastSeq = 0;
+let listening = false;
+
+/**
+ * Add an event to the log and wake up anyone waiting for it.
+ * @param event - Event pushed by the plugin
+ * @param channel - Channel the event came from
+ */
+export function recordEvent(event: FigmaEvent, channel: string): RecordedEvent {
+  const recorded = { ...event, seq: ++lastSeq, channel } as RecordedEvent;
+  events.push(recorded);
+  if (events.length > MAX_RECORDED_EVENTS) {
+    events.splice(0, events.length - MAX_RECORDED_EVENTS);
+  }
+  waiters.forEach((waiter) => waiter(recorded));
+  return recorded;
+}
+
+/**
+ * Sequence number of the newest recorded event (0 before the first one).
+ */
+export function getLastSeq(): number {
+  return lastSeq;
+}
+
+/**
+ * Start recording the plugin's events. Safe to call more than once.
+ */
+export function startEventLog(): void {
+  if (!listening) {
+    listening = true;
+    onFigmaEvent((event, channel) => {
+      recordEvent(event, channel);
+    });
+  }
+}
+
+function touchesNodes(event: RecordedEvent, nodeIds: string[]): boolean {
+  switch (event.type) {
+    case "documentchange":
+      return nodeIds.some((id) => event.event.nodeIds.includes(id) || event.event.topLevelIds.includes(id));
+    case "selectionchange":
+      return event.event.nodes.some((node) => nodeIds.includes(node.id));
+    case "currentpagechange":
+      return nodeIds.includes(event.event.pageId);
+  }
+}
+
+function matches(event: RecordedEvent, query: EventQuery): boolean {
+  if (query.since !== undefined && event.seq <= query.since) return false;
+  if (query.channel !== undefined && event.channel !== query.channel) return false;
+  if (query.types && !query.types.includes(event.type)) return false;
+  if (query.nodeIds && query.nodeIds.length > 0 && !touchesNodes(event, query.nodeIds)) return false;
+  return true;
+}
+
+/**
+ * Recorded events matching a query, oldest first.
+ * When more match than the limit, the newest ones are returned.
+ * @returns The events, and the sequence number of the newest event in the log
+ */
+export function getRecentEvents(query: EventQuery = {}): { events: RecordedEvent[]; lastSeq: number } {
+  const matching = events.filter((event) => matches(event, query));
+  const limit = query.limit ?? 50;
+  return { events: matching.slice(Math.max(0, matching.length - limit)), lastSeq };
+}
+
+/**
+ * Wait for an event matching the query. An event already in the log after
+ * query.since is returned at once.
+ * @param timeoutMs - How long to wait before giving up
+ * @param accept - Further condition the event must meet
+ * @returns The event, or null on timeout
+ */
+export function waitForEvent(
+  query: EventQuery,
+  timeoutMs: number,
+  accept: (event: RecordedEvent) => boolean = () => true
+): Promise<RecordedEvent | null> {
+  const logged = events.find((event) => matches(event, query) && accept(event));
+  if (logged) return Promise.resolve(logged);
+
+  return new Promise((resolve) => {
+    const waiter = (event: RecordedEvent) => {
+      if (!matches(event, query) || !accept(event)) return;
+      clearTimeout(timeout);
+      waiters.delete(waiter);
+      resolve(event);
+    };
+    const timeout = setTimeout(() => {
+      waiters.delete(waiter);
+      resolve(null);
+    }, timeoutMs);
+    waiters.add(waiter);
+  });
+}
+
+/**
+ * Drop every recorded event.
+ */
+export function clearEventLog(): void {
+  events.length = 0;
+}
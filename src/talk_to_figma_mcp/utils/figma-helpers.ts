@@ -16,6 +16,30 @@ export function rgbaToHex(color: any): string {
   return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}${a === 255 ? '' : a.toString(16).padStart(2, '0')}`;
 }
 
+/**
+ * Convierte un color hexadecimal a formato RGBA.
+ * Acepta #RGB, #RGBA, #RRGGBB y #RRGGBBAA, con o sin almohadilla.
+ * @param hex - El color en formato hexadecimal
+ * @returns El color en formato RGBA con valores entre 0 y 1, o null si no es un hexadecimal válido
+ */
+export function hexToRgba(hex: string): { r: number; g: number; b: number; a: number } | null {
+  let digits = hex.trim().replace(/^#/, '');
+  if (!/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(digits)) {
+    return null;
+  }
+  if (digits.length <= 4) {
+    digits = digits.split('').map(digit => digit + digit).join('');
+  }
+
+  const channel = (index: number) => parseInt(digits.slice(index, index + 2), 16) / 255;
+  return {
+    r: channel(0),
+    g: channel(2),
+    b: channel(4),
+    a: digits.length === 8 ? channel(6) : 1,
+  };
+}
+
 /**
  * Filtra un nodo de Figma para reducir su complejidad y tamaño.
  * Convierte colores a formato hexadecimal y elimina datos innecesarios.
@@ -36,6 +60,11 @@ export function filterFigmaNode(node: any, maxDepth: number = Infinity, currentD
     type: node.type,
   };
 
+  // Canonical "Page/Frame/Layer" path, set by the plugin on the requested node only
+  if (node.path) {
+    filtered.path = node.path;
+  }
+
   if (node.fills && node.fills.length > 0) {
     filtered.fills = node.fills.map((fill: any) => {
       const processedFill = { ...fill };
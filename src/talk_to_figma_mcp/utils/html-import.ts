@@ -0,0 +1,1019 @@
+import { hexToRgba } from "./figma-helpers";
+import { LayoutSpecNode, SpecColor, SpecSizing } from "./layout-spec";
+
+export interface HtmlImportOptions {
+  /** Width of the root frame when the HTML does not set one, like a viewport width (default: 1280) */
+  width?: number;
+  /** Name of the root frame (default: the document title, or the root element's tag) */
+  name?: string;
+  x?: number;
+  y?: number;
+}
+
+export interface HtmlImportResult {
+  spec: LayoutSpecNode;
+  /** Styles and markup the mapping could not represent, each with how often it occurred */
+  warnings: string[];
+}
+
+interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+  parent?: HtmlElement;
+  /** Original markup of elements imported verbatim (inline SVG) */
+  raw?: string;
+}
+
+type HtmlNode = HtmlElement | string;
+
+type Style = Record<string, string>;
+
+interface SelectorPart {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  /** How this part relates to the previous one: descendant (" ") or child (">") */
+  combinator?: " " | ">";
+}
+
+interface CssRule {
+  selector: SelectorPart[];
+  specificity: number;
+  order: number;
+  declarations: Array<[string, string]>;
+}
+
+// How a container lays out its children
+interface Flow {
+  direction: "HORIZONTAL" | "VERTICAL";
+  /** Children fill the counter axis (block flow, or align-items: stretch) */
+  stretch: boolean;
+  /** Normal block flow rather than a flex container */
+  block: boolean;
+}
+
+interface ImportContext {
+  styles: Map<HtmlElement, Style>;
+  declared: Map<HtmlElement, Style>;
+  keys: Set<string>;
+  warn: (message: string) => void;
+}
+
+const VOID_TAGS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr"]);
+const RAW_TEXT_TAGS = new Set(["style", "script", "textarea", "title"]);
+const SKIPPED_TAGS = new Set(["head", "style", "script", "meta", "link", "title", "template", "noscript", "base"]);
+const FORM_TAGS = new Set(["input", "select", "textarea"]);
+const INLINE_TAGS = new Set([
+  "span", "a", "strong", "b", "em", "i", "u", "s", "small", "label", "code", "br", "sup", "sub",
+  "mark", "abbr", "cite", "q", "time", "kbd", "del", "ins",
+]);
+const INLINE_BLOCK_TAGS = new Set(["img", "svg", "button"]);
+const INLINE_DISPLAYS = new Set(["inline", "inline-block", "inline-flex"]);
+
+const INHERITED_PROPERTIES = new Set([
+  "color", "font-size", "font-weight", "font-family", "font-style", "text-align", "text-transform",
+  "line-height", "letter-spacing", "white-space",
+]);
+
+// Properties the mapping reads; anything else an author sets is reported as unsupported
+const HANDLED_PROPERTIES = new Set([
+  "display", "flex-direction", "flex-wrap", "flex-flow", "justify-content", "align-items", "gap", "row-gap",
+  "column-gap", "padding", "padding-top", "padding-right", "padding-bottom", "padding-left", "width", "height",
+  "flex", "flex-grow", "background", "background-color", "border", "border-width", "border-color",
+  "border-style", "border-radius", "opacity", "overflow", "color", "font-size", "font-weight", "font-family",
+  "text-align", "text-transform", "object-fit",
+]);
+
+// Properties with no visual effect on a static canvas
+const SILENT_PROPERTIES = new Set([
+  "flex-shrink", "flex-basis", "box-sizing", "cursor", "transition", "outline", "user-select", "pointer-events",
+  "list-style", "list-style-type", "white-space", "text-rendering", "vertical-align", "z-index", "appearance",
+  "content", "will-change", "text-decoration", "font-display", "scroll-behavior",
+]);
+
+const HEADING_SCALE: Record<string, number> = { h1: 2, h2: 1.5, h3: 1.17, h4: 1, h5: 0.83, h6: 0.67 };
+
+const FONT_SIZE_KEYWORDS: Record<string, number> = {
+  "xx-small": 9, "x-small": 10, small: 13, medium: 16, large: 18, "x-large": 24, "xx-large": 32,
+};
+
+const GENERIC_FONTS = new Set(["inter", "sans-serif", "serif", "monospace", "system-ui", "-apple-system", "blinkmacsystemfont", "ui-sans-serif"]);
+
+const NAMED_COLORS: Record<string, string> = {
+  black: "#000000", white: "#ffffff", red: "#ff0000", green: "#008000", blue: "#0000ff", yellow: "#ffff00",
+  orange: "#ffa500", purple: "#800080", gray: "#808080", grey: "#808080", silver: "#c0c0c0", maroon: "#800000",
+  navy: "#000080", teal: "#008080", olive: "#808000", lime: "#00ff00", aqua: "#00ffff", cyan: "#00ffff",
+  fuchsia: "#ff00ff", magenta: "#ff00ff", pink: "#ffc0cb", brown: "#a52a2a", gold: "#ffd700", indigo: "#4b0082",
+  lightgray: "#d3d3d3", lightgrey: "#d3d3d3", darkgray: "#a9a9a9", darkgrey: "#a9a9a9", whitesmoke: "#f5f5f5",
+  transparent: "#00000000",
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: "\u00a0", copy: "©", reg: "®", hellip: "…",
+  mdash: "—", ndash: "–", middot: "·", bull: "•", rarr: "→", larr: "←", times: "×",
+};
+
+const PLACEHOLDER_COLOR: SpecColor = { r: 0.85, g: 0.85, b: 0.85 };
+
+// ─── HTML parsing ───────────────────────────────────────────────────────────
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g)) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attrs;
+}
+
+// Index just past the </svg> closing the element whose start tag ends at `from`
+function findSvgEnd(lower: string, from: number): number {
+  const tags = /<(\/?)svg\b[^>]*?(\/?)>/g;
+  tags.lastIndex = from;
+  let depth = 1;
+  for (let match = tags.exec(lower); match; match = tags.exec(lower)) {
+    if (match[1]) depth--;
+    else if (!match[2]) depth++;
+    if (depth === 0) return tags.lastIndex;
+  }
+  return lower.length;
+}
+
+/**
+ * Parse HTML into an element tree. Forgiving like a browser: unknown closing tags are
+ * ignored, unclosed elements end with their parent and a block start closes an open <p>.
+ */
+function parseHtml(html: string): HtmlElement {
+  const document: HtmlElement = { tag: "#document", attrs: {}, children: [] };
+  const stack = [document];
+  const lower = html.toLowerCase();
+  const openTag = /<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/y;
+  const closeTag = /<\/([a-zA-Z][\w:-]*)[^>]*>/y;
+
+  const current = () => stack[stack.length - 1];
+  const append = (node: HtmlNode) => {
+    if (typeof node !== "string") node.parent = current();
+    current().children.push(node);
+  };
+
+  let index = 0;
+  while (index < html.length) {
+    const lt = html.indexOf("<", index);
+    if (lt === -1) {
+      append(decodeEntities(html.slice(index)));
+      break;
+    }
+    if (lt > index) append(decodeEntities(html.slice(index, lt)));
+    index = lt;
+
+    if (html.startsWith("<!--", index)) {
+      const end = html.indexOf("-->", index + 4);
+      index = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html.startsWith("<!", index) || html.startsWith("<?", index)) {
+      const end = html.indexOf(">", index);
+      index = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    closeTag.lastIndex = index;
+    const close = closeTag.exec(html);
+    if (close) {
+      const tag = close[1].toLowerCase();
+      for (let depth = stack.length - 1; depth > 0; depth--) {
+        if (stack[depth].tag === tag) {
+          stack.length = depth;
+          break;
+        }
+      }
+      index = closeTag.lastIndex;
+      continue;
+    }
+
+    openTag.lastIndex = index;
+    const open = openTag.exec(html);
+    if (!open) {
+      append("<");
+      index++;
+      continue;
+    }
+    index = openTag.lastIndex;
+    const tag = open[1].toLowerCase();
+    const attrs = parseAttributes(open[2]);
+
+    if (tag === "svg") {
+      const end = open[3] ? index : findSvgEnd(lower, index);
+      append({ tag, attrs, children: [], raw: html.slice(lt, end) });
+      index = end;
+      continue;
+    }
+
+    if ((current().tag === "p" && !INLINE_TAGS.has(tag) && !INLINE_BLOCK_TAGS.has(tag)) || (tag === "li" && current().tag === "li")) {
+      stack.pop();
+    }
+    const element: HtmlElement = { tag, attrs, children: [] };
+    append(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const end = lower.indexOf(`</${tag}`, index);
+      element.children.push(html.slice(index, end === -1 ? html.length : end));
+      index = end === -1 ? html.length : html.indexOf(">", end) + 1;
+      continue;
+    }
+    if (!VOID_TAGS.has(tag) && !open[3]) stack.push(element);
+  }
+
+  return document;
+}
+
+function walk(element: HtmlElement, visit: (element: HtmlElement) => void): void {
+  visit(element);
+  for (const child of element.children) {
+    if (typeof child !== "string") walk(child, visit);
+  }
+}
+
+function findElement(root: HtmlElement, tag: string): HtmlElement | undefined {
+  let found: HtmlElement | undefined;
+  walk(root, (element) => {
+    if (!found && element.tag === tag) found = element;
+  });
+  return found;
+}
+
+function textContent(element: HtmlElement): string {
+  return element.children.map((child) => typeof child === "string" ? child : textContent(child)).join("");
+}
+
+// ─── CSS parsing and cascade ────────────────────────────────────────────────
+
+function splitOutsideParens(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = "";
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = "";
+    } else if (char === "\"" || char === "'") {
+      quote = char;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth = Math.max(0, depth - 1);
+    } else if (char === separator && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+function parseDeclarations(text: string): Array<[string, string]> {
+  const declarations: Array<[string, string]> = [];
+  for (const part of splitOutsideParens(text, ";")) {
+    const colon = part.indexOf(":");
+    if (colon === -1) continue;
+    const property = part.slice(0, colon).trim().toLowerCase();
+    const value = part.slice(colon + 1).replace(/!important\s*$/i, "").trim();
+    if (property && value) declarations.push([property, value]);
+  }
+  return declarations;
+}
+
+/**
+ * Parse a selector made of tag, #id and .class compounds joined by descendant or child
+ * combinators, or :root. Returns undefined for anything else (pseudo-classes, attributes, siblings).
+ */
+function parseSelector(text: string): SelectorPart[] | undefined {
+  // :root holds custom properties; matching the document lets fragments without <html> inherit them
+  if (text === ":root") return [{ tag: "#document", classes: [] }];
+  if (!text || /[:\[+~]/.test(text)) return undefined;
+  const tokens = text.replace(/\s*>\s*/g, " > ").trim().split(/\s+/);
+  const parts: SelectorPart[] = [];
+  let combinator: " " | ">" | undefined;
+  for (const token of tokens) {
+    if (token === ">") {
+      if (parts.length === 0 || combinator === ">") return undefined;
+      combinator = ">";
+      continue;
+    }
+    const match = /^([a-z][\w-]*|\*)?((?:[#.][\w-]+)*)$/i.exec(token);
+    if (!match || (!match[1] && !match[2])) return undefined;
+    const part: SelectorPart = { classes: [] };
+    if (match[1] && match[1] !== "*") part.tag = match[1].toLowerCase();
+    for (const simple of match[2].match(/[#.][\w-]+/g) ?? []) {
+      if (simple[0] === "#") part.id = simple.slice(1);
+      else part.classes.push(simple.slice(1));
+    }
+    if (parts.length > 0) part.combinator = combinator ?? " ";
+    parts.push(part);
+    combinator = undefined;
+  }
+  return combinator ? undefined : parts;
+}
+
+function specificity(selector: SelectorPart[]): number {
+  return selector.reduce((total, part) => total + (part.id ? 100 : 0) + part.classes.length * 10 + (part.tag ? 1 : 0), 0);
+}
+
+function matchingBrace(source: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < source.length; i++) {
+    if (source[i] === "{") depth++;
+    else if (source[i] === "}" && --depth === 0) return i;
+  }
+  return source.length;
+}
+
+function parseStylesheet(css: string, rules: CssRule[], warn: (message: string) => void): void {
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, "");
+  let index = 0;
+  while (index < source.length) {
+    while (index < source.length && /\s/.test(source[index])) index++;
+    if (index >= source.length) break;
+
+    const open = source.indexOf("{", index);
+    if (source[index] === "@") {
+      const name = /^@([\w-]+)/.exec(source.slice(index))?.[1] ?? "";
+      const semicolon = source.indexOf(";", index);
+      warn(`CSS @${name} rules are ignored`);
+      if (semicolon !== -1 && (open === -1 || semicolon < open)) {
+        index = semicolon + 1;
+      } else {
+        index = open === -1 ? source.length : matchingBrace(source, open) + 1;
+      }
+      continue;
+    }
+    if (open === -1) break;
+
+    const close = matchingBrace(source, open);
+    const declarations = parseDeclarations(source.slice(open + 1, close));
+    for (const selectorText of source.slice(index, open).split(",").map((text) => text.trim())) {
+      const selector = parseSelector(selectorText);
+      if (!selector) {
+        warn(`CSS selector "${selectorText}" is not supported`);
+        continue;
+      }
+      rules.push({ selector, specificity: specificity(selector), order: rules.length, declarations });
+    }
+    index = close + 1;
+  }
+}
+
+function matchesPart(element: HtmlElement, part: SelectorPart): boolean {
+  if (part.tag && element.tag !== part.tag) return false;
+  if (part.id && element.attrs.id !== part.id) return false;
+  const classes = (element.attrs.class ?? "").split(/\s+/);
+  return part.classes.every((name) => classes.includes(name));
+}
+
+function matchesSelector(element: HtmlElement, selector: SelectorPart[], index = selector.length - 1): boolean {
+  if (!matchesPart(element, selector[index])) return false;
+  if (index === 0) return true;
+  let ancestor = element.parent;
+  while (ancestor && ancestor.tag !== "#document") {
+    if (matchesSelector(ancestor, selector, index - 1)) return true;
+    if (selector[index].combinator === ">") return false;
+    ancestor = ancestor.parent;
+  }
+  return false;
+}
+
+function defaultStyle(tag: string): Style {
+  if (tag in HEADING_SCALE) return { "font-size": `${HEADING_SCALE[tag]}em`, "font-weight": "bold" };
+  if (tag === "strong" || tag === "b" || tag === "th") return { "font-weight": "bold" };
+  if (tag === "em" || tag === "i") return { "font-style": "italic" };
+  return {};
+}
+
+function resolveFontSize(value: string, parentSize: number): number {
+  const keyword = FONT_SIZE_KEYWORDS[value];
+  if (keyword) return keyword;
+  if (value.endsWith("%")) return parentSize * parseFloat(value) / 100;
+  return parseLength(value, parentSize) ?? parentSize;
+}
+
+function resolveVariables(value: string, style: Style): string {
+  let resolved = value;
+  // Bounded so that variables referring to each other cannot loop forever
+  for (let pass = 0; pass < 10 && resolved.includes("var("); pass++) {
+    resolved = resolved.replace(/var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*(?:\([^()]*\))?[^()]*))?\)/g,
+      (_match, name: string, fallback?: string) => style[name] ?? fallback?.trim() ?? "");
+  }
+  return resolved;
+}
+
+/**
+ * Compute the cascaded style of every element: user-agent defaults, then stylesheet rules by
+ * specificity and source order, then the style attribute. Inherited properties and custom
+ * properties flow down from the parent; font sizes are resolved to pixels.
+ */
+function computeStyles(document: HtmlElement, rules: CssRule[]): { styles: Map<HtmlElement, Style>; declared: Map<HtmlElement, Style> } {
+  const styles = new Map<HtmlElement, Style>();
+  const declared = new Map<HtmlElement, Style>();
+  const sorted = [...rules].sort((a, b) => a.specificity - b.specificity || a.order - b.order);
+
+  const visit = (element: HtmlElement, parentStyle: Style) => {
+    const own: Style = {};
+    for (const rule of sorted) {
+      if (matchesSelector(element, rule.selector)) {
+        for (const [property, value] of rule.declarations) own[property] = value;
+      }
+    }
+    for (const [property, value] of parseDeclarations(element.attrs.style ?? "")) own[property] = value;
+
+    const style: Style = {};
+    for (const [property, value] of Object.entries(parentStyle)) {
+      if (INHERITED_PROPERTIES.has(property) || property.startsWith("--")) style[property] = value;
+    }
+    Object.assign(style, defaultStyle(element.tag), own);
+    for (const [property, value] of Object.entries(style)) {
+      if (value.includes("var(")) style[property] = resolveVariables(value, style);
+    }
+    style["font-size"] = `${resolveFontSize(style["font-size"], parseFloat(parentStyle["font-size"]))}px`;
+
+    styles.set(element, style);
+    declared.set(element, own);
+    for (const child of element.children) {
+      if (typeof child !== "string") visit(child, style);
+    }
+  };
+
+  visit(document, { "font-size": "16px", "font-weight": "400", color: "#000000" });
+  return { styles, declared };
+}
+
+// ─── Value parsing ──────────────────────────────────────────────────────────
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function parseLength(value: string | undefined, fontSize: number): number | undefined {
+  const match = /^(-?\d*\.?\d+)(px|rem|em|pt)?$/.exec((value ?? "").trim());
+  if (!match) return undefined;
+  const number = parseFloat(match[1]);
+  switch (match[2]) {
+    case "rem":
+      return number * 16;
+    case "em":
+      return number * fontSize;
+    case "pt":
+      return number * 4 / 3;
+    default:
+      return number;
+  }
+}
+
+function parseChannel(value: string, scale: number): number {
+  return value.endsWith("%") ? parseFloat(value) / 100 : parseFloat(value) / scale;
+}
+
+/**
+ * Parse a CSS color into an RGBA color with 0-1 channels.
+ * Supports hex, rgb()/rgba() and common named colors.
+ */
+function parseColor(value: string, currentColor?: string): SpecColor | undefined {
+  const text = value.trim().toLowerCase();
+  if (text === "currentcolor") return currentColor ? parseColor(currentColor) : undefined;
+
+  let color: SpecColor | null | undefined;
+  if (text.startsWith("#")) {
+    color = hexToRgba(text);
+  } else if (text in NAMED_COLORS) {
+    color = hexToRgba(NAMED_COLORS[text]);
+  } else {
+    const match = /^rgba?\(\s*([\d.]+%?)[\s,]+([\d.]+%?)[\s,]+([\d.]+%?)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/.exec(text);
+    if (match) {
+      color = {
+        r: parseChannel(match[1], 255),
+        g: parseChannel(match[2], 255),
+        b: parseChannel(match[3], 255),
+        a: match[4] ? parseChannel(match[4], 1) : 1,
+      };
+    }
+  }
+  if (!color) return undefined;
+  return { r: round(color.r, 4), g: round(color.g, 4), b: round(color.b, 4), a: round(color.a ?? 1, 4) };
+}
+
+function boxValues(value: string | undefined, fontSize: number): [number, number, number, number] | undefined {
+  if (!value) return undefined;
+  const values = value.trim().split(/\s+/).map((part) => parseLength(part, fontSize) ?? 0);
+  if (values.length === 0) return undefined;
+  const [top, right = top, bottom = top, left = right] = values;
+  return [top, right, bottom, left];
+}
+
+function fontWeight(value: string | undefined): number {
+  if (value === "bold" || value === "bolder") return 700;
+  if (value === "lighter") return 300;
+  const numeric = parseInt(value ?? "", 10);
+  return Number.isFinite(numeric) ? Math.min(900, Math.max(100, Math.round(numeric / 100) * 100)) : 400;
+}
+
+function flexGrow(style: Style): number {
+  if (style["flex-grow"]) return parseFloat(style["flex-grow"]) || 0;
+  const flex = style.flex?.trim();
+  if (!flex || flex === "none") return 0;
+  if (flex === "auto") return 1;
+  return parseFloat(flex.split(/\s+/)[0]) || 0;
+}
+
+// ─── Mapping to a layout spec ───────────────────────────────────────────────
+
+function createWarningLog() {
+  const counts = new Map<string, number>();
+  return {
+    warn: (message: string) => counts.set(message, (counts.get(message) ?? 0) + 1),
+    list: () => [...counts].map(([message, count]) => count > 1 ? `${message} (${count} times)` : message),
+  };
+}
+
+function label(element: HtmlElement): string {
+  if (element.attrs.id) return `${element.tag}#${element.attrs.id}`;
+  const className = (element.attrs.class ?? "").trim().split(/\s+/)[0];
+  return className ? `${element.tag}.${className}` : element.tag;
+}
+
+function display(element: HtmlElement, style: Style): string {
+  if (style.display) return style.display;
+  if (INLINE_TAGS.has(element.tag)) return "inline";
+  return INLINE_BLOCK_TAGS.has(element.tag) ? "inline-block" : "block";
+}
+
+function fontSizeOf(style: Style): number {
+  return parseFloat(style["font-size"]);
+}
+
+// Whether an element draws a box of its own, so it cannot be folded into a text node
+function hasBox(style: Style): boolean {
+  const background = style["background-color"] ?? style.background;
+  return (!!background && parseColor(background)?.a !== 0) ||
+    Object.keys(style).some((property) => /^(border|padding|width$|height$|box-shadow)/.test(property));
+}
+
+function isInline(node: HtmlNode, ctx: ImportContext): boolean {
+  if (typeof node === "string" || node.tag === "br") return true;
+  const style = ctx.styles.get(node)!;
+  if (SKIPPED_TAGS.has(node.tag) || style.display === "none") return true;
+  return display(node, style) === "inline" && !hasBox(style) && node.children.every((child) => isInline(child, ctx));
+}
+
+function checkDeclarations(element: HtmlElement, ctx: ImportContext): void {
+  for (const [property, value] of Object.entries(ctx.declared.get(element) ?? {})) {
+    if (property.startsWith("margin")) {
+      if (value.split(/\s+/).some((part) => !/^(0|0px|auto)$/.test(part))) {
+        ctx.warn("margin is not supported; spacing comes from the parent's gap and padding");
+      }
+    } else if (property === "position") {
+      if (!/^(static|relative)$/.test(value)) ctx.warn(`position: ${value} elements are laid out in flow`);
+    } else if (property === "font-style") {
+      if (value !== "normal") ctx.warn("italic text is set upright");
+    } else if (!HANDLED_PROPERTIES.has(property) && !SILENT_PROPERTIES.has(property) && !property.startsWith("-")) {
+      ctx.warn(`"${property}" is not supported`);
+    }
+  }
+}
+
+function assignKey(node: LayoutSpecNode, element: HtmlElement, ctx: ImportContext): void {
+  const id = element.attrs.id;
+  if (!id) return;
+  if (ctx.keys.has(id)) {
+    ctx.warn(`duplicate id "${id}"; only the first element is keyed`);
+    return;
+  }
+  ctx.keys.add(id);
+  node.key = id;
+}
+
+/**
+ * Size a node inside its parent's flow the way CSS would: explicit lengths are fixed,
+ * 100% and flex-grow fill, stretched or block-level children fill the counter axis and
+ * frames otherwise hug their content.
+ */
+function applySizing(
+  node: LayoutSpecNode,
+  element: HtmlElement | undefined,
+  style: Style,
+  flow: Flow | undefined,
+  kind: "frame" | "text" | "fixed",
+  ctx: ImportContext
+): void {
+  const axis = (property: "width" | "height"): SpecSizing | undefined => {
+    const value = element ? ctx.declared.get(element)?.[property] : undefined;
+    if (!value || value === "auto") return undefined;
+    if (value.endsWith("%")) {
+      if (!flow) return undefined;
+      if (value !== "100%") ctx.warn(`percentage ${property}s other than 100% are approximated as fill`);
+      return "FILL";
+    }
+    const pixels = parseLength(value, fontSizeOf(style));
+    if (pixels === undefined) {
+      ctx.warn(`${property} "${value}" is not supported`);
+      return undefined;
+    }
+    node[property] = round(pixels);
+    return "FIXED";
+  };
+
+  let horizontal = axis("width");
+  let vertical = axis("height");
+  if (flow) {
+    if (flexGrow(style) > 0 && !flow.block) {
+      if (flow.direction === "HORIZONTAL") horizontal ??= "FILL";
+      else vertical ??= "FILL";
+    }
+    const inlineLevel = flow.block && !!element && INLINE_DISPLAYS.has(display(element, style));
+    if (flow.stretch && !inlineLevel && !(kind === "text" && flow.direction === "HORIZONTAL")) {
+      if (flow.direction === "VERTICAL") horizontal ??= "FILL";
+      else vertical ??= "FILL";
+    }
+  }
+  if (kind === "frame") {
+    horizontal ??= "HUG";
+    vertical ??= "HUG";
+  }
+  if (kind === "text") {
+    node.textAutoResize = horizontal ? "HEIGHT" : "WIDTH_AND_HEIGHT";
+  }
+  if (horizontal) node.layoutSizingHorizontal = horizontal;
+  if (vertical) node.layoutSizingVertical = vertical;
+}
+
+function textNode(nodes: HtmlNode[], style: Style, ctx: ImportContext): LayoutSpecNode | undefined {
+  let text = "";
+  let mixed = false;
+  const differs = (other: Style) =>
+    ["color", "font-size", "font-weight", "font-style"].some((property) => other[property] !== style[property]);
+
+  const visit = (node: HtmlNode) => {
+    if (typeof node === "string") {
+      text += node.replace(/[ \t\n\r\f]+/g, " ");
+    } else if (node.tag === "br") {
+      text += "\n";
+    } else {
+      const nodeStyle = ctx.styles.get(node)!;
+      if (SKIPPED_TAGS.has(node.tag) || nodeStyle.display === "none") return;
+      checkDeclarations(node, ctx);
+      if (differs(nodeStyle)) mixed = true;
+      node.children.forEach(visit);
+    }
+  };
+  nodes.forEach(visit);
+
+  text = text.replace(/ *\n */g, "\n").trim();
+  if (!text) return undefined;
+  if (mixed) ctx.warn("mixed text styles within a paragraph are flattened to the paragraph's style");
+
+  switch (style["text-transform"]) {
+    case "uppercase":
+      text = text.toUpperCase();
+      break;
+    case "lowercase":
+      text = text.toLowerCase();
+      break;
+    case "capitalize":
+      text = text.replace(/\b\w/g, (char) => char.toUpperCase());
+      break;
+  }
+
+  const node: LayoutSpecNode = {
+    type: "text",
+    text,
+    fontSize: round(fontSizeOf(style)),
+    fontWeight: fontWeight(style["font-weight"]),
+  };
+  const color = parseColor(style.color);
+  if (color) node.fontColor = color;
+  else ctx.warn(`color "${style.color}" is not supported`);
+
+  const align = TEXT_ALIGN[style["text-align"] ?? ""];
+  if (align) node.textAlignHorizontal = align;
+
+  const family = (style["font-family"] ?? "").split(",")[0].trim().replace(/^["']|["']$/g, "");
+  if (family && !GENERIC_FONTS.has(family.toLowerCase())) ctx.warn(`font "${family}" is replaced with Inter`);
+  if (style["font-style"] && style["font-style"] !== "normal") ctx.warn("italic text is set upright");
+
+  return node;
+}
+
+function applyBox(node: LayoutSpecNode, style: Style, ctx: ImportContext): void {
+  const fontSize = fontSizeOf(style);
+
+  const background = style["background-color"] ?? style.background;
+  if (background) {
+    const color = parseColor(background, style.color);
+    if (color) {
+      if (color.a !== 0) node.fillColor = color;
+    } else if (/url\(|gradient\(/.test(background)) {
+      ctx.warn("background images and gradients are not supported");
+    } else {
+      ctx.warn(`background "${background}" is not supported`);
+    }
+  }
+
+  let borderWidth: number | undefined;
+  let borderColor: SpecColor | undefined;
+  let borderStyle: string | undefined;
+  for (const token of (style.border ?? "").split(/\s+/).filter(Boolean)) {
+    const length = parseLength(token, fontSize);
+    if (length !== undefined) borderWidth = length;
+    else if (/^(none|hidden|solid|dashed|dotted|double|groove|ridge|inset|outset)$/.test(token)) borderStyle = token;
+    else borderColor = parseColor(token, style.color) ?? borderColor;
+  }
+  if (style["border-width"]) borderWidth = parseLength(style["border-width"].split(/\s+/)[0], fontSize);
+  if (style["border-color"]) borderColor = parseColor(style["border-color"].split(/\s+/)[0], style.color);
+  if (style["border-style"]) borderStyle = style["border-style"].split(/\s+/)[0];
+  if (borderStyle && borderStyle !== "none" && borderStyle !== "hidden" && borderWidth !== 0) {
+    node.strokeWeight = borderWidth ?? 3;
+    node.strokeColor = borderColor ?? parseColor(style.color) ?? { r: 0, g: 0, b: 0, a: 1 };
+    if (borderStyle !== "solid") ctx.warn(`${borderStyle} borders are drawn solid`);
+  }
+
+  const radius = style["border-radius"];
+  if (radius) {
+    const values = radius.split(/\s+/);
+    if (new Set(values).size > 1) ctx.warn("per-corner border-radius uses the first radius");
+    if (values[0].endsWith("%")) {
+      if (node.width !== undefined && node.height !== undefined) {
+        node.cornerRadius = round(Math.min(node.width, node.height) * Math.min(parseFloat(values[0]), 50) / 100);
+      } else {
+        ctx.warn("percentage border-radius needs a fixed width and height");
+      }
+    } else {
+      const pixels = parseLength(values[0], fontSize);
+      if (pixels !== undefined) node.cornerRadius = round(pixels);
+    }
+  }
+
+  if (style.opacity !== undefined) {
+    const opacity = parseFloat(style.opacity);
+    if (Number.isFinite(opacity)) node.opacity = Math.min(1, Math.max(0, opacity));
+  }
+}
+
+const JUSTIFY: Record<string, LayoutSpecNode["primaryAxisAlignItems"]> = {
+  "flex-start": "MIN", start: "MIN", normal: "MIN", left: "MIN", center: "CENTER", "flex-end": "MAX", end: "MAX",
+  right: "MAX", "space-between": "SPACE_BETWEEN", "space-around": "SPACE_BETWEEN", "space-evenly": "SPACE_BETWEEN",
+};
+
+const TEXT_ALIGN: Record<string, LayoutSpecNode["textAlignHorizontal"]> = {
+  left: "LEFT", start: "LEFT", center: "CENTER", right: "RIGHT", end: "RIGHT", justify: "JUSTIFIED",
+};
+
+const ALIGN: Record<string, LayoutSpecNode["counterAxisAlignItems"]> = {
+  "flex-start": "MIN", start: "MIN", center: "CENTER", "flex-end": "MAX", end: "MAX", baseline: "BASELINE",
+};
+
+/**
+ * Map a container's display to auto layout. Flex containers keep their direction, gap and
+ * alignment; block flow becomes a vertical stack whose block children fill its width.
+ */
+function applyLayout(node: LayoutSpecNode, element: HtmlElement, style: Style, ctx: ImportContext): Flow {
+  const fontSize = fontSizeOf(style);
+  const mode = display(element, style);
+
+  const padding = boxValues(style.padding, fontSize) ?? [0, 0, 0, 0];
+  (["top", "right", "bottom", "left"] as const).forEach((side, index) => {
+    const value = parseLength(style[`padding-${side}`], fontSize) ?? padding[index];
+    if (value) node[`padding${side[0].toUpperCase()}${side.slice(1)}` as "paddingTop"] = round(value);
+  });
+
+  if (mode !== "flex" && mode !== "inline-flex") {
+    if (/grid|table/.test(mode)) ctx.warn(`display: ${mode} is laid out as a vertical stack`);
+    node.layoutMode = "VERTICAL";
+    return { direction: "VERTICAL", stretch: true, block: true };
+  }
+
+  const flowTokens = (style["flex-flow"] ?? "").split(/\s+/);
+  const direction = style["flex-direction"] ?? flowTokens.find((token) => token.startsWith("row") || token.startsWith("column")) ?? "row";
+  const wrap = style["flex-wrap"] ?? flowTokens.find((token) => token.includes("wrap")) ?? "nowrap";
+  if (direction.endsWith("-reverse")) ctx.warn("reversed flex directions are laid out in source order");
+  node.layoutMode = direction.startsWith("column") ? "VERTICAL" : "HORIZONTAL";
+
+  const [rowGap, columnGap = rowGap] = (style.gap ?? "").split(/\s+/).filter(Boolean);
+  const gap = node.layoutMode === "HORIZONTAL" ? style["column-gap"] ?? columnGap : style["row-gap"] ?? rowGap;
+  const spacing = parseLength(gap, fontSize);
+  if (spacing) node.itemSpacing = round(spacing);
+
+  const justify = style["justify-content"];
+  if (justify) {
+    if (justify.startsWith("space-a") || justify.startsWith("space-e")) ctx.warn(`justify-content: ${justify} is approximated as space-between`);
+    if (JUSTIFY[justify]) node.primaryAxisAlignItems = JUSTIFY[justify];
+    else ctx.warn(`justify-content: ${justify} is not supported`);
+  }
+
+  const align = style["align-items"] ?? "stretch";
+  const stretch = align === "stretch" || align === "normal";
+  if (!stretch) {
+    if (ALIGN[align] && !(align === "baseline" && node.layoutMode === "VERTICAL")) node.counterAxisAlignItems = ALIGN[align];
+    else ctx.warn(`align-items: ${align} is not supported`);
+  }
+
+  if (wrap.startsWith("wrap")) {
+    if (node.layoutMode === "HORIZONTAL") node.layoutWrap = "WRAP";
+    else ctx.warn("wrapping column flex containers is not supported");
+  }
+
+  return { direction: node.layoutMode, stretch, block: false };
+}
+
+function convertChildren(element: HtmlElement, style: Style, flow: Flow, ctx: ImportContext): LayoutSpecNode[] {
+  const children: LayoutSpecNode[] = [];
+  const pushText = (nodes: HtmlNode[]) => {
+    const text = textNode(nodes, style, ctx);
+    if (text) {
+      applySizing(text, undefined, style, flow, "text", ctx);
+      children.push(text);
+    }
+  };
+
+  // In block flow, runs of inline content form one paragraph; in a flex container every
+  // child, including a bare run of text, is its own item
+  let run: HtmlNode[] = [];
+  for (const child of element.children) {
+    if (flow.block && isInline(child, ctx)) {
+      run.push(child);
+      continue;
+    }
+    if (run.length > 0) pushText(run);
+    run = [];
+    if (typeof child === "string") {
+      pushText([child]);
+    } else {
+      const node = convertElement(child, flow, ctx);
+      if (node) children.push(node);
+    }
+  }
+  if (run.length > 0) pushText(run);
+  return children;
+}
+
+function imageSize(base64: string): { width: number; height: number } | undefined {
+  const bytes = Buffer.from(base64.slice(0, 64), "base64");
+  if (bytes.length >= 24 && bytes.toString("ascii", 1, 4) === "PNG") {
+    return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+  }
+  if (bytes.length >= 10 && bytes.toString("ascii", 0, 3) === "GIF") {
+    return { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) };
+  }
+  return undefined;
+}
+
+function convertImage(element: HtmlElement, style: Style, flow: Flow | undefined, ctx: ImportContext): LayoutSpecNode {
+  const fontSize = fontSizeOf(style);
+  const source = element.attrs.src ?? "";
+  const data = /^data:([^;,]+)((?:;[^;,]*)*),([\s\S]*)$/.exec(source.trim());
+  const mime = data?.[1].toLowerCase();
+  const base64 = !!data && /;base64/i.test(data[2]);
+
+  let node: LayoutSpecNode;
+  if (data && mime === "image/svg+xml") {
+    const svg = base64 ? Buffer.from(data[3], "base64").toString("utf8") : decodeURIComponent(data[3]);
+    node = { type: "svg", svg };
+  } else if (data && base64 && mime?.startsWith("image/")) {
+    const imageData = data[3].replace(/\s+/g, "");
+    node = { type: "image", imageData, scaleMode: style["object-fit"] === "contain" ? "FIT" : "FILL" };
+  } else {
+    ctx.warn("only data URI images are imported; other images become placeholders");
+    node = { type: "rectangle", fillColor: PLACEHOLDER_COLOR };
+  }
+  node.name = element.attrs.alt || label(element);
+  assignKey(node, element, ctx);
+
+  const intrinsic = node.imageData ? imageSize(node.imageData) : undefined;
+  let width = parseLength(element.attrs.width, fontSize);
+  let height = parseLength(element.attrs.height, fontSize);
+  if (intrinsic) {
+    if (width === undefined && height === undefined) {
+      width = intrinsic.width;
+      height = intrinsic.height;
+    } else if (width === undefined) {
+      width = height! * intrinsic.width / intrinsic.height;
+    } else if (height === undefined) {
+      height = width * intrinsic.height / intrinsic.width;
+    }
+  }
+  if (node.type !== "svg" && (width === undefined || height === undefined)) {
+    ctx.warn("images without a known size default to 100×100");
+  }
+  if (width !== undefined) node.width = round(width);
+  if (height !== undefined && node.type !== "svg") node.height = round(height);
+  if (node.type !== "svg" && node.width === undefined) node.width = node.height ?? 100;
+  if (node.type !== "svg" && node.height === undefined) node.height = node.width ?? 100;
+
+  applyBox(node, { ...style, "background-color": "transparent" }, ctx);
+  applySizing(node, element, style, flow, "fixed", ctx);
+  return node;
+}
+
+function convertElement(element: HtmlElement, flow: Flow | undefined, ctx: ImportContext): LayoutSpecNode | undefined {
+  const style = ctx.styles.get(element)!;
+  if (SKIPPED_TAGS.has(element.tag) || style.display === "none") return undefined;
+  if (FORM_TAGS.has(element.tag)) {
+    ctx.warn(`<${element.tag}> form controls are not imported`);
+    return undefined;
+  }
+  checkDeclarations(element, ctx);
+
+  if (element.tag === "img") return convertImage(element, style, flow, ctx);
+
+  if (element.tag === "svg") {
+    const node: LayoutSpecNode = { type: "svg", name: label(element), svg: element.raw ?? "" };
+    assignKey(node, element, ctx);
+    applySizing(node, element, style, flow, "fixed", ctx);
+    return node;
+  }
+
+  if (element.tag === "hr") {
+    const node: LayoutSpecNode = { type: "rectangle", name: "hr", height: 1, fillColor: PLACEHOLDER_COLOR };
+    applySizing(node, element, style, flow, "fixed", ctx);
+    return node;
+  }
+
+  // Elements holding nothing but text become text nodes unless they draw a box or lay out flex items
+  const flex = /flex/.test(display(element, style));
+  if (!flex && !hasBox(style) && element.children.every((child) => isInline(child, ctx))) {
+    const text = textNode(element.children, style, ctx);
+    if (!text) return undefined;
+    assignKey(text, element, ctx);
+    applySizing(text, element, style, flow, "text", ctx);
+    return text;
+  }
+
+  const node: LayoutSpecNode = { name: label(element) };
+  assignKey(node, element, ctx);
+  const childFlow = applyLayout(node, element, style, ctx);
+  applySizing(node, element, style, flow, "frame", ctx);
+  applyBox(node, style, ctx);
+  node.clipsContent = style.overflow === "hidden" || style.overflow === "clip";
+
+  const children = convertChildren(element, style, childFlow, ctx);
+  if (children.length > 0) node.children = children;
+  return node;
+}
+
+/**
+ * Convert an HTML document or fragment, with its <style> blocks and style attributes, into
+ * a layout spec for create_from_spec. Flexbox maps to auto layout, block flow to vertical
+ * stacks, data URI images and inline SVGs to image and svg nodes, and elements with an id
+ * get that id as their spec key.
+ * @param html - The markup to convert
+ * @param options - Root frame width, name and position
+ */
+export function htmlToLayoutSpec(html: string, options: HtmlImportOptions = {}): HtmlImportResult {
+  const log = createWarningLog();
+  const document = parseHtml(html);
+
+  const rules: CssRule[] = [];
+  walk(document, (element) => {
+    if (element.tag === "style") parseStylesheet(textContent(element), rules, log.warn);
+  });
+  const { styles, declared } = computeStyles(document, rules);
+  const ctx: ImportContext = { styles, declared, keys: new Set(), warn: log.warn };
+
+  // A full document renders its body; a fragment with one element renders that element
+  let root = findElement(document, "body");
+  if (!root) {
+    const content = document.children.filter((child) =>
+      typeof child === "string" ? child.trim() !== "" : !SKIPPED_TAGS.has(child.tag) && child.tag !== "html");
+    const html = findElement(document, "html");
+    root = content.length === 1 && typeof content[0] !== "string" ? content[0] : html ?? document;
+  }
+
+  const spec = convertElement(root, undefined, ctx);
+  if (!spec) {
+    throw new Error("The HTML has no visible content");
+  }
+
+  const title = findElement(document, "title");
+  const documentName = title ? textContent(title).trim() : "";
+  const isDocument = root.tag === "body" || root.tag === "html" || root.tag === "#document";
+  if (options.name) spec.name = options.name;
+  else if (isDocument) spec.name = documentName || "HTML import";
+
+  if (spec.type === undefined && spec.layoutSizingHorizontal !== "FIXED") {
+    spec.width = options.width ?? 1280;
+    spec.layoutSizingHorizontal = "FIXED";
+  }
+  if (options.x !== undefined) spec.x = options.x;
+  if (options.y !== undefined) spec.y = options.y;
+
+  return { spec, warnings: log.list() };
+}
@@ -0,0 +1,277 @@
+import { logger } from "./logger";
+import { FigmaCommand } from "../types";
+
+/**
+ * Function used by the journal to talk to Figma.
+ * Passed in by the caller so this module never sends journaled commands itself.
+ */
+export type CommandSender = (command: FigmaCommand, params?: unknown, timeoutMs?: number, channel?: string) => Promise<unknown>;
+
+export interface InverseOperation {
+  command: FigmaCommand;
+  params: Record<string, unknown>;
+}
+
+export interface JournalEntry {
+  id: number;
+  command: FigmaCommand;
+  params: Record<string, unknown>;
+  timestamp: number;
+  nodeId?: string;
+  nodeName?: string;
+  before?: Record<string, unknown>;
+  inverse: InverseOperation[];
+  reversible: boolean;
+  note?: string;
+  undone: boolean;
+  /** Channel of the file the change was made in */
+  channel?: string;
+}
+
+export interface UndoReport {
+  id: number;
+  command: FigmaCommand;
+  status: "undone" | "skipped" | "failed";
+  message?: string;
+}
+
+// Node properties snapshotted before each property-changing command
+const PROPERTY_COMMANDS: Partial<Record<FigmaCommand, string[]>> = {
+  set_fill_color: ["fills"],
+  set_stroke_color: ["strokes", "strokeWeight"],
+  set_selection_colors: ["fills", "strokes"],
+  set_gradient: ["fills"],
+  move_node: ["x", "y"],
+  resize_node: ["width", "height"],
+  rotate_node: ["rotation", "x", "y"],
+  rename_node: ["name"],
+  set_node_properties: ["visible", "locked", "opacity"],
+  set_corner_radius: ["cornerRadius", "topLeftRadius", "topRightRadius", "bottomLeftRadius", "bottomRightRadius"],
+  set_auto_layout: [
+    "layoutMode", "paddingTop", "paddingBottom", "paddingLeft", "paddingRight", "itemSpacing",
+    "primaryAxisAlignItems", "counterAxisAlignItems", "layoutWrap", "strokesIncludedInLayout",
+  ],
+  set_effects: ["effects"],
+  set_effect_style_id: ["effectStyleId", "effects"],
+  set_fill_style_id: ["fillStyleId", "fills"],
+  set_text_style_id: ["textStyleId"],
+  set_text_content: ["characters"],
+  set_font_name: ["fontName"],
+  set_font_size: ["fontSize"],
+  set_font_weight: ["fontName"],
+  set_letter_spacing: ["letterSpacing"],
+  set_line_height: ["lineHeight"],
+  set_paragraph_spacing: ["paragraphSpacing"],
+  set_text_case: ["textCase"],
+  set_text_decoration: ["textDecoration"],
+  set_text_align: ["textAlignHorizontal", "textAlignVertical"],
+  // Paint bindings live in fills/strokes, every other binding in boundVariables
+  apply_variable_to_node: ["fills", "strokes", "boundVariables"],
+};
+
+// Commands whose result.id is a new node; undone by deleting it
+const CREATION_COMMANDS = new Set<FigmaCommand>([
+  "create_rectangle", "create_frame", "create_text", "create_ellipse",
+  "create_polygon", "create_star", "create_vector", "create_line",
+  "create_component_instance", "set_svg", "clone_node", "create_from_spec",
+  "create_sticky", "create_shape_with_text", "create_connector", "create_section",
+]);
+
+// Other mutating commands: recorded so the journal lists every change, but with no inverse
+const RECORD_ONLY_COMMANDS = new Set<FigmaCommand>([
+  "set_multiple_text_contents", "set_sticky_text",
+  "group_nodes", "ungroup_nodes", "flatten_node", "insert_child", "reorder_node",
+  "convert_to_frame", "boolean_operation", "detach_instance",
+  "create_component_from_node", "create_component_set", "set_instance_variant",
+  "create_page", "delete_page", "rename_page", "duplicate_page",
+  "set_image", "set_image_fill", "replace_image_fill", "apply_image_transform", "set_image_filters",
+  "set_grid", "set_guide", "set_annotation", "set_reactions",
+  "create_text_style", "create_paint_style", "create_effect_style",
+  "set_variable", "switch_variable_mode", "import_variables", "bind_variables_by_value",
+]);
+
+const RECORD_ONLY_NOTE = "The journal records this change but cannot revert it; use Figma's version history to restore the previous state.";
+
+// Commands whose undo only covers part of what they changed
+const PARTIAL_UNDO_NOTES: Partial<Record<FigmaCommand, string>> = {
+  set_selection_colors: "Only the root node's fills and strokes are restored; descendants keep the new color.",
+  execute_batch: "Undo removes nodes created by the batch; property changes made inside it are not reverted.",
+};
+
+// Oldest entries are dropped once the journal grows past this size
+const MAX_JOURNAL_ENTRIES = 500;
+
+const journal: JournalEntry[] = [];
+let nextEntryId = 1;
+
+/**
+ * Whether a command is recorded in the change journal.
+ * @param command - The Figma command
+ */
+export function isJournaledCommand(command: FigmaCommand): boolean {
+  return command in PROPERTY_COMMANDS || CREATION_COMMANDS.has(command) || RECORD_ONLY_COMMANDS.has(command) ||
+    command === "delete_node" || command === "execute_batch";
+}
+
+/**
+ * Capture the state a command is about to change.
+ * Must be called before the command is sent; failures to read the prior state
+ * are logged and produce an entry that cannot be undone.
+ * @param command - The mutating command about to run
+ * @param params - Its parameters
+ * @param send - Sender used to fetch the prior state
+ * @returns A pending entry to pass to commitChange once the command succeeds
+ */
+export async function captureChange(
+  command: FigmaCommand,
+  params: unknown,
+  send: CommandSender
+): Promise<JournalEntry> {
+  const entryParams = { ...((params as Record<string, unknown>) ?? {}) };
+  delete entryParams.commandId;
+
+  const entry: JournalEntry = {
+    id: 0,
+    command,
+    params: entryParams,
+    timestamp: Date.now(),
+    nodeId: typeof entryParams.nodeId === "string" ? entryParams.nodeId : undefined,
+    inverse: [],
+    reversible: false,
+    note: PARTIAL_UNDO_NOTES[command] ?? (RECORD_ONLY_COMMANDS.has(command) ? RECORD_ONLY_NOTE : undefined),
+    undone: false,
+  };
+
+  const properties = PROPERTY_COMMANDS[command];
+  if (properties && entry.nodeId) {
+    try {
+      const snapshot = await send("get_node_snapshot", { nodeId: entry.nodeId, properties }) as {
+        name: string;
+        properties: Record<string, unknown>;
+      };
+      entry.nodeName = snapshot.name;
+      entry.before = snapshot.properties;
+    } catch (error) {
+      logger.warn(`Could not capture prior state for ${command}: ${error instanceof Error ? error.message : String(error)}`);
+      entry.note = "Prior state could not be captured; this change cannot be undone.";
+    }
+  } else if (command === "delete_node" && entry.nodeId) {
+    try {
+      const info = await send("get_node_info", { nodeId: entry.nodeId }) as { name?: string; type?: string };
+      entry.nodeName = info?.name;
+      entry.before = { name: info?.name, type: info?.type };
+    } catch (error) {
+      logger.warn(`Could not capture deleted node ${entry.nodeId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    entry.note = "Deleted nodes cannot be recreated by the journal; use Figma's version history to restore them.";
+  }
+
+  return entry;
+}
+
+/**
+ * Record a change after its command succeeded and derive the inverse operations.
+ * @param entry - Pending entry returned by captureChange
+ * @param result - The command's result from Figma
+ * @returns The committed entry
+ */
+export function commitChange(entry: JournalEntry, result: unknown): JournalEntry {
+  const typedResult = (result ?? {}) as { id?: string; name?: string; createdNodeIds?: string[] };
+
+  if (entry.before && entry.nodeId && entry.command in PROPERTY_COMMANDS) {
+    entry.inverse = [{ command: "restore_node_snapshot", params: { nodeId: entry.nodeId, properties: entry.before } }];
+  } else if (CREATION_COMMANDS.has(entry.command) && typedResult.id) {
+    entry.nodeId = typedResult.id;
+    entry.nodeName = typedResult.name;
+    entry.inverse = [{ command: "delete_node", params: { nodeId: typedResult.id } }];
+  } else if (entry.command === "execute_batch" && Array.isArray(typedResult.createdNodeIds)) {
+    entry.inverse = [...typedResult.createdNodeIds]
+      .reverse()
+      .map((nodeId) => ({ command: "delete_node" as FigmaCommand, params: { nodeId } }));
+  }
+  entry.reversible = entry.inverse.length > 0;
+
+  entry.id = nextEntryId++;
+  journal.push(entry);
+  if (journal.length > MAX_JOURNAL_ENTRIES) {
+    journal.splice(0, journal.length - MAX_JOURNAL_ENTRIES);
+  }
+  return entry;
+}
+
+/**
+ * List recorded changes, newest first.
+ * @param limit - Maximum number of entries to return
+ * @param includeUndone - Whether to include entries that were already undone
+ */
+export function listChanges(limit: number = 50, includeUndone: boolean = false): JournalEntry[] {
+  return journal
+    .filter((entry) => includeUndone || !entry.undone)
+    .slice(-limit)
+    .reverse();
+}
+
+/**
+ * Pick the entries an undo of count changes walks through, newest first: the count most
+ * recent reversible entries plus the irreversible ones between them, which are skipped.
+ * @param count - Number of reversible changes to undo (Infinity for the whole session)
+ */
+export function planUndo(count: number): JournalEntry[] {
+  const planned: JournalEntry[] = [];
+  let reversible = 0;
+  for (const entry of journal.filter((entry) => !entry.undone).reverse()) {
+    if (reversible >= count) break;
+    planned.push(entry);
+    if (entry.reversible) reversible++;
+  }
+  return planned;
+}
+
+/**
+ * Undo the most recent changes by replaying their inverse operations, newest first.
+ * Stops at the first inverse operation that fails so later entries are never
+ * reverted out of order. Entries without an inverse are reported as skipped on
+ * the way; they stay in the journal and do not count toward count.
+ * @param count - Number of reversible changes to undo (Infinity for the whole session)
+ * @param send - Sender for the inverse commands; must not journal them again
+ * @returns One report per entry that was processed
+ */
+export async function undoChanges(count: number, send: CommandSender): Promise<UndoReport[]> {
+  const reports: UndoReport[] = [];
+
+  for (const entry of planUndo(count)) {
+    if (!entry.reversible) {
+      reports.push({ id: entry.id, command: entry.command, status: "skipped", message: entry.note ?? "No inverse operation recorded" });
+      continue;
+    }
+
+    try {
+      for (const operation of entry.inverse) {
+        // Changes are undone in the file they were made in, not the current default channel
+        await (entry.channel
+          ? send(operation.command, operation.params, undefined, entry.channel)
+          : send(operation.command, operation.params));
+      }
+      entry.undone = true;
+      reports.push({ id: entry.id, command: entry.command, status: "undone", message: entry.note });
+    } catch (error) {
+      reports.push({
+        id: entry.id,
+        command: entry.command,
+        status: "failed",
+        message: error instanceof Error ? error.message : String(error),
+      });
+      break;
+    }
+  }
+
+  return reports;
+}
+
+/**
+ * Drop every recorded change.
+ */
+export function clearJournal(): void {
+  journal.length = 0;
+  nextEntryId = 1;
+}
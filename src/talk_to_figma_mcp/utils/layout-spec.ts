@@ -0,0 +1,144 @@
+import { z } from "zod";
+
+export interface SpecColor {
+  r: number;
+  g: number;
+  b: number;
+  a?: number;
+}
+
+export type SpecNodeType = "frame" | "text" | "rectangle" | "ellipse" | "instance" | "image" | "svg";
+
+export type SpecSizing = "FIXED" | "HUG" | "FILL";
+
+/**
+ * One node of a declarative layout spec, as built by create_from_spec.
+ * Auto layout fields mirror set_auto_layout; variables map a bindable field
+ * (e.g. "itemSpacing" or "fills/0/color") to a variable ID.
+ */
+export interface LayoutSpecNode {
+  key?: string;
+  type?: SpecNodeType;
+  name?: string;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  fillColor?: SpecColor;
+  strokeColor?: SpecColor;
+  strokeWeight?: number;
+  cornerRadius?: number;
+  opacity?: number;
+  clipsContent?: boolean;
+  layoutMode?: "NONE" | "HORIZONTAL" | "VERTICAL";
+  paddingTop?: number;
+  paddingRight?: number;
+  paddingBottom?: number;
+  paddingLeft?: number;
+  itemSpacing?: number;
+  primaryAxisAlignItems?: "MIN" | "MAX" | "CENTER" | "SPACE_BETWEEN";
+  counterAxisAlignItems?: "MIN" | "MAX" | "CENTER" | "BASELINE";
+  layoutWrap?: "NO_WRAP" | "WRAP";
+  layoutSizingHorizontal?: SpecSizing;
+  layoutSizingVertical?: SpecSizing;
+  text?: string;
+  fontSize?: number;
+  fontWeight?: number;
+  fontColor?: SpecColor;
+  textAlignHorizontal?: "LEFT" | "CENTER" | "RIGHT" | "JUSTIFIED";
+  textAutoResize?: "NONE" | "WIDTH_AND_HEIGHT" | "HEIGHT" | "TRUNCATE";
+  componentKey?: string;
+  componentProperties?: Record<string, string | boolean>;
+  imageData?: string;
+  scaleMode?: "FILL" | "FIT" | "CROP" | "TILE";
+  svg?: string;
+  variables?: Record<string, string>;
+  children?: LayoutSpecNode[];
+}
+
+const specColor = z.object({
+  r: z.number().min(0).max(1),
+  g: z.number().min(0).max(1),
+  b: z.number().min(0).max(1),
+  a: z.number().min(0).max(1).optional(),
+});
+
+const sizing = z.enum(["FIXED", "HUG", "FILL"]);
+
+export const layoutSpecNodeSchema: z.ZodType<LayoutSpecNode> = z.lazy(() =>
+  z.object({
+    key: z.string().optional().describe("Identifier for this node in the returned key → node ID map"),
+    type: z.enum(["frame", "text", "rectangle", "ellipse", "instance", "image", "svg"]).optional().describe("Node type (default: frame)"),
+    name: z.string().optional(),
+    x: z.number().optional(),
+    y: z.number().optional(),
+    width: z.number().positive().optional(),
+    height: z.number().positive().optional(),
+    fillColor: specColor.optional(),
+    strokeColor: specColor.optional(),
+    strokeWeight: z.number().positive().optional(),
+    cornerRadius: z.number().min(0).optional(),
+    opacity: z.number().min(0).max(1).optional(),
+    clipsContent: z.boolean().optional().describe("Whether a frame clips its children (Figma's default is true)"),
+    layoutMode: z.enum(["NONE", "HORIZONTAL", "VERTICAL"]).optional(),
+    paddingTop: z.number().optional(),
+    paddingRight: z.number().optional(),
+    paddingBottom: z.number().optional(),
+    paddingLeft: z.number().optional(),
+    itemSpacing: z.number().optional(),
+    primaryAxisAlignItems: z.enum(["MIN", "MAX", "CENTER", "SPACE_BETWEEN"]).optional(),
+    counterAxisAlignItems: z.enum(["MIN", "MAX", "CENTER", "BASELINE"]).optional(),
+    layoutWrap: z.enum(["NO_WRAP", "WRAP"]).optional(),
+    layoutSizingHorizontal: sizing.optional(),
+    layoutSizingVertical: sizing.optional(),
+    text: z.string().optional().describe("Characters of a text node"),
+    fontSize: z.number().positive().optional(),
+    fontWeight: z.number().optional(),
+    fontColor: specColor.optional(),
+    textAlignHorizontal: z.enum(["LEFT", "CENTER", "RIGHT", "JUSTIFIED"]).optional(),
+    textAutoResize: z.enum(["NONE", "WIDTH_AND_HEIGHT", "HEIGHT", "TRUNCATE"]).optional(),
+    componentKey: z.string().optional().describe("Key of the component an instance node is created from"),
+    componentProperties: z.record(z.string(), z.union([z.string(), z.boolean()])).optional()
+      .describe("Instance properties, keyed by property name as returned by get_component_properties"),
+    imageData: z.string().optional().describe("Base64 image data (no data URI prefix) for an image node"),
+    scaleMode: z.enum(["FILL", "FIT", "CROP", "TILE"]).optional().describe("How an image node's image fills it (default: FILL)"),
+    svg: z.string().optional().describe("SVG markup for an svg node"),
+    variables: z.record(z.string(), z.string()).optional()
+      .describe("Variable bindings: field (e.g. \"itemSpacing\", \"fills/0/color\") → variable ID"),
+    children: z.array(layoutSpecNodeSchema).optional(),
+  })
+);
+
+/**
+ * Check a spec for problems the plugin would only hit halfway through building it.
+ * @returns One message per problem, naming the node by its path in the spec
+ */
+export function validateLayoutSpec(spec: LayoutSpecNode): string[] {
+  const problems: string[] = [];
+  const keys = new Map<string, string>();
+
+  const visit = (node: LayoutSpecNode, path: string) => {
+    const type = node.type ?? "frame";
+    if (node.key !== undefined) {
+      const existing = keys.get(node.key);
+      if (existing) problems.push(`${path}: key "${node.key}" is already used by ${existing}`);
+      else keys.set(node.key, path);
+    }
+    if (type === "instance" && !node.componentKey) {
+      problems.push(`${path}: instance nodes need a componentKey`);
+    }
+    if (type === "image" && !node.imageData) {
+      problems.push(`${path}: image nodes need imageData`);
+    }
+    if (type === "svg" && !node.svg) {
+      problems.push(`${path}: svg nodes need svg markup`);
+    }
+    if (node.children && node.children.length > 0 && type !== "frame") {
+      problems.push(`${path}: only frame nodes can have children`);
+    }
+    node.children?.forEach((child, index) => visit(child, `${path}.children[${index}]`));
+  };
+
+  visit(spec, "spec");
+  return problems;
+}
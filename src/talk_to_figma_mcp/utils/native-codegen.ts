@@ -0,0 +1,696 @@
+import { FigmaVariableCollection, isVariableColor, resolveDefaultValues } from "./design-tokens";
+import {
+  CodegenNode,
+  CodegenResult,
+  ComponentProp,
+  VECTOR_TYPES,
+  axisSizing,
+  componentProps,
+  cornerRadii,
+  createNameRegistry,
+  isAutoLayout,
+  round,
+  toCamelCase,
+  toPascalCase,
+  visibleChildren,
+  visiblePaints,
+} from "./codegen-helpers";
+
+export type NativePlatform = "swiftui" | "compose";
+
+export interface NativeCodegenOptions {
+  platform: NativePlatform;
+  /** Name of the generated view or composable (default: the root layer name) */
+  componentName?: string;
+  /** Collections from get_variables; bound colors and dimensions become references to theme tokens */
+  variables?: FigmaVariableCollection[];
+  /** Name of the generated object that holds the theme tokens (default: Theme) */
+  themeName?: string;
+}
+
+interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+interface ThemeToken {
+  identifier: string;
+  type: "COLOR" | "FLOAT";
+  value: Rgba | number;
+}
+
+interface NativeContext {
+  platform: NativePlatform;
+  themeName: string;
+  tokens: Map<string, ThemeToken>;
+  usedTokens: Map<string, ThemeToken>;
+  components: Set<string>;
+  fontFamilies: Set<string>;
+  warnings: string[];
+}
+
+type Axis = "horizontal" | "vertical";
+
+const INDENT = "    ";
+
+const SWIFT_WEIGHTS: Record<number, string> = {
+  100: "ultraLight", 200: "thin", 300: "light", 500: "medium", 600: "semibold", 700: "bold", 800: "heavy", 900: "black",
+};
+
+const COMPOSE_WEIGHTS: Record<number, string> = {
+  100: "Thin", 200: "ExtraLight", 300: "Light", 500: "Medium", 600: "SemiBold", 700: "Bold", 800: "ExtraBold", 900: "Black",
+};
+
+const RADIUS_FIELDS = ["topLeftRadius", "topRightRadius", "bottomRightRadius", "bottomLeftRadius"];
+
+/**
+ * Index COLOR and FLOAT variables by ID with their value in the collection's default mode,
+ * following aliases. Identifiers are camelCase paths, unique across collections.
+ */
+function indexTokens(collections: FigmaVariableCollection[]): Map<string, ThemeToken> {
+  const identifier = createNameRegistry();
+  const tokens = new Map<string, ThemeToken>();
+  for (const { variable, value } of resolveDefaultValues(collections).values()) {
+    if (variable.resolvedType === "COLOR" && isVariableColor(value)) {
+      tokens.set(variable.id, { identifier: identifier(toCamelCase(variable.name, "token")), type: "COLOR", value: { r: value.r, g: value.g, b: value.b, a: value.a ?? 1 } });
+    } else if (variable.resolvedType === "FLOAT" && typeof value === "number") {
+      tokens.set(variable.id, { identifier: identifier(toCamelCase(variable.name, "token")), type: "FLOAT", value });
+    }
+  }
+  return tokens;
+}
+
+function useToken(ctx: NativeContext, id: string | undefined): string | undefined {
+  const token = id ? ctx.tokens.get(id) : undefined;
+  if (!token) return undefined;
+  ctx.usedTokens.set(token.identifier, token);
+  return `${ctx.themeName}.${token.identifier}`;
+}
+
+function number(value: number): string {
+  return String(round(value));
+}
+
+function kotlinFloat(value: number): string {
+  return `${round(value)}f`;
+}
+
+function kotlinString(text: string): string {
+  return JSON.stringify(text).replace(/\$/g, "\\$");
+}
+
+function colorLiteral(platform: NativePlatform, color: Rgba): string {
+  if (platform === "swiftui") {
+    const rgb = `Color(red: ${round(color.r)}, green: ${round(color.g)}, blue: ${round(color.b)})`;
+    return color.a < 1 ? `${rgb}.opacity(${round(color.a)})` : rgb;
+  }
+  const argb = [color.a, color.r, color.g, color.b]
+    .map((channel) => Math.round(channel * 255).toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase();
+  return `Color(0x${argb})`;
+}
+
+/**
+ * A color expression for a paint or gradient stop: a theme token when the paint is bound to a
+ * variable, a literal otherwise. The paint opacity is applied on top of either.
+ */
+function colorExpression(ctx: NativeContext, color: any, opacity: number, boundId?: string): string {
+  const token = useToken(ctx, boundId);
+  if (!token) return colorLiteral(ctx.platform, { r: color.r, g: color.g, b: color.b, a: (color.a ?? 1) * opacity });
+  if (opacity >= 1) return token;
+  return ctx.platform === "swiftui" ? `${token}.opacity(${round(opacity)})` : `${token}.copy(alpha = ${kotlinFloat(opacity)})`;
+}
+
+function dimension(ctx: NativeContext, node: CodegenNode, field: string, value: number): string {
+  return useToken(ctx, node.boundVariables?.[field]?.id) ?? (ctx.platform === "swiftui" ? number(value) : `${number(value)}.dp`);
+}
+
+/**
+ * A paint as a SwiftUI ShapeStyle or a Compose Color/Brush, or undefined for images.
+ */
+function paintExpression(ctx: NativeContext, node: CodegenNode, paint: any): string | undefined {
+  const opacity = paint.opacity ?? 1;
+  const stops = (paint.gradientStops ?? []).map((stop: any) => ({
+    color: colorExpression(ctx, stop.color, opacity, stop.boundVariables?.color?.id),
+    position: stop.position,
+  }));
+
+  switch (paint.type) {
+    case "SOLID":
+      return colorExpression(ctx, paint.color, opacity, paint.boundVariables?.color?.id);
+    case "GRADIENT_LINEAR": {
+      const [start, end] = paint.gradientHandlePositions ?? [{ x: 0.5, y: 0 }, { x: 0.5, y: 1 }];
+      if (ctx.platform === "swiftui") {
+        const swiftStops = stops.map((stop: any) => `.init(color: ${stop.color}, location: ${number(stop.position)})`).join(", ");
+        return `LinearGradient(stops: [${swiftStops}], startPoint: UnitPoint(x: ${number(start.x)}, y: ${number(start.y)}), endPoint: UnitPoint(x: ${number(end.x)}, y: ${number(end.y)}))`;
+      }
+      // Compose brushes are sized in pixels, so follow the dominant direction of the gradient
+      const horizontal = Math.abs(end.x - start.x) >= Math.abs(end.y - start.y);
+      const reversed = horizontal ? end.x < start.x : end.y < start.y;
+      const composeStops = stops.map((stop: any) => `${kotlinFloat(reversed ? 1 - stop.position : stop.position)} to ${stop.color}`);
+      if (reversed) composeStops.reverse();
+      return `Brush.${horizontal ? "horizontalGradient" : "verticalGradient"}(${composeStops.join(", ")})`;
+    }
+    case "GRADIENT_RADIAL": {
+      if (ctx.platform === "swiftui") {
+        const box = node.absoluteBoundingBox ?? { width: 0, height: 0 };
+        const swiftStops = stops.map((stop: any) => `.init(color: ${stop.color}, location: ${number(stop.position)})`).join(", ");
+        return `RadialGradient(stops: [${swiftStops}], center: .center, startRadius: 0, endRadius: ${number(Math.max(box.width, box.height) / 2)})`;
+      }
+      return `Brush.radialGradient(${stops.map((stop: any) => `${kotlinFloat(stop.position)} to ${stop.color}`).join(", ")})`;
+    }
+    default:
+      ctx.warnings.push(`"${node.name}" (${node.id}) has an image or unsupported gradient fill that was left out`);
+      return undefined;
+  }
+}
+
+/**
+ * The node's outline as a SwiftUI Shape or Compose Shape, undefined for plain rectangles.
+ */
+function shapeExpression(ctx: NativeContext, node: CodegenNode): string | undefined {
+  if (node.type === "ELLIPSE") return ctx.platform === "swiftui" ? "Ellipse()" : "CircleShape";
+  const radii = cornerRadii(node);
+  if (!radii) return undefined;
+
+  const boundIds = RADIUS_FIELDS.map((field) => node.boundVariables?.[field]?.id);
+  const [topLeft, topRight, bottomRight, bottomLeft] = radii.map((radius, index) => dimension(ctx, node, RADIUS_FIELDS[index], radius));
+  const uniform = radii.every((radius) => radius === radii[0]) && boundIds.every((id) => id === boundIds[0]);
+
+  if (ctx.platform === "swiftui") {
+    return uniform
+      ? `RoundedRectangle(cornerRadius: ${topLeft})`
+      : `UnevenRoundedRectangle(topLeadingRadius: ${topLeft}, bottomLeadingRadius: ${bottomLeft}, bottomTrailingRadius: ${bottomRight}, topTrailingRadius: ${topRight})`;
+  }
+  return uniform
+    ? `RoundedCornerShape(${topLeft})`
+    : `RoundedCornerShape(topStart = ${topLeft}, topEnd = ${topRight}, bottomEnd = ${bottomRight}, bottomStart = ${bottomLeft})`;
+}
+
+function paddingValues(ctx: NativeContext, node: CodegenNode): { top: string; right: string; bottom: string; left: string } | undefined {
+  const fields = ["paddingTop", "paddingRight", "paddingBottom", "paddingLeft"];
+  if (!fields.some((field) => node[field] > 0)) return undefined;
+  const [top, right, bottom, left] = fields.map((field) => dimension(ctx, node, field, node[field] ?? 0));
+  return { top, right, bottom, left };
+}
+
+/**
+ * Offset of a child inside a frame without auto layout, undefined when it sits at the origin.
+ * Absolutely positioned children of auto layout stay in the stack, with a warning.
+ */
+function offsetWithinParent(node: CodegenNode, parent: CodegenNode | undefined): { x: number; y: number } | undefined {
+  if (!parent || isAutoLayout(parent) || !node.absoluteBoundingBox || !parent.absoluteBoundingBox) return undefined;
+  const x = node.absoluteBoundingBox.x - parent.absoluteBoundingBox.x;
+  const y = node.absoluteBoundingBox.y - parent.absoluteBoundingBox.y;
+  return x !== 0 || y !== 0 ? { x, y } : undefined;
+}
+
+function warnAbsoluteChild(ctx: NativeContext, child: CodegenNode, container: string): void {
+  if (child.layoutPositioning === "ABSOLUTE") {
+    ctx.warnings.push(`"${child.name}" (${child.id}) is positioned absolutely inside auto layout and was placed in the ${container}`);
+  }
+}
+
+function effectLabel(effect: any): string {
+  return effect.type.toLowerCase().replace("_", " ");
+}
+
+function isPrimaryAxis(parent: CodegenNode, axis: Axis): boolean {
+  return (parent.layoutMode === "HORIZONTAL") === (axis === "horizontal");
+}
+
+// SwiftUI
+
+function swiftArgument(prop: ComponentProp): string {
+  if (typeof prop.value === "boolean") return `${prop.name}: ${prop.value}`;
+  return `${prop.name}: ${prop.type === "VARIANT" ? `.${toCamelCase(prop.value, "value")}` : JSON.stringify(prop.value)}`;
+}
+
+function swiftFrameAlignment(node: CodegenNode): string | undefined {
+  if (!isAutoLayout(node)) return visibleChildren(node).length > 0 ? ".topLeading" : undefined;
+  const primary = { MIN: "start", CENTER: "center", MAX: "end", SPACE_BETWEEN: "start" }[node.primaryAxisAlignItems as string ?? "MIN"] ?? "start";
+  const counter = { MIN: "start", CENTER: "center", MAX: "end", BASELINE: "start" }[node.counterAxisAlignItems as string ?? "MIN"] ?? "start";
+  const [horizontal, vertical] = node.layoutMode === "HORIZONTAL" ? [primary, counter] : [counter, primary];
+  const h = { start: "Leading", center: "", end: "Trailing" }[horizontal]!;
+  const v = { start: "top", center: "", end: "bottom" }[vertical]!;
+  if (!v) return h ? `.${h.toLowerCase()}` : ".center";
+  return `.${v}${h}`;
+}
+
+/**
+ * Modifiers for a view, in the order SwiftUI applies them: padding inside the frame,
+ * backgrounds behind it, then clipping, effects and the offset within a ZStack.
+ * @param leafShape - The view is a shape, so its top fill is applied with .fill()
+ * @param layoutOnly - Only size and position the view, as for component instances
+ */
+function swiftModifiers(ctx: NativeContext, node: CodegenNode, parent: CodegenNode | undefined, leafShape: boolean, layoutOnly = false): string[] {
+  const modifiers: string[] = [];
+  const shape = layoutOnly ? undefined : shapeExpression(ctx, node);
+  const fills = node.type === "TEXT" || layoutOnly
+    ? []
+    : visiblePaints(node.fills).map((paint) => paintExpression(ctx, node, paint)).filter((fill): fill is string => !!fill);
+
+  if (leafShape && fills.length > 0) modifiers.push(`.fill(${fills[fills.length - 1]})`);
+
+  const padding = isAutoLayout(node) && !layoutOnly ? paddingValues(ctx, node) : undefined;
+  if (padding) {
+    const values = [padding.top, padding.right, padding.bottom, padding.left];
+    modifiers.push(values.every((value) => value === values[0])
+      ? `.padding(${padding.top})`
+      : `.padding(EdgeInsets(top: ${padding.top}, leading: ${padding.left}, bottom: ${padding.bottom}, trailing: ${padding.right}))`);
+  }
+
+  const frame: string[] = [];
+  for (const axis of ["horizontal", "vertical"] as const) {
+    const dimensionName = axis === "horizontal" ? "width" : "height";
+    const sizing = axisSizing(node, parent, axis);
+    if (sizing === "FIXED" && node.absoluteBoundingBox) {
+      frame.push(`${dimensionName}: ${dimension(ctx, node, dimensionName, node.absoluteBoundingBox[dimensionName])}`);
+    } else if (sizing === "FILL") {
+      frame.push(`${axis === "horizontal" ? "maxWidth" : "maxHeight"}: .infinity`);
+    }
+  }
+  const alignment = node.type === "TEXT" || layoutOnly ? undefined : swiftFrameAlignment(node);
+  if (frame.length > 0) modifiers.push(`.frame(${[...frame, ...(alignment ? [`alignment: ${alignment}`] : [])].join(", ")})`);
+
+  if (!layoutOnly) {
+    // Figma paints later fills on top, and each background modifier goes behind the previous one
+    const backgrounds = leafShape ? fills.slice(0, -1) : fills;
+    for (const fill of [...backgrounds].reverse()) {
+      modifiers.push(shape ? `.background(${fill}, in: ${shape})` : `.background(${fill})`);
+    }
+
+    const stroke = node.type === "TEXT" ? undefined : visiblePaints(node.strokes).find((paint) => paint.type === "SOLID");
+    if (stroke && node.strokeWeight) {
+      const color = colorExpression(ctx, stroke.color, stroke.opacity ?? 1, stroke.boundVariables?.color?.id);
+      modifiers.push(`.overlay(${shape ?? "Rectangle()"}.stroke(${color}, lineWidth: ${number(node.strokeWeight)}))`);
+    }
+
+    if (node.clipsContent) modifiers.push(shape ? `.clipShape(${shape})` : ".clipped()");
+
+    for (const effect of visiblePaints(node.effects)) {
+      if (effect.type === "DROP_SHADOW") {
+        const color = colorExpression(ctx, effect.color ?? { r: 0, g: 0, b: 0, a: 0.25 }, 1, effect.boundVariables?.color?.id);
+        modifiers.push(`.shadow(color: ${color}, radius: ${number((effect.radius ?? 0) / 2)}, x: ${number(effect.offset?.x ?? 0)}, y: ${number(effect.offset?.y ?? 0)})`);
+      } else if (effect.type === "LAYER_BLUR") {
+        modifiers.push(`.blur(radius: ${number(effect.radius / 2)})`);
+      } else {
+        ctx.warnings.push(`"${node.name}" (${node.id}) has a ${effectLabel(effect)} that SwiftUI has no modifier for`);
+      }
+    }
+
+    if (node.opacity !== undefined && node.opacity < 1) modifiers.push(`.opacity(${number(node.opacity)})`);
+  }
+
+  const offset = offsetWithinParent(node, parent);
+  if (offset) modifiers.push(`.offset(x: ${number(offset.x)}, y: ${number(offset.y)})`);
+
+  return modifiers;
+}
+
+function swiftTextModifiers(ctx: NativeContext, node: CodegenNode): string[] {
+  const style = node.style ?? {};
+  const modifiers: string[] = [];
+  if (style.fontFamily && style.fontSize) {
+    modifiers.push(`.font(.custom(${JSON.stringify(style.fontFamily)}, size: ${dimension(ctx, node, "fontSize", style.fontSize)}))`);
+  }
+  if (SWIFT_WEIGHTS[style.fontWeight]) modifiers.push(`.fontWeight(.${SWIFT_WEIGHTS[style.fontWeight]})`);
+  if (style.italic) modifiers.push(".italic()");
+  const fill = visiblePaints(node.fills).find((paint) => paint.type === "SOLID");
+  if (fill) modifiers.push(`.foregroundStyle(${colorExpression(ctx, fill.color, fill.opacity ?? 1, fill.boundVariables?.color?.id)})`);
+  if (style.letterSpacing) modifiers.push(`.kerning(${number(style.letterSpacing)})`);
+  // SwiftUI adds line spacing on top of the font's own line height
+  if (style.lineHeightPx && style.fontSize && style.lineHeightUnit !== "INTRINSIC_%" && style.lineHeightPx > style.fontSize) {
+    modifiers.push(`.lineSpacing(${number(style.lineHeightPx - style.fontSize)})`);
+  }
+  if (style.textAlignHorizontal === "CENTER") modifiers.push(".multilineTextAlignment(.center)");
+  if (style.textAlignHorizontal === "RIGHT") modifiers.push(".multilineTextAlignment(.trailing)");
+  if (style.textCase === "UPPER") modifiers.push(".textCase(.uppercase)");
+  if (style.textCase === "LOWER") modifiers.push(".textCase(.lowercase)");
+  if (style.textDecoration === "UNDERLINE") modifiers.push(".underline()");
+  if (style.textDecoration === "STRIKETHROUGH") modifiers.push(".strikethrough()");
+  return modifiers;
+}
+
+function renderSwiftUI(ctx: NativeContext, node: CodegenNode, parent: CodegenNode | undefined, depth: number): string[] {
+  const indent = INDENT.repeat(depth);
+  const withModifiers = (head: string[], modifiers: string[]) => [...head, ...modifiers.map((modifier) => `${indent}${INDENT}${modifier}`)];
+
+  if (node.type === "INSTANCE" && parent) {
+    const name = toPascalCase(node.name);
+    ctx.components.add(name);
+    const args = componentProps(node).map(swiftArgument).join(", ");
+    return withModifiers([`${indent}${name}(${args})`], swiftModifiers(ctx, node, parent, false, true));
+  }
+
+  if (node.type === "TEXT") {
+    return withModifiers([`${indent}Text(${JSON.stringify(node.characters ?? "")})`], [
+      ...swiftTextModifiers(ctx, node),
+      ...swiftModifiers(ctx, node, parent, false),
+    ]);
+  }
+
+  if (VECTOR_TYPES.has(node.type)) {
+    ctx.warnings.push(`"${node.name}" (${node.id}) is a vector; export it with get_svg and add it to the asset catalog`);
+    return withModifiers([`${indent}Image(${JSON.stringify(toCamelCase(node.name, "vector"))})`], [".resizable()", ...swiftModifiers(ctx, node, parent, false)]);
+  }
+
+  const children = visibleChildren(node);
+  if (children.length === 0) {
+    const hasFill = visiblePaints(node.fills).some((paint) => paint.type !== "IMAGE");
+    const head = hasFill ? shapeExpression(ctx, node) ?? "Rectangle()" : "Color.clear";
+    return withModifiers([`${indent}${head}`], swiftModifiers(ctx, node, parent, hasFill));
+  }
+
+  let open = "ZStack(alignment: .topLeading) {";
+  const body: string[] = [];
+  if (isAutoLayout(node)) {
+    if (node.layoutWrap === "WRAP") {
+      ctx.warnings.push(`"${node.name}" (${node.id}) wraps its children; SwiftUI stacks do not wrap, so it is rendered as a single row or column`);
+    }
+    const horizontal = node.layoutMode === "HORIZONTAL";
+    const counter: string = node.counterAxisAlignItems ?? "MIN";
+    const alignment = horizontal
+      ? { MIN: ".top", MAX: ".bottom", BASELINE: ".firstTextBaseline" }[counter]
+      : { MIN: ".leading", MAX: ".trailing", BASELINE: ".leading" }[counter];
+    // SwiftUI stacks have a default spacing, so it is always spelled out
+    const spaceBetween = node.primaryAxisAlignItems === "SPACE_BETWEEN";
+    const spacing = spaceBetween ? "0" : dimension(ctx, node, "itemSpacing", node.itemSpacing ?? 0);
+    open = `${horizontal ? "HStack" : "VStack"}(${alignment ? `alignment: ${alignment}, ` : ""}spacing: ${spacing}) {`;
+
+    children.forEach((child, index) => {
+      warnAbsoluteChild(ctx, child, "stack");
+      if (spaceBetween && index > 0) body.push(`${indent}${INDENT}Spacer(minLength: 0)`);
+      body.push(...renderSwiftUI(ctx, child, node, depth + 1));
+    });
+  } else {
+    children.forEach((child) => body.push(...renderSwiftUI(ctx, child, node, depth + 1)));
+  }
+
+  return withModifiers([`${indent}${open}`, ...body, `${indent}}`], swiftModifiers(ctx, node, parent, false));
+}
+
+// Jetpack Compose
+
+// Variants become enum entries named after the component and property, e.g. ButtonSize.Large
+function composeArgument(component: string, prop: ComponentProp): string {
+  if (typeof prop.value === "boolean") return `${prop.name} = ${prop.value}`;
+  return `${prop.name} = ${prop.type === "VARIANT" ? `${component}${toPascalCase(prop.name)}.${toPascalCase(prop.value, "Value")}` : kotlinString(prop.value)}`;
+}
+
+/**
+ * Modifier chain for a composable. Compose applies modifiers outside in, so the offset and size
+ * come first, then shadow, clip, background and border, and padding last.
+ * @param layoutOnly - Only size and position the composable, as for component instances
+ */
+function composeModifier(ctx: NativeContext, node: CodegenNode, parent: CodegenNode | undefined, layoutOnly = false): string[] {
+  const modifiers: string[] = [];
+
+  const offset = offsetWithinParent(node, parent);
+  if (offset) modifiers.push(`.offset(x = ${number(offset.x)}.dp, y = ${number(offset.y)}.dp)`);
+
+  const fixed: Partial<Record<"width" | "height", string>> = {};
+  for (const axis of ["horizontal", "vertical"] as const) {
+    const dimensionName = axis === "horizontal" ? "width" : "height";
+    const sizing = axisSizing(node, parent, axis);
+    if (sizing === "FIXED" && node.absoluteBoundingBox) {
+      fixed[dimensionName] = dimension(ctx, node, dimensionName, node.absoluteBoundingBox[dimensionName]);
+    } else if (sizing === "FILL") {
+      modifiers.push(isPrimaryAxis(parent!, axis) ? ".weight(1f)" : axis === "horizontal" ? ".fillMaxWidth()" : ".fillMaxHeight()");
+    }
+  }
+  if (fixed.width && fixed.height) modifiers.push(`.size(width = ${fixed.width}, height = ${fixed.height})`);
+  else if (fixed.width) modifiers.push(`.width(${fixed.width})`);
+  else if (fixed.height) modifiers.push(`.height(${fixed.height})`);
+
+  if (layoutOnly) return modifiers;
+
+  const shape = shapeExpression(ctx, node);
+  for (const effect of visiblePaints(node.effects)) {
+    if (effect.type === "DROP_SHADOW" && node.type !== "TEXT") {
+      const color = colorExpression(ctx, effect.color ?? { r: 0, g: 0, b: 0, a: 0.25 }, 1, effect.boundVariables?.color?.id);
+      modifiers.push(`.shadow(elevation = ${number((effect.radius ?? 0) / 2)}.dp${shape ? `, shape = ${shape}` : ""}, spotColor = ${color})`);
+    }
+  }
+
+  if (node.clipsContent) modifiers.push(`.clip(${shape ?? "RectangleShape"})`);
+
+  if (node.type !== "TEXT") {
+    for (const paint of visiblePaints(node.fills)) {
+      const fill = paintExpression(ctx, node, paint);
+      if (fill) modifiers.push(shape ? `.background(${fill}, ${shape})` : `.background(${fill})`);
+    }
+    const stroke = visiblePaints(node.strokes).find((paint) => paint.type === "SOLID");
+    if (stroke && node.strokeWeight) {
+      const color = colorExpression(ctx, stroke.color, stroke.opacity ?? 1, stroke.boundVariables?.color?.id);
+      modifiers.push(`.border(${number(node.strokeWeight)}.dp, ${color}${shape ? `, ${shape}` : ""})`);
+    }
+  }
+
+  if (node.opacity !== undefined && node.opacity < 1) modifiers.push(`.alpha(${kotlinFloat(node.opacity)})`);
+
+  for (const effect of visiblePaints(node.effects)) {
+    if (effect.type === "LAYER_BLUR") {
+      modifiers.push(`.blur(${number(effect.radius / 2)}.dp)`);
+    } else if (effect.type === "INNER_SHADOW" || effect.type === "BACKGROUND_BLUR" || (effect.type === "DROP_SHADOW" && node.type === "TEXT")) {
+      ctx.warnings.push(`"${node.name}" (${node.id}) has a ${effectLabel(effect)} that Compose has no modifier for`);
+    }
+  }
+
+  const padding = isAutoLayout(node) ? paddingValues(ctx, node) : undefined;
+  if (padding) {
+    if (padding.top === padding.bottom && padding.left === padding.right) {
+      modifiers.push(padding.top === padding.left
+        ? `.padding(${padding.top})`
+        : `.padding(horizontal = ${padding.left}, vertical = ${padding.top})`);
+    } else {
+      modifiers.push(`.padding(start = ${padding.left}, top = ${padding.top}, end = ${padding.right}, bottom = ${padding.bottom})`);
+    }
+  }
+  return modifiers;
+}
+
+function composeArrangement(ctx: NativeContext, node: CodegenNode): string[] {
+  const horizontal = node.layoutMode === "HORIZONTAL";
+  const args: string[] = [];
+  const primary = node.primaryAxisAlignItems ?? "MIN";
+  const spacing = node.itemSpacing ? dimension(ctx, node, "itemSpacing", node.itemSpacing) : undefined;
+  const alignments = horizontal
+    ? { CENTER: "Alignment.CenterHorizontally", MAX: "Alignment.End" }
+    : { CENTER: "Alignment.CenterVertically", MAX: "Alignment.Bottom" };
+  const arrangements = horizontal ? { CENTER: "Arrangement.Center", MAX: "Arrangement.End" } : { CENTER: "Arrangement.Center", MAX: "Arrangement.Bottom" };
+
+  let arrangement: string | undefined;
+  if (primary === "SPACE_BETWEEN") {
+    arrangement = "Arrangement.SpaceBetween";
+  } else if (spacing) {
+    const alignment = alignments[primary as "CENTER" | "MAX"];
+    arrangement = `Arrangement.spacedBy(${spacing}${alignment ? `, ${alignment}` : ""})`;
+  } else {
+    arrangement = arrangements[primary as "CENTER" | "MAX"];
+  }
+  if (arrangement) args.push(`${horizontal ? "horizontalArrangement" : "verticalArrangement"} = ${arrangement}`);
+
+  if (node.layoutWrap === "WRAP" && node.counterAxisSpacing) {
+    args.push(`${horizontal ? "verticalArrangement" : "horizontalArrangement"} = Arrangement.spacedBy(${dimension(ctx, node, "counterAxisSpacing", node.counterAxisSpacing)})`);
+  } else if (node.layoutWrap !== "WRAP") {
+    const counter = node.counterAxisAlignItems ?? "MIN";
+    const alignment = horizontal
+      ? { CENTER: "Alignment.CenterVertically", MAX: "Alignment.Bottom" }[counter as string]
+      : { CENTER: "Alignment.CenterHorizontally", MAX: "Alignment.End" }[counter as string];
+    if (alignment) args.push(`${horizontal ? "verticalAlignment" : "horizontalAlignment"} = ${alignment}`);
+  }
+  return args;
+}
+
+function composeTextArguments(ctx: NativeContext, node: CodegenNode): string[] {
+  const style = node.style ?? {};
+  const args: string[] = [];
+  let text: string = node.characters ?? "";
+  if (style.textCase === "UPPER") text = text.toUpperCase();
+  if (style.textCase === "LOWER") text = text.toLowerCase();
+  args.push(`text = ${kotlinString(text)}`);
+
+  const fill = visiblePaints(node.fills).find((paint) => paint.type === "SOLID");
+  if (fill) args.push(`color = ${colorExpression(ctx, fill.color, fill.opacity ?? 1, fill.boundVariables?.color?.id)}`);
+  if (style.fontSize) args.push(`fontSize = ${number(style.fontSize)}.sp`);
+  if (COMPOSE_WEIGHTS[style.fontWeight]) args.push(`fontWeight = FontWeight.${COMPOSE_WEIGHTS[style.fontWeight]}`);
+  if (style.italic) args.push("fontStyle = FontStyle.Italic");
+  if (style.fontFamily) ctx.fontFamilies.add(style.fontFamily);
+  if (style.letterSpacing) args.push(`letterSpacing = ${number(style.letterSpacing)}.sp`);
+  if (style.lineHeightPx && style.lineHeightUnit !== "INTRINSIC_%") args.push(`lineHeight = ${number(style.lineHeightPx)}.sp`);
+  const textAlign = { CENTER: "Center", RIGHT: "End", JUSTIFIED: "Justify" }[style.textAlignHorizontal as string];
+  if (textAlign) args.push(`textAlign = TextAlign.${textAlign}`);
+  const decoration = { UNDERLINE: "Underline", STRIKETHROUGH: "LineThrough" }[style.textDecoration as string];
+  if (decoration) args.push(`textDecoration = TextDecoration.${decoration}`);
+  return args;
+}
+
+/**
+ * Format a composable call with named arguments, one per line. The modifier goes after the
+ * leading required arguments, and children go in a trailing lambda.
+ */
+function composeCall(
+  indent: string,
+  name: string,
+  args: string[],
+  modifier: { base: string; calls: string[] },
+  leadingArgs = 0,
+  children?: string[]
+): string[] {
+  const argLines = args.map((arg) => [arg]);
+  if (modifier.calls.length > 0 || modifier.base !== "Modifier") {
+    argLines.splice(leadingArgs, 0, [`modifier = ${modifier.base}`, ...modifier.calls.map((call) => `${INDENT}${call}`)]);
+  }
+
+  const lines: string[] = [];
+  if (argLines.length === 0) {
+    lines.push(children ? `${indent}${name} {` : `${indent}${name}()`);
+  } else {
+    lines.push(`${indent}${name}(`);
+    for (const arg of argLines) {
+      arg.forEach((line, index) => lines.push(`${indent}${INDENT}${line}${index === arg.length - 1 ? "," : ""}`));
+    }
+    lines.push(children ? `${indent}) {` : `${indent})`);
+  }
+  if (children) lines.push(...children, `${indent}}`);
+  return lines;
+}
+
+function renderCompose(ctx: NativeContext, node: CodegenNode, parent: CodegenNode | undefined, depth: number): string[] {
+  const indent = INDENT.repeat(depth);
+  // The root composable chains onto the modifier its caller passes in
+  const base = parent ? "Modifier" : "modifier";
+
+  if (node.type === "INSTANCE" && parent) {
+    const name = toPascalCase(node.name);
+    ctx.components.add(name);
+    const args = componentProps(node).map((prop) => composeArgument(name, prop));
+    return composeCall(indent, name, args, { base, calls: composeModifier(ctx, node, parent, true) }, args.length);
+  }
+
+  if (node.type === "TEXT") {
+    return composeCall(indent, "Text", composeTextArguments(ctx, node), { base, calls: composeModifier(ctx, node, parent) }, 1);
+  }
+
+  if (VECTOR_TYPES.has(node.type)) {
+    ctx.warnings.push(`"${node.name}" (${node.id}) is a vector; export it with get_svg and add it as a drawable`);
+    const resource = toCamelCase(node.name, "vector").replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+    const args = [`painter = painterResource(R.drawable.${resource})`, `contentDescription = ${kotlinString(node.name)}`];
+    return composeCall(indent, "Image", args, { base, calls: composeModifier(ctx, node, parent) }, 2);
+  }
+
+  const children = visibleChildren(node);
+  const modifier = { base, calls: composeModifier(ctx, node, parent) };
+  if (children.length === 0) {
+    return composeCall(indent, "Box", [], modifier);
+  }
+
+  if (!isAutoLayout(node)) {
+    return composeCall(indent, "Box", [], modifier, 0, children.flatMap((child) => renderCompose(ctx, child, node, depth + 1)));
+  }
+
+  const horizontal = node.layoutMode === "HORIZONTAL";
+  const container = node.layoutWrap === "WRAP" ? (horizontal ? "FlowRow" : "FlowColumn") : horizontal ? "Row" : "Column";
+  children.forEach((child) => warnAbsoluteChild(ctx, child, container));
+  const body = children.flatMap((child) => renderCompose(ctx, child, node, depth + 1));
+  return composeCall(indent, container, composeArrangement(ctx, node), modifier, 0, body);
+}
+
+// Theme files
+
+function swiftTheme(ctx: NativeContext): string {
+  const lines = [...ctx.usedTokens.values()].map((token) => token.type === "COLOR"
+    ? `${INDENT}static let ${token.identifier} = ${colorLiteral("swiftui", token.value as Rgba)}`
+    : `${INDENT}static let ${token.identifier}: CGFloat = ${number(token.value as number)}`);
+  return ["import SwiftUI", "", `enum ${ctx.themeName} {`, ...lines, "}", ""].join("\n");
+}
+
+function composeTheme(ctx: NativeContext): string {
+  const lines = [...ctx.usedTokens.values()].map((token) => token.type === "COLOR"
+    ? `${INDENT}val ${token.identifier} = ${colorLiteral("compose", token.value as Rgba)}`
+    : `${INDENT}val ${token.identifier} = ${number(token.value as number)}.dp`);
+  return [
+    "import androidx.compose.ui.graphics.Color",
+    "import androidx.compose.ui.unit.dp",
+    "",
+    `object ${ctx.themeName} {`,
+    ...lines,
+    "}",
+    "",
+  ].join("\n");
+}
+
+const COMPOSE_IMPORTS = [
+  "androidx.compose.foundation.*",
+  "androidx.compose.foundation.layout.*",
+  "androidx.compose.foundation.shape.*",
+  "androidx.compose.material3.Text",
+  "androidx.compose.runtime.Composable",
+  "androidx.compose.ui.Alignment",
+  "androidx.compose.ui.Modifier",
+  "androidx.compose.ui.draw.*",
+  "androidx.compose.ui.graphics.*",
+  "androidx.compose.ui.text.font.*",
+  "androidx.compose.ui.text.style.*",
+  "androidx.compose.ui.unit.dp",
+  "androidx.compose.ui.unit.sp",
+];
+
+/**
+ * Generate a SwiftUI view or a Jetpack Compose composable from a node tree as returned by
+ * get_node_info (REST JSON). Auto layout becomes stacks (HStack/VStack, Row/Column) with spacing
+ * and padding, other frames become ZStack/Box with offsets, and fills, radii, shadows and text
+ * styles become modifiers. Colors and dimensions bound to variables reference a generated theme
+ * object that holds the variables' default-mode values.
+ * @param root - Root of the subtree to convert
+ * @param options - Target platform, names and the file's variables
+ */
+export function generateNativeCode(root: CodegenNode, options: NativeCodegenOptions): CodegenResult {
+  const componentName = toPascalCase(options.componentName ?? root.name);
+  const ctx: NativeContext = {
+    platform: options.platform,
+    themeName: toPascalCase(options.themeName ?? "Theme"),
+    tokens: indexTokens(options.variables ?? []),
+    usedTokens: new Map(),
+    components: new Set(),
+    fontFamilies: new Set(),
+    warnings: [],
+  };
+
+  const files = [];
+  if (options.platform === "swiftui") {
+    const body = renderSwiftUI(ctx, root, undefined, 2);
+    files.push({
+      path: `${componentName}.swift`,
+      content: ["import SwiftUI", "", `struct ${componentName}: View {`, `${INDENT}var body: some View {`, ...body, `${INDENT}}`, "}", ""].join("\n"),
+    });
+    if (ctx.usedTokens.size > 0) files.push({ path: `${ctx.themeName}.swift`, content: swiftTheme(ctx) });
+  } else {
+    const body = renderCompose(ctx, root, undefined, 1);
+    const imports = body.some((line) => line.includes("painterResource"))
+      ? [...COMPOSE_IMPORTS, "androidx.compose.ui.res.painterResource"]
+      : COMPOSE_IMPORTS;
+    files.push({
+      path: `${componentName}.kt`,
+      content: [
+        ...imports.map((name) => `import ${name}`),
+        "",
+        "@Composable",
+        `fun ${componentName}(modifier: Modifier = Modifier) {`,
+        ...body,
+        "}",
+        "",
+      ].join("\n"),
+    });
+    if (ctx.usedTokens.size > 0) files.push({ path: `${ctx.themeName}.kt`, content: composeTheme(ctx) });
+    if (ctx.fontFamilies.size > 0) {
+      ctx.warnings.push(`Font families are not set; add them as font resources and pass fontFamily: ${[...ctx.fontFamilies].join(", ")}`);
+    }
+  }
+
+  return { files, components: [...ctx.components].sort(), warnings: ctx.warnings };
+}
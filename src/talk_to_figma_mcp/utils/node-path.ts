@@ -0,0 +1,233 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { sendCommandToFigma } from "./websocket";
+import { NODE_TYPES } from "./node-query";
+
+/**
+ * Path-based node references. Any tool parameter that takes a node ID also accepts a
+ * path of layer names, resolved to an ID before the tool runs:
+ *
+ *   Checkout/Header/Title            page, then one child per segment
+ *   page:Mobile > frame:Login        ">" separators with optional type prefixes
+ *
+ * Slashes and ">" inside layer names are escaped with a backslash, as in the paths
+ * returned by get_node_info and find_nodes.
+ */
+
+// "12:345", or "I12:345;67:89" for layers inside instances
+const NODE_ID_PATTERN = /^I?\d+:\d+(;\d+:\d+)*$/;
+
+// Parameters holding one node reference, or a list of them
+const NODE_REFERENCE_PARAMS = ["nodeId", "parentId", "childId", "instanceId", "pageId"];
+const NODE_REFERENCE_LIST_PARAMS = ["nodeIds"];
+
+const PATH_HINT = ' Also accepts a layer path such as "Checkout/Header/Title" or "page:Mobile > frame:Login".';
+
+export interface NodePathSegment {
+  name: string;
+  type?: string;
+}
+
+interface PathMatch {
+  id: string;
+  type: string;
+  path: string;
+}
+
+interface PathResolution {
+  matches: PathMatch[];
+  total: number;
+  missingAt?: number;
+  parentPath?: string | null;
+  siblingNames?: string[];
+}
+
+/**
+ * Whether a node reference is already a Figma node ID rather than a path.
+ */
+export function isNodeId(value: string): boolean {
+  return NODE_ID_PATTERN.test(value);
+}
+
+// Batch step references ("$step1.id") are resolved by execute_batch itself
+function isPathReference(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "" && !isNodeId(value) && !value.startsWith("$step");
+}
+
+/**
+ * Split a node path into segments. Paths containing an unescaped ">" are split on
+ * it; all others on "/". A segment may start with a node type such as "frame:".
+ * @throws Error when the path has an empty segment
+ */
+export function parseNodePath(path: string): NodePathSegment[] {
+  const separator = /(^|[^\\])>/.test(path) ? ">" : "/";
+  const names: string[] = [];
+  let current = "";
+  for (let index = 0; index < path.length; index++) {
+    const char = path[index];
+    if (char === "\\" && index + 1 < path.length) {
+      current += path[++index];
+    } else if (char === separator) {
+      names.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  names.push(current);
+
+  return names.map((raw, index) => {
+    const name = separator === ">" ? raw.trim() : raw;
+    // Only known node types count as prefixes, so names like "Step 1: Login" are kept whole
+    const prefix = /^([A-Za-z_]+):(.*)$/.exec(name);
+    const segment: NodePathSegment = prefix && NODE_TYPES.includes(prefix[1].toUpperCase())
+      ? { type: prefix[1].toUpperCase(), name: prefix[2].trim() }
+      : { name };
+    if (segment.name === "") {
+      throw new Error(`Invalid node path "${path}": segment ${index + 1} is empty`);
+    }
+    return segment;
+  });
+}
+
+function describeFailure(path: string, segments: NodePathSegment[], resolution: PathResolution): string {
+  if (resolution.total > 1) {
+    const listed = resolution.matches.map((match) => `${match.id} (${match.path})`).join(", ");
+    const more = resolution.total > resolution.matches.length ? ` and ${resolution.total - resolution.matches.length} more` : "";
+    return `Node path "${path}" is ambiguous: it matches ${resolution.total} nodes: ${listed}${more}. Use one of these IDs, or add type prefixes such as "frame:Card"`;
+  }
+
+  const index = resolution.missingAt ?? 0;
+  const segment = segments[index];
+  const label = segment.type ? `${segment.type.toLowerCase()} "${segment.name}"` : `"${segment.name}"`;
+  if (index === 0) {
+    return `Node path "${path}" matches nothing: there is no page or top-level layer on the current page named ${label}`;
+  }
+  const where = resolution.parentPath ? ` under "${resolution.parentPath}"` : "";
+  const children = resolution.siblingNames?.length ? ` (children: ${resolution.siblingNames.join(", ")})` : "";
+  return `Node path "${path}" matches nothing: no child ${label}${where}${children}`;
+}
+
+/**
+ * Resolve node paths to node IDs in one plugin round trip.
+ * @param paths - Paths to resolve; node IDs are passed through unchanged
+ * @returns Map from each path to the ID of the single node it names
+ * @throws Error naming the first path that is ambiguous or matches nothing
+ */
+export async function resolveNodePaths(paths: string[]): Promise<Map<string, string>> {
+  const resolved = new Map<string, string>();
+  const pending = [...new Set(paths)].filter((path) => {
+    if (isNodeId(path)) resolved.set(path, path);
+    return !isNodeId(path);
+  });
+  if (pending.length === 0) return resolved;
+
+  const parsed = pending.map(parseNodePath);
+  const { results } = await sendCommandToFigma("resolve_node_paths", { paths: parsed }) as { results: PathResolution[] };
+
+  pending.forEach((path, index) => {
+    const resolution = results[index];
+    if (resolution.total !== 1) {
+      throw new Error(describeFailure(path, parsed[index], resolution));
+    }
+    resolved.set(path, resolution.matches[0].id);
+  });
+  return resolved;
+}
+
+// Visit every node reference in tool arguments, including nested lists such as
+// set_multiple_text_contents entries and execute_batch step params
+function mapNodeReferences(value: unknown, map: (reference: string) => string): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => mapNodeReferences(item, map));
+  }
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+
+  const mapped: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (NODE_REFERENCE_PARAMS.includes(key) && typeof entry === "string") {
+      mapped[key] = map(entry);
+    } else if (NODE_REFERENCE_LIST_PARAMS.includes(key) && Array.isArray(entry)) {
+      mapped[key] = entry.map((item) => typeof item === "string" ? map(item) : item);
+    } else {
+      mapped[key] = mapNodeReferences(entry, map);
+    }
+  }
+  return mapped;
+}
+
+/**
+ * Replace every path-valued node reference in tool arguments with its node ID.
+ * @param args - Validated tool arguments
+ * @returns The arguments with node IDs in place of paths, or the same object when none are paths
+ */
+export async function resolveNodeReferences<T>(args: T): Promise<T> {
+  const paths: string[] = [];
+  mapNodeReferences(args, (reference) => {
+    if (isPathReference(reference)) paths.push(reference);
+    return reference;
+  });
+  if (paths.length === 0) return args;
+
+  const resolved = await resolveNodePaths(paths);
+  return mapNodeReferences(args, (reference) => resolved.get(reference) ?? reference) as T;
+}
+
+/**
+ * Wrap an MCP server so every tool registered through it accepts node paths
+ * wherever it takes a node ID. Paths are resolved before the tool handler runs,
+ * and the affected parameter descriptions mention the path syntax.
+ * @param server - The MCP server instance
+ * @returns A server whose tool() installs the path resolution
+ */
+export function withNodePaths(server: McpServer): McpServer {
+  const registerTool = server.tool.bind(server) as (...args: any[]) => unknown;
+
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      if (property !== "tool") {
+        return Reflect.get(target, property, receiver);
+      }
+      return (...args: any[]) => {
+        const handler = args[args.length - 1];
+        const shape = args[args.length - 2];
+        if (typeof handler !== "function" || !shape || typeof shape !== "object") {
+          return registerTool(...args);
+        }
+
+        const references = Object.keys(shape).filter((key) =>
+          NODE_REFERENCE_PARAMS.includes(key) || NODE_REFERENCE_LIST_PARAMS.includes(key)
+        );
+        if (references.length > 0) {
+          const described: Record<string, z.ZodTypeAny> = { ...shape };
+          for (const key of references) {
+            const description = shape[key].description ?? "";
+            const separator = description === "" || /[.!?)]$/.test(description) ? "" : ".";
+            described[key] = shape[key].describe(`${description}${separator}${PATH_HINT}`.trim());
+          }
+          args[args.length - 2] = described;
+        }
+
+        args[args.length - 1] = async (toolArgs: Record<string, any>, extra: unknown) => {
+          let resolvedArgs: Record<string, any>;
+          try {
+            resolvedArgs = await resolveNodeReferences(toolArgs);
+          } catch (error) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `Error resolving node path: ${error instanceof Error ? error.message : String(error)}`,
+                },
+              ],
+            };
+          }
+          return handler(resolvedArgs, extra);
+        };
+        return registerTool(...args);
+      };
+    },
+  });
+}
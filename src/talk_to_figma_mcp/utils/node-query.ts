@@ -0,0 +1,261 @@
+import { hexToRgba, rgbaToHex } from "./figma-helpers";
+
+/**
+ * Selector language for find_nodes. Selectors are parsed and validated here and sent to the
+ * plugin as a compiled query, so the plugin only evaluates plain data while it walks the tree.
+ *
+ *   INSTANCE[component="Button"][text*="Cancel"]
+ *   PAGE[name="Checkout"] FRAME[name="Header*"] > TEXT
+ *   *[fill="#FF0000"][width>=100], RECTANGLE[variable=/color\/brand/i]
+ *
+ * Text comparisons are case-insensitive unless a /regex/ supplies its own flags.
+ */
+
+export const NODE_TYPES = [
+  "PAGE", "FRAME", "GROUP", "SECTION", "COMPONENT", "COMPONENT_SET", "INSTANCE", "TEXT",
+  "RECTANGLE", "ELLIPSE", "POLYGON", "STAR", "LINE", "VECTOR", "BOOLEAN_OPERATION", "SLICE",
+  "STICKY", "SHAPE_WITH_TEXT", "CONNECTOR", "STAMP", "WIDGET", "EMBED", "LINK_UNFURL", "MEDIA", "TABLE",
+];
+
+// Attributes compared as text: exact or glob, substring, prefix, suffix or regex
+const TEXT_ATTRIBUTES = ["id", "name", "component", "componentKey", "text", "style", "variable"] as const;
+const NUMBER_ATTRIBUTES = ["width", "height", "x", "y"] as const;
+const BOOLEAN_ATTRIBUTES = ["visible", "locked"] as const;
+
+type TextAttribute = typeof TEXT_ATTRIBUTES[number];
+type NumberAttribute = typeof NUMBER_ATTRIBUTES[number];
+type BooleanAttribute = typeof BOOLEAN_ATTRIBUTES[number];
+
+export type QueryFilter =
+  | { attribute: TextAttribute; pattern: { source: string; flags: string }; negate: boolean }
+  | { attribute: NumberAttribute; op: "=" | "!=" | "<" | "<=" | ">" | ">="; value: number }
+  | { attribute: "fill"; color: string; negate: boolean }
+  | { attribute: BooleanAttribute; value: boolean };
+
+export interface QueryStep {
+  type?: string;
+  filters: QueryFilter[];
+  /** How this step relates to the previous one: any ancestor or the direct parent */
+  combinator?: "descendant" | "child";
+}
+
+export interface NodeQuery {
+  /** Alternatives separated by commas; a node matches if any of them matches */
+  selectors: QueryStep[][];
+}
+
+// Longest first, so "<=" is not read as "<"
+const OPERATORS = ["!=", "*=", "^=", "$=", "<=", ">=", "=", "<", ">"];
+
+type Value = { text: string } | { regex: string; flags: string };
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Turn a glob with * and ? wildcards into an anchored regular expression source.
+ */
+export function globToRegExp(glob: string): string {
+  return `^${glob.split("").map((char) => char === "*" ? ".*" : char === "?" ? "." : escapeRegExp(char)).join("")}$`;
+}
+
+function createScanner(source: string) {
+  let index = 0;
+  const scanner = {
+    get done() {
+      return index >= source.length;
+    },
+    get position() {
+      return index;
+    },
+    peek: () => source[index] ?? "",
+    startsWith: (text: string) => source.startsWith(text, index),
+    advance: (count = 1) => {
+      index += count;
+    },
+    skipSpace: () => {
+      const start = index;
+      while (/\s/.test(source[index] ?? "")) index++;
+      return index > start;
+    },
+    readWhile: (pattern: RegExp) => {
+      const start = index;
+      while (index < source.length && pattern.test(source[index])) index++;
+      return source.slice(start, index);
+    },
+    fail: (message: string, at = index): never => {
+      throw new Error(`Invalid selector at position ${at + 1}: ${message}`);
+    },
+    expect: (char: string) => {
+      if (source[index] !== char) scanner.fail(`expected "${char}"`);
+      index++;
+    },
+  };
+  return scanner;
+}
+
+type Scanner = ReturnType<typeof createScanner>;
+
+function parseValue(scanner: Scanner): Value {
+  const quote = scanner.peek();
+  if (quote === "\"" || quote === "'" || quote === "/") {
+    scanner.advance();
+    let text = "";
+    while (scanner.peek() !== quote) {
+      if (scanner.done) scanner.fail(`unterminated ${quote === "/" ? "regex" : "string"}`);
+      if (scanner.peek() === "\\") {
+        scanner.advance();
+        // Regexes keep their escapes; strings drop them
+        if (quote === "/" && scanner.peek() !== "/") text += "\\";
+      }
+      text += scanner.peek();
+      scanner.advance();
+    }
+    scanner.advance();
+    if (quote !== "/") return { text };
+
+    const flags = scanner.readWhile(/[a-z]/i);
+    if (/[^imsu]/.test(flags)) scanner.fail(`unsupported regex flags "${flags}"`);
+    try {
+      new RegExp(text, flags);
+    } catch (error) {
+      scanner.fail(`invalid regex /${text}/: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return { regex: text, flags };
+  }
+  return { text: scanner.readWhile(/[^\]\s]/) };
+}
+
+function parseFilter(scanner: Scanner): QueryFilter {
+  scanner.expect("[");
+  scanner.skipSpace();
+  // Errors about the filter as a whole point at its attribute
+  const start = scanner.position;
+  const attribute = scanner.readWhile(/[A-Za-z]/);
+  scanner.skipSpace();
+
+  // [visible] is short for [visible=true]
+  if (scanner.peek() === "]" && (BOOLEAN_ATTRIBUTES as readonly string[]).includes(attribute)) {
+    scanner.advance();
+    return { attribute: attribute as BooleanAttribute, value: true };
+  }
+
+  const op = OPERATORS.find((candidate) => scanner.startsWith(candidate));
+  if (!op) scanner.fail(`expected an operator after "${attribute}"`);
+  scanner.advance(op!.length);
+  scanner.skipSpace();
+  const value = parseValue(scanner);
+  scanner.skipSpace();
+  scanner.expect("]");
+
+  const requireOp = (allowed: string[]) => {
+    if (!allowed.includes(op!)) scanner.fail(`"${op}" cannot be used with ${attribute}`, start);
+  };
+  const text = "text" in value ? value.text : undefined;
+
+  if ((TEXT_ATTRIBUTES as readonly string[]).includes(attribute)) {
+    let pattern: { source: string; flags: string };
+    if ("regex" in value) {
+      requireOp(["=", "!="]);
+      pattern = { source: value.regex, flags: value.flags };
+    } else {
+      requireOp(["=", "!=", "*=", "^=", "$="]);
+      const escaped = escapeRegExp(text!);
+      const source = op === "*=" ? escaped : op === "^=" ? `^${escaped}` : op === "$=" ? `${escaped}$` : globToRegExp(text!);
+      pattern = { source, flags: "i" };
+    }
+    return { attribute: attribute as TextAttribute, pattern, negate: op === "!=" };
+  }
+
+  if ((NUMBER_ATTRIBUTES as readonly string[]).includes(attribute)) {
+    requireOp(["=", "!=", "<", "<=", ">", ">="]);
+    const number = Number(text);
+    if (text === undefined || text === "" || !Number.isFinite(number)) scanner.fail(`${attribute} needs a number`, start);
+    return { attribute: attribute as NumberAttribute, op: op as "=", value: number };
+  }
+
+  if (attribute === "fill") {
+    requireOp(["=", "!="]);
+    const color = text !== undefined ? hexToRgba(text) : null;
+    if (!color) scanner.fail("fill needs a hex color such as #FF0000", start);
+    return { attribute: "fill", color: rgbaToHex({ ...color!, a: 1 }), negate: op === "!=" };
+  }
+
+  if ((BOOLEAN_ATTRIBUTES as readonly string[]).includes(attribute)) {
+    requireOp(["=", "!="]);
+    if (text !== "true" && text !== "false") scanner.fail(`${attribute} needs true or false`, start);
+    return { attribute: attribute as BooleanAttribute, value: (text === "true") === (op === "=") };
+  }
+
+  const known = [...TEXT_ATTRIBUTES, ...NUMBER_ATTRIBUTES, "fill", ...BOOLEAN_ATTRIBUTES].join(", ");
+  return scanner.fail(`unknown attribute "${attribute}" (expected one of ${known})`, start);
+}
+
+function parseStep(scanner: Scanner): QueryStep {
+  const step: QueryStep = { filters: [] };
+  let hasType = false;
+  if (scanner.peek() === "*") {
+    scanner.advance();
+    hasType = true;
+  } else {
+    const word = scanner.readWhile(/[A-Za-z_]/);
+    if (word) {
+      const type = word.toUpperCase();
+      if (!NODE_TYPES.includes(type)) scanner.fail(`unknown node type "${word}"`);
+      step.type = type;
+      hasType = true;
+    }
+  }
+  while (scanner.peek() === "[") step.filters.push(parseFilter(scanner));
+  if (!hasType && step.filters.length === 0) scanner.fail("expected a node type, * or [filter]");
+  return step;
+}
+
+/**
+ * Parse a find_nodes selector into a compiled query.
+ * Steps are separated by whitespace (any descendant) or ">" (direct child), and
+ * alternatives by commas.
+ * @throws Error naming the position of the first syntax error
+ */
+export function parseNodeQuery(selector: string): NodeQuery {
+  const scanner = createScanner(selector);
+  const selectors: QueryStep[][] = [];
+
+  scanner.skipSpace();
+  while (true) {
+    const steps: QueryStep[] = [];
+    let combinator: QueryStep["combinator"];
+    while (true) {
+      const step = parseStep(scanner);
+      if (steps.length > 0) step.combinator = combinator ?? "descendant";
+      steps.push(step);
+      combinator = undefined;
+
+      const spaced = scanner.skipSpace();
+      if (scanner.peek() === ">") {
+        scanner.advance();
+        scanner.skipSpace();
+        combinator = "child";
+        continue;
+      }
+      if (scanner.done || scanner.peek() === ",") break;
+      if (!spaced) scanner.fail(`unexpected "${scanner.peek()}"`);
+    }
+    selectors.push(steps);
+
+    if (scanner.done) break;
+    scanner.expect(",");
+    scanner.skipSpace();
+  }
+
+  return { selectors };
+}
+
+/**
+ * Whether a query can only match inside pages named by its first step, so the
+ * search has to cover the whole document rather than the current page.
+ */
+export function queryStartsAtPage(query: NodeQuery): boolean {
+  return query.selectors.every((steps) => steps[0].type === "PAGE");
+}
@@ -0,0 +1,232 @@
+/**
+ * Budgeted text outlines of the node tree for get_outline. The plugin returns a compact
+ * tree (see OutlineNode); this module collapses repeated siblings, fills the budget
+ * breadth-first so the top of the tree is always shown, and leaves a cursor on every
+ * branch it had to elide.
+ *
+ *   FRAME "Checkout" 1440×900 [1:2]
+ *     TEXT "Title" 320×32 [1:3] "Welcome back"
+ *     12× INSTANCE "Card" 320×200 <Card> [1:4 … 1:40] (cursor: 1:2#1-12)
+ *     GROUP "Logo" 96×24 [1:41] — 14 vector layers
+ *     FRAME "Footer" 1440×120 [1:60] … 8 children (cursor: 1:60)
+ */
+
+export interface OutlineNode {
+  id: string;
+  name: string;
+  type: string;
+  width?: number;
+  height?: number;
+  /** Characters of a text node, already shortened by the plugin */
+  text?: string;
+  /** Main component (or component set) name of an instance */
+  component?: string;
+  childCount: number;
+  /** Omitted when the plugin stopped descending; childCount still says how many there are */
+  children?: OutlineNode[];
+  /** Set instead of children when the whole subtree is vector and shape layers */
+  vectorCount?: number;
+  /**
+   * Index of children[0] among the node's children, when only a range was requested.
+   * A range usually comes from a collapsed run, so its children are listed one by one.
+   */
+  childOffset?: number;
+}
+
+export interface OutlineOptions {
+  /** Approximate size limit of the outline text */
+  maxChars: number;
+}
+
+export interface Outline {
+  text: string;
+  /** Number of nodes shown, counting every member of a collapsed run */
+  shownNodes: number;
+  /** Cursors of the elided branches, in outline order */
+  cursors: string[];
+}
+
+// Siblings collapse into one line from this many identical ones in a row
+const MIN_REPEAT = 3;
+// Longest text excerpt shown for a text node
+const TEXT_EXCERPT_LENGTH = 40;
+// Space kept free on each expanded line for a possible "… N children (cursor: …)" note
+const ELISION_RESERVE = 40;
+
+type OutlineItem =
+  | { kind: "node"; node: OutlineNode }
+  | { kind: "repeat"; nodes: OutlineNode[]; parentId: string; start: number };
+
+interface PlacedItem {
+  item: OutlineItem;
+  depth: number;
+  /** Children in display order, filled in while the budget allows */
+  shown: PlacedItem[];
+}
+
+/**
+ * Cursor that expands a node, or a range of its children ("id#first-last", zero-based).
+ */
+export function formatOutlineCursor(nodeId: string, range?: { start: number; end: number }): string {
+  return range ? `${nodeId}#${range.start}-${range.end}` : nodeId;
+}
+
+/**
+ * Split a cursor from an outline back into the node ID and child range.
+ * @throws Error when the cursor is not one get_outline produced
+ */
+export function parseOutlineCursor(cursor: string): { nodeId: string; range?: { start: number; end: number } } {
+  const match = /^([^#]+)(?:#(\d+)-(\d+))?$/.exec(cursor.trim());
+  if (!match || (match[2] !== undefined && Number(match[3]) < Number(match[2]))) {
+    throw new Error(`Invalid outline cursor: ${cursor}`);
+  }
+  return match[2] === undefined
+    ? { nodeId: match[1] }
+    : { nodeId: match[1], range: { start: Number(match[2]), end: Number(match[3]) } };
+}
+
+function signature(node: OutlineNode): string {
+  return `${node.type}\u0000${node.name}\u0000${node.component ?? ""}`;
+}
+
+// Group runs of identical consecutive siblings
+function childItems(parent: OutlineNode): OutlineItem[] {
+  const children = parent.children ?? [];
+  const offset = parent.childOffset ?? 0;
+  const collapse = parent.childOffset === undefined;
+  const items: OutlineItem[] = [];
+  for (let index = 0; index < children.length;) {
+    let end = index + 1;
+    while (collapse && end < children.length && signature(children[end]) === signature(children[index])) end++;
+    if (end - index >= MIN_REPEAT) {
+      items.push({ kind: "repeat", nodes: children.slice(index, end), parentId: parent.id, start: offset + index });
+    } else {
+      children.slice(index, end).forEach((node) => items.push({ kind: "node", node }));
+    }
+    index = end;
+  }
+  return items;
+}
+
+function describeNode(node: OutlineNode): string {
+  const parts = [`${node.type} ${JSON.stringify(node.name)}`];
+  if (node.width !== undefined && node.height !== undefined) parts.push(`${node.width}×${node.height}`);
+  if (node.component) parts.push(`<${node.component}>`);
+  return parts.join(" ");
+}
+
+function itemLine(item: OutlineItem): string {
+  if (item.kind === "repeat") {
+    const first = item.nodes[0];
+    const last = item.nodes[item.nodes.length - 1];
+    const cursor = formatOutlineCursor(item.parentId, { start: item.start, end: item.start + item.nodes.length - 1 });
+    return `${item.nodes.length}× ${describeNode(first)} [${first.id} … ${last.id}] (cursor: ${cursor})`;
+  }
+
+  const { node } = item;
+  let line = `${describeNode(node)} [${node.id}]`;
+  if (node.text !== undefined) {
+    const excerpt = node.text.replace(/\s+/g, " ").trim();
+    line += ` ${JSON.stringify(excerpt.length > TEXT_EXCERPT_LENGTH ? `${excerpt.slice(0, TEXT_EXCERPT_LENGTH - 1)}…` : excerpt)}`;
+  }
+  if (node.vectorCount !== undefined) {
+    line += ` — ${node.vectorCount} vector layer${node.vectorCount === 1 ? "" : "s"}`;
+  }
+  return line;
+}
+
+function expandable(item: OutlineItem): item is { kind: "node"; node: OutlineNode } {
+  return item.kind === "node" && item.node.vectorCount === undefined && item.node.childCount > 0;
+}
+
+function nodeCount(item: OutlineItem): number {
+  return item.kind === "repeat" ? item.nodes.length : 1;
+}
+
+// Index one past the last child the plugin could have sent for this node
+function childrenEnd(node: OutlineNode): number {
+  return node.children ? (node.childOffset ?? 0) + node.children.length : node.childCount;
+}
+
+// Number of children left out after the shown prefix
+function elidedAfter(node: OutlineNode, shown: PlacedItem[]): number {
+  const shownChildren = shown.reduce((count, child) => count + nodeCount(child.item), 0);
+  return childrenEnd(node) - (node.childOffset ?? 0) - shownChildren;
+}
+
+/**
+ * Render a budgeted outline of a compact node tree.
+ * Levels are filled breadth-first, so a tight budget still shows the top of the tree
+ * and elides the deepest branches, each with a cursor to expand it later.
+ * @param root - Tree returned by the plugin's get_outline command
+ * @param options - Size budget
+ */
+export function buildOutline(root: OutlineNode, options: OutlineOptions): Outline {
+  const top: PlacedItem = { item: { kind: "node", node: root }, depth: 0, shown: [] };
+  const queue: PlacedItem[] = [top];
+  let used = itemLine(top.item).length + 1 + (expandable(top.item) ? ELISION_RESERVE : 0);
+
+  // Breadth-first: a parent's children are placed together, in order, before the next level
+  while (queue.length > 0) {
+    const placed = queue.shift()!;
+    if (!expandable(placed.item)) continue;
+    const { node } = placed.item;
+    const pending = childItems(node);
+
+    while (pending.length > 0) {
+      const next = pending[0];
+      const cost = "  ".repeat(placed.depth + 1).length + itemLine(next).length + 1 + (expandable(next) ? ELISION_RESERVE : 0);
+      if (used + cost > options.maxChars) break;
+      used += cost;
+      pending.shift();
+      const child: PlacedItem = { item: next, depth: placed.depth + 1, shown: [] };
+      placed.shown.push(child);
+      queue.push(child);
+    }
+    if (pending.length > 0) break;
+    // Every child fit, so the parent needs no elision note
+    if (placed.shown.length > 0 && elidedAfter(node, placed.shown) === 0) used -= ELISION_RESERVE;
+  }
+
+  const lines: string[] = [];
+  const cursors: string[] = [];
+  let shownNodes = 0;
+
+  const render = (placed: PlacedItem) => {
+    const { item } = placed;
+    const indent = "  ".repeat(placed.depth);
+    const line = indent + itemLine(item);
+    shownNodes += nodeCount(item);
+    if (item.kind === "repeat") {
+      cursors.push(formatOutlineCursor(item.parentId, { start: item.start, end: item.start + item.nodes.length - 1 }));
+    }
+    if (!expandable(item)) {
+      lines.push(line);
+      return;
+    }
+
+    const { node } = item;
+    if (placed.shown.length === 0) {
+      // Nothing below this node fit (or the plugin did not descend): elide the whole branch
+      const cursor = formatOutlineCursor(node.id);
+      cursors.push(cursor);
+      lines.push(`${line} … ${node.childCount} child${node.childCount === 1 ? "" : "ren"} (cursor: ${cursor})`);
+      return;
+    }
+
+    lines.push(line);
+    placed.shown.forEach(render);
+
+    // Children after the shown prefix that did not fit in the budget
+    const elided = elidedAfter(node, placed.shown);
+    if (elided > 0) {
+      const end = childrenEnd(node);
+      const cursor = formatOutlineCursor(node.id, { start: end - elided, end: end - 1 });
+      cursors.push(cursor);
+      lines.push(`${indent}  … ${elided} more (cursor: ${cursor})`);
+    }
+  };
+  render(top);
+
+  return { text: lines.join("\n"), shownNodes, cursors };
+}
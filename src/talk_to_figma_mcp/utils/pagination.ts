@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { sendCommandToFigma } from "./websocket";
+import { FigmaCommand } from "../types";
+
+/**
+ * Shared limit/cursor parameters of the listing tools. The plugin filters and pages the
+ * results itself, so only the requested page travels over the WebSocket; a response with
+ * a non-null nextCursor has more items.
+ */
+export const paginationParams = {
+  limit: z.coerce.number().int().min(1).max(500).optional().describe("Maximum number of items to return (default: 100)"),
+  cursor: z.string().optional().describe("nextCursor from a previous call, to fetch the next page"),
+};
+
+/** Plugin-side filter on the start of item names, ignoring case */
+export const namePrefixParam = z.string().optional().describe("Only return items whose name starts with this text (case-insensitive)");
+
+// Append one page to the results so far. Lists are concatenated, and an entry that
+// continues one from an earlier page (same id, e.g. a variable collection split across
+// pages) has its own lists merged in.
+function mergePage(into: Record<string, any>, page: Record<string, any>): void {
+  for (const [key, value] of Object.entries(page)) {
+    if (!Array.isArray(value) || !Array.isArray(into[key])) {
+      if (!(key in into)) into[key] = value;
+      continue;
+    }
+    for (const item of value) {
+      const existing = item && item.id !== undefined ? into[key].find((entry: any) => entry && entry.id === item.id) : undefined;
+      if (existing) {
+        mergePage(existing, item);
+      } else {
+        into[key].push(item);
+      }
+    }
+  }
+}
+
+/**
+ * Send a paginated listing command and follow nextCursor until every page is in.
+ * Used by tools that need the complete list (linting, token export, code generation).
+ * @param command - Listing command
+ * @param params - Filters to send with every page
+ * @returns The merged response, without a nextCursor
+ */
+export async function fetchAllPages<T>(command: FigmaCommand, params: Record<string, unknown> = {}): Promise<T> {
+  let merged: Record<string, any> | undefined;
+  let cursor: string | undefined;
+  do {
+    const page = await sendCommandToFigma(command, { ...params, cursor }) as Record<string, any>;
+    cursor = page.nextCursor ?? undefined;
+    if (merged) {
+      mergePage(merged, page);
+    } else {
+      merged = page;
+    }
+  } while (cursor);
+
+  delete merged!.nextCursor;
+  return merged as T;
+}
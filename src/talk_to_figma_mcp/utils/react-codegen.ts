@@ -0,0 +1,461 @@
+import { rgbaToHex } from "./figma-helpers";
+import {
+  CodegenNode,
+  CodegenResult,
+  ComponentProp,
+  VECTOR_TYPES,
+  axisSizing,
+  componentProps,
+  cornerRadii,
+  createNameRegistry,
+  isAutoLayout,
+  isInFlow,
+  paintHex,
+  round,
+  toCamelCase,
+  toPascalCase,
+  visibleChildren,
+  visiblePaints,
+} from "./codegen-helpers";
+
+export type ReactStyling = "tailwind" | "css-modules";
+
+export interface ReactCodegenOptions {
+  /** Tailwind classes or a CSS module (default: tailwind) */
+  styling?: ReactStyling;
+  /** Name of the generated component (default: the root layer name) */
+  componentName?: string;
+}
+
+// CSS declarations in source order, property name to value
+type Declarations = Record<string, string>;
+
+const JUSTIFY_CONTENT: Record<string, string> = {
+  MIN: "flex-start",
+  CENTER: "center",
+  MAX: "flex-end",
+  SPACE_BETWEEN: "space-between",
+};
+
+const ALIGN_ITEMS: Record<string, string> = {
+  MIN: "flex-start",
+  CENTER: "center",
+  MAX: "flex-end",
+  BASELINE: "baseline",
+};
+
+const TEXT_ALIGN: Record<string, string> = { CENTER: "center", RIGHT: "right", JUSTIFIED: "justify" };
+const TEXT_TRANSFORM: Record<string, string> = { UPPER: "uppercase", LOWER: "lowercase", TITLE: "capitalize" };
+const TEXT_DECORATION: Record<string, string> = { UNDERLINE: "underline", STRIKETHROUGH: "line-through" };
+
+// Tailwind's default spacing scale, in units of 4px
+const SPACING_SCALE = new Set([0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 5, 6, 7, 8, 9, 10, 11, 12, 14, 16, 20, 24, 28, 32, 36, 40, 44, 48, 52, 56, 60, 64, 72, 80, 96]);
+
+const FONT_SIZES: Record<string, string> = {
+  "12px": "xs", "14px": "sm", "16px": "base", "18px": "lg", "20px": "xl", "24px": "2xl",
+  "30px": "3xl", "36px": "4xl", "48px": "5xl", "60px": "6xl", "72px": "7xl", "96px": "8xl", "128px": "9xl",
+};
+
+const FONT_WEIGHTS: Record<string, string> = {
+  "100": "thin", "200": "extralight", "300": "light", "400": "normal", "500": "medium",
+  "600": "semibold", "700": "bold", "800": "extrabold", "900": "black",
+};
+
+const RADII: Record<string, string> = {
+  "2px": "rounded-sm", "4px": "rounded", "6px": "rounded-md", "8px": "rounded-lg",
+  "12px": "rounded-xl", "16px": "rounded-2xl", "24px": "rounded-3xl", "50%": "rounded-full",
+};
+
+function px(value: number): string {
+  return `${round(value)}px`;
+}
+
+function gradientStops(paint: any): string {
+  return (paint.gradientStops ?? [])
+    .map((stop: any) => `${rgbaToHex({ ...stop.color, a: (stop.color.a ?? 1) * (paint.opacity ?? 1) })} ${round(stop.position * 100)}%`)
+    .join(", ");
+}
+
+/**
+ * A paint as a CSS background layer, or undefined for paints CSS cannot express (images, angular gradients).
+ */
+function backgroundLayer(paint: any): string | undefined {
+  switch (paint.type) {
+    case "SOLID": {
+      const hex = paintHex(paint);
+      return `linear-gradient(${hex}, ${hex})`;
+    }
+    case "GRADIENT_LINEAR": {
+      const [start, end] = paint.gradientHandlePositions ?? [{ x: 0.5, y: 0 }, { x: 0.5, y: 1 }];
+      // CSS angles start at "to top" and turn clockwise
+      const angle = Math.atan2(end.y - start.y, end.x - start.x) * 180 / Math.PI + 90;
+      return `linear-gradient(${round((angle + 360) % 360)}deg, ${gradientStops(paint)})`;
+    }
+    case "GRADIENT_RADIAL":
+      return `radial-gradient(${gradientStops(paint)})`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Position and size of a node inside its parent. This is all an instance gets,
+ * since the rest of its styling belongs to the component.
+ */
+function layoutDeclarations(node: CodegenNode, parent: CodegenNode | undefined): Declarations {
+  const declarations: Declarations = {};
+  const box = node.absoluteBoundingBox;
+
+  if (parent && !isInFlow(node, parent)) {
+    declarations.position = "absolute";
+    if (box && parent.absoluteBoundingBox) {
+      declarations.left = px(box.x - parent.absoluteBoundingBox.x);
+      declarations.top = px(box.y - parent.absoluteBoundingBox.y);
+    }
+  }
+
+  for (const axis of ["horizontal", "vertical"] as const) {
+    const dimension = axis === "horizontal" ? "width" : "height";
+    const sizing = axisSizing(node, parent, axis);
+    if (sizing === "FIXED" && box) {
+      declarations[dimension] = px(box[dimension]);
+    } else if (sizing === "FILL") {
+      const primary = (parent!.layoutMode === "HORIZONTAL") === (axis === "horizontal");
+      if (primary) declarations.flex = "1 1 0";
+      else declarations["align-self"] = "stretch";
+    }
+  }
+  return declarations;
+}
+
+function containerDeclarations(node: CodegenNode): Declarations {
+  const declarations: Declarations = {};
+  const children = visibleChildren(node);
+
+  if (isAutoLayout(node)) {
+    declarations.display = "flex";
+    if (node.layoutMode === "VERTICAL") declarations["flex-direction"] = "column";
+    const wrap = node.layoutWrap === "WRAP";
+    if (wrap) declarations["flex-wrap"] = "wrap";
+
+    const spaceBetween = node.primaryAxisAlignItems === "SPACE_BETWEEN";
+    if (wrap && node.counterAxisSpacing) {
+      const [rowGap, columnGap] = node.layoutMode === "HORIZONTAL"
+        ? [node.counterAxisSpacing, node.itemSpacing]
+        : [node.itemSpacing, node.counterAxisSpacing];
+      if (rowGap) declarations["row-gap"] = px(rowGap);
+      if (columnGap && !spaceBetween) declarations["column-gap"] = px(columnGap);
+    } else if (node.itemSpacing && !spaceBetween) {
+      declarations.gap = px(node.itemSpacing);
+    }
+
+    const justify = JUSTIFY_CONTENT[node.primaryAxisAlignItems ?? "MIN"];
+    if (justify !== "flex-start") declarations["justify-content"] = justify;
+    // CSS stretches children by default, Figma aligns them to the start
+    declarations["align-items"] = ALIGN_ITEMS[node.counterAxisAlignItems ?? "MIN"];
+
+    const padding = [node.paddingTop, node.paddingRight, node.paddingBottom, node.paddingLeft].map((value) => value ?? 0);
+    if (padding.some((value) => value > 0)) declarations.padding = padding.map(px).join(" ");
+
+    if (children.some((child) => child.layoutPositioning === "ABSOLUTE")) declarations.position = "relative";
+  } else if (children.length > 0) {
+    declarations.position = "relative";
+  }
+  return declarations;
+}
+
+function visualDeclarations(node: CodegenNode, warnings: string[]): Declarations {
+  const declarations: Declarations = {};
+  const isText = node.type === "TEXT";
+  const fills = visiblePaints(node.fills);
+
+  if (isText) {
+    const solid = fills.find((paint) => paint.type === "SOLID");
+    if (solid) declarations.color = paintHex(solid);
+  } else if (fills.length === 1 && fills[0].type === "SOLID") {
+    declarations["background-color"] = paintHex(fills[0]);
+  } else if (fills.length > 0) {
+    const layers = fills.map(backgroundLayer);
+    if (layers.some((layer) => !layer)) {
+      warnings.push(`"${node.name}" (${node.id}) has an image or unsupported gradient fill that was left out`);
+    }
+    // Figma lists fills bottom to top, CSS lists background layers top to bottom
+    const supported = layers.filter((layer): layer is string => !!layer).reverse();
+    if (supported.length > 0) declarations.background = supported.join(", ");
+  }
+
+  const stroke = isText ? undefined : visiblePaints(node.strokes).find((paint) => paint.type === "SOLID");
+  if (stroke && (node.strokeWeight || node.individualStrokeWeights)) {
+    const weights = node.individualStrokeWeights;
+    declarations["border-width"] = weights
+      ? [weights.top, weights.right, weights.bottom, weights.left].map(px).join(" ")
+      : px(node.strokeWeight);
+    declarations["border-style"] = node.strokeDashes?.length ? "dashed" : "solid";
+    declarations["border-color"] = paintHex(stroke);
+  }
+
+  if (node.type === "ELLIPSE") {
+    declarations["border-radius"] = "50%";
+  } else {
+    const radii = cornerRadii(node);
+    if (radii) declarations["border-radius"] = radii.every((radius) => radius === radii[0]) ? px(radii[0]) : radii.map(px).join(" ");
+  }
+
+  const shadows: string[] = [];
+  for (const effect of visiblePaints(node.effects)) {
+    const color = effect.color ? rgbaToHex(effect.color) : "#00000040";
+    if (effect.type === "DROP_SHADOW" || (effect.type === "INNER_SHADOW" && !isText)) {
+      const parts = [px(effect.offset?.x ?? 0), px(effect.offset?.y ?? 0), px(effect.radius ?? 0)];
+      if (!isText) parts.push(px(effect.spread ?? 0));
+      shadows.push(`${effect.type === "INNER_SHADOW" ? "inset " : ""}${parts.join(" ")} ${color}`);
+    } else if (effect.type === "LAYER_BLUR") {
+      // Figma's blur radius is about twice the standard deviation CSS blur() takes
+      declarations.filter = `blur(${px(effect.radius / 2)})`;
+    } else if (effect.type === "BACKGROUND_BLUR") {
+      declarations["backdrop-filter"] = `blur(${px(effect.radius / 2)})`;
+    }
+  }
+  if (shadows.length > 0) declarations[isText ? "text-shadow" : "box-shadow"] = shadows.join(", ");
+
+  if (node.opacity !== undefined && node.opacity < 1) declarations.opacity = String(round(node.opacity));
+  if (node.clipsContent) declarations.overflow = "hidden";
+
+  if (isText && node.style) {
+    const style = node.style;
+    if (style.fontFamily) declarations["font-family"] = `"${style.fontFamily}"`;
+    if (style.fontSize) declarations["font-size"] = px(style.fontSize);
+    if (style.fontWeight) declarations["font-weight"] = String(style.fontWeight);
+    if (style.italic) declarations["font-style"] = "italic";
+    if (style.lineHeightPx && style.lineHeightUnit !== "INTRINSIC_%") declarations["line-height"] = px(style.lineHeightPx);
+    if (style.letterSpacing) declarations["letter-spacing"] = px(style.letterSpacing);
+    if (TEXT_ALIGN[style.textAlignHorizontal]) declarations["text-align"] = TEXT_ALIGN[style.textAlignHorizontal];
+    if (TEXT_TRANSFORM[style.textCase]) declarations["text-transform"] = TEXT_TRANSFORM[style.textCase];
+    if (TEXT_DECORATION[style.textDecoration]) declarations["text-decoration"] = TEXT_DECORATION[style.textDecoration];
+    if (node.characters?.includes("\n")) declarations["white-space"] = "pre-line";
+  }
+  return declarations;
+}
+
+function spacing(value: string): string {
+  const pixels = parseFloat(value);
+  if (pixels === 0) return "0";
+  if (pixels === 1) return "px";
+  return SPACING_SCALE.has(pixels / 4) ? String(pixels / 4) : `[${value}]`;
+}
+
+// Tailwind arbitrary values use underscores for spaces
+function arbitrary(value: string): string {
+  return `[${value.replace(/ /g, "_")}]`;
+}
+
+function paddingClasses(value: string): string[] {
+  const [top, right, bottom, left] = value.split(" ");
+  if (top === right && top === bottom && top === left) return [`p-${spacing(top)}`];
+  const sides: Array<[string, string]> = top === bottom && right === left
+    ? [["py", top], ["px", right]]
+    : [["pt", top], ["pr", right], ["pb", bottom], ["pl", left]];
+  return sides.filter(([, side]) => parseFloat(side) !== 0).map(([prefix, side]) => `${prefix}-${spacing(side)}`);
+}
+
+/**
+ * Convert CSS declarations to Tailwind utility classes, using the default theme
+ * where a value matches it and arbitrary values otherwise.
+ */
+export function toTailwindClasses(declarations: Record<string, string>): string[] {
+  const classes: string[] = [];
+  for (const [property, value] of Object.entries(declarations)) {
+    switch (property) {
+      case "display":
+      case "position":
+      case "text-transform":
+      case "text-decoration":
+        classes.push(value);
+        break;
+      case "flex-direction":
+        classes.push("flex-col");
+        break;
+      case "flex-wrap":
+        classes.push("flex-wrap");
+        break;
+      case "gap":
+        classes.push(`gap-${spacing(value)}`);
+        break;
+      case "row-gap":
+        classes.push(`gap-y-${spacing(value)}`);
+        break;
+      case "column-gap":
+        classes.push(`gap-x-${spacing(value)}`);
+        break;
+      case "justify-content":
+        classes.push(`justify-${value === "space-between" ? "between" : value.replace("flex-", "")}`);
+        break;
+      case "align-items":
+        classes.push(`items-${value.replace("flex-", "")}`);
+        break;
+      case "align-self":
+        classes.push("self-stretch");
+        break;
+      case "flex":
+        classes.push("flex-1");
+        break;
+      case "padding":
+        classes.push(...paddingClasses(value));
+        break;
+      case "left":
+      case "top":
+        classes.push(`${property}-${spacing(value)}`);
+        break;
+      case "width":
+      case "height":
+        classes.push(`${property.charAt(0)}-${spacing(value)}`);
+        break;
+      case "background-color":
+        classes.push(`bg-[${value}]`);
+        break;
+      case "background":
+        classes.push(`bg-${arbitrary(value)}`);
+        break;
+      case "color":
+        classes.push(`text-[${value}]`);
+        break;
+      case "border-width":
+        classes.push(value === "1px" ? "border" : value.includes(" ") ? `[border-width:${value.replace(/ /g, "_")}]` : `border-[${value}]`);
+        break;
+      case "border-style":
+        if (value !== "solid") classes.push(`border-${value}`);
+        break;
+      case "border-color":
+        classes.push(`border-[${value}]`);
+        break;
+      case "border-radius":
+        classes.push(RADII[value] ?? `rounded-${arbitrary(value)}`);
+        break;
+      case "box-shadow":
+        classes.push(`shadow-${arbitrary(value)}`);
+        break;
+      case "opacity":
+        classes.push(`opacity-[${value}]`);
+        break;
+      case "overflow":
+        classes.push(`overflow-${value}`);
+        break;
+      case "font-family":
+        classes.push(`font-['${value.replace(/"/g, "").replace(/ /g, "_")}']`);
+        break;
+      case "font-size":
+        classes.push(`text-${FONT_SIZES[value] ?? `[${value}]`}`);
+        break;
+      case "font-weight":
+        classes.push(`font-${FONT_WEIGHTS[value] ?? `[${value}]`}`);
+        break;
+      case "font-style":
+        classes.push("italic");
+        break;
+      case "line-height":
+        classes.push(`leading-[${value}]`);
+        break;
+      case "letter-spacing":
+        classes.push(`tracking-[${value}]`);
+        break;
+      case "text-align":
+        classes.push(`text-${value}`);
+        break;
+      case "white-space":
+        classes.push(`whitespace-${value}`);
+        break;
+      default:
+        classes.push(`[${property}:${value.replace(/ /g, "_")}]`);
+    }
+  }
+  return classes;
+}
+
+function formatProp(prop: ComponentProp): string {
+  if (prop.value === true) return ` ${prop.name}`;
+  if (prop.value === false) return ` ${prop.name}={false}`;
+  return /["{}\\]/.test(prop.value) ? ` ${prop.name}={${JSON.stringify(prop.value)}}` : ` ${prop.name}="${prop.value}"`;
+}
+
+function jsxText(text: string): string {
+  return /[{}<>&\n]/.test(text) || text !== text.trim() ? `{${JSON.stringify(text)}}` : text;
+}
+
+/**
+ * Generate a React component from a node tree as returned by get_node_info (REST JSON).
+ * Auto layout becomes flexbox, other frames position their children absolutely, and
+ * component instances become usages of the component with props from their properties.
+ * @param root - Root of the subtree to convert
+ * @param options - Styling flavor and component name
+ */
+export function generateReactCode(root: CodegenNode, options: ReactCodegenOptions = {}): CodegenResult {
+  const styling = options.styling ?? "tailwind";
+  const componentName = toPascalCase(options.componentName ?? root.name);
+  const warnings: string[] = [];
+  const components = new Set<string>();
+  const cssRules: string[] = [];
+  const className = createNameRegistry();
+
+  const classAttribute = (node: CodegenNode, declarations: Declarations): string => {
+    if (Object.keys(declarations).length === 0) return "";
+    if (styling === "tailwind") return ` className="${toTailwindClasses(declarations).join(" ")}"`;
+    const name = className(toCamelCase(node.name));
+    const body = Object.entries(declarations).map(([property, value]) => `  ${property}: ${value};`).join("\n");
+    cssRules.push(`.${name} {\n${body}\n}`);
+    return ` className={styles.${name}}`;
+  };
+
+  const render = (node: CodegenNode, parent: CodegenNode | undefined, depth: number): string[] => {
+    const indent = "  ".repeat(depth);
+
+    if (node.type === "INSTANCE" && parent) {
+      const name = toPascalCase(node.name);
+      components.add(name);
+      const props = componentProps(node).map(formatProp).join("");
+      return [`${indent}<${name}${props}${classAttribute(node, layoutDeclarations(node, parent))} />`];
+    }
+
+    const attributes = classAttribute(node, {
+      ...containerDeclarations(node),
+      ...layoutDeclarations(node, parent),
+      ...visualDeclarations(node, warnings),
+    });
+
+    if (node.type === "TEXT") {
+      return [`${indent}<p${attributes}>${jsxText(node.characters ?? "")}</p>`];
+    }
+    if (VECTOR_TYPES.has(node.type)) {
+      warnings.push(`"${node.name}" (${node.id}) is a vector; export it with get_svg and replace the placeholder`);
+      return [`${indent}{/* ${node.name.replace(/\*\//g, "")}: vector placeholder */}`, `${indent}<div${attributes} />`];
+    }
+
+    const children = visibleChildren(node);
+    if (children.length === 0) return [`${indent}<div${attributes} />`];
+    return [
+      `${indent}<div${attributes}>`,
+      ...children.flatMap((child) => render(child, node, depth + 1)),
+      `${indent}</div>`,
+    ];
+  };
+
+  const body = render(root, undefined, 2);
+
+  const imports = [...components].sort().map((name) => `import { ${name} } from "./${name}";`);
+  if (styling === "css-modules") imports.push(`import styles from "./${componentName}.module.css";`);
+
+  const source = [
+    ...(imports.length > 0 ? [...imports, ""] : []),
+    `export function ${componentName}() {`,
+    "  return (",
+    ...body,
+    "  );",
+    "}",
+    "",
+  ].join("\n");
+
+  const files = [{ path: `${componentName}.tsx`, content: source }];
+  if (styling === "css-modules") {
+    files.push({ path: `${componentName}.module.css`, content: `${cssRules.join("\n\n")}\n` });
+  }
+
+  return { files, components: [...components].sort(), warnings };
+}
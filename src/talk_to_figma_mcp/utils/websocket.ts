@@ -1,13 +1,22 @@
 import WebSocket from "ws";
+import { AsyncLocalStorage } from "async_hooks";
 import { v4 as uuidv4 } from "uuid";
 import { logger } from "./logger";
-import { serverUrl, defaultPort, WS_URL, reconnectInterval } from "../config/config";
-import { FigmaCommand, FigmaResponse, CommandProgressUpdate, PendingRequest, ProgressMessage } from "../types";
+import { defaultPort, includePort, WS_URL, reconnectInterval } from "../config/config";
+import { FigmaCommand, FigmaResponse, CommandProgressUpdate, PendingRequest, ProgressMessage, DocumentEvent, FigmaEvent, ChannelConnection } from "../types";
+import { isJournaledCommand, captureChange, commitChange } from "./journal";
 
 // WebSocket connection and request tracking
 let ws: WebSocket | null = null;
+// Channel used by commands that don't name one: the most recently joined
 let currentChannel: string | null = null;
 
+// Every channel joined on this connection, with the file the plugin there has open
+const connections = new Map<string, ChannelConnection>();
+
+// Channel a tool call asked for, carried through everything the call awaits
+const channelScope = new AsyncLocalStorage<string>();
+
 // Stable session ID for this MCP process — survives reconnections.
 // Sent in join messages so the server can deduplicate reconnecting agents
 // (e.g., after context compaction) instead of counting them as separate agents.
@@ -16,6 +25,54 @@ const SESSION_ID = `mcp_${process.pid}_${Date.now()}`;
 // Map of pending requests for promise tracking
 const pendingRequests = new Map<string, PendingRequest>();
 
+// Listeners for document, selection and page events broadcast by the plugin
+const figmaEventListeners = new Set<(event: FigmaEvent, channel: string) => void>();
+
+/**
+ * Listen for events pushed by the plugin.
+ * @param listener - Called with each event and the channel it came from
+ * @returns A function that removes the listener
+ */
+export function onFigmaEvent(listener: (event: FigmaEvent, channel: string) => void): () => void {
+  figmaEventListeners.add(listener);
+  return () => {
+    figmaEventListeners.delete(listener);
+  };
+}
+
+/**
+ * Listen for document changes reported by the plugin.
+ * @param listener - Called with each batched change event
+ * @returns A function that removes the listener
+ */
+export function onDocumentEvent(listener: (event: DocumentEvent, channel: string) => void): () => void {
+  return onFigmaEvent((figmaEvent, channel) => {
+    if (figmaEvent.type === "documentchange") listener(figmaEvent.event, channel);
+  });
+}
+
+// Set once something needs document changes; the plugin only watches them when asked
+let documentEventsRequested = false;
+
+/**
+ * Ask the plugins to report document changes. Watching them makes the plugin load
+ * every page, so this waits until something needs the events; channels joined
+ * afterwards are asked when they are joined.
+ */
+export function requestDocumentEvents(): void {
+  if (documentEventsRequested) return;
+  documentEventsRequested = true;
+  for (const channel of connections.keys()) {
+    enableDocumentEvents(channel);
+  }
+}
+
+function enableDocumentEvents(channel: string): void {
+  runInChannel(channel, () => sendCommandToFigma("enable_document_events", {}, 60000)).catch((error) => {
+    logger.warn(`Could not enable document events on channel ${channel}: ${error instanceof Error ? error.message : String(error)}`);
+  });
+}
+
 /**
  * Connects to the Figma server via WebSocket.
  * @param port - Optional port for the connection (defaults to defaultPort from config)
@@ -39,7 +96,7 @@ export function connectToFigma(port: number = defaultPort) {
     ws = null;
   }
 
-  const wsUrl = serverUrl === 'localhost' ? `${WS_URL}:${port}` : WS_URL;
+  const wsUrl = includePort ? `${WS_URL}:${port}` : WS_URL;
   logger.info(`Connecting to Figma socket server at ${wsUrl}...`);
   
   try {
@@ -56,14 +113,24 @@ export function connectToFigma(port: number = defaultPort) {
     ws.on('open', () => {
       clearTimeout(connectionTimeout);
       logger.info('Connected to Figma socket server');
-      // Reset channel on new connection
+      // Reset channels on new connection
       currentChannel = null;
+      connections.clear();
     });
 
     ws.on("message", (data: any) => {
       try {
         const json = JSON.parse(data) as ProgressMessage;
 
+        // Handle errors the relay reports for a specific request (e.g. a refused join)
+        if ((json as any).type === 'error' && json.id && pendingRequests.has(json.id)) {
+          const request = pendingRequests.get(json.id)!;
+          clearTimeout(request.timeout);
+          pendingRequests.delete(json.id);
+          request.reject(new Error(String((json as any).message)));
+          return;
+        }
+
         // Handle queue position updates from server-side command queue
         if ((json as any).type === 'queue_position') {
           const queueRequestId = (json as any).id;
@@ -122,6 +189,21 @@ export function connectToFigma(port: number = defaultPort) {
           return;
         }
 
+        // Handle document, selection and page events relayed from the plugin
+        if (json.message?.type === 'figma_event') {
+          const figmaEvent = { type: json.message.eventType, event: json.message.event } as FigmaEvent;
+          const channel = String(json.channel ?? '');
+          logger.debug(`Figma event: ${figmaEvent.type} on channel ${channel}`);
+          figmaEventListeners.forEach((listener) => {
+            try {
+              listener(figmaEvent, channel);
+            } catch (error) {
+              logger.error(`Figma event listener failed: ${error instanceof Error ? error.message : String(error)}`);
+            }
+          });
+          return;
+        }
+
         // Handle regular responses
         const myResponse = json.message;
         logger.debug(`Received message: ${JSON.stringify(myResponse)}`);
@@ -190,24 +272,37 @@ export function connectToFigma(port: number = defaultPort) {
 }
 
 /**
- * Join a specific channel in Figma.
+ * Join a specific channel in Figma. Channels joined earlier stay joined, and the
+ * new channel becomes the default target of commands that don't name one.
  * @param channelName - Name of the channel to join
- * @returns Promise that resolves when successfully joined the channel
+ * @param pairingCode - Pairing code, when the relay requires one
+ * @returns The connection, with the file the plugin on that channel has open
  */
-export async function joinChannel(channelName: string): Promise<void> {
+export async function joinChannel(channelName: string, pairingCode?: string): Promise<ChannelConnection> {
   if (!ws || ws.readyState !== WebSocket.OPEN) {
     throw new Error("Not connected to Figma");
   }
 
   try {
-    await sendCommandToFigma("join", { channel: channelName });
-    currentChannel = channelName;
+    await sendCommandToFigma("join", { channel: channelName, ...(pairingCode ? { token: pairingCode } : {}) });
+    const connection: ChannelConnection = { channel: channelName, fileKey: null, fileName: null, joinedAt: Date.now() };
+    connections.set(channelName, connection);
 
     try {
-      await sendCommandToFigma("ping", {}, 12000);
-      logger.info(`Joined channel: ${channelName}`);
+      const pong = await runInChannel(channelName, () => sendCommandToFigma("ping", {}, 12000)) as {
+        fileKey?: string | null;
+        fileName?: string;
+      };
+      connection.fileKey = pong?.fileKey ?? null;
+      connection.fileName = pong?.fileName ?? null;
+      currentChannel = channelName;
+      logger.info(`Joined channel: ${channelName}${connection.fileName ? ` (${connection.fileName})` : ''}`);
+      if (documentEventsRequested) {
+        enableDocumentEvents(channelName);
+      }
+      return connection;
     } catch (verificationError) {
-      currentChannel = null;
+      connections.delete(channelName);
       const errorMsg = verificationError instanceof Error
         ? verificationError.message
         : String(verificationError);
@@ -221,21 +316,117 @@ export async function joinChannel(channelName: string): Promise<void> {
 }
 
 /**
- * Get the current channel the connection is joined to.
+ * Get the default channel: the one most recently joined.
  * @returns The current channel name or null if not connected to any channel
  */
 export function getCurrentChannel(): string | null {
   return currentChannel;
 }
 
+/**
+ * List the channels joined on this connection, oldest first.
+ */
+export function listConnections(): ChannelConnection[] {
+  return Array.from(connections.values());
+}
+
+/**
+ * Find the joined channel a tool call targets.
+ * @param target - Channel name, or key of the file open on it
+ * @returns The channel name
+ * @throws Error when no joined channel matches
+ */
+export function resolveChannel(target: { channel?: string; fileKey?: string }): string {
+  if (target.channel) {
+    if (!connections.has(target.channel)) {
+      throw new Error(`Channel "${target.channel}" has not been joined. Joined channels: ${describeJoined()}`);
+    }
+    return target.channel;
+  }
+  if (target.fileKey) {
+    const connection = listConnections().find((candidate) => candidate.fileKey === target.fileKey);
+    if (!connection) {
+      throw new Error(`No joined channel has file "${target.fileKey}" open. Joined channels: ${describeJoined()}`);
+    }
+    return connection.channel;
+  }
+  if (!currentChannel) {
+    throw new Error("Must join a channel before sending commands");
+  }
+  return currentChannel;
+}
+
+function describeJoined(): string {
+  const joined = listConnections().map((connection) =>
+    connection.fileKey ? `${connection.channel} (file ${connection.fileKey})` : connection.channel
+  );
+  return joined.length > 0 ? joined.join(", ") : "none";
+}
+
+/**
+ * Run a function with every command it sends going to the given channel,
+ * including commands sent after awaits.
+ * @param channel - A joined channel
+ * @param fn - Work to run
+ */
+export function runInChannel<T>(channel: string, fn: () => T): T {
+  return channelScope.run(channel, fn);
+}
+
+/**
+ * The channel the running tool call explicitly asked for, if any.
+ */
+export function getRequestedChannel(): string | undefined {
+  return channelScope.getStore();
+}
+
+// Options that change how a single command is sent
+export interface SendCommandOptions {
+  // Don't record the command in the change journal (used when replaying undo operations)
+  skipJournal?: boolean;
+  // Send to this channel instead of the one in scope (used to undo a change in its own file)
+  channel?: string;
+}
+
 /**
  * Send a command to Figma via WebSocket.
+ * Mutating commands are recorded in the change journal together with the
+ * state they are about to overwrite.
+ * @param command - The command to send
+ * @param params - Additional parameters for the command
+ * @param timeoutMs - Timeout in milliseconds before failing
+ * @param options - Per-command send options
+ * @returns A promise that resolves with the Figma response
+ */
+export async function sendCommandToFigma(
+  command: FigmaCommand,
+  params: unknown = {},
+  timeoutMs: number = 300000,
+  options: SendCommandOptions = {}
+): Promise<unknown> {
+  if (options.channel) {
+    const { channel, ...rest } = options;
+    return runInChannel(channel, () => sendCommandToFigma(command, params, timeoutMs, rest));
+  }
+  if (options.skipJournal || !isJournaledCommand(command)) {
+    return dispatchCommand(command, params, timeoutMs);
+  }
+
+  const entry = await captureChange(command, params, dispatchCommand);
+  const result = await dispatchCommand(command, params, timeoutMs);
+  entry.channel = channelScope.getStore() ?? currentChannel ?? undefined;
+  commitChange(entry, result);
+  return result;
+}
+
+/**
+ * Send a single command over the WebSocket and wait for its response.
  * @param command - The command to send
  * @param params - Additional parameters for the command
  * @param timeoutMs - Timeout in milliseconds before failing
  * @returns A promise that resolves with the Figma response
  */
-export function sendCommandToFigma(
+function dispatchCommand(
   command: FigmaCommand,
   params: unknown = {},
   timeoutMs: number = 300000
@@ -250,7 +441,8 @@ export function sendCommandToFigma(
 
     // Check if we need a channel for this command
     const requiresChannel = command !== "join";
-    if (requiresChannel && !currentChannel) {
+    const channel = channelScope.getStore() ?? currentChannel;
+    if (requiresChannel && !channel) {
       reject(new Error("Must join a channel before sending commands"));
       return;
     }
@@ -260,8 +452,8 @@ export function sendCommandToFigma(
       id,
       type: command === "join" ? "join" : "message",
       ...(command === "join"
-        ? { channel: (params as any).channel, sessionId: SESSION_ID }
-        : { channel: currentChannel }),
+        ? { channel: (params as any).channel, token: (params as any).token, sessionId: SESSION_ID }
+        : { channel }),
       message: {
         id,
         command,
@@ -0,0 +1,130 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerBatchTools } from "../../src/talk_to_figma_mcp/tools/batch-tools";
+
+jest.mock("../../src/talk_to_figma_mcp/utils/websocket", () => ({
+  sendCommandToFigma: jest.fn(),
+}));
+
+function makeServer() {
+  const server = new McpServer(
+    { name: "test-server", version: "1.0.0" },
+    { capabilities: { tools: {} } }
+  );
+
+  const handlers: Record<string, Function> = {};
+  const schemas: Record<string, z.ZodObject<any>> = {};
+
+  const originalTool = server.tool.bind(server);
+  jest.spyOn(server, "tool").mockImplementation((...args: any[]) => {
+    if (args.length === 4) {
+      const [name, , schema, handler] = args;
+      handlers[name] = handler;
+      schemas[name] = z.object(schema);
+    }
+    return (originalTool as any)(...args);
+  });
+
+  registerBatchTools(server);
+
+  const mockSendCommand: jest.Mock = require("../../src/talk_to_figma_mcp/utils/websocket").sendCommandToFigma;
+
+  async function call(toolName: string, args: any = {}) {
+    mockSendCommand.mockClear();
+    const validated = schemas[toolName].parse(args);
+    return handlers[toolName](validated, { meta: {} });
+  }
+
+  return { call, mockSendCommand };
+}
+
+const successResult = {
+  success: true,
+  totalSteps: 2,
+  failedStep: null,
+  rolledBack: false,
+  rolledBackNodeIds: [],
+  createdNodeIds: ["1:2", "1:3"],
+  steps: [
+    { step: 1, command: "create_frame", status: "success", result: { id: "1:2" } },
+    { step: 2, command: "create_text", status: "success", result: { id: "1:3" } },
+  ],
+};
+
+describe("execute_batch tool", () => {
+  it("forwards steps with rollback enabled by default", async () => {
+    const { call, mockSendCommand } = makeServer();
+    mockSendCommand.mockResolvedValueOnce(successResult);
+
+    await call("execute_batch", {
+      steps: [
+        { command: "create_frame", params: { parentId: "0:1", x: 0, y: 0, width: 100, height: 100 } },
+        { command: "create_text", params: { parentId: "$step1.id", x: 0, y: 0, text: "Hi" } },
+      ],
+    });
+
+    const [command, payload] = mockSendCommand.mock.calls[0];
+    expect(command).toBe("execute_batch");
+    expect(payload.rollbackOnError).toBe(true);
+    expect(payload.steps[1].params.parentId).toBe("$step1.id");
+  });
+
+  it("accepts steps serialized as a JSON string", async () => {
+    const { call, mockSendCommand } = makeServer();
+    mockSendCommand.mockResolvedValueOnce(successResult);
+
+    await call("execute_batch", {
+      steps: JSON.stringify([{ command: "get_pages" }]),
+      rollbackOnError: "false",
+    });
+
+    const [, payload] = mockSendCommand.mock.calls[0];
+    expect(payload.steps).toEqual([{ command: "get_pages", params: {} }]);
+    expect(payload.rollbackOnError).toBe(false);
+  });
+
+  it("rejects references to the same or later steps without calling Figma", async () => {
+    const { call, mockSendCommand } = makeServer();
+
+    const result = await call("execute_batch", {
+      steps: [
+        { command: "create_frame", params: { parentId: "$step2.id" } },
+        { command: "create_frame", params: { parentId: "0:1" } },
+      ],
+    });
+
+    expect(mockSendCommand).not.toHaveBeenCalled();
+    expect(result.content[0].text).toContain("Step 1 references $step2");
+  });
+
+  it("rejects an empty step list", async () => {
+    const { call } = makeServer();
+    await expect(call("execute_batch", { steps: [] })).rejects.toThrow();
+  });
+
+  it("reports the failing step and rollback as an error result", async () => {
+    const { call, mockSendCommand } = makeServer();
+    mockSendCommand.mockResolvedValueOnce({
+      success: false,
+      totalSteps: 2,
+      failedStep: 2,
+      rolledBack: true,
+      rolledBackNodeIds: ["1:2"],
+      createdNodeIds: [],
+      steps: [
+        { step: 1, command: "create_frame", status: "success", result: { id: "1:2" } },
+        { step: 2, command: "set_fill_color", status: "error", error: "Node not found" },
+      ],
+    });
+
+    const result = await call("execute_batch", {
+      steps: [
+        { command: "create_frame", params: { parentId: "0:1" } },
+        { command: "set_fill_color", params: { nodeId: "9:9" } },
+      ],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe("Batch failed at step 2 of 2; rolled back 1 created nodes");
+  });
+});
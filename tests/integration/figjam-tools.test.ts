@@ -58,6 +58,20 @@ describe("get_figjam_elements tool", () => {
     expect(result.content[0].text).toContain("stickies");
   });
 
+  it("forwards type filters and pagination to the plugin", async () => {
+    const { call, mockSendCommand } = makeServer();
+    mockSendCommand.mockResolvedValueOnce({ stickies: [], nextCursor: "50" });
+
+    await call("get_figjam_elements", { types: '["STICKY"]', namePrefix: "Idea", limit: "50" });
+
+    expect(mockSendCommand).toHaveBeenCalledWith("get_figjam_elements", {
+      types: ["STICKY"],
+      namePrefix: "Idea",
+      limit: 50,
+      cursor: undefined,
+    });
+  });
+
   it("surfaces errors in the response text", async () => {
     const { call, mockSendCommand } = makeServer();
     mockSendCommand.mockRejectedValueOnce(new Error("not a FigJam document"));
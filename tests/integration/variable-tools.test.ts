@@ -0,0 +1,121 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerVariableTools } from "../../src/talk_to_figma_mcp/tools/variable-tools";
+
+jest.mock("../../src/talk_to_figma_mcp/utils/websocket", () => ({
+  sendCommandToFigma: jest.fn(),
+}));
+
+function makeServer() {
+  const server = new McpServer(
+    { name: "test-server", version: "1.0.0" },
+    { capabilities: { tools: {} } }
+  );
+
+  const handlers: Record<string, Function> = {};
+  const schemas: Record<string, z.ZodObject<any>> = {};
+
+  const originalTool = server.tool.bind(server);
+  jest.spyOn(server, "tool").mockImplementation((...args: any[]) => {
+    if (args.length === 4) {
+      const [name, , schema, handler] = args;
+      handlers[name] = handler;
+      schemas[name] = z.object(schema);
+    }
+    return (originalTool as any)(...args);
+  });
+
+  registerVariableTools(server);
+
+  const mockSendCommand: jest.Mock = require("../../src/talk_to_figma_mcp/utils/websocket").sendCommandToFigma;
+
+  async function call(toolName: string, args: any = {}) {
+    mockSendCommand.mockClear();
+    const validated = schemas[toolName].parse(args);
+    return handlers[toolName](validated, { meta: {} });
+  }
+
+  return { call, mockSendCommand };
+}
+
+describe("export_design_tokens tool", () => {
+  it("formats the collections returned by get_variables", async () => {
+    const { call, mockSendCommand } = makeServer();
+    mockSendCommand.mockResolvedValueOnce({
+      collections: [
+        {
+          id: "VariableCollectionId:1",
+          name: "Brand",
+          modes: [{ modeId: "1:0", name: "Default" }],
+          variables: [{ id: "VariableID:1", name: "color/primary", resolvedType: "COLOR", valuesByMode: { "1:0": { r: 1, g: 0, b: 0, a: 1 } } }],
+        },
+      ],
+    });
+
+    const result = await call("export_design_tokens", { format: "css" });
+
+    expect(mockSendCommand).toHaveBeenCalledWith("get_variables", {});
+    expect(result.content).toHaveLength(1);
+    expect(result.content[0].text).toContain("--color-primary: #ff0000;");
+  });
+});
+
+describe("import_design_tokens tool", () => {
+  it("sends parsed collections and reports the diff", async () => {
+    const { call, mockSendCommand } = makeServer();
+    mockSendCommand.mockResolvedValueOnce({ created: ["Brand/primary"], updated: [], unchanged: [], deleted: [], errors: [] });
+
+    const result = await call("import_design_tokens", {
+      tokens: JSON.stringify({ Brand: { primary: { $type: "color", $value: "#ff0000" } } }),
+    });
+
+    const [command, payload] = mockSendCommand.mock.calls[0];
+    expect(command).toBe("import_variables");
+    expect(payload.deleteMissing).toBe(false);
+    expect(payload.collections[0].variables[0].values).toEqual({ "": { r: 1, g: 0, b: 0, a: 1 } });
+    expect(result.content[0].text).toBe("Imported design tokens: 1 created, 0 updated, 0 unchanged, 0 deleted, 0 skipped");
+  });
+
+  it("does not call Figma when the document has no importable tokens", async () => {
+    const { call, mockSendCommand } = makeServer();
+
+    const result = await call("import_design_tokens", { tokens: { Brand: {} } });
+
+    expect(mockSendCommand).not.toHaveBeenCalled();
+    expect(result.content[0].text).toBe("No importable tokens found in the document");
+  });
+});
+
+describe("bind_variables_by_value tool", () => {
+  it("summarizes bindings and groups unmatched values", async () => {
+    const { call, mockSendCommand } = makeServer();
+    mockSendCommand.mockResolvedValueOnce({
+      id: "1:1",
+      name: "Screen",
+      nodesScanned: 3,
+      alreadyBound: 1,
+      bound: [{ nodeId: "1:2", field: "fills/0/color", variableName: "color/primary", value: "#ff0000" }],
+      unmatched: [
+        { nodeId: "1:2", field: "fills/1/color", value: "#123456" },
+        { nodeId: "1:3", field: "fills/0/color", value: "#123456" },
+        { nodeId: "1:3", field: "itemSpacing", value: 13 },
+      ],
+    });
+
+    const result = await call("bind_variables_by_value", { nodeId: "1:1", properties: '["fills","spacing"]' });
+
+    expect(mockSendCommand).toHaveBeenCalledWith("bind_variables_by_value", {
+      nodeId: "1:1",
+      properties: ["fills", "spacing"],
+      colorTolerance: undefined,
+      collections: undefined,
+    });
+    expect(result.content[0].text).toBe(
+      'Bound 1 field(s) to variables in "Screen" (3 nodes scanned, 1 already bound, 3 without a matching variable)'
+    );
+    expect(JSON.parse(result.content[1].text).unmatchedValues).toEqual({
+      "fills/color: #123456": 2,
+      "itemSpacing: 13": 1,
+    });
+  });
+});
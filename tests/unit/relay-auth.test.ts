@@ -0,0 +1,38 @@
+import {
+  authorizeJoin,
+  derivePairingCode,
+  isAuthEnabled,
+  loadRelayAuthConfig,
+} from "../../src/relay-auth";
+
+describe("relay authentication", () => {
+  const secretConfig = { secret: "s3cret" };
+
+  it("is off unless a secret is configured", () => {
+    expect(isAuthEnabled(loadRelayAuthConfig({}))).toBe(false);
+    expect(authorizeJoin(loadRelayAuthConfig({}), "design", undefined, false)).toEqual({ allowed: true });
+    expect(isAuthEnabled(loadRelayAuthConfig({ RELAY_SECRET: "s3cret" }))).toBe(true);
+  });
+
+  it("derives stable, readable pairing codes per channel", () => {
+    const code = derivePairingCode("s3cret", "design");
+    expect(code).toMatch(/^[2-9A-HJKMNP-Z]{4}-[2-9A-HJKMNP-Z]{4}$/);
+    expect(derivePairingCode("s3cret", "design")).toBe(code);
+    expect(derivePairingCode("s3cret", "library")).not.toBe(code);
+  });
+
+  it("tells the opener of a channel its code and checks it for everyone after", () => {
+    const code = derivePairingCode("s3cret", "design");
+
+    expect(authorizeJoin(secretConfig, "design", undefined, true)).toEqual({ allowed: true, pairingCode: code });
+    expect(authorizeJoin(secretConfig, "design", code.toLowerCase().replace("-", " "), false)).toEqual({ allowed: true });
+    expect(authorizeJoin(secretConfig, "design", undefined, false)).toEqual({
+      allowed: false,
+      reason: 'Channel "design" requires a pairing code. It is shown in the Figma plugin next to the channel ID.',
+    });
+    expect(authorizeJoin(secretConfig, "design", "AAAA-AAAA", false)).toEqual({
+      allowed: false,
+      reason: 'Wrong pairing code for channel "design"',
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { isOriginAllowed, loadRelayConfig } from "../../src/relay-config";
+
+describe("relay configuration", () => {
+  it("keeps the previous defaults when nothing is set", () => {
+    expect(loadRelayConfig([], {})).toEqual({
+      hostname: undefined,
+      port: 3055,
+      tls: undefined,
+      allowedOrigins: [],
+      maxMessageSize: 16 * 1024 * 1024,
+      maxConcurrentReads: 4,
+    });
+  });
+
+  it("reads environment variables and lets flags override them", () => {
+    const config = loadRelayConfig(
+      ["--port=4000", "--allowed-origins=null, https://www.figma.com"],
+      {
+        RELAY_PORT: "5000",
+        RELAY_HOSTNAME: "0.0.0.0",
+        RELAY_TLS_CERT: "cert.pem",
+        RELAY_TLS_KEY: "key.pem",
+        RELAY_MAX_MESSAGE_SIZE: "1048576",
+        RELAY_MAX_CONCURRENT_READS: "2",
+        RELAY_ADMIN_TOKEN: "admin",
+      }
+    );
+
+    expect(config).toEqual({
+      hostname: "0.0.0.0",
+      port: 4000,
+      tls: { certPath: "cert.pem", keyPath: "key.pem" },
+      allowedOrigins: ["null", "https://www.figma.com"],
+      maxMessageSize: 1048576,
+      maxConcurrentReads: 2,
+      adminToken: "admin",
+    });
+  });
+
+  it("rejects invalid values", () => {
+    expect(() => loadRelayConfig(["--port=70000"], {})).toThrow('Invalid port: "70000" (expected a whole number from 1 to 65535)');
+    expect(() => loadRelayConfig([], { RELAY_MAX_MESSAGE_SIZE: "1.5" })).toThrow('Invalid max message size: "1.5"');
+    expect(() => loadRelayConfig(["--max-concurrent-reads=0"], {})).toThrow('Invalid max concurrent reads: "0"');
+    expect(() => loadRelayConfig(["--tls-cert=cert.pem"], {})).toThrow("TLS needs both a certificate and a key");
+  });
+
+  it("only checks the Origin of browser clients when origins are listed", () => {
+    const config = loadRelayConfig(["--allowed-origins=null"], {});
+
+    expect(isOriginAllowed(config, "null")).toBe(true);
+    expect(isOriginAllowed(config, null)).toBe(true);
+    expect(isOriginAllowed(config, "https://evil.example")).toBe(false);
+    expect(isOriginAllowed(loadRelayConfig([], {}), "https://evil.example")).toBe(true);
+  });
+});
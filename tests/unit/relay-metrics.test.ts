@@ -0,0 +1,48 @@
+import { createLatencyHistogram, formatMetrics, observeLatency } from "../../src/relay-metrics";
+
+describe("relay metrics", () => {
+  it("exports known stats as counters and gauges", () => {
+    const output = formatMetrics({
+      stats: { messagesReceived: 12, activeConnections: 2, errors: 0 },
+      channels: [],
+      commandLatency: createLatencyHistogram(),
+      uptimeSeconds: 5,
+    });
+
+    expect(output).toContain("# TYPE figma_relay_messages_received_total counter\nfigma_relay_messages_received_total 12\n");
+    expect(output).toContain("# TYPE figma_relay_active_connections gauge\nfigma_relay_active_connections 2\n");
+    expect(output).toContain("figma_relay_errors_total 0\n");
+    expect(output).toContain("figma_relay_uptime_seconds 5\n");
+    expect(output).not.toContain("blocked_commands_total");
+  });
+
+  it("labels channel gauges and escapes label values", () => {
+    const output = formatMetrics({
+      stats: {},
+      channels: [{ channel: 'odd"name', queueDepth: 3, plugins: 1, agents: 2 }],
+      commandLatency: createLatencyHistogram(),
+      uptimeSeconds: 0,
+    });
+
+    expect(output).toContain('figma_relay_channel_queue_depth{channel="odd\\"name"} 3');
+    expect(output).toContain('figma_relay_channel_plugins{channel="odd\\"name"} 1');
+    expect(output).toContain('figma_relay_channel_agents{channel="odd\\"name"} 2');
+  });
+
+  it("keeps cumulative latency buckets per command", () => {
+    const histogram = createLatencyHistogram([0.1, 1]);
+    observeLatency(histogram, "get_selection", 0.05);
+    observeLatency(histogram, "get_selection", 0.5);
+    observeLatency(histogram, "get_selection", 3);
+    observeLatency(histogram, "export_node_as_image", 0.5);
+
+    const output = formatMetrics({ stats: {}, channels: [], commandLatency: histogram, uptimeSeconds: 0 });
+
+    expect(output).toContain('figma_relay_command_duration_seconds_bucket{command="get_selection",le="0.1"} 1');
+    expect(output).toContain('figma_relay_command_duration_seconds_bucket{command="get_selection",le="1"} 2');
+    expect(output).toContain('figma_relay_command_duration_seconds_bucket{command="get_selection",le="+Inf"} 3');
+    expect(output).toContain('figma_relay_command_duration_seconds_sum{command="get_selection"} 3.55');
+    expect(output).toContain('figma_relay_command_duration_seconds_count{command="get_selection"} 3');
+    expect(output).toContain('figma_relay_command_duration_seconds_count{command="export_node_as_image"} 1');
+  });
+});
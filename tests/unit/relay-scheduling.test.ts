@@ -0,0 +1,36 @@
+import { canDispatch, isReadOnlyCommand, READ_ONLY_COMMANDS } from "../../src/relay-scheduling";
+
+describe("relay scheduling", () => {
+  const read = { command: "get_node_info", params: { nodeId: "1:1" } };
+  const mutation = { command: "set_fill_color", params: { nodeId: "1:1" } };
+
+  it("classifies reads, mutations and batches", () => {
+    expect(isReadOnlyCommand(read)).toBe(true);
+    expect(isReadOnlyCommand({ command: "export_node_as_image" })).toBe(true);
+    expect(isReadOnlyCommand(mutation)).toBe(false);
+    expect(isReadOnlyCommand({ command: "some_future_command" })).toBe(false);
+    expect(isReadOnlyCommand({ command: "execute_batch", params: { steps: [{ command: "get_pages" }, { command: "get_selection" }] } })).toBe(true);
+    expect(isReadOnlyCommand({ command: "execute_batch", params: { steps: [{ command: "get_pages" }, { command: "delete_node" }] } })).toBe(false);
+    expect(isReadOnlyCommand({ command: "execute_batch", params: { steps: [] } })).toBe(false);
+  });
+
+  it("never lists a creation or stateful command as read-only", () => {
+    for (const command of ["create_frame", "delete_node", "restore_node_snapshot", "set_current_page", "execute_batch"]) {
+      expect(READ_ONLY_COMMANDS.has(command)).toBe(false);
+    }
+  });
+
+  it("lets reads overlap up to the limit", () => {
+    expect(canDispatch([], read, 2)).toBe(true);
+    expect(canDispatch([{ readOnly: true }], read, 2)).toBe(true);
+    expect(canDispatch([{ readOnly: true }, { readOnly: true }], read, 2)).toBe(false);
+    expect(canDispatch([{ readOnly: true }], read, 1)).toBe(false);
+  });
+
+  it("runs mutations alone and holds reads back behind them", () => {
+    expect(canDispatch([], mutation, 4)).toBe(true);
+    expect(canDispatch([{ readOnly: true }], mutation, 4)).toBe(false);
+    expect(canDispatch([{ readOnly: false }], read, 4)).toBe(false);
+    expect(canDispatch([{ readOnly: false }], mutation, 4)).toBe(false);
+  });
+});
@@ -0,0 +1,45 @@
+import { affectedResourceUris } from "../../../src/talk_to_figma_mcp/resources";
+import { DocumentEvent } from "../../../src/talk_to_figma_mcp/types";
+
+jest.mock("../../../src/talk_to_figma_mcp/utils/websocket", () => ({
+  sendCommandToFigma: jest.fn(),
+  onDocumentEvent: jest.fn(),
+}));
+
+const event = (changes: Partial<DocumentEvent>): DocumentEvent => ({
+  nodeIds: [],
+  topLevelIds: [],
+  pageIds: [],
+  pages: false,
+  components: false,
+  styles: false,
+  variables: false,
+  timestamp: 0,
+  ...changes,
+});
+
+describe("affectedResourceUris", () => {
+  const subscribed = [
+    "figma://pages",
+    "figma://styles",
+    "figma://variables",
+    "figma://page/0:1",
+    "figma://node/1%3A2",
+    "figma://node/1:3",
+  ];
+
+  it("matches node and page resources by ID, decoding escaped IDs", () => {
+    expect(affectedResourceUris(event({ nodeIds: ["1:2", "4:5"], pageIds: ["0:1"] }), subscribed)).toEqual([
+      "figma://page/0:1",
+      "figma://node/1%3A2",
+    ]);
+  });
+
+  it("matches listing resources by their change flags only", () => {
+    expect(affectedResourceUris(event({ styles: true, pages: true }), subscribed)).toEqual([
+      "figma://pages",
+      "figma://styles",
+    ]);
+    expect(affectedResourceUris(event({ variables: true }), ["figma://components"])).toEqual([]);
+  });
+});
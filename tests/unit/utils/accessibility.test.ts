@@ -0,0 +1,126 @@
+import {
+  auditAccessibility,
+  contrastRatio,
+  isLargeText,
+} from "../../../src/talk_to_figma_mcp/utils/accessibility";
+
+const white = { r: 1, g: 1, b: 1, a: 1 };
+const black = { r: 0, g: 0, b: 0, a: 1 };
+const grey = { r: 0.6, g: 0.6, b: 0.6, a: 1 };
+const box = { x: 0, y: 0, width: 400, height: 400 };
+
+function text(overrides: Record<string, any> = {}) {
+  return {
+    id: "2:1",
+    name: "Label",
+    type: "TEXT",
+    characters: "Hello",
+    style: { fontSize: 16, fontWeight: 400 },
+    fills: [{ type: "SOLID", color: grey }],
+    absoluteBoundingBox: { x: 10, y: 10, width: 100, height: 20 },
+    ...overrides,
+  };
+}
+
+function frame(children: any[], overrides: Record<string, any> = {}) {
+  return { id: "1:1", name: "Screen", type: "FRAME", fills: [{ type: "SOLID", color: white }], absoluteBoundingBox: box, children, ...overrides };
+}
+
+describe("contrast helpers", () => {
+  it("computes WCAG contrast ratios", () => {
+    expect(contrastRatio(black, white)).toBeCloseTo(21, 5);
+    expect(contrastRatio(white, white)).toBe(1);
+  });
+
+  it("treats 24px, or 18.66px bold, as large text", () => {
+    expect(isLargeText(24)).toBe(true);
+    expect(isLargeText(19, 700)).toBe(true);
+    expect(isLargeText(19, 400)).toBe(false);
+  });
+});
+
+describe("auditAccessibility", () => {
+  it("flags text below the AA ratio for its size", () => {
+    const report = auditAccessibility(frame([text()]));
+
+    expect(report.textNodesChecked).toBe(1);
+    expect(report.findings).toEqual([
+      expect.objectContaining({
+        rule: "contrast",
+        nodeId: "2:1",
+        ratio: 2.85,
+        required: 4.5,
+        foreground: "#999999",
+        background: "#ffffff",
+      }),
+    ]);
+  });
+
+  it("uses the large text threshold and the requested level", () => {
+    const large = text({ style: { fontSize: 24, fontWeight: 400 }, fills: [{ type: "SOLID", color: { r: 0.55, g: 0.55, b: 0.55, a: 1 } }] });
+
+    expect(auditAccessibility(frame([large])).findings).toEqual([]);
+    expect(auditAccessibility(frame([large]), { level: "AAA" }).findings[0]).toMatchObject({ rule: "contrast", required: 4.5 });
+  });
+
+  it("composites sibling fills and opacity underneath the text", () => {
+    const card = {
+      id: "1:2",
+      name: "Card",
+      type: "RECTANGLE",
+      fills: [{ type: "SOLID", color: black, opacity: 0.5 }],
+      absoluteBoundingBox: { x: 0, y: 0, width: 200, height: 100 },
+    };
+    const label = text({ fills: [{ type: "SOLID", color: white }] });
+
+    const report = auditAccessibility(frame([card, label]));
+
+    expect(report.findings[0]).toMatchObject({ rule: "contrast", background: "#808080", foreground: "#ffffff" });
+  });
+
+  it("ignores layers painted above the text or not covering it", () => {
+    const small = { id: "1:3", name: "Dot", type: "ELLIPSE", fills: [{ type: "SOLID", color: black }], absoluteBoundingBox: { x: 0, y: 0, width: 4, height: 4 } };
+    const above = { id: "1:4", name: "Overlay", type: "RECTANGLE", fills: [{ type: "SOLID", color: black }], absoluteBoundingBox: box };
+    const label = text({ fills: [{ type: "SOLID", color: black }] });
+
+    expect(auditAccessibility(frame([small, label, above])).findings).toEqual([]);
+  });
+
+  it("asks for a manual check on images", () => {
+    const photo = { id: "1:5", name: "Photo", type: "RECTANGLE", fills: [{ type: "IMAGE" }], absoluteBoundingBox: box };
+
+    const report = auditAccessibility(frame([photo, text()]));
+
+    expect(report.findings.map((finding) => finding.rule)).toEqual(["contrast-unknown"]);
+  });
+
+  it("suggests the nearest passing palette color", () => {
+    const report = auditAccessibility(frame([text()]), {
+      paletteColors: [
+        { name: "Grey/300", color: { r: 0.8, g: 0.8, b: 0.8 } },
+        { name: "Grey/700", color: { r: 0.35, g: 0.35, b: 0.35 } },
+        { name: "Black", color: black },
+      ],
+    });
+
+    expect(report.findings[0].suggestion).toEqual({ name: "Grey/700", color: "#595959", ratio: 6.98 });
+  });
+
+  it("flags small tap targets and small text", () => {
+    const button = {
+      id: "3:1",
+      name: "Button/Primary",
+      type: "INSTANCE",
+      absoluteBoundingBox: { x: 0, y: 0, width: 80, height: 32 },
+      children: [text({ id: "3:2", style: { fontSize: 10 }, fills: [{ type: "SOLID", color: black }] })],
+    };
+
+    const report = auditAccessibility(frame([button]), { minTapTarget: 48 });
+
+    expect(report.tapTargetsChecked).toBe(1);
+    expect(report.findings.map((finding) => [finding.rule, finding.nodeId])).toEqual([
+      ["tap-target", "3:1"],
+      ["text-size", "3:2"],
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { withChannels } from "../../../src/talk_to_figma_mcp/utils/channels";
+
+jest.mock("../../../src/talk_to_figma_mcp/utils/websocket", () => ({
+  resolveChannel: jest.fn(),
+  runInChannel: jest.fn((channel: string, fn: () => unknown) => fn()),
+}));
+
+const websocket = require("../../../src/talk_to_figma_mcp/utils/websocket");
+const mockResolveChannel: jest.Mock = websocket.resolveChannel;
+const mockRunInChannel: jest.Mock = websocket.runInChannel;
+
+describe("withChannels", () => {
+  let registered: Record<string, any[]>;
+  let server: McpServer;
+
+  beforeEach(() => {
+    mockResolveChannel.mockReset();
+    mockRunInChannel.mockClear();
+    registered = {};
+    server = new McpServer({ name: "test-server", version: "1.0.0" }, { capabilities: { tools: {} } });
+    jest.spyOn(server, "tool").mockImplementation((...args: any[]) => {
+      registered[args[0]] = args;
+      return undefined as any;
+    });
+  });
+
+  it("adds channel and fileKey, and runs the handler in the selected channel", async () => {
+    const handler = jest.fn(async () => ({ content: [{ type: "text" as const, text: "done" }] }));
+    withChannels(server).tool("get_selection", "Selection", {}, handler);
+    const [, , shape, wrapped] = registered.get_selection;
+
+    expect(Object.keys(shape)).toEqual(["channel", "fileKey"]);
+
+    mockResolveChannel.mockReturnValueOnce("library");
+    await wrapped({ fileKey: "abc123" }, {});
+    expect(mockResolveChannel).toHaveBeenCalledWith({ channel: undefined, fileKey: "abc123" });
+    expect(mockRunInChannel).toHaveBeenCalledWith("library", expect.any(Function));
+    expect(handler).toHaveBeenLastCalledWith({}, {});
+
+    await wrapped({}, {});
+    expect(mockRunInChannel).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports unknown channels without running the handler", async () => {
+    const handler = jest.fn();
+    withChannels(server).tool("get_selection", "Selection", {}, handler);
+    const [, , , wrapped] = registered.get_selection;
+
+    mockResolveChannel.mockImplementationOnce(() => {
+      throw new Error('Channel "nope" has not been joined. Joined channels: design');
+    });
+    const result = await wrapped({ channel: "nope" }, {});
+
+    expect(result.content[0].text).toBe('Error selecting channel: Channel "nope" has not been joined. Joined channels: design');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("leaves join_channel and channel-independent tools alone", () => {
+    const join = { channel: z.string() };
+    withChannels(server).tool("join_channel", "Join", join, jest.fn());
+    withChannels(server).tool("list_connections", "List", {}, jest.fn());
+
+    expect(registered.join_channel[2]).toBe(join);
+    expect(registered.list_connections[2]).toEqual({});
+  });
+});
@@ -0,0 +1,151 @@
+import { planFixes, collectColorVariables, AutofixSources } from "../../../src/talk_to_figma_mcp/utils/design-autofix";
+import { lintDesign, LintFinding } from "../../../src/talk_to_figma_mcp/utils/design-lint";
+
+const sources: AutofixSources = {
+  colorVariables: [{ id: "VariableID:1", name: "color/brand", color: { r: 1, g: 0, b: 0, a: 1 } }],
+  paintStyles: [{ id: "S:blue", name: "Blue", paint: { type: "SOLID", color: { r: 0, g: 0, b: 1 }, opacity: 1 } }],
+  textStyles: [
+    { id: "S:body", name: "Body", fontSize: 16, fontName: { family: "Inter", style: "Regular" } },
+    { id: "S:body-bold", name: "Body Bold", fontSize: 16, fontName: { family: "Inter", style: "Bold" } },
+  ],
+};
+
+function plan(root: Record<string, any>, options = {}) {
+  return planFixes(root, lintDesign(root).findings, sources, options);
+}
+
+describe("planFixes", () => {
+  it("snaps fills to the nearest variable, or to a paint style when it is the only fill", () => {
+    const root = {
+      id: "1:1", name: "Screen", type: "FRAME", fills: [{ type: "SOLID", color: { r: 0.99, g: 0, b: 0, a: 1 } }],
+      children: [{ id: "1:2", name: "Box", type: "RECTANGLE", fills: [{ type: "SOLID", color: { r: 0, g: 0, b: 0.99, a: 1 } }] }],
+    };
+
+    const { actions, skipped } = plan(root);
+
+    expect(skipped).toEqual([]);
+    expect(actions).toEqual([
+      {
+        rule: "hardcoded-fill", nodeId: "1:1", nodeName: "Screen", property: "fills/0",
+        before: "#fc0000", after: "color/brand (#ff0000)",
+        command: "apply_variable_to_node", params: { nodeId: "1:1", variableId: "VariableID:1", field: "fills/0/color" },
+      },
+      {
+        rule: "hardcoded-fill", nodeId: "1:2", nodeName: "Box", property: "fills",
+        before: "#0000fc", after: "Blue (#0000ff)",
+        command: "set_fill_style_id", params: { nodeId: "1:2", fillStyleId: "S:blue" },
+      },
+    ]);
+  });
+
+  it("skips colors that are too far from every token", () => {
+    const root = { id: "1:1", name: "Screen", type: "FRAME", fills: [{ type: "SOLID", color: { r: 0, g: 1, b: 0, a: 1 } }], children: [{ id: "1:2", name: "x", type: "RECTANGLE" }] };
+
+    const { actions, skipped } = plan(root);
+
+    expect(actions).toEqual([]);
+    expect(skipped[0].reason).toBe("No variable or paint style within 8 of #00ff00");
+  });
+
+  it("skips a fill finding whose paint is missing", () => {
+    const root = { id: "1:1", name: "Screen", type: "FRAME", fills: [] };
+    const finding: LintFinding = {
+      rule: "hardcoded-fill", severity: "warning", nodeId: "1:1", nodeName: "Screen", nodeType: "FRAME", message: "", property: "fills/0",
+    };
+
+    const { actions, skipped } = planFixes(root, [finding], sources);
+
+    expect(actions).toEqual([]);
+    expect(skipped[0].reason).toBe("Fill 0 is missing or has no solid color");
+  });
+
+  it("applies the closest text style of the same family", () => {
+    const root = {
+      id: "1:1", name: "Screen", type: "FRAME", fills: [], children: [
+        { id: "2:1", name: "Title", type: "TEXT", characters: "Hi", style: { fontFamily: "Inter", fontStyle: "Bold", fontSize: 15 } },
+        { id: "2:2", name: "Caption", type: "TEXT", characters: "Hi", style: { fontFamily: "Roboto", fontStyle: "Regular", fontSize: 16 } },
+      ],
+    };
+
+    const { actions, skipped } = plan(root);
+
+    expect(actions).toEqual([
+      {
+        rule: "unstyled-text", nodeId: "2:1", nodeName: "Title", property: "textStyleId",
+        before: "Inter Bold 15px", after: "Body Bold (Inter Bold 16px)",
+        command: "set_text_style_id", params: { nodeId: "2:1", textStyleId: "S:body-bold" },
+      },
+    ]);
+    expect(skipped.map((entry) => entry.nodeId)).toEqual(["2:2"]);
+  });
+
+  it("rounds every off-grid spacing field of a node in one set_auto_layout call", () => {
+    const root = {
+      id: "1:1", name: "Stack", type: "FRAME", fills: [], layoutMode: "VERTICAL",
+      itemSpacing: 13, paddingLeft: 6, counterAxisSpacing: 3, children: [{ id: "1:2", name: "x", type: "RECTANGLE" }],
+    };
+
+    const { actions, skipped } = plan(root, { gridSize: 4 });
+
+    expect(actions).toEqual([
+      {
+        rule: "off-grid-spacing", nodeId: "1:1", nodeName: "Stack", property: "itemSpacing, paddingLeft",
+        before: { itemSpacing: 13, paddingLeft: 6 }, after: { itemSpacing: 12, paddingLeft: 8 },
+        command: "set_auto_layout", params: { nodeId: "1:1", layoutMode: "VERTICAL", itemSpacing: 12, paddingLeft: 8 },
+      },
+    ]);
+    expect(skipped[0].property).toBe("counterAxisSpacing");
+  });
+
+  it("deletes empty text and frames unless they are spacers or still draw something", () => {
+    const root = {
+      id: "1:1", name: "Screen", type: "FRAME", fills: [], children: [
+        { id: "3:1", name: "Placeholder", type: "FRAME", fills: [], strokes: [], children: [] },
+        { id: "3:2", name: "Label", type: "TEXT", characters: "", styles: { text: "S:body" } },
+        { id: "3:3", name: "Glow", type: "FRAME", fills: [], effects: [{ type: "DROP_SHADOW" }], children: [] },
+        { id: "3:4", name: "Padded", type: "FRAME", fills: [], layoutMode: "VERTICAL", paddingTop: 8, children: [] },
+        {
+          id: "3:5", name: "Stack", type: "FRAME", fills: [], layoutMode: "HORIZONTAL", itemSpacing: 8, children: [
+            { id: "3:6", name: "Spacer", type: "FRAME", fills: [], children: [] },
+            { id: "3:7", name: "Badge slot", type: "FRAME", fills: [], layoutPositioning: "ABSOLUTE", children: [] },
+          ],
+        },
+      ],
+    };
+
+    const { actions, skipped } = plan(root);
+
+    expect(actions.map((action) => [action.command, action.nodeId])).toEqual([
+      ["delete_node", "3:1"],
+      ["delete_node", "3:2"],
+      ["delete_node", "3:7"],
+    ]);
+    expect(skipped.map((entry) => [entry.nodeId, entry.reason])).toEqual([
+      ["3:3", "Layer has visible effects"],
+      ["3:4", "Auto-layout frame keeps its padding and size even when empty"],
+      ["3:6", "Layer takes up space in an auto-layout parent and may be a spacer"],
+    ]);
+  });
+});
+
+describe("collectColorVariables", () => {
+  it("resolves aliases in the default mode and ignores other types", () => {
+    const colors = collectColorVariables([
+      {
+        id: "C:1",
+        name: "Tokens",
+        modes: [{ modeId: "1:0", name: "Light" }, { modeId: "1:1", name: "Dark" }],
+        variables: [
+          { id: "V:1", name: "red", resolvedType: "COLOR", valuesByMode: { "1:0": { r: 1, g: 0, b: 0, a: 1 }, "1:1": { r: 0, g: 0, b: 0, a: 1 } } },
+          { id: "V:2", name: "danger", resolvedType: "COLOR", valuesByMode: { "1:0": { type: "VARIABLE_ALIAS", id: "V:1" } } },
+          { id: "V:3", name: "gap", resolvedType: "FLOAT", valuesByMode: { "1:0": 8 } },
+        ],
+      },
+    ]);
+
+    expect(colors).toEqual([
+      { id: "V:1", name: "red", color: { r: 1, g: 0, b: 0, a: 1 } },
+      { id: "V:2", name: "danger", color: { r: 1, g: 0, b: 0, a: 1 } },
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import { lintDesign } from "../../../src/talk_to_figma_mcp/utils/design-lint";
+
+const red = { r: 1, g: 0, b: 0, a: 1 };
+
+function frame(overrides: Record<string, any> = {}) {
+  return { id: "1:1", name: "Screen", type: "FRAME", fills: [], children: [], ...overrides };
+}
+
+describe("lintDesign", () => {
+  it("reports fills that are neither bound nor styled", () => {
+    const root = frame({
+      children: [
+        { id: "1:2", name: "Raw", type: "RECTANGLE", fills: [{ type: "SOLID", color: red }] },
+        { id: "1:3", name: "Styled", type: "RECTANGLE", fills: [{ type: "SOLID", color: red }], styles: { fill: "S:abc" } },
+        { id: "1:4", name: "Bound", type: "RECTANGLE", fills: [{ type: "SOLID", color: red, boundVariables: { color: { id: "VariableID:1" } } }] },
+        { id: "1:5", name: "Image", type: "RECTANGLE", fills: [{ type: "IMAGE" }] },
+      ],
+    });
+
+    const { findings } = lintDesign(root, { rules: ["hardcoded-fill"] });
+
+    expect(findings).toEqual([
+      {
+        rule: "hardcoded-fill",
+        severity: "warning",
+        nodeId: "1:2",
+        nodeName: "Raw",
+        nodeType: "RECTANGLE",
+        message: "Fill #ff0000 is not bound to a variable or paint style",
+        property: "fills/0",
+        value: "#ff0000",
+      },
+    ]);
+  });
+
+  it("reports text without a text style and empty text", () => {
+    const root = frame({
+      children: [
+        { id: "2:1", name: "Title", type: "TEXT", characters: "Hi", style: { fontFamily: "Inter", fontSize: 18 } },
+        { id: "2:2", name: "Body", type: "TEXT", characters: " ", styles: { text: "S:text" } },
+      ],
+    });
+
+    const { findings } = lintDesign(root, { rules: ["unstyled-text", "empty-layer"] });
+
+    expect(findings.map((finding) => [finding.rule, finding.nodeId])).toEqual([
+      ["unstyled-text", "2:1"],
+      ["empty-layer", "2:2"],
+    ]);
+    expect(findings[0].message).toBe("Text has no text style (Inter 18px)");
+  });
+
+  it("checks auto-layout spacing against the configured grid", () => {
+    const root = frame({
+      fills: [{ type: "SOLID", color: red }],
+      layoutMode: "VERTICAL",
+      itemSpacing: 12,
+      paddingLeft: 10,
+      paddingTop: 7,
+      boundVariables: { paddingTop: { id: "VariableID:2" } },
+    });
+
+    expect(lintDesign(root, { rules: ["off-grid-spacing"] }).findings.map((finding) => finding.property)).toEqual(["paddingLeft"]);
+    expect(lintDesign(root, { rules: ["off-grid-spacing"], gridSize: 8 }).findings.map((finding) => finding.property))
+      .toEqual(["itemSpacing", "paddingLeft"]);
+  });
+
+  it("reports detached frames and hidden layers without descending into them", () => {
+    const root = frame({
+      children: [
+        { id: "3:1", name: "Card", type: "FRAME", detachedInfo: { type: "local", componentId: "9:9" }, fills: [{ type: "SOLID", color: red }], children: [{ id: "3:2" }] },
+        { id: "3:3", name: "Old", type: "GROUP", visible: false, children: [{ id: "3:4", name: "x", type: "TEXT", characters: "" }] },
+      ],
+    });
+
+    const report = lintDesign(root, { rules: ["detached-instance", "hidden-layer"] });
+
+    expect(report.findings.map((finding) => [finding.rule, finding.severity, finding.nodeId])).toEqual([
+      ["detached-instance", "error", "3:1"],
+      ["hidden-layer", "info", "3:3"],
+    ]);
+    expect(report.counts).toEqual({ error: 1, warning: 0, info: 1 });
+  });
+
+  it("skips instance internals and applies severity overrides", () => {
+    const root = frame({
+      children: [
+        { id: "4:1", name: "Button", type: "INSTANCE", children: [{ id: "4:2", name: "Label", type: "TEXT", characters: "OK" }] },
+        { id: "4:3", name: "Empty", type: "GROUP", children: [] },
+      ],
+    });
+
+    const report = lintDesign(root, { severities: { "empty-layer": "warning", "unstyled-text": "off" } });
+    expect(report.findings.map((finding) => [finding.rule, finding.severity, finding.nodeId])).toEqual([
+      ["empty-layer", "warning", "4:3"],
+    ]);
+
+    const withInstances = lintDesign(root, { rules: ["unstyled-text"], includeInstanceChildren: true });
+    expect(withInstances.findings.map((finding) => finding.nodeId)).toEqual(["4:2"]);
+  });
+});
@@ -0,0 +1,264 @@
+import {
+  exportDesignTokens,
+  parseDesignTokens,
+  DEFAULT_MODE,
+  FigmaVariableCollection,
+} from "../../../src/talk_to_figma_mcp/utils/design-tokens";
+
+const primitives: FigmaVariableCollection = {
+  id: "VariableCollectionId:1",
+  name: "Primitives",
+  modes: [{ modeId: "1:0", name: "Value" }],
+  variables: [
+    { id: "VariableID:1", name: "color/blue/500", resolvedType: "COLOR", valuesByMode: { "1:0": { r: 0, g: 0.4, b: 1, a: 1 } } },
+    { id: "VariableID:2", name: "color/gray/900", resolvedType: "COLOR", valuesByMode: { "1:0": { r: 0, g: 0, b: 0, a: 0.5 } } },
+    { id: "VariableID:3", name: "radius/md", resolvedType: "FLOAT", scopes: ["CORNER_RADIUS"], valuesByMode: { "1:0": 8 } },
+  ],
+};
+
+const theme: FigmaVariableCollection = {
+  id: "VariableCollectionId:2",
+  name: "Theme",
+  modes: [
+    { modeId: "2:0", name: "Light" },
+    { modeId: "2:1", name: "Dark" },
+  ],
+  variables: [
+    {
+      id: "VariableID:10",
+      name: "surface/primary",
+      resolvedType: "COLOR",
+      description: "Main brand surface",
+      valuesByMode: {
+        "2:0": { type: "VARIABLE_ALIAS", id: "VariableID:1" },
+        "2:1": { type: "VARIABLE_ALIAS", id: "VariableID:2" },
+      },
+    },
+  ],
+};
+
+describe("exportDesignTokens", () => {
+  it("builds a DTCG document with alias references and per-mode values", () => {
+    const { output, tokenCount, warnings } = exportDesignTokens([primitives, theme], "dtcg");
+    const document = JSON.parse(output);
+
+    expect(tokenCount).toBe(4);
+    expect(warnings).toEqual([]);
+    expect(document.Primitives.color.blue["500"]).toEqual({ $type: "color", $value: "#0066ff" });
+    expect(document.Primitives.radius.md).toEqual({ $type: "dimension", $value: "8px" });
+    expect(document.Theme.surface.primary).toEqual({
+      $type: "color",
+      $value: "{Primitives.color.blue.500}",
+      $description: "Main brand surface",
+      $extensions: {
+        "com.figma": {
+          modes: { Light: "{Primitives.color.blue.500}", Dark: "{Primitives.color.gray.900}" },
+        },
+      },
+    });
+  });
+
+  it("resolves aliases to their final values when asked", () => {
+    const { output } = exportDesignTokens([primitives, theme], "dtcg", { resolveAliases: true });
+    const token = JSON.parse(output).Theme.surface.primary;
+
+    expect(token.$value).toBe("#0066ff");
+    expect(token.$extensions["com.figma"].modes.Dark).toBe("#00000080");
+  });
+
+  it("resolves aliases into collections that are filtered out", () => {
+    const dtcg = JSON.parse(exportDesignTokens([primitives, theme], "dtcg", { collections: ["Theme"] }).output);
+    const css = exportDesignTokens([primitives, theme], "css", { collections: ["Theme"] }).output;
+
+    expect(dtcg.Theme.surface.primary.$value).toBe("#0066ff");
+    expect(dtcg.Theme.surface.primary.$extensions["com.figma"].modes).toEqual({ Light: "#0066ff", Dark: "#00000080" });
+    expect(css).toContain("  --surface-primary: #0066ff;");
+    expect(css).not.toContain("var(");
+  });
+
+  it("emits one CSS block per mode with var() references", () => {
+    const { output } = exportDesignTokens([primitives, theme], "css");
+
+    expect(output).toContain(":root {\n  --color-blue-500: #0066ff;\n  --color-gray-900: #00000080;\n  --radius-md: 8px;\n}");
+    expect(output).toContain(":root {\n  --surface-primary: var(--color-blue-500);\n}");
+    expect(output).toContain('[data-theme="dark"] {\n  --surface-primary: var(--color-gray-900);\n}');
+  });
+
+  it("exports numbers scoped to ALL_SCOPES as dimensions", () => {
+    const spacing: FigmaVariableCollection = {
+      id: "VariableCollectionId:4",
+      name: "Spacing",
+      modes: [{ modeId: "4:0", name: "Value" }],
+      variables: [
+        { id: "VariableID:30", name: "space/md", resolvedType: "FLOAT", scopes: ["ALL_SCOPES"], valuesByMode: { "4:0": 16 } },
+        { id: "VariableID:31", name: "opacity/muted", resolvedType: "FLOAT", scopes: ["OPACITY"], valuesByMode: { "4:0": 0.5 } },
+      ],
+    };
+    const { output } = exportDesignTokens([spacing], "css");
+
+    expect(output).toContain("  --space-md: 16px;");
+    expect(output).toContain("  --opacity-muted: 0.5;");
+  });
+
+  it("prefixes CSS names that more than one collection uses", () => {
+    const brand: FigmaVariableCollection = {
+      id: "VariableCollectionId:3",
+      name: "Brand",
+      modes: [{ modeId: "3:0", name: "Value" }],
+      variables: [{ id: "VariableID:20", name: "color/blue/500", resolvedType: "COLOR", valuesByMode: { "3:0": { r: 1, g: 0, b: 0, a: 1 } } }],
+    };
+    const { output } = exportDesignTokens([primitives, theme, brand], "css");
+
+    expect(output).toContain("  --primitives-color-blue-500: #0066ff;");
+    expect(output).toContain("  --brand-color-blue-500: #ff0000;");
+    expect(output).toContain("  --color-gray-900: #00000080;");
+    expect(output).toContain("  --surface-primary: var(--primitives-color-blue-500);");
+  });
+
+  it("emits SCSS maps with resolved values", () => {
+    const { output } = exportDesignTokens([primitives, theme], "scss", { collections: ["Theme"] });
+
+    expect(output).toBe(
+      '$theme-light: (\n  "surface-primary": #0066ff,\n);\n\n$theme-dark: (\n  "surface-primary": #00000080,\n);\n'
+    );
+  });
+
+  it("maps variables to Tailwind theme keys and themed collections to CSS variables", () => {
+    const { output } = exportDesignTokens([primitives, theme], "tailwind");
+    const config = JSON.parse(output.slice(output.indexOf("= ") + 2, output.lastIndexOf(";")));
+
+    expect(config.theme.extend.colors).toEqual({
+      blue: { "500": "#0066ff" },
+      gray: { "900": "#00000080" },
+      surface: { primary: "var(--surface-primary)" },
+    });
+    expect(config.theme.extend.borderRadius).toEqual({ md: "8px" });
+  });
+
+  it("puts unscoped dimensions under spacing and warns about variables without a theme key", () => {
+    const misc: FigmaVariableCollection = {
+      id: "VariableCollectionId:5",
+      name: "Misc",
+      modes: [{ modeId: "5:0", name: "Value" }],
+      variables: [
+        { id: "VariableID:40", name: "space/lg", resolvedType: "FLOAT", scopes: ["ALL_SCOPES"], valuesByMode: { "5:0": 24 } },
+        { id: "VariableID:41", name: "blur/soft", resolvedType: "FLOAT", scopes: ["EFFECT_FLOAT"], valuesByMode: { "5:0": 4 } },
+        { id: "VariableID:42", name: "font/family", resolvedType: "STRING", valuesByMode: { "5:0": "Inter" } },
+      ],
+    };
+    const { output, warnings } = exportDesignTokens([misc], "tailwind");
+    const config = JSON.parse(output.slice(output.indexOf("= ") + 2, output.lastIndexOf(";")));
+
+    expect(config.theme.extend.spacing).toEqual({ space: { lg: "24px" } });
+    expect(warnings).toEqual([
+      "2 variable(s) have no Tailwind theme key for their type or scopes and were skipped: blur/soft, font/family",
+    ]);
+  });
+
+  it("warns about aliases it cannot follow", () => {
+    const orphan: FigmaVariableCollection = {
+      ...theme,
+      variables: [{ ...theme.variables[0], valuesByMode: { "2:0": { type: "VARIABLE_ALIAS", id: "VariableID:404" } } }],
+    };
+    const { output, warnings } = exportDesignTokens([orphan], "dtcg");
+
+    expect(JSON.parse(output).Theme).toEqual({});
+    expect(warnings[0]).toContain("VariableID:404");
+  });
+});
+
+describe("parseDesignTokens", () => {
+  it("reads back an exported DTCG document with its modes and aliases", () => {
+    const { output } = exportDesignTokens([primitives, theme], "dtcg");
+    const { collections, warnings } = parseDesignTokens(JSON.parse(output));
+
+    expect(warnings).toEqual([]);
+    expect(collections.map((collection) => collection.name)).toEqual(["Primitives", "Theme"]);
+    expect(collections[0].variables[2]).toEqual({
+      name: "radius/md",
+      resolvedType: "FLOAT",
+      description: undefined,
+      values: { [DEFAULT_MODE]: 8 },
+    });
+    expect(collections[1].modes).toEqual(["Light", "Dark"]);
+    expect(collections[1].variables[0]).toEqual({
+      name: "surface/primary",
+      resolvedType: "COLOR",
+      description: "Main brand surface",
+      values: {
+        Light: { alias: { collection: "Primitives", name: "color/blue/500" } },
+        Dark: { alias: { collection: "Primitives", name: "color/gray/900" } },
+      },
+    });
+  });
+
+  it("reads Style Dictionary tokens into a single collection and mode", () => {
+    const { collections } = parseDesignTokens(
+      {
+        color: {
+          brand: { value: "rgba(255, 0, 0, 0.5)", type: "color" },
+          link: { value: "{color.brand.value}" },
+        },
+        size: { gutter: { value: "1rem", type: "spacing" } },
+      },
+      { collectionName: "Brand", modeName: "Default" }
+    );
+
+    expect(collections).toHaveLength(1);
+    expect(collections[0].modes).toEqual(["Default"]);
+    expect(collections[0].variables).toEqual([
+      { name: "color/brand", resolvedType: "COLOR", description: undefined, values: { Default: { r: 1, g: 0, b: 0, a: 0.5 } } },
+      { name: "color/link", resolvedType: "COLOR", description: undefined, values: { Default: { alias: { collection: "Brand", name: "color/brand" } } } },
+      { name: "size/gutter", resolvedType: "FLOAT", description: undefined, values: { Default: 16 } },
+    ]);
+  });
+
+  it("infers numbers and words that look like hex without a # as non-colors", () => {
+    const { collections } = parseDesignTokens(
+      {
+        weight: { bold: { value: "400" }, heavy: { value: 900 } },
+        size: { lg: { value: "100" } },
+        font: { display: { value: "Face" }, body: { value: "Inter" } },
+        color: { accent: { value: "#fa0" }, shade: { value: "#00000080" } },
+      },
+      { collectionName: "Base", modeName: "Default" }
+    );
+
+    const types = Object.fromEntries(collections[0].variables.map((variable) => [variable.name, variable.resolvedType]));
+    expect(types).toEqual({
+      "weight/bold": "FLOAT",
+      "weight/heavy": "FLOAT",
+      "size/lg": "FLOAT",
+      "font/display": "STRING",
+      "font/body": "STRING",
+      "color/accent": "COLOR",
+      "color/shade": "COLOR",
+    });
+  });
+
+  it("keeps references to tokens outside the document as paths and inherits group types", () => {
+    const { collections } = parseDesignTokens({
+      Semantic: { $type: "color", danger: { $value: "{Primitives.color.red.500}" } },
+    });
+
+    expect(collections[0].variables[0]).toEqual({
+      name: "danger",
+      resolvedType: "COLOR",
+      description: undefined,
+      values: { [DEFAULT_MODE]: { alias: { path: ["Primitives", "color", "red", "500"] } } },
+    });
+  });
+
+  it("skips composite and invalid tokens with a warning", () => {
+    const { collections, warnings } = parseDesignTokens({
+      Effects: {
+        shadow: { $type: "shadow", $value: { offsetX: "0px" } },
+        width: { $type: "dimension", $value: "50%" },
+      },
+    });
+
+    expect(collections).toEqual([]);
+    expect(warnings).toHaveLength(2);
+    expect(warnings[0]).toContain("Effects/shadow");
+  });
+});
@@ -0,0 +1,121 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  describeChanges,
+  previewToolCall,
+  setDryRun,
+  withDryRun,
+} from "../../../src/talk_to_figma_mcp/utils/dry-run";
+import { captureChange, clearJournal, commitChange } from "../../../src/talk_to_figma_mcp/utils/journal";
+
+jest.mock("../../../src/talk_to_figma_mcp/utils/websocket", () => ({
+  sendCommandToFigma: jest.fn(),
+}));
+
+const mockSendCommand: jest.Mock = require("../../../src/talk_to_figma_mcp/utils/websocket").sendCommandToFigma;
+
+describe("dry-run mode", () => {
+  beforeEach(() => {
+    mockSendCommand.mockReset();
+    setDryRun(false);
+  });
+
+  describe("describeChanges", () => {
+    it("compares the new fill with the current one as hex", () => {
+      const node = { id: "1:2", fills: [{ type: "SOLID", color: "#ffffff" }] };
+      expect(describeChanges("set_fill_color", { nodeId: "1:2", r: 1, g: 0, b: 0 }, node)).toEqual([
+        { nodeId: "1:2", property: "fills", from: "#ffffff", to: "#ff0000" },
+      ]);
+    });
+
+    it("uses local coordinates for moves", () => {
+      const node = { id: "1:2", localPosition: { x: 10, y: 20 } };
+      expect(describeChanges("move_node", { nodeId: "1:2", x: 50, y: 60 }, node)).toEqual([
+        { nodeId: "1:2", property: "x", from: 10, to: 50 },
+        { nodeId: "1:2", property: "y", from: 20, to: 60 },
+      ]);
+    });
+
+    it("falls back to listing every non-target argument", () => {
+      expect(describeChanges("create_frame", { parentId: "0:1", width: 100, name: undefined })).toEqual([
+        { nodeId: undefined, property: "width", from: undefined, to: 100 },
+      ]);
+    });
+  });
+
+  describe("previewToolCall", () => {
+    it("resolves the target node and sends no mutating command", async () => {
+      mockSendCommand.mockResolvedValueOnce({ id: "1:2", name: "Card", type: "FRAME" });
+
+      const result = await previewToolCall("rename_node", { nodeId: "1:2", name: "Hero" });
+
+      expect(mockSendCommand).toHaveBeenCalledTimes(1);
+      expect(mockSendCommand).toHaveBeenCalledWith("get_node_info", { nodeId: "1:2" });
+      expect(result.content[0].text).toBe('[DRY RUN] Would run rename_node on FRAME "Card". Nothing was sent to Figma.');
+      expect(JSON.parse(result.content[1].text).changes).toEqual([
+        { nodeId: "1:2", property: "name", from: "Card", to: "Hero" },
+      ]);
+    });
+
+    it("warns when a target node cannot be resolved", async () => {
+      mockSendCommand.mockRejectedValueOnce(new Error("Node not found"));
+
+      const result = await previewToolCall("delete_node", { nodeId: "9:9" });
+
+      expect(result.content[0].text).toContain("1 target node(s) could not be resolved");
+      expect(JSON.parse(result.content[1].text).targets[0].error).toBe("Node not found");
+    });
+
+    it("previews an undo with the entries the real undo would skip", async () => {
+      clearJournal();
+      const send = jest.fn(async () => ({ name: "A", properties: { name: "A" } }));
+      commitChange(await captureChange("rename_node", { nodeId: "1:1", name: "B" }, send), { id: "1:1" });
+      commitChange(await captureChange("delete_node", { nodeId: "3:3" }, send), { id: "3:3" });
+
+      const result = await previewToolCall("undo_last_changes", { count: 1 });
+
+      expect(mockSendCommand).not.toHaveBeenCalled();
+      expect(result.content[0].text).toBe("[DRY RUN] Would undo 1 change(s) and skip 1 that cannot be undone. Nothing was sent to Figma.");
+      expect(JSON.parse(result.content[1].text).changes.map((change: { property: string; to: unknown }) => [change.property, change.to])).toEqual([
+        ["delete_node", expect.stringMatching(/^\(skipped: /)],
+        ["rename_node", { name: "A" }],
+      ]);
+      clearJournal();
+    });
+  });
+
+  describe("withDryRun", () => {
+    function register() {
+      const server = new McpServer({ name: "test-server", version: "1.0.0" }, { capabilities: { tools: {} } });
+      const handlers: Record<string, Function> = {};
+      jest.spyOn(server, "tool").mockImplementation((...args: any[]) => {
+        handlers[args[0]] = args[args.length - 1];
+        return undefined as any;
+      });
+
+      const realHandler = jest.fn(async () => ({ content: [{ type: "text" as const, text: "done" }] }));
+      const guarded = withDryRun(server);
+      guarded.tool("rename_node", "Rename", {}, realHandler);
+      guarded.tool("get_selection", "Read", {}, realHandler);
+      return { handlers, realHandler };
+    }
+
+    it("runs the real handler while dry-run mode is off", async () => {
+      const { handlers, realHandler } = register();
+      await handlers.rename_node({ nodeId: "1:2", name: "Hero" }, {});
+      expect(realHandler).toHaveBeenCalled();
+    });
+
+    it("previews mutating tools and leaves read tools alone while it is on", async () => {
+      const { handlers, realHandler } = register();
+      setDryRun(true);
+      mockSendCommand.mockResolvedValue({ id: "1:2", name: "Card", type: "FRAME" });
+
+      const preview = await handlers.rename_node({ nodeId: "1:2", name: "Hero" }, {});
+      expect(realHandler).not.toHaveBeenCalled();
+      expect(preview.content[0].text).toMatch(/^\[DRY RUN\]/);
+
+      await handlers.get_selection({}, {});
+      expect(realHandler).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  clearEventLog,
+  getLastSeq,
+  getRecentEvents,
+  recordEvent,
+  waitForEvent,
+} from "../../../src/talk_to_figma_mcp/utils/event-log";
+import { FigmaEvent } from "../../../src/talk_to_figma_mcp/types";
+
+jest.mock("../../../src/talk_to_figma_mcp/utils/websocket", () => ({
+  onFigmaEvent: jest.fn(),
+}));
+
+const edit = (nodeIds: string[], topLevelIds: string[] = []): FigmaEvent => ({
+  type: "documentchange",
+  event: {
+    nodeIds,
+    topLevelIds,
+    pageIds: ["0:1"],
+    pages: false,
+    components: false,
+    styles: false,
+    variables: false,
+    timestamp: 0,
+  },
+});
+
+const select = (...ids: string[]): FigmaEvent => ({
+  type: "selectionchange",
+  event: { pageId: "0:1", nodes: ids.map((id) => ({ id, name: id, type: "FRAME" })), total: ids.length, timestamp: 0 },
+});
+
+describe("event log", () => {
+  beforeEach(() => {
+    clearEventLog();
+  });
+
+  it("filters by sequence, type and node, keeping the newest when over the limit", () => {
+    const start = getLastSeq();
+    recordEvent(edit(["1:5", "1:4"], ["1:2"]), "design");
+    recordEvent(select("1:9"), "design");
+    recordEvent(edit(["3:1"], ["3:0"]), "design");
+
+    expect(getRecentEvents({ since: start }).events.map((event) => event.seq)).toEqual([start + 1, start + 2, start + 3]);
+    expect(getRecentEvents({ since: start + 1 }).events.map((event) => event.type)).toEqual(["selectionchange", "documentchange"]);
+    expect(getRecentEvents({ types: ["selectionchange"] }).events).toHaveLength(1);
+    expect(getRecentEvents({ nodeIds: ["1:2"] }).events.map((event) => event.seq)).toEqual([start + 1]);
+    expect(getRecentEvents({ channel: "library" }).events).toEqual([]);
+    expect(getRecentEvents({ limit: 1 })).toEqual({ events: [expect.objectContaining({ seq: start + 3 })], lastSeq: start + 3 });
+  });
+
+  it("waits for a matching event, or returns one already logged after since", async () => {
+    const start = getLastSeq();
+    const waiting = waitForEvent({ since: start, types: ["selectionchange"] }, 1000, (event) =>
+      event.type === "selectionchange" && event.event.total > 0
+    );
+    recordEvent(select(), "design");
+    recordEvent(edit(["1:1"]), "design");
+    recordEvent(select("1:7"), "design");
+
+    expect(await waiting).toEqual(expect.objectContaining({ seq: start + 3 }));
+    expect(await waitForEvent({ since: start, types: ["selectionchange"] }, 1000)).toEqual(
+      expect.objectContaining({ seq: start + 1 })
+    );
+  });
+
+  it("resolves with null on timeout", async () => {
+    expect(await waitForEvent({ since: getLastSeq() }, 10)).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { htmlToLayoutSpec } from "../../../src/talk_to_figma_mcp/utils/html-import";
+
+// 2×1 transparent PNG
+const PNG = "iVBORw0KGgoAAAANSUhEUgAAAAIAAAABCAYAAAD0In+KAAAAC0lEQVR42mNgQAcAAAkAAfBUuW8AAAAASUVORK5CYII=";
+
+describe("htmlToLayoutSpec", () => {
+  it("maps flexbox to auto layout and block flow to vertical stacks", () => {
+    const { spec, warnings } = htmlToLayoutSpec(`
+      <html>
+        <head>
+          <title>Profile</title>
+          <style>
+            body { font-family: Inter, sans-serif; color: #111; }
+            .card { display: flex; flex-direction: column; gap: 12px; padding: 16px 24px; background: #fff; border: 1px solid #ddd; border-radius: 8px; }
+            .card > .actions { display: flex; justify-content: space-between; align-items: center; }
+            .grow { flex: 1; }
+            h2 { font-size: 20px; }
+          </style>
+        </head>
+        <body>
+          <div class="card" id="card">
+            <h2>Ada <em>Lovelace</em></h2>
+            <div class="actions">
+              <span class="grow">Followers</span>
+              <button style="background-color: rgb(0, 102, 255); color: white; padding: 8px">Follow</button>
+            </div>
+          </div>
+        </body>
+      </html>
+    `, { width: 400 });
+
+    expect(spec).toMatchObject({
+      name: "Profile",
+      layoutMode: "VERTICAL",
+      width: 400,
+      layoutSizingHorizontal: "FIXED",
+      layoutSizingVertical: "HUG",
+    });
+    const card = spec.children![0];
+    expect(card).toMatchObject({
+      key: "card",
+      name: "div#card",
+      layoutMode: "VERTICAL",
+      itemSpacing: 12,
+      paddingTop: 16,
+      paddingRight: 24,
+      fillColor: { r: 1, g: 1, b: 1, a: 1 },
+      strokeWeight: 1,
+      cornerRadius: 8,
+      layoutSizingHorizontal: "FILL",
+      layoutSizingVertical: "HUG",
+      clipsContent: false,
+    });
+
+    const [heading, actions] = card.children!;
+    expect(heading).toMatchObject({
+      type: "text",
+      text: "Ada Lovelace",
+      fontSize: 20,
+      fontWeight: 700,
+      textAutoResize: "HEIGHT",
+      layoutSizingHorizontal: "FILL",
+    });
+    expect(actions).toMatchObject({
+      layoutMode: "HORIZONTAL",
+      primaryAxisAlignItems: "SPACE_BETWEEN",
+      counterAxisAlignItems: "CENTER",
+    });
+
+    const [label, button] = actions.children!;
+    expect(label).toMatchObject({ type: "text", text: "Followers", layoutSizingHorizontal: "FILL" });
+    expect(button).toMatchObject({
+      name: "button",
+      fillColor: { r: 0, g: 0.4, b: 1, a: 1 },
+      paddingLeft: 8,
+      layoutSizingHorizontal: "HUG",
+      children: [{ type: "text", text: "Follow", fontColor: { r: 1, g: 1, b: 1, a: 1 } }],
+    });
+
+    expect(warnings).toEqual(["mixed text styles within a paragraph are flattened to the paragraph's style"]);
+  });
+
+  it("imports data URI images with their intrinsic size and inline SVG verbatim", () => {
+    const svg = '<svg width="24" height="24" viewBox="0 0 24 24"><path d="M0 0h24v24H0z"/></svg>';
+    const { spec } = htmlToLayoutSpec(`
+      <div style="display: flex; gap: 8px">
+        <img src="data:image/png;base64,${PNG}" alt="Avatar">
+        ${svg}
+      </div>
+    `);
+
+    expect(spec.width).toBe(1280);
+    expect(spec.children).toEqual([
+      expect.objectContaining({ type: "image", name: "Avatar", imageData: PNG, width: 2, height: 1, scaleMode: "FILL" }),
+      expect.objectContaining({ type: "svg", svg }),
+    ]);
+  });
+
+  it("resolves custom properties and the cascade by specificity", () => {
+    const { spec } = htmlToLayoutSpec(`
+      <style>
+        :root { --brand: #ff0000; }
+        p { color: var(--accent, blue); }
+        .note { color: var(--brand); }
+        #lead { font-size: 1.5rem; }
+      </style>
+      <p class="note" id="lead">Hello</p>
+    `);
+
+    expect(spec).toMatchObject({ type: "text", key: "lead", fontSize: 24, fontColor: { r: 1, g: 0, b: 0, a: 1 } });
+  });
+
+  it("reports styles it cannot represent once per kind", () => {
+    const { warnings } = htmlToLayoutSpec(`
+      <style>
+        @media (max-width: 600px) { .a { display: none; } }
+        a:hover { color: red; }
+        .a { margin: 8px; box-shadow: 0 1px 2px black; display: grid; }
+      </style>
+      <section>
+        <div class="a">One</div>
+        <div class="a" style="position: absolute">Two</div>
+        <img src="https://example.com/a.png" width="10" height="10">
+        <input type="text">
+      </section>
+    `);
+
+    expect(warnings).toEqual([
+      "CSS @media rules are ignored",
+      'CSS selector "a:hover" is not supported',
+      "margin is not supported; spacing comes from the parent's gap and padding (2 times)",
+      '"box-shadow" is not supported (2 times)',
+      "display: grid is laid out as a vertical stack (2 times)",
+      "position: absolute elements are laid out in flow",
+      "only data URI images are imported; other images become placeholders",
+      "<input> form controls are not imported",
+    ]);
+  });
+});
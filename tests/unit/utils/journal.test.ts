@@ -0,0 +1,160 @@
+import {
+  isJournaledCommand,
+  captureChange,
+  commitChange,
+  listChanges,
+  undoChanges,
+  clearJournal,
+} from "../../../src/talk_to_figma_mcp/utils/journal";
+
+describe("change journal", () => {
+  beforeEach(() => {
+    clearJournal();
+  });
+
+  function makeSender(responses: Record<string, unknown> = {}) {
+    return jest.fn(async (command: string) => {
+      if (command in responses) {
+        const response = responses[command];
+        if (response instanceof Error) throw response;
+        return response;
+      }
+      return {};
+    });
+  }
+
+  describe("isJournaledCommand", () => {
+    it("journals property changes, creations and deletions", () => {
+      expect(isJournaledCommand("set_fill_color")).toBe(true);
+      expect(isJournaledCommand("move_node")).toBe(true);
+      expect(isJournaledCommand("create_frame")).toBe(true);
+      expect(isJournaledCommand("delete_node")).toBe(true);
+      expect(isJournaledCommand("execute_batch")).toBe(true);
+    });
+
+    it("journals every other mutating command, without an inverse", async () => {
+      for (const command of ["group_nodes", "create_page", "set_grid", "set_variable", "set_multiple_text_contents"] as const) {
+        expect(isJournaledCommand(command)).toBe(true);
+      }
+
+      const entry = await captureChange("reorder_node", { nodeId: "1:1", index: 0 }, makeSender());
+      commitChange(entry, {});
+      expect(entry.reversible).toBe(false);
+      expect(entry.note).toContain("cannot revert it");
+      expect(listChanges()[0].command).toBe("reorder_node");
+    });
+
+    it("does not journal read commands", () => {
+      expect(isJournaledCommand("get_node_info")).toBe(false);
+      expect(isJournaledCommand("get_node_snapshot")).toBe(false);
+      expect(isJournaledCommand("restore_node_snapshot")).toBe(false);
+    });
+  });
+
+  it("snapshots the prior state and restores it on undo", async () => {
+    const send = makeSender({
+      get_node_snapshot: { name: "Card", properties: { x: 10, y: 20 } },
+    });
+
+    const entry = await captureChange("move_node", { nodeId: "1:2", x: 50, y: 60, commandId: "abc" }, send);
+    commitChange(entry, { id: "1:2", name: "Card", x: 50, y: 60 });
+
+    expect(send).toHaveBeenCalledWith("get_node_snapshot", { nodeId: "1:2", properties: ["x", "y"] });
+    expect(entry.params).toEqual({ nodeId: "1:2", x: 50, y: 60 });
+    expect(entry.before).toEqual({ x: 10, y: 20 });
+    expect(entry.reversible).toBe(true);
+
+    const reports = await undoChanges(1, send);
+
+    expect(reports).toEqual([{ id: 1, command: "move_node", status: "undone", message: undefined }]);
+    expect(send).toHaveBeenLastCalledWith("restore_node_snapshot", { nodeId: "1:2", properties: { x: 10, y: 20 } });
+    expect(listChanges()).toHaveLength(0);
+    expect(listChanges(50, true)[0].undone).toBe(true);
+  });
+
+  it("snapshots paints and bindings before a variable is applied", async () => {
+    const before = { fills: [{ type: "SOLID", color: { r: 1, g: 0, b: 0 } }], boundVariables: {} };
+    const send = makeSender({ get_node_snapshot: { name: "Button", properties: before } });
+
+    const entry = await captureChange("apply_variable_to_node", { nodeId: "4:4", variableId: "V:1", field: "fills/0/color" }, send);
+    commitChange(entry, { nodeId: "4:4" });
+
+    expect(send).toHaveBeenCalledWith("get_node_snapshot", { nodeId: "4:4", properties: ["fills", "strokes", "boundVariables"] });
+    expect(entry.inverse).toEqual([{ command: "restore_node_snapshot", params: { nodeId: "4:4", properties: before } }]);
+  });
+
+  it("undoes a change in the channel it was made in", async () => {
+    const send = makeSender();
+    const entry = await captureChange("create_frame", { name: "Card" }, send);
+    entry.channel = "library";
+    commitChange(entry, { id: "5:1", name: "Card" });
+
+    await undoChanges(1, send);
+
+    expect(send).toHaveBeenLastCalledWith("delete_node", { nodeId: "5:1" }, undefined, "library");
+  });
+
+  it("undoes creations by deleting the created node", async () => {
+    const send = makeSender();
+    const entry = await captureChange("create_frame", { parentId: "0:1" }, send);
+    commitChange(entry, { id: "5:1", name: "Frame" });
+
+    expect(entry.inverse).toEqual([{ command: "delete_node", params: { nodeId: "5:1" } }]);
+  });
+
+  it("marks deletions as not reversible and skips them on undo", async () => {
+    const send = makeSender({ get_node_info: { name: "Old", type: "FRAME" } });
+    const entry = await captureChange("delete_node", { nodeId: "3:3" }, send);
+    commitChange(entry, { id: "3:3" });
+
+    expect(entry.reversible).toBe(false);
+    expect(entry.before).toEqual({ name: "Old", type: "FRAME" });
+
+    const reports = await undoChanges(1, send);
+    expect(reports[0].status).toBe("skipped");
+  });
+
+  it("does not count or hide irreversible entries when undoing", async () => {
+    const send = makeSender({ get_node_snapshot: { name: "A", properties: { name: "A" } } });
+    commitChange(await captureChange("rename_node", { nodeId: "1:1", name: "B" }, send), { id: "1:1" });
+    commitChange(await captureChange("delete_node", { nodeId: "3:3" }, send), { id: "3:3" });
+
+    const reports = await undoChanges(1, send);
+
+    expect(reports.map((report) => [report.command, report.status])).toEqual([
+      ["delete_node", "skipped"],
+      ["rename_node", "undone"],
+    ]);
+    expect(listChanges().map((entry) => entry.command)).toEqual(["delete_node"]);
+  });
+
+  it("undoes newest first and stops at the first failure", async () => {
+    const send = makeSender({ get_node_snapshot: { name: "A", properties: { name: "A" } } });
+
+    for (const nodeId of ["1:1", "1:2", "1:3"]) {
+      commitChange(await captureChange("rename_node", { nodeId, name: "B" }, send), { id: nodeId });
+    }
+
+    send.mockImplementation(async (command: string, params?: any) => {
+      if (command === "restore_node_snapshot" && params.nodeId === "1:2") {
+        throw new Error("Node not found");
+      }
+      return {};
+    });
+
+    const reports = await undoChanges(Infinity, send);
+
+    expect(reports.map((report) => report.status)).toEqual(["undone", "failed"]);
+    expect(reports[1].message).toBe("Node not found");
+    expect(listChanges().map((entry) => entry.nodeId)).toEqual(["1:2", "1:1"]);
+  });
+
+  it("records an irreversible entry when the prior state cannot be read", async () => {
+    const send = makeSender({ get_node_snapshot: new Error("Node not found") });
+    const entry = await captureChange("set_fill_color", { nodeId: "9:9" }, send);
+    commitChange(entry, {});
+
+    expect(entry.reversible).toBe(false);
+    expect(entry.note).toContain("cannot be undone");
+  });
+});
@@ -0,0 +1,55 @@
+import { layoutSpecNodeSchema, validateLayoutSpec } from "../../../src/talk_to_figma_mcp/utils/layout-spec";
+
+const card = {
+  key: "card",
+  layoutMode: "VERTICAL",
+  itemSpacing: 12,
+  layoutSizingVertical: "HUG",
+  fillColor: { r: 1, g: 1, b: 1 },
+  variables: { itemSpacing: "VariableID:1:2" },
+  children: [
+    { key: "title", type: "text", text: "Hello", fontSize: 20, layoutSizingHorizontal: "FILL" },
+    {
+      key: "actions",
+      layoutMode: "HORIZONTAL",
+      children: [
+        { key: "cta", type: "instance", componentKey: "abc123", componentProperties: { "Label#1:0": "Go", Disabled: false } },
+      ],
+    },
+  ],
+};
+
+describe("layoutSpecNodeSchema", () => {
+  it("parses nested children", () => {
+    const parsed = layoutSpecNodeSchema.parse(card);
+
+    expect(parsed.children?.[1].children?.[0].componentProperties).toEqual({ "Label#1:0": "Go", Disabled: false });
+  });
+
+  it("rejects unknown node types and out-of-range colors deep in the tree", () => {
+    expect(() => layoutSpecNodeSchema.parse({ children: [{ type: "polygon" }] })).toThrow();
+    expect(() => layoutSpecNodeSchema.parse({ children: [{ fillColor: { r: 255, g: 0, b: 0 } }] })).toThrow();
+  });
+});
+
+describe("validateLayoutSpec", () => {
+  it("accepts a well-formed spec", () => {
+    expect(validateLayoutSpec(layoutSpecNodeSchema.parse(card))).toEqual([]);
+  });
+
+  it("reports duplicate keys, instances without a component and children of leaf nodes", () => {
+    const problems = validateLayoutSpec({
+      key: "root",
+      children: [
+        { key: "label", type: "text", text: "A", children: [{ type: "rectangle" }] },
+        { key: "label", type: "instance" },
+      ],
+    });
+
+    expect(problems).toEqual([
+      "spec.children[0]: only frame nodes can have children",
+      "spec.children[1]: key \"label\" is already used by spec.children[0]",
+      "spec.children[1]: instance nodes need a componentKey",
+    ]);
+  });
+});
@@ -0,0 +1,164 @@
+import { generateNativeCode } from "../../../src/talk_to_figma_mcp/utils/native-codegen";
+
+const variables = [
+  {
+    id: "VariableCollectionId:1",
+    name: "Theme",
+    modes: [{ modeId: "1:0", name: "Light" }],
+    variables: [
+      { id: "VariableID:1", name: "color/surface", resolvedType: "COLOR" as const, valuesByMode: { "1:0": { r: 1, g: 1, b: 1, a: 1 } } },
+      { id: "VariableID:2", name: "space/md", resolvedType: "FLOAT" as const, valuesByMode: { "1:0": 16 } },
+    ],
+  },
+];
+
+function card() {
+  return {
+    id: "1:1",
+    name: "Profile Card",
+    type: "FRAME",
+    layoutMode: "VERTICAL",
+    primaryAxisSizingMode: "AUTO",
+    counterAxisSizingMode: "FIXED",
+    counterAxisAlignItems: "CENTER",
+    itemSpacing: 16,
+    paddingTop: 24,
+    paddingRight: 24,
+    paddingBottom: 24,
+    paddingLeft: 24,
+    cornerRadius: 8,
+    boundVariables: { itemSpacing: { type: "VARIABLE_ALIAS", id: "VariableID:2" } },
+    fills: [{ type: "SOLID", color: { r: 1, g: 1, b: 1, a: 1 }, boundVariables: { color: { type: "VARIABLE_ALIAS", id: "VariableID:1" } } }],
+    effects: [{ type: "DROP_SHADOW", visible: true, color: { r: 0, g: 0, b: 0, a: 0.25 }, offset: { x: 0, y: 4 }, radius: 8 }],
+    absoluteBoundingBox: { x: 0, y: 0, width: 320, height: 200 },
+    children: [
+      {
+        id: "1:2",
+        name: "Title",
+        type: "TEXT",
+        characters: "Ada Lovelace",
+        fills: [{ type: "SOLID", color: { r: 0.1, g: 0.1, b: 0.1, a: 1 } }],
+        style: { fontFamily: "Inter", fontSize: 18, fontWeight: 700, textAutoResize: "WIDTH_AND_HEIGHT" },
+        absoluteBoundingBox: { x: 24, y: 24, width: 120, height: 22 },
+      },
+      {
+        id: "1:3",
+        name: "Button",
+        type: "INSTANCE",
+        layoutAlign: "STRETCH",
+        componentProperties: {
+          Size: { type: "VARIANT", value: "Large" },
+          "Label#12:0": { type: "TEXT", value: "Follow" },
+        },
+        absoluteBoundingBox: { x: 24, y: 62, width: 272, height: 40 },
+      },
+    ],
+  };
+}
+
+describe("generateNativeCode", () => {
+  it("generates a SwiftUI view with theme tokens for bound values", () => {
+    const { files, components } = generateNativeCode(card(), { platform: "swiftui", variables });
+
+    expect(components).toEqual(["Button"]);
+    expect(files.map((file) => file.path)).toEqual(["ProfileCard.swift", "Theme.swift"]);
+    expect(files[0].content).toBe([
+      "import SwiftUI",
+      "",
+      "struct ProfileCard: View {",
+      "    var body: some View {",
+      "        VStack(spacing: Theme.spaceMd) {",
+      '            Text("Ada Lovelace")',
+      '                .font(.custom("Inter", size: 18))',
+      "                .fontWeight(.bold)",
+      "                .foregroundStyle(Color(red: 0.1, green: 0.1, blue: 0.1))",
+      '            Button(size: .large, label: "Follow")',
+      "                .frame(maxWidth: .infinity, height: 40)",
+      "        }",
+      "            .padding(24)",
+      "            .frame(width: 320, alignment: .top)",
+      "            .background(Theme.colorSurface, in: RoundedRectangle(cornerRadius: 8))",
+      "            .shadow(color: Color(red: 0, green: 0, blue: 0).opacity(0.25), radius: 4, x: 0, y: 4)",
+      "    }",
+      "}",
+      "",
+    ].join("\n"));
+    expect(files[1].content).toBe([
+      "import SwiftUI",
+      "",
+      "enum Theme {",
+      "    static let spaceMd: CGFloat = 16",
+      "    static let colorSurface = Color(red: 1, green: 1, blue: 1)",
+      "}",
+      "",
+    ].join("\n"));
+  });
+
+  it("generates a Compose composable with a modifier chain and arrangement", () => {
+    const { files, warnings } = generateNativeCode(card(), { platform: "compose", variables, componentName: "Card" });
+
+    const source = files[0].content;
+    expect(files.map((file) => file.path)).toEqual(["Card.kt", "Theme.kt"]);
+    expect(source).toContain([
+      "@Composable",
+      "fun Card(modifier: Modifier = Modifier) {",
+      "    Column(",
+      "        modifier = modifier",
+      "            .width(320.dp)",
+      "            .shadow(elevation = 4.dp, shape = RoundedCornerShape(8.dp), spotColor = Color(0x40000000))",
+      "            .background(Theme.colorSurface, RoundedCornerShape(8.dp))",
+      "            .padding(24.dp),",
+      "        verticalArrangement = Arrangement.spacedBy(Theme.spaceMd),",
+      "        horizontalAlignment = Alignment.CenterHorizontally,",
+      "    ) {",
+      "        Text(",
+      '            text = "Ada Lovelace",',
+      "            color = Color(0xFF1A1A1A),",
+      "            fontSize = 18.sp,",
+      "            fontWeight = FontWeight.Bold,",
+      "        )",
+      "        Button(",
+      "            size = ButtonSize.Large,",
+      '            label = "Follow",',
+      "            modifier = Modifier",
+      "                .fillMaxWidth()",
+      "                .height(40.dp),",
+      "        )",
+      "    }",
+      "}",
+    ].join("\n"));
+    expect(files[1].content).toContain("    val colorSurface = Color(0xFFFFFFFF)\n");
+    expect(warnings).toEqual(["Font families are not set; add them as font resources and pass fontFamily: Inter"]);
+  });
+
+  it("uses literals without variables and offsets children of plain frames", () => {
+    const root = {
+      id: "2:1",
+      name: "Hero",
+      type: "FRAME",
+      absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 300 },
+      children: [
+        {
+          id: "2:2",
+          name: "Badge",
+          type: "ELLIPSE",
+          fills: [{ type: "SOLID", color: { r: 1, g: 0, b: 0, a: 1 } }],
+          absoluteBoundingBox: { x: 10, y: 20, width: 24, height: 24 },
+        },
+      ],
+    };
+
+    const { files } = generateNativeCode(root, { platform: "swiftui" });
+
+    expect(files).toHaveLength(1);
+    expect(files[0].content).toContain([
+      "        ZStack(alignment: .topLeading) {",
+      "            Ellipse()",
+      "                .fill(Color(red: 1, green: 0, blue: 0))",
+      "                .frame(width: 24, height: 24)",
+      "                .offset(x: 10, y: 20)",
+      "        }",
+      "            .frame(width: 400, height: 300, alignment: .topLeading)",
+    ].join("\n"));
+  });
+});
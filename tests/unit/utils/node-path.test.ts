@@ -0,0 +1,142 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  isNodeId,
+  parseNodePath,
+  resolveNodeReferences,
+  withNodePaths,
+} from "../../../src/talk_to_figma_mcp/utils/node-path";
+
+jest.mock("../../../src/talk_to_figma_mcp/utils/websocket", () => ({
+  sendCommandToFigma: jest.fn(),
+}));
+
+const mockSendCommand: jest.Mock = require("../../../src/talk_to_figma_mcp/utils/websocket").sendCommandToFigma;
+
+const match = (id: string, path: string) => ({ matches: [{ id, type: "FRAME", path }], total: 1 });
+
+describe("node paths", () => {
+  beforeEach(() => {
+    mockSendCommand.mockReset();
+  });
+
+  describe("isNodeId", () => {
+    it.each(["12:345", "I12:345;67:89"])("accepts %s", (id) => {
+      expect(isNodeId(id)).toBe(true);
+    });
+
+    it.each(["Checkout/Header", "12:345/Title", "Frame 1"])("rejects %s", (path) => {
+      expect(isNodeId(path)).toBe(false);
+    });
+  });
+
+  describe("parseNodePath", () => {
+    it("splits slash paths and keeps escaped slashes in names", () => {
+      expect(parseNodePath("Checkout/Header\\/Nav/text:Title")).toEqual([
+        { name: "Checkout" },
+        { name: "Header/Nav" },
+        { type: "TEXT", name: "Title" },
+      ]);
+    });
+
+    it("splits on > when present and only treats node types as prefixes", () => {
+      expect(parseNodePath("page:Mobile > frame:Login > Step 1: Email / Phone")).toEqual([
+        { type: "PAGE", name: "Mobile" },
+        { type: "FRAME", name: "Login" },
+        { name: "Step 1: Email / Phone" },
+      ]);
+    });
+
+    it("reads back the escaped paths the plugin returns", () => {
+      // getNodePath in the plugin escapes "\\", "/" and ">" in each layer name
+      const names = ["Home", "Breadcrumb > Item", "a/b \\ c"];
+      const path = names.map((name) => name.replace(/\\/g, "\\\\").replace(/\//g, "\\/").replace(/>/g, "\\>")).join("/");
+
+      expect(path).toBe("Home/Breadcrumb \\> Item/a\\/b \\\\ c");
+      expect(parseNodePath(path)).toEqual(names.map((name) => ({ name })));
+    });
+
+    it("rejects empty segments", () => {
+      expect(() => parseNodePath("Checkout//Title")).toThrow('Invalid node path "Checkout//Title": segment 2 is empty');
+    });
+  });
+
+  describe("resolveNodeReferences", () => {
+    it("resolves paths in one round trip and leaves IDs and batch references alone", async () => {
+      mockSendCommand.mockResolvedValueOnce({
+        results: [match("1:2", "Checkout/Header"), match("1:3", "Checkout/Footer")],
+      });
+
+      const args = await resolveNodeReferences({
+        parentId: "Checkout/Header",
+        nodeIds: ["4:5", "Checkout/Footer", "Checkout/Header"],
+        steps: [{ command: "move_node", params: { nodeId: "$step1.id" } }],
+      });
+
+      expect(mockSendCommand).toHaveBeenCalledTimes(1);
+      expect(mockSendCommand).toHaveBeenCalledWith("resolve_node_paths", {
+        paths: [[{ name: "Checkout" }, { name: "Header" }], [{ name: "Checkout" }, { name: "Footer" }]],
+      });
+      expect(args).toEqual({
+        parentId: "1:2",
+        nodeIds: ["4:5", "1:3", "1:2"],
+        steps: [{ command: "move_node", params: { nodeId: "$step1.id" } }],
+      });
+    });
+
+    it("does not contact Figma when every reference is an ID", async () => {
+      const args = { nodeId: "1:2", text: [{ nodeId: "I1:2;3:4", text: "Hi" }] };
+
+      expect(await resolveNodeReferences(args)).toBe(args);
+      expect(mockSendCommand).not.toHaveBeenCalled();
+    });
+
+    it("explains ambiguous paths and paths that match nothing", async () => {
+      mockSendCommand.mockResolvedValueOnce({
+        results: [{
+          matches: [{ id: "1:2", type: "TEXT", path: "Home/Card/Title" }, { id: "1:7", type: "TEXT", path: "Home/Card/Title" }],
+          total: 3,
+        }],
+      });
+      await expect(resolveNodeReferences({ nodeId: "Home/Card/Title" })).rejects.toThrow(
+        'Node path "Home/Card/Title" is ambiguous: it matches 3 nodes: 1:2 (Home/Card/Title), 1:7 (Home/Card/Title) and 1 more.'
+      );
+
+      mockSendCommand.mockResolvedValueOnce({
+        results: [{ matches: [], total: 0, missingAt: 2, parentPath: "Home/Card", siblingNames: ["Title", "Body"] }],
+      });
+      await expect(resolveNodeReferences({ nodeId: "Home/Card/Titel" })).rejects.toThrow(
+        'Node path "Home/Card/Titel" matches nothing: no child "Titel" under "Home/Card" (children: Title, Body)'
+      );
+    });
+  });
+
+  describe("withNodePaths", () => {
+    it("resolves paths before the handler runs and documents the path syntax", async () => {
+      const server = new McpServer({ name: "test-server", version: "1.0.0" }, { capabilities: { tools: {} } });
+      let registered: any[] = [];
+      jest.spyOn(server, "tool").mockImplementation((...args: any[]) => {
+        registered = args;
+        return undefined as any;
+      });
+      const handler = jest.fn(async () => ({ content: [{ type: "text" as const, text: "done" }] }));
+
+      withNodePaths(server).tool("rename_node", "Rename", { nodeId: z.string().describe("ID of the node"), name: z.string() }, handler);
+      const [, , shape, wrapped] = registered;
+
+      expect(shape.nodeId.description).toMatch(/^ID of the node\. Also accepts a layer path/);
+      expect(shape.name.description).toBeUndefined();
+
+      mockSendCommand.mockResolvedValueOnce({ results: [match("1:2", "Home/Card")] });
+      await wrapped({ nodeId: "Home/Card", name: "Hero" }, {});
+      expect(handler).toHaveBeenCalledWith({ nodeId: "1:2", name: "Hero" }, {});
+
+      mockSendCommand.mockResolvedValueOnce({ results: [{ matches: [], total: 0, missingAt: 0 }] });
+      const result = await wrapped({ nodeId: "Nowhere", name: "Hero" }, {});
+      expect(result.content[0].text).toBe(
+        'Error resolving node path: Node path "Nowhere" matches nothing: there is no page or top-level layer on the current page named "Nowhere"'
+      );
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { globToRegExp, parseNodeQuery, queryStartsAtPage } from "../../../src/talk_to_figma_mcp/utils/node-query";
+
+describe("globToRegExp", () => {
+  it("anchors the pattern and escapes everything but the wildcards", () => {
+    expect(globToRegExp("Card (v?)*")).toBe("^Card \\(v.\\).*$");
+  });
+});
+
+describe("parseNodeQuery", () => {
+  it("compiles types, filters and ancestry combinators", () => {
+    const query = parseNodeQuery('page[name="Checkout"] FRAME > INSTANCE[component=Button][text*=\'Cancel\']');
+
+    expect(query.selectors).toEqual([[
+      { type: "PAGE", filters: [{ attribute: "name", pattern: { source: "^Checkout$", flags: "i" }, negate: false }] },
+      { type: "FRAME", filters: [], combinator: "descendant" },
+      {
+        type: "INSTANCE",
+        combinator: "child",
+        filters: [
+          { attribute: "component", pattern: { source: "^Button$", flags: "i" }, negate: false },
+          { attribute: "text", pattern: { source: "Cancel", flags: "i" }, negate: false },
+        ],
+      },
+    ]]);
+    expect(queryStartsAtPage(query)).toBe(true);
+  });
+
+  it("parses regexes, numbers, colors, booleans and alternatives", () => {
+    const query = parseNodeQuery("*[name=/^icon\\/.+$/][width>=24][fill=#f00], TEXT[visible][locked!=true]");
+
+    expect(query.selectors).toEqual([
+      [{
+        filters: [
+          { attribute: "name", pattern: { source: "^icon/.+$", flags: "" }, negate: false },
+          { attribute: "width", op: ">=", value: 24 },
+          { attribute: "fill", color: "#ff0000", negate: false },
+        ],
+      }],
+      [{
+        type: "TEXT",
+        filters: [
+          { attribute: "visible", value: true },
+          { attribute: "locked", value: false },
+        ],
+      }],
+    ]);
+    expect(queryStartsAtPage(query)).toBe(false);
+  });
+
+  it.each([
+    ["BUTTON", 'Invalid selector at position 7: unknown node type "BUTTON"'],
+    ["FRAME[colour=red]", 'Invalid selector at position 7: unknown attribute "colour" (expected one of id, name, component, componentKey, text, style, variable, width, height, x, y, fill, visible, locked)'],
+    ["FRAME[width*=10]", 'Invalid selector at position 7: "*=" cannot be used with width'],
+    ["TEXT[name=\"Title]", "Invalid selector at position 18: unterminated string"],
+    ["FRAME >", "Invalid selector at position 8: expected a node type, * or [filter]"],
+    ["TEXT[name=/(/]", "Invalid selector at position 14: invalid regex /(/: Invalid regular expression: /(/: Unterminated group"],
+  ])("rejects %s", (selector, message) => {
+    expect(() => parseNodeQuery(selector)).toThrow(message);
+  });
+});
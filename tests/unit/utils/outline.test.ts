@@ -0,0 +1,87 @@
+import { buildOutline, OutlineNode, parseOutlineCursor } from "../../../src/talk_to_figma_mcp/utils/outline";
+
+const card = (index: number): OutlineNode => ({
+  id: `2:${index}`,
+  name: "Card",
+  type: "INSTANCE",
+  width: 320,
+  height: 200,
+  component: "Card",
+  childCount: 3,
+});
+
+const page: OutlineNode = {
+  id: "1:1",
+  name: "Checkout",
+  type: "FRAME",
+  width: 1440,
+  height: 900,
+  childCount: 4,
+  children: [
+    { id: "1:2", name: "Title", type: "TEXT", width: 320, height: 32, text: "Welcome\nback", childCount: 0 },
+    {
+      id: "1:3",
+      name: "Cards",
+      type: "FRAME",
+      width: 1440,
+      height: 600,
+      childCount: 12,
+      children: Array.from({ length: 12 }, (_, index) => card(index)),
+    },
+    { id: "1:4", name: "Logo", type: "GROUP", width: 96, height: 24, childCount: 3, vectorCount: 14 },
+    { id: "1:5", name: "Footer", type: "FRAME", width: 1440, height: 120, childCount: 8 },
+  ],
+};
+
+describe("buildOutline", () => {
+  it("collapses repeated siblings, summarizes vector subtrees and leaves cursors on elided branches", () => {
+    const outline = buildOutline(page, { maxChars: 10000 });
+
+    expect(outline.text).toBe([
+      'FRAME "Checkout" 1440×900 [1:1]',
+      '  TEXT "Title" 320×32 [1:2] "Welcome back"',
+      '  FRAME "Cards" 1440×600 [1:3]',
+      '    12× INSTANCE "Card" 320×200 <Card> [2:0 … 2:11] (cursor: 1:3#0-11)',
+      '  GROUP "Logo" 96×24 [1:4] — 14 vector layers',
+      '  FRAME "Footer" 1440×120 [1:5] … 8 children (cursor: 1:5)',
+    ].join("\n"));
+    expect(outline.shownNodes).toBe(17);
+    expect(outline.cursors).toEqual(["1:3#0-11", "1:5"]);
+  });
+
+  it("fills the budget breadth-first and elides what does not fit", () => {
+    const outline = buildOutline(page, { maxChars: 200 });
+
+    expect(outline.text).toBe([
+      'FRAME "Checkout" 1440×900 [1:1]',
+      '  TEXT "Title" 320×32 [1:2] "Welcome back"',
+      '  FRAME "Cards" 1440×600 [1:3] … 12 children (cursor: 1:3)',
+      "  … 2 more (cursor: 1:1#2-3)",
+    ].join("\n"));
+    expect(outline.text.length).toBeLessThanOrEqual(200);
+  });
+
+  it("lists a requested range one by one and numbers its elided children from the range start", () => {
+    const range: OutlineNode = { ...page.children![1], childOffset: 4, children: [card(4), card(5), card(6)] };
+
+    expect(buildOutline(range, { maxChars: 10000 }).text).toBe([
+      'FRAME "Cards" 1440×600 [1:3]',
+      '  INSTANCE "Card" 320×200 <Card> [2:4] … 3 children (cursor: 2:4)',
+      '  INSTANCE "Card" 320×200 <Card> [2:5] … 3 children (cursor: 2:5)',
+      '  INSTANCE "Card" 320×200 <Card> [2:6] … 3 children (cursor: 2:6)',
+    ].join("\n"));
+    expect(buildOutline(range, { maxChars: 150 }).text).toBe([
+      'FRAME "Cards" 1440×600 [1:3]',
+      '  INSTANCE "Card" 320×200 <Card> [2:4] … 3 children (cursor: 2:4)',
+      "  … 2 more (cursor: 1:3#5-6)",
+    ].join("\n"));
+  });
+});
+
+describe("parseOutlineCursor", () => {
+  it("reads node and range cursors", () => {
+    expect(parseOutlineCursor("1:3")).toEqual({ nodeId: "1:3" });
+    expect(parseOutlineCursor("I1:3;4:5#2-9")).toEqual({ nodeId: "I1:3;4:5", range: { start: 2, end: 9 } });
+    expect(() => parseOutlineCursor("1:3#9-2")).toThrow("Invalid outline cursor: 1:3#9-2");
+  });
+});
@@ -0,0 +1,44 @@
+import { fetchAllPages } from "../../../src/talk_to_figma_mcp/utils/pagination";
+
+jest.mock("../../../src/talk_to_figma_mcp/utils/websocket", () => ({
+  sendCommandToFigma: jest.fn(),
+}));
+
+const mockSendCommand: jest.Mock = require("../../../src/talk_to_figma_mcp/utils/websocket").sendCommandToFigma;
+
+describe("fetchAllPages", () => {
+  beforeEach(() => {
+    mockSendCommand.mockReset();
+  });
+
+  it("follows nextCursor and merges collections that span pages", async () => {
+    mockSendCommand
+      .mockResolvedValueOnce({
+        collections: [{ id: "C:1", name: "Brand", variables: [{ id: "V:1" }, { id: "V:2" }] }],
+        total: 4,
+        nextCursor: "2",
+      })
+      .mockResolvedValueOnce({
+        collections: [
+          { id: "C:1", name: "Brand", variables: [{ id: "V:3" }] },
+          { id: "C:2", name: "Spacing", variables: [{ id: "V:4" }] },
+        ],
+        total: 4,
+        nextCursor: null,
+      });
+
+    const result = await fetchAllPages("get_variables", { resolvedType: "COLOR" });
+
+    expect(mockSendCommand.mock.calls).toEqual([
+      ["get_variables", { resolvedType: "COLOR", cursor: undefined }],
+      ["get_variables", { resolvedType: "COLOR", cursor: "2" }],
+    ]);
+    expect(result).toEqual({
+      collections: [
+        { id: "C:1", name: "Brand", variables: [{ id: "V:1" }, { id: "V:2" }, { id: "V:3" }] },
+        { id: "C:2", name: "Spacing", variables: [{ id: "V:4" }] },
+      ],
+      total: 4,
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { generateReactCode, toTailwindClasses } from "../../../src/talk_to_figma_mcp/utils/react-codegen";
+
+const white = { r: 1, g: 1, b: 1, a: 1 };
+const dark = { r: 0.1, g: 0.1, b: 0.1, a: 1 };
+
+function card(overrides: Record<string, any> = {}) {
+  return {
+    id: "1:1",
+    name: "Profile Card",
+    type: "FRAME",
+    layoutMode: "VERTICAL",
+    primaryAxisSizingMode: "AUTO",
+    counterAxisSizingMode: "FIXED",
+    itemSpacing: 16,
+    paddingTop: 24,
+    paddingRight: 24,
+    paddingBottom: 24,
+    paddingLeft: 24,
+    cornerRadius: 8,
+    fills: [{ type: "SOLID", color: white }],
+    effects: [{ type: "DROP_SHADOW", visible: true, color: { r: 0, g: 0, b: 0, a: 0.25 }, offset: { x: 0, y: 4 }, radius: 8 }],
+    absoluteBoundingBox: { x: 100, y: 100, width: 320, height: 200 },
+    children: [
+      {
+        id: "1:2",
+        name: "Title",
+        type: "TEXT",
+        characters: "Ada Lovelace",
+        fills: [{ type: "SOLID", color: dark }],
+        style: { fontFamily: "Inter", fontSize: 18, fontWeight: 700, textAutoResize: "WIDTH_AND_HEIGHT" },
+        absoluteBoundingBox: { x: 124, y: 124, width: 120, height: 22 },
+      },
+      {
+        id: "1:3",
+        name: "Button",
+        type: "INSTANCE",
+        layoutAlign: "STRETCH",
+        componentProperties: {
+          Size: { type: "VARIANT", value: "Large" },
+          Disabled: { type: "VARIANT", value: "False" },
+          "Label#12:0": { type: "TEXT", value: "Follow" },
+          "Show icon#12:1": { type: "BOOLEAN", value: true },
+        },
+        absoluteBoundingBox: { x: 124, y: 162, width: 272, height: 40 },
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe("toTailwindClasses", () => {
+  it("uses theme values where they match and arbitrary values otherwise", () => {
+    expect(toTailwindClasses({
+      gap: "16px",
+      padding: "8px 12px 8px 12px",
+      width: "13px",
+      "font-size": "14px",
+      "border-radius": "50%",
+      "mix-blend-mode": "multiply",
+    })).toEqual(["gap-4", "py-2", "px-3", "w-[13px]", "text-sm", "rounded-full", "[mix-blend-mode:multiply]"]);
+  });
+});
+
+describe("generateReactCode", () => {
+  it("maps auto layout to flexbox with Tailwind classes and instances to component usages", () => {
+    const { files, components } = generateReactCode(card());
+
+    expect(components).toEqual(["Button"]);
+    expect(files).toHaveLength(1);
+    expect(files[0].path).toBe("ProfileCard.tsx");
+    expect(files[0].content).toBe([
+      'import { Button } from "./Button";',
+      "",
+      "export function ProfileCard() {",
+      "  return (",
+      '    <div className="flex flex-col gap-4 items-start p-6 w-80 bg-[#ffffff] rounded-lg shadow-[0px_4px_8px_0px_#00000040]">',
+      '      <p className="text-[#1a1a1a] font-[\'Inter\'] text-lg font-bold">Ada Lovelace</p>',
+      '      <Button size="Large" disabled={false} label="Follow" showIcon className="self-stretch h-10" />',
+      "    </div>",
+      "  );",
+      "}",
+      "",
+    ].join("\n"));
+  });
+
+  it("writes a CSS module and positions children of frames without auto layout", () => {
+    const root = {
+      id: "2:1",
+      name: "Hero",
+      type: "FRAME",
+      clipsContent: true,
+      absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 300 },
+      children: [
+        {
+          id: "2:2",
+          name: "Badge",
+          type: "ELLIPSE",
+          fills: [{ type: "SOLID", color: dark, opacity: 0.5 }],
+          absoluteBoundingBox: { x: 10, y: 20, width: 24, height: 24 },
+        },
+        {
+          id: "2:3",
+          name: "Logo",
+          type: "VECTOR",
+          absoluteBoundingBox: { x: 50, y: 20, width: 24, height: 24 },
+        },
+      ],
+    };
+
+    const { files, warnings } = generateReactCode(root, { styling: "css-modules", componentName: "landing hero" });
+
+    expect(files.map((file) => file.path)).toEqual(["LandingHero.tsx", "LandingHero.module.css"]);
+    expect(files[0].content).toContain('import styles from "./LandingHero.module.css";');
+    expect(files[0].content).toContain("<div className={styles.badge} />");
+    expect(files[1].content).toContain(".badge {\n  position: absolute;\n  left: 10px;\n  top: 20px;\n  width: 24px;\n  height: 24px;\n  background-color: #1a1a1a80;\n  border-radius: 50%;\n}");
+    expect(files[1].content).toContain(".hero {\n  position: relative;\n  width: 400px;\n  height: 300px;\n  overflow: hidden;\n}");
+    expect(warnings).toEqual(['"Logo" (2:3) is a vector; export it with get_svg and replace the placeholder']);
+  });
+
+  it("escapes text that is not valid JSX", () => {
+    const root = card({ children: [{ id: "3:1", name: "Code", type: "TEXT", characters: "{a} < b", fills: [] }] });
+
+    expect(generateReactCode(root).files[0].content).toContain('<p>{"{a} < b"}</p>');
+  });
+});